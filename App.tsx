@@ -1,8 +1,23 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { ProjectGroup, Meeting, NoteRow } from './types';
-import { INITIAL_DATA } from './constants';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ProjectGroup, ProjectDetails, Meeting, NoteRow, QuarantinedDocument, ActionItem, MeetingTemplate, PracticeSettings, ImageSettings, SyncConfig } from './types';
+import { DEFAULT_IMAGE_SETTINGS, EMPTY_PRACTICE_SETTINGS, INITIAL_DATA } from './constants';
 import MeetingView from './components/MeetingView';
+import QuarantinePanel from './components/QuarantinePanel';
+import ActionsView from './components/ActionsView';
+import TemplatesView from './components/TemplatesView';
+import SettingsView from './components/SettingsView';
+import NewMeetingDialog from './components/NewMeetingDialog';
+import SearchResults from './components/SearchResults';
+import ImportConflictDialog from './components/ImportConflictDialog';
+import SyncConflictDialog from './components/SyncConflictDialog';
+import { downloadProjectArchive, readProjectArchive, findArchiveConflicts, cloneProjectWithNewIds, mergeProjects, ArchiveConflicts } from './services/archive';
+import { createSearchIndex, SearchResult } from './services/searchIndex';
+import { buildMeeting, buildNextMeetingInSeries, removeMeetingFromSeries } from './utils/meetings';
+import { loadProjects, persistProjectChanges, listQuarantined, discardQuarantined, loadTemplates, saveTemplate, deleteTemplate, loadPracticeSettings, savePracticeSettings, loadImageSettings, saveImageSettings, StorageError } from './services/storage';
+import { CURRENT_SCHEMA_VERSION, migrateProjectTree } from './services/migrations';
+import { applySyncedDocuments } from './services/sync';
+import { useSync } from './hooks/useSync';
 import { 
   Plus, 
   Layout, 
@@ -21,22 +36,48 @@ import {
   Moon,
   Sun,
   History,
-  Check
+  Check,
+  AlertTriangle,
+  Loader2,
+  ListChecks,
+  LayoutTemplate,
+  Download,
+  Upload,
+  Cloud,
+  CloudOff,
+  RefreshCw
 } from 'lucide-react';
 
 const App: React.FC = () => {
-  const [projects, setProjects] = useState<ProjectGroup[]>(() => {
-    const saved = localStorage.getItem('archi_notes_v1');
-    return saved ? JSON.parse(saved) : INITIAL_DATA;
-  });
+  const [projects, setProjects] = useState<ProjectGroup[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // The tree as last written in full; every save diffs against it, so a failed write is retried by the next save.
+  const persistedProjectsRef = useRef<ProjectGroup[] | null>(null);
+  const latestProjectsRef = useRef<ProjectGroup[]>([]);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const saveFailedRef = useRef(false);
+  const [quarantined, setQuarantined] = useState<QuarantinedDocument[]>([]);
+  const [isQuarantineOpen, setIsQuarantineOpen] = useState(false);
   
-  const [activeProjectId, setActiveProjectId] = useState<string>(projects[0]?.id || '');
-  const [activeMeetingId, setActiveMeetingId] = useState<string>(projects[0]?.meetings[0]?.id || '');
-  const [expandedProjectIds, setExpandedProjectIds] = useState<string[]>([projects[0]?.id || '']);
+  const [activeProjectId, setActiveProjectId] = useState<string>('');
+  const [activeMeetingId, setActiveMeetingId] = useState<string>('');
+  const [mainView, setMainView] = useState<'meeting' | 'actions' | 'templates' | 'settings'>('meeting');
+  const [templates, setTemplates] = useState<MeetingTemplate[]>([]);
+  const [practice, setPractice] = useState<PracticeSettings>(EMPTY_PRACTICE_SETTINGS);
+  const [imageSettings, setImageSettings] = useState<ImageSettings>(DEFAULT_IMAGE_SETTINGS);
+  const [newMeetingProjectId, setNewMeetingProjectId] = useState<string | null>(null);
+  const [expandedProjectIds, setExpandedProjectIds] = useState<string[]>([]);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [renamingGroupId, setRenamingGroupId] = useState<string | null>(null);
   const [renamingMeetingId, setRenamingMeetingId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [focusRowId, setFocusRowId] = useState<string | null>(null);
+  const searchIndexRef = useRef(createSearchIndex());
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const [isArchiveBusy, setIsArchiveBusy] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ project: ProjectGroup, conflicts: ArchiveConflicts } | null>(null);
+  const [isSyncConflictsOpen, setIsSyncConflictsOpen] = useState(false);
   const [theme, setTheme] = useState<'day' | 'night'>(() => {
     const savedTheme = localStorage.getItem('archi_theme');
     return (savedTheme as 'day' | 'night') || 'day';
@@ -48,8 +89,73 @@ const App: React.FC = () => {
   }, [theme]);
 
   useEffect(() => {
-    localStorage.setItem('archi_notes_v1', JSON.stringify(projects));
-  }, [projects]);
+    let cancelled = false;
+    loadProjects()
+      .then(stored => {
+        if (cancelled) return;
+        const initial = stored || INITIAL_DATA.map(migrateProjectTree);
+        persistedProjectsRef.current = stored ? initial : [];
+        setProjects(initial);
+        setActiveProjectId(initial[0]?.id || '');
+        setActiveMeetingId(initial[0]?.meetings[0]?.id || '');
+        setExpandedProjectIds([initial[0]?.id || '']);
+      })
+      .catch(error => {
+        console.error('Loading projects failed:', error);
+        if (!cancelled) setStorageError(error instanceof StorageError ? error.message : 'Saved projects could not be loaded.');
+      })
+      .then(() => Promise.all([listQuarantined(), loadTemplates(), loadPracticeSettings(), loadImageSettings()]))
+      .then(([entries, storedTemplates, storedPractice, storedImageSettings]) => {
+        if (cancelled) return;
+        setQuarantined(entries);
+        setTemplates(storedTemplates);
+        setPractice(storedPractice);
+        setImageSettings(storedImageSettings);
+      })
+      .catch(error => {
+        console.error('Loading settings failed:', error);
+        if (!cancelled) setStorageError(error instanceof StorageError ? error.message : 'Saved settings could not be loaded.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Saves run one at a time and write the newest tree, so edits made while one is running are coalesced into the next.
+  useEffect(() => {
+    if (!isLoaded || !persistedProjectsRef.current) return;
+    latestProjectsRef.current = projects;
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      const previous = persistedProjectsRef.current;
+      const next = latestProjectsRef.current;
+      if (!previous || previous === next) return;
+      try {
+        await persistProjectChanges(previous, next);
+        persistedProjectsRef.current = next;
+        if (saveFailedRef.current) {
+          saveFailedRef.current = false;
+          setStorageError(null);
+        }
+      } catch (error) {
+        console.error('Saving projects failed:', error);
+        saveFailedRef.current = true;
+        setStorageError(error instanceof StorageError ? error.message : 'Your latest changes could not be saved.');
+      }
+    });
+  }, [projects, isLoaded]);
+
+  // Only a tree that was really loaded is synced; persistedProjectsRef stays null when loading failed.
+  const sync = useSync(projects, isLoaded && persistedProjectsRef.current !== null, documents => {
+    setProjects(prev => applySyncedDocuments(prev, documents));
+  });
+
+  const saveSyncConfig = (config: SyncConfig) => {
+    sync.configure(config).catch(error => {
+      console.error('Saving sync settings failed:', error);
+      setStorageError(error instanceof StorageError ? error.message : 'Sync settings could not be saved.');
+    });
+  };
 
   const activeProject = projects.find(p => p.id === activeProjectId);
   const activeMeeting = activeProject?.meetings.find(m => m.id === activeMeetingId);
@@ -77,6 +183,13 @@ const App: React.FC = () => {
     }).filter((p): p is ProjectGroup => p !== null);
   }, [projects, searchTerm]);
 
+  // The index is only brought up to date while a search is active.
+  const contentResults = useMemo(() => {
+    if (!searchTerm.trim()) return [];
+    searchIndexRef.current.sync(projects);
+    return searchIndexRef.current.search(searchTerm);
+  }, [projects, searchTerm]);
+
   const toggleProjectExpansion = (id: string) => {
     setExpandedProjectIds(prev => 
       prev.includes(id) ? prev.filter(pid => pid !== id) : [...prev, id]
@@ -85,6 +198,7 @@ const App: React.FC = () => {
 
   const createGroup = () => {
     const newGroup: ProjectGroup = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       id: crypto.randomUUID(),
       name: 'PROJECT TITLE',
       meetings: []
@@ -96,26 +210,75 @@ const App: React.FC = () => {
     setSearchTerm('');
   };
 
-  const createMeeting = (projectId: string) => {
-    const newMeeting: Meeting = {
-      id: crypto.randomUUID(),
-      name: `MEETING TITLE`,
-      dateCreated: new Date().toISOString(),
-      attendees: [],
-      rows: []
-    };
-    setProjects(prev => prev.map(p => 
-      p.id === projectId ? { ...p, meetings: [...p.meetings, newMeeting] } : p
-    ));
-    setActiveMeetingId(newMeeting.id);
+  const showNewMeeting = (projectId: string, meetingId: string) => {
+    setActiveMeetingId(meetingId);
     setActiveProjectId(projectId);
-    setRenamingMeetingId(newMeeting.id);
+    setMainView('meeting');
+    setRenamingMeetingId(meetingId);
     if (!expandedProjectIds.includes(projectId)) {
       setExpandedProjectIds(prev => [...prev, projectId]);
     }
     setSearchTerm('');
   };
 
+  const createMeeting = (projectId: string, template?: MeetingTemplate) => {
+    const newMeeting = buildMeeting(projects.find(p => p.id === projectId), template);
+    setProjects(prev => prev.map(p => 
+      p.id === projectId ? { ...p, meetings: [...p.meetings, newMeeting] } : p
+    ));
+    showNewMeeting(projectId, newMeeting.id);
+  };
+
+  const createNextInSeries = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    const next = project && buildNextMeetingInSeries(project);
+    if (!next) return createMeeting(projectId);
+    setProjects(prev => prev.map(p => 
+      p.id === projectId
+        ? { ...p, meetings: [...p.meetings.map(m => m.id === next.previous.id ? next.previous : m), next.meeting] }
+        : p
+    ));
+    showNewMeeting(projectId, next.meeting.id);
+  };
+
+  const reportTemplateError = (error: unknown) => {
+    console.error('Saving templates failed:', error);
+    setStorageError(error instanceof StorageError ? error.message : 'Template changes could not be saved.');
+  };
+
+  const upsertTemplates = (changed: MeetingTemplate[]) => {
+    setTemplates(prev => {
+      const ids = new Set(changed.map(t => t.id));
+      return [...prev.filter(t => !ids.has(t.id)), ...changed].sort((a, b) => a.name.localeCompare(b.name));
+    });
+    changed.forEach(template => saveTemplate(template).catch(reportTemplateError));
+  };
+
+  const removeTemplate = (id: string) => {
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    deleteTemplate(id).catch(reportTemplateError);
+  };
+
+  const updatePractice = (next: PracticeSettings) => {
+    setPractice(next);
+    savePracticeSettings(next).catch(error => {
+      console.error('Saving practice settings failed:', error);
+      setStorageError(error instanceof StorageError ? error.message : 'Practice settings could not be saved.');
+    });
+  };
+
+  const updateImageSettings = (next: ImageSettings) => {
+    setImageSettings(next);
+    saveImageSettings(next).catch(error => {
+      console.error('Saving image settings failed:', error);
+      setStorageError(error instanceof StorageError ? error.message : 'Image settings could not be saved.');
+    });
+  };
+
+  const updateProjectDetails = (projectId: string, details: ProjectDetails) => {
+    setProjects(prev => prev.map(p => p.id === projectId ? { ...p, details } : p));
+  };
+
   const updateMeeting = (updatedMeeting: Meeting) => {
     setProjects(prev => prev.map(p => ({
       ...p,
@@ -123,6 +286,38 @@ const App: React.FC = () => {
     })));
   };
 
+  const updateAction = (meetingId: string, rowId: string, action: ActionItem) => {
+    setProjects(prev => prev.map(p => ({
+      ...p,
+      meetings: p.meetings.map(m => m.id !== meetingId ? m : {
+        ...m,
+        rows: m.rows.map(r => r.id !== rowId ? r : {
+          ...r,
+          actions: r.actions.map(a => a.id === action.id ? action : a)
+        })
+      })
+    })));
+  };
+
+  const openMeeting = (projectId: string, meetingId: string, rowId?: string) => {
+    setActiveProjectId(projectId);
+    setActiveMeetingId(meetingId);
+    setMainView('meeting');
+    setFocusRowId(rowId || null);
+  };
+
+  const openSearchResult = (result: SearchResult) => {
+    openMeeting(result.projectId, result.meetingId, result.rowId);
+    if (!expandedProjectIds.includes(result.projectId)) {
+      setExpandedProjectIds(prev => [...prev, result.projectId]);
+    }
+  };
+
+  const openActions = (projectId: string) => {
+    setActiveProjectId(projectId);
+    setMainView('actions');
+  };
+
   const updateGroupName = (id: string, name: string) => {
     setProjects(prev => prev.map(p => p.id === id ? { ...p, name } : p));
   };
@@ -147,7 +342,7 @@ const App: React.FC = () => {
   const deleteMeeting = (projectId: string, meetingId: string) => {
       if (confirm('Delete this meeting note?')) {
           setProjects(prev => prev.map(p => 
-            p.id === projectId ? { ...p, meetings: p.meetings.filter(m => m.id !== meetingId) } : p
+            p.id === projectId ? { ...p, meetings: removeMeetingFromSeries(p.meetings, meetingId) } : p
           ));
           if (activeMeetingId === meetingId) {
             setActiveMeetingId('');
@@ -155,9 +350,80 @@ const App: React.FC = () => {
       }
   };
 
+  const exportProject = async (project: ProjectGroup) => {
+    setIsArchiveBusy(true);
+    try {
+      await downloadProjectArchive(project);
+    } catch (error) {
+      console.error('Project export failed:', error);
+      alert('Could not export project.');
+    } finally {
+      setIsArchiveBusy(false);
+    }
+  };
+
+  const addImportedProject = (project: ProjectGroup) => {
+    setProjects(prev => [...prev, project]);
+    setActiveProjectId(project.id);
+    setExpandedProjectIds(prev => [...prev, project.id]);
+  };
+
+  const importProjectArchive = async (file: File) => {
+    setIsArchiveBusy(true);
+    try {
+      const project = await readProjectArchive(file);
+      const conflicts = findArchiveConflicts(projects, project);
+      if (conflicts) {
+        setPendingImport({ project, conflicts });
+      } else {
+        addImportedProject(project);
+      }
+    } catch (error) {
+      console.error('Project import failed:', error);
+      alert(error instanceof Error ? `Could not import project: ${error.message}` : 'Could not import project.');
+    } finally {
+      setIsArchiveBusy(false);
+    }
+  };
+
+  const canMergeImport = (pending: { project: ProjectGroup, conflicts: ArchiveConflicts }) => {
+    const local = projects.find(p => p.id === pending.project.id);
+    return !!local && pending.conflicts.meetingIds.every(id => local.meetings.some(m => m.id === id));
+  };
+
+  const resolveImport = (mode: 'merge' | 'copy') => {
+    if (!pendingImport) return;
+    const { project } = pendingImport;
+    if (mode === 'merge') {
+      setProjects(prev => prev.map(p => p.id === project.id ? mergeProjects(p, project) : p));
+      setActiveProjectId(project.id);
+    } else {
+      addImportedProject(cloneProjectWithNewIds(project));
+    }
+    setPendingImport(null);
+  };
+
+  const discardQuarantinedDocument = (entry: QuarantinedDocument) => {
+    if (!confirm('Permanently discard this quarantined document?')) return;
+    discardQuarantined(entry)
+      .then(() => setQuarantined(prev => prev.filter(q => q.id !== entry.id)))
+      .catch(error => {
+        console.error('Discarding quarantined document failed:', error);
+        setStorageError('The quarantined document could not be discarded.');
+      });
+  };
+
   const closeActiveMeeting = () => setActiveMeetingId('');
   const toggleTheme = () => setTheme(prev => prev === 'night' ? 'day' : 'night');
 
+  if (!isLoaded) {
+    return (
+      <div className="flex h-screen w-full bg-appBg items-center justify-center text-emeraldArch">
+        <Loader2 size={32} className="animate-spin" />
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-screen w-full bg-appBg overflow-hidden text-textMain">
       {/* Sidebar */}
@@ -193,9 +459,15 @@ const App: React.FC = () => {
           <div className="space-y-4">
             <div className="flex items-center justify-between px-2">
               <span className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">Navigator</span>
-              <button onClick={createGroup} className="nm-btn p-1 rounded-lg text-textMuted hover:text-emeraldArch">
-                <Plus size={16} />
-              </button>
+              <div className="flex items-center space-x-2">
+                {isArchiveBusy && <Loader2 size={14} className="animate-spin text-emeraldArch" />}
+                <button onClick={() => archiveInputRef.current?.click()} title="Import project" className="nm-btn p-1 rounded-lg text-textMuted hover:text-emeraldArch">
+                  <Upload size={16} />
+                </button>
+                <button onClick={createGroup} className="nm-btn p-1 rounded-lg text-textMuted hover:text-emeraldArch">
+                  <Plus size={16} />
+                </button>
+              </div>
             </div>
             
             <div className="space-y-3">
@@ -234,6 +506,11 @@ const App: React.FC = () => {
                         className="text-textMuted hover:text-emeraldArch" 
                         onClick={(e) => { e.stopPropagation(); setRenamingGroupId(project.id); }} 
                       />
+                      <Download 
+                        size={12} 
+                        className="text-textMuted hover:text-emeraldArch" 
+                        onClick={(e) => { e.stopPropagation(); exportProject(project); }} 
+                      />
                       <Trash2 
                         size={12} 
                         className="text-textMuted hover:text-red-500" 
@@ -244,14 +521,18 @@ const App: React.FC = () => {
                   
                   {expandedProjectIds.includes(project.id) && (
                     <div className="ml-4 space-y-2 animate-in slide-in-from-top-1 duration-200">
+                      <div 
+                        className={`flex items-center space-x-2 py-2 px-4 rounded-xl cursor-pointer text-xs font-bold transition-all ${mainView === 'actions' && activeProjectId === project.id ? 'nm-inset text-emeraldArch' : 'text-textMuted hover:text-textMain'}`}
+                        onClick={() => openActions(project.id)}
+                      >
+                        <ListChecks size={12} />
+                        <span className="uppercase tracking-widest text-[10px] font-black">Actions</span>
+                      </div>
                       {project.meetings.map(meeting => (
                         <div 
                           key={meeting.id}
-                          className={`flex items-center group justify-between py-2 px-4 rounded-xl cursor-pointer text-xs font-bold transition-all ${activeMeetingId === meeting.id ? 'nm-inset text-emeraldArch' : 'text-textMuted hover:text-textMain'}`}
-                          onClick={() => {
-                              setActiveMeetingId(meeting.id);
-                              setActiveProjectId(project.id);
-                          }}
+                          className={`flex items-center group justify-between py-2 px-4 rounded-xl cursor-pointer text-xs font-bold transition-all ${mainView === 'meeting' && activeMeetingId === meeting.id ? 'nm-inset text-emeraldArch' : 'text-textMuted hover:text-textMain'}`}
+                          onClick={() => openMeeting(project.id, meeting.id)}
                         >
                           {renamingMeetingId === meeting.id ? (
                             <input 
@@ -281,7 +562,7 @@ const App: React.FC = () => {
                         </div>
                       ))}
                       <button 
-                        onClick={() => createMeeting(project.id)}
+                        onClick={() => setNewMeetingProjectId(project.id)}
                         className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-emeraldArch/60 hover:text-emeraldArch transition-colors"
                       >
                         + New Tab
@@ -292,10 +573,52 @@ const App: React.FC = () => {
               ))}
             </div>
           </div>
+
+          {searchTerm.trim() && (
+            <SearchResults results={contentResults} projects={projects} onSelect={openSearchResult} />
+          )}
         </div>
 
         {/* Theme Toggle Footer */}
-        <div className="p-8 flex items-center justify-between">
+        <div className="p-8 flex flex-col space-y-4">
+          <button 
+            onClick={() => setMainView('templates')}
+            className={`nm-btn p-3 rounded-2xl transition-all flex items-center justify-center w-full space-x-3 font-bold text-xs ${mainView === 'templates' ? 'nm-btn-active text-emeraldArch' : 'text-textMuted hover:text-emeraldArch'}`}
+          >
+            <LayoutTemplate size={16} /><span>Templates</span>
+          </button>
+          <button 
+            onClick={() => setMainView('settings')}
+            className={`nm-btn p-3 rounded-2xl transition-all flex items-center justify-center w-full space-x-3 font-bold text-xs ${mainView === 'settings' ? 'nm-btn-active text-emeraldArch' : 'text-textMuted hover:text-emeraldArch'}`}
+          >
+            <Settings size={16} /><span>Settings</span>
+          </button>
+          {sync.config.serverUrl && (
+            <button 
+              onClick={sync.syncNow}
+              title={sync.detail || (sync.lastSyncedAt ? `Last synced ${sync.lastSyncedAt.toLocaleTimeString()}` : 'Sync now')}
+              className={`nm-btn p-3 rounded-2xl transition-all flex items-center justify-center w-full space-x-3 font-bold text-xs ${sync.status === 'error' ? 'text-red-500' : 'text-textMuted hover:text-emeraldArch'}`}
+            >
+              {sync.status === 'syncing' ? <RefreshCw size={16} className="animate-spin" /> : sync.status === 'offline' || sync.status === 'error' ? <CloudOff size={16} /> : <Cloud size={16} />}
+              <span>{sync.status === 'syncing' ? 'Syncing' : sync.status === 'offline' ? 'Offline' : sync.status === 'error' ? 'Sync Failed' : 'Synced'}</span>
+            </button>
+          )}
+          {sync.conflicts.length > 0 && (
+            <button 
+              onClick={() => setIsSyncConflictsOpen(true)}
+              className="nm-btn p-3 rounded-2xl text-yellow-500 transition-all flex items-center justify-center w-full space-x-3 font-bold text-xs"
+            >
+              <AlertTriangle size={16} /><span>{sync.conflicts.length} Sync {sync.conflicts.length === 1 ? 'Conflict' : 'Conflicts'}</span>
+            </button>
+          )}
+          {quarantined.length > 0 && (
+            <button 
+              onClick={() => setIsQuarantineOpen(true)}
+              className="nm-btn p-3 rounded-2xl text-red-500 transition-all flex items-center justify-center w-full space-x-3 font-bold text-xs"
+            >
+              <AlertTriangle size={16} /><span>{quarantined.length} Quarantined</span>
+            </button>
+          )}
           <button 
             onClick={toggleTheme}
             className="nm-btn p-3 rounded-2xl text-textMuted hover:text-emeraldArch transition-all flex items-center justify-center w-full space-x-3 font-bold text-xs"
@@ -307,17 +630,66 @@ const App: React.FC = () => {
 
       {/* Main Area */}
       <main className="flex-1 flex flex-col min-w-0 transition-all duration-300">
+        {storageError && (
+            <div className="mx-8 mt-6 nm-raised rounded-2xl px-6 py-4 flex items-center space-x-4 text-red-500">
+              <AlertTriangle size={18} className="flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="text-[10px] font-black uppercase tracking-[0.2em]">Storage Error</div>
+                <div className="text-xs font-bold text-textMain truncate">{storageError}</div>
+              </div>
+              <button onClick={() => setStorageError(null)} className="nm-btn p-2 rounded-xl text-textMuted"><X size={14} /></button>
+            </div>
+        )}
+
         {!sidebarOpen && (
             <div className="absolute top-8 left-8 z-40 flex flex-col space-y-4">
               <button onClick={() => setSidebarOpen(true)} className="nm-btn p-3 rounded-2xl text-emeraldArch"><Menu size={20} /></button>
             </div>
         )}
 
-        {activeMeeting ? (
+        {mainView === 'templates' ? (
+          <TemplatesView 
+            templates={templates}
+            onSave={(template) => upsertTemplates([template])}
+            onDelete={removeTemplate}
+            onImport={upsertTemplates}
+            onClose={() => setMainView('meeting')}
+          />
+        ) : mainView === 'settings' ? (
+          <SettingsView 
+            practice={practice}
+            projects={projects}
+            initialProjectId={activeProjectId}
+            onSavePractice={updatePractice}
+            imageSettings={imageSettings}
+            onSaveImageSettings={updateImageSettings}
+            onUpdateProjectDetails={updateProjectDetails}
+            sync={sync}
+            onSaveSync={saveSyncConfig}
+            onSyncNow={sync.syncNow}
+            onClose={() => setMainView('meeting')}
+          />
+        ) : mainView === 'actions' && activeProject ? (
+          <ActionsView 
+            project={activeProject}
+            onUpdateAction={updateAction}
+            onOpenMeeting={(meetingId, rowId) => openMeeting(activeProject.id, meetingId, rowId)}
+            onClose={() => setMainView('meeting')}
+          />
+        ) : activeMeeting ? (
           <MeetingView 
             meeting={activeMeeting} 
+            projectMeetings={activeProject?.meetings || [activeMeeting]}
+            previousMeeting={activeProject?.meetings.find(m => m.id === activeMeeting.previousMeetingId)}
+            nextMeeting={activeProject?.meetings.find(m => m.id === activeMeeting.nextMeetingId)}
+            focusRowId={focusRowId}
+            onFocusHandled={() => setFocusRowId(null)}
             onUpdate={updateMeeting} 
             onClose={closeActiveMeeting}
+            onNavigateMeeting={(meetingId) => openMeeting(activeProjectId, meetingId)}
+            onCreateNextInSeries={() => createNextInSeries(activeProjectId)}
+            branding={{ practice, projectName: activeProject?.name || '', details: activeProject?.details }}
+            imageSettings={imageSettings}
           />
         ) : (
           <div className="flex-1 flex flex-col items-center justify-center p-12 text-center overflow-y-auto">
@@ -331,7 +703,7 @@ const App: React.FC = () => {
             
             <div className="flex space-x-6">
                 <button onClick={createGroup} className="nm-btn px-8 py-4 rounded-2xl font-black text-sm uppercase tracking-widest hover:text-emeraldArch transition-colors">New Group</button>
-                <button onClick={() => activeProjectId ? createMeeting(activeProjectId) : createGroup()} className="nm-emerald px-10 py-4 rounded-2xl font-black text-sm uppercase tracking-widest transition-transform hover:scale-105 active:scale-95">Quick Start</button>
+                <button onClick={() => activeProjectId ? setNewMeetingProjectId(activeProjectId) : createGroup()} className="nm-emerald px-10 py-4 rounded-2xl font-black text-sm uppercase tracking-widest transition-transform hover:scale-105 active:scale-95">Quick Start</button>
             </div>
             
             {recentMeetings.length > 0 && (
@@ -344,7 +716,7 @@ const App: React.FC = () => {
                         {recentMeetings.map(m => (
                             <button 
                                 key={m.id}
-                                onClick={() => { setActiveProjectId(m.projectId); setActiveMeetingId(m.id); }}
+                                onClick={() => openMeeting(m.projectId, m.id)}
                                 className="nm-btn p-6 rounded-3xl text-left group transition-all hover:scale-[1.02]"
                             >
                                 <div className="text-sm font-black text-textMain truncate mb-1">{m.name}</div>
@@ -359,6 +731,51 @@ const App: React.FC = () => {
           </div>
         )}
       </main>
+
+      {newMeetingProjectId && (
+        <NewMeetingDialog 
+          projectName={projects.find(p => p.id === newMeetingProjectId)?.name || ''}
+          templates={templates}
+          canContinueSeries={!!projects.find(p => p.id === newMeetingProjectId)?.meetings.length}
+          onCreateBlank={() => { createMeeting(newMeetingProjectId); setNewMeetingProjectId(null); }}
+          onCreateFromTemplate={(template) => { createMeeting(newMeetingProjectId, template); setNewMeetingProjectId(null); }}
+          onCreateNextInSeries={() => { createNextInSeries(newMeetingProjectId); setNewMeetingProjectId(null); }}
+          onManageTemplates={() => { setMainView('templates'); setNewMeetingProjectId(null); }}
+          onClose={() => setNewMeetingProjectId(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportConflictDialog 
+          incoming={pendingImport.project}
+          conflicts={pendingImport.conflicts}
+          canMerge={canMergeImport(pendingImport)}
+          onMerge={() => resolveImport('merge')}
+          onImportAsCopy={() => resolveImport('copy')}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      <input type="file" ref={archiveInputRef} className="hidden" accept=".zip,application/zip" onChange={(e) => { const file = e.target.files?.[0]; if (file) { importProjectArchive(file); e.target.value = ''; } }} />
+
+      {isQuarantineOpen && (
+        <QuarantinePanel 
+          entries={quarantined}
+          onDiscard={discardQuarantinedDocument}
+          onClose={() => setIsQuarantineOpen(false)}
+        />
+      )}
+
+      {isSyncConflictsOpen && sync.conflicts.length > 0 && (
+        <SyncConflictDialog 
+          groups={sync.conflicts}
+          onResolve={(key, sides) => sync.resolve(key, sides)?.catch(error => {
+            console.error('Settling sync conflict failed:', error);
+            setStorageError(error instanceof StorageError ? error.message : 'The conflict could not be settled.');
+          })}
+          onClose={() => setIsSyncConflictsOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import React from 'react';
+import { ActionItem, ActionStatus, Attendee } from '../types';
+import { ACTION_STATUS_LABELS } from '../constants';
+import { CheckCircle, Circle, Clock, Plus, X } from 'lucide-react';
+
+interface ActionItemListProps {
+  actions: ActionItem[];
+  attendees: Attendee[];
+  onChange: (actions: ActionItem[]) => void;
+  onAdd: () => void;
+}
+
+const NEXT_STATUS: Record<ActionStatus, ActionStatus> = {
+  open: 'in_progress',
+  in_progress: 'done',
+  done: 'open',
+};
+
+export const ActionStatusIcon: React.FC<{ status: ActionStatus; size?: number }> = ({ status, size = 14 }) => {
+  if (status === 'done') return <CheckCircle size={size} className="text-emeraldArch" />;
+  if (status === 'in_progress') return <Clock size={size} className="text-yellow-500" />;
+  return <Circle size={size} className="text-textMuted" />;
+};
+
+const ActionItemList: React.FC<ActionItemListProps> = ({ actions, attendees, onChange, onAdd }) => {
+  const updateAction = (id: string, changes: Partial<ActionItem>) => {
+    onChange(actions.map(a => a.id === id ? { ...a, ...changes } : a));
+  };
+
+  return (
+    <div className="space-y-2">
+      {actions.map(action => (
+        <div key={action.id} className="nm-raised rounded-2xl p-3 space-y-2 group/action">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => updateAction(action.id, { status: NEXT_STATUS[action.status] })}
+              title={ACTION_STATUS_LABELS[action.status]}
+              className="flex-shrink-0"
+            >
+              <ActionStatusIcon status={action.status} />
+            </button>
+            <input
+              value={action.description}
+              onChange={(e) => updateAction(action.id, { description: e.target.value })}
+              placeholder="Action..."
+              className={`flex-1 min-w-0 bg-transparent text-[11px] font-bold focus:outline-none placeholder:text-textMuted/30 ${action.status === 'done' ? 'line-through text-textMuted' : ''}`}
+            />
+            <button
+              onClick={() => onChange(actions.filter(a => a.id !== action.id))}
+              className="opacity-0 group-hover/action:opacity-100 transition-opacity p-1 text-textMuted hover:text-red-500"
+            >
+              <X size={10} />
+            </button>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={action.ownerId || ''}
+              onChange={(e) => updateAction(action.id, { ownerId: e.target.value || undefined })}
+              className="flex-1 min-w-0 nm-inset rounded-lg px-2 py-1 bg-transparent text-[10px] font-bold text-textMuted focus:outline-none"
+            >
+              <option value="">Unassigned</option>
+              {attendees.map(att => (
+                <option key={att.id} value={att.id}>{att.name || 'Unnamed'} ({att.organisation})</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={action.dueDate || ''}
+              onChange={(e) => updateAction(action.id, { dueDate: e.target.value || undefined })}
+              className="nm-inset rounded-lg px-2 py-1 bg-transparent text-[10px] font-bold text-textMuted focus:outline-none"
+            />
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={onAdd}
+        className="flex items-center space-x-2 px-2 py-1 text-[9px] font-black uppercase tracking-widest text-emeraldArch/60 hover:text-emeraldArch transition-colors"
+      >
+        <Plus size={12} />
+        <span>Add Action</span>
+      </button>
+    </div>
+  );
+};
+
+export default ActionItemList;
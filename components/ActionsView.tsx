@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { ProjectGroup, ActionItem, ActionStatus } from '../types';
+import { ACTION_STATUS_LABELS } from '../constants';
+import { collectProjectActions, ProjectActionEntry } from '../utils/actions';
+import { ActionStatusIcon } from './ActionItemList';
+import { ArrowLeft, ListChecks, ExternalLink } from 'lucide-react';
+
+interface ActionsViewProps {
+  project: ProjectGroup;
+  onUpdateAction: (meetingId: string, rowId: string, action: ActionItem) => void;
+  onOpenMeeting: (meetingId: string, rowId?: string) => void;
+  onClose: () => void;
+}
+
+type StatusFilter = 'outstanding' | 'all' | ActionStatus;
+type SortKey = 'due' | 'status' | 'owner' | 'meeting';
+
+const STATUS_ORDER: Record<ActionStatus, number> = { open: 0, in_progress: 1, done: 2 };
+
+const ownerName = (entry: ProjectActionEntry) => entry.owner?.name?.trim() || '';
+
+const ActionsView: React.FC<ActionsViewProps> = ({ project, onUpdateAction, onOpenMeeting, onClose }) => {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('outstanding');
+  const [ownerFilter, setOwnerFilter] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('due');
+
+  const entries = useMemo(() => collectProjectActions(project), [project]);
+
+  const owners = useMemo(
+    () => Array.from(new Set<string>(entries.map(ownerName).filter(Boolean))).sort((a, b) => a.localeCompare(b)),
+    [entries]
+  );
+
+  const visibleEntries = useMemo(() => {
+    const meetingOrder = new Map<string, number>(project.meetings.map((m, i) => [m.id, i]));
+    const filtered = entries.filter(entry => {
+      if (statusFilter === 'outstanding' && entry.action.status === 'done') return false;
+      if (statusFilter !== 'outstanding' && statusFilter !== 'all' && entry.action.status !== statusFilter) return false;
+      if (ownerFilter === '__unassigned') return !entry.owner;
+      if (ownerFilter && ownerName(entry) !== ownerFilter) return false;
+      return true;
+    });
+    const compare: Record<SortKey, (a: ProjectActionEntry, b: ProjectActionEntry) => number> = {
+      // Undated actions sort after dated ones.
+      due: (a, b) => (a.action.dueDate || '9999').localeCompare(b.action.dueDate || '9999'),
+      status: (a, b) => STATUS_ORDER[a.action.status] - STATUS_ORDER[b.action.status],
+      owner: (a, b) => (ownerName(a) || '\uffff').localeCompare(ownerName(b) || '\uffff'),
+      meeting: (a, b) => (meetingOrder.get(b.meeting.id) ?? 0) - (meetingOrder.get(a.meeting.id) ?? 0),
+    };
+    return [...filtered].sort(compare[sortKey]);
+  }, [entries, statusFilter, ownerFilter, sortKey, project.meetings]);
+
+  const today = new Date().toISOString().slice(0, 10);
+  const sourceMeetingName = (id: string) => project.meetings.find(m => m.id === id)?.name;
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-appBg overflow-hidden">
+      <div className="px-8 py-6 flex-shrink-0 flex items-center space-x-6">
+        <button onClick={onClose} className="nm-btn p-3 rounded-2xl text-textMuted hover:text-emeraldArch transition-all shadow-sm">
+          <ArrowLeft size={18} />
+        </button>
+        <div className="flex-1 min-w-0">
+          <h2 className="text-2xl font-black text-textMain uppercase tracking-tighter truncate">{project.name}</h2>
+          <p className="text-[10px] font-black uppercase tracking-[0.2em] text-emeraldArch mt-1">Action Tracker · {entries.filter(e => e.action.status !== 'done').length} outstanding</p>
+        </div>
+      </div>
+
+      <div className="px-8 pb-4 flex flex-wrap items-center gap-4">
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as StatusFilter)} className="nm-inset rounded-xl px-4 py-2 bg-transparent text-[10px] font-black uppercase tracking-widest focus:outline-none">
+          <option value="outstanding">Outstanding</option>
+          <option value="all">All Statuses</option>
+          {(Object.keys(ACTION_STATUS_LABELS) as ActionStatus[]).map(status => (
+            <option key={status} value={status}>{ACTION_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+        <select value={ownerFilter} onChange={(e) => setOwnerFilter(e.target.value)} className="nm-inset rounded-xl px-4 py-2 bg-transparent text-[10px] font-black uppercase tracking-widest focus:outline-none">
+          <option value="">All Owners</option>
+          <option value="__unassigned">Unassigned</option>
+          {owners.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select value={sortKey} onChange={(e) => setSortKey(e.target.value as SortKey)} className="nm-inset rounded-xl px-4 py-2 bg-transparent text-[10px] font-black uppercase tracking-widest focus:outline-none">
+          <option value="due">Sort: Due Date</option>
+          <option value="status">Sort: Status</option>
+          <option value="owner">Sort: Owner</option>
+          <option value="meeting">Sort: Latest Meeting</option>
+        </select>
+      </div>
+
+      <div className="flex-1 overflow-auto px-8 pb-32 scrollbar-hide">
+        {visibleEntries.length === 0 ? (
+          <div className="py-24 flex flex-col items-center justify-center">
+            <ListChecks size={32} className="text-textMuted/20 mb-4" />
+            <p className="text-[10px] font-black uppercase tracking-widest text-textMuted/40">No actions match</p>
+          </div>
+        ) : (
+          <div className="space-y-3 max-w-6xl">
+            {visibleEntries.map(({ action, meeting, row, owner }) => {
+              const isOverdue = action.status !== 'done' && !!action.dueDate && action.dueDate < today;
+              return (
+                <div key={action.id} className="nm-raised rounded-2xl px-5 py-4 grid grid-cols-12 gap-4 items-center">
+                  <div className="col-span-5 flex items-center space-x-3 min-w-0">
+                    <ActionStatusIcon status={action.status} />
+                    <span className={`text-xs font-bold truncate ${action.status === 'done' ? 'line-through text-textMuted' : ''}`}>{action.description || 'Untitled action'}</span>
+                  </div>
+                  <div className="col-span-2 text-[10px] font-bold text-textMuted truncate">{owner ? `${owner.name || 'Unnamed'} · ${owner.organisation}` : 'Unassigned'}</div>
+                  <div className={`col-span-1 text-[10px] font-mono font-bold ${isOverdue ? 'text-red-500' : 'text-textMuted'}`}>{action.dueDate || '—'}</div>
+                  <div className="col-span-2">
+                    <select
+                      value={action.status}
+                      onChange={(e) => onUpdateAction(meeting.id, row.id, { ...action, status: e.target.value as ActionStatus })}
+                      className="w-full nm-inset rounded-lg px-2 py-1 bg-transparent text-[10px] font-black uppercase tracking-widest focus:outline-none"
+                    >
+                      {(Object.keys(ACTION_STATUS_LABELS) as ActionStatus[]).map(status => (
+                        <option key={status} value={status}>{ACTION_STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    onClick={() => onOpenMeeting(meeting.id, row.id)}
+                    title={action.sourceMeetingId !== meeting.id ? `Raised in ${sourceMeetingName(action.sourceMeetingId) || 'an earlier meeting'}` : undefined}
+                    className="col-span-2 flex items-center justify-end space-x-2 text-[10px] font-black uppercase tracking-widest text-emeraldArch/70 hover:text-emeraldArch truncate"
+                  >
+                    <span className="truncate">{meeting.name}</span>
+                    <ExternalLink size={12} className="flex-shrink-0" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActionsView;
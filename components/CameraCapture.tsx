@@ -0,0 +1,337 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageSettings, NoteImage } from '../types';
+import { Camera, Check, Clock, Crop, Images, Loader2, RotateCcw, RotateCw, SwitchCamera, Trash2, X } from 'lucide-react';
+import { prepareImage } from '../services/imagePipeline';
+import { MIN_CROP_FRACTION, PhotoCrop, PhotoEdit, UNEDITED_PHOTO, captureFrame, photoFileName, photoToBlob, renderPhoto, rotatePhoto } from '../utils/photo';
+
+// A burst is a handful of frames a moment apart, to pick the sharpest from later.
+const BURST_SHOTS = 5;
+const BURST_INTERVAL_MS = 300;
+
+interface CameraCaptureProps {
+  imageSettings: ImageSettings;
+  onSave: (images: NoteImage[]) => void;
+  onCancel: () => void;
+}
+
+interface Shot {
+  id: string;
+  url: string; // object URL of the full-resolution frame
+  takenAt: Date;
+  edit: PhotoEdit;
+}
+
+const describeCameraError = (error: unknown) => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return "Camera access was refused. Allow it in the browser's site settings and try again.";
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'No camera was found on this device.';
+  if (name === 'NotReadableError') return 'The camera is being used by another app.';
+  return 'The camera could not be started.';
+};
+
+/** Takes site photos with the device camera; each can be rotated and cropped before it is attached. */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ imageSettings, onSave, onCancel }) => {
+  const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
+  const [canSwitchCamera, setCanSwitchCamera] = useState(false);
+  const [isReady, setIsReady] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [draftCrop, setDraftCrop] = useState<PhotoCrop | null>(null);
+  const [burst, setBurst] = useState(() => localStorage.getItem('archi_camera_burst') === 'true');
+  const [stampTime, setStampTime] = useState(() => localStorage.getItem('archi_camera_stamp') === 'true');
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [flash, setFlash] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cropStart = useRef<{ x: number, y: number } | null>(null);
+  const shotsRef = useRef(shots);
+  shotsRef.current = shots;
+
+  const selected = shots.find(shot => shot.id === selectedId) || null;
+
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    setIsReady(false);
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError('This browser cannot use the camera here. Camera access needs a secure (https) connection.');
+      return;
+    }
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: facingMode }, width: { ideal: 4096 }, height: { ideal: 4096 } }, audio: false })
+      .then(async started => {
+        if (cancelled) {
+          started.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = started;
+        setCameraError(null);
+        if (videoRef.current) videoRef.current.srcObject = started;
+        // Device labels and counts are only reliable once access has been granted.
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setCanSwitchCamera(devices.filter(device => device.kind === 'videoinput').length > 1);
+      })
+      .catch(error => {
+        console.error('Camera failed to start:', error);
+        if (!cancelled) setCameraError(describeCameraError(error));
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facingMode]);
+
+  // Frames are held as object URLs until the dialog closes.
+  useEffect(() => () => shotsRef.current.forEach(shot => URL.revokeObjectURL(shot.url)), []);
+
+  useEffect(() => {
+    localStorage.setItem('archi_camera_burst', String(burst));
+  }, [burst]);
+
+  useEffect(() => {
+    localStorage.setItem('archi_camera_stamp', String(stampTime));
+  }, [stampTime]);
+
+  // The editor shows the photo already rotated, so a crop is drawn in the frame it will be saved in.
+  useEffect(() => {
+    setPreview(null);
+    if (!selected) return;
+    let cancelled = false;
+    renderPhoto(selected.url, { rotation: selected.edit.rotation, crop: null }, null, 1600)
+      .then(canvas => { if (!cancelled) setPreview(canvas.toDataURL('image/jpeg', 0.85)); })
+      .catch(error => console.error('Photo preview failed:', error));
+    return () => { cancelled = true; };
+  }, [selected?.url, selected?.edit.rotation]);
+
+  const takeShots = async () => {
+    const video = videoRef.current;
+    if (!video || !isReady || isCapturing) return;
+    setIsCapturing(true);
+    try {
+      const count = burst ? BURST_SHOTS : 1;
+      for (let i = 0; i < count; i++) {
+        if (i > 0) await new Promise(resolve => setTimeout(resolve, BURST_INTERVAL_MS));
+        const takenAt = new Date();
+        const blob = await captureFrame(video);
+        setShots(prev => [...prev, { id: crypto.randomUUID(), url: URL.createObjectURL(blob), takenAt, edit: UNEDITED_PHOTO }]);
+        setFlash(true);
+        setTimeout(() => setFlash(false), 120);
+      }
+    } catch (error) {
+      console.error('Camera capture failed:', error);
+      alert('Failed to take the photo.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const updateEdit = (id: string, update: (edit: PhotoEdit) => PhotoEdit) => {
+    setShots(prev => prev.map(shot => shot.id === id ? { ...shot, edit: update(shot.edit) } : shot));
+  };
+
+  const deleteShot = (id: string) => {
+    const shot = shots.find(s => s.id === id);
+    if (shot) URL.revokeObjectURL(shot.url);
+    setShots(prev => prev.filter(s => s.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const pointInPreview = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handleCropDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    cropStart.current = pointInPreview(e);
+    setDraftCrop(null);
+  };
+
+  const handleCropMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = cropStart.current;
+    if (!start) return;
+    const point = pointInPreview(e);
+    setDraftCrop({ x: Math.min(start.x, point.x), y: Math.min(start.y, point.y), width: Math.abs(point.x - start.x), height: Math.abs(point.y - start.y) });
+  };
+
+  const handleCropUp = () => {
+    if (selected && draftCrop && draftCrop.width >= MIN_CROP_FRACTION && draftCrop.height >= MIN_CROP_FRACTION) {
+      updateEdit(selected.id, edit => ({ ...edit, crop: draftCrop }));
+    }
+    cropStart.current = null;
+    setDraftCrop(null);
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const images: NoteImage[] = [];
+      const namesTaken = new Map<string, number>();
+      for (const shot of shots) {
+        const base = photoFileName(shot.takenAt);
+        const index = namesTaken.get(base) || 0;
+        namesTaken.set(base, index + 1);
+        const edited = await renderPhoto(shot.url, shot.edit, stampTime ? shot.takenAt : null, imageSettings.maxSize);
+        const image = await prepareImage(await photoToBlob(edited), imageSettings);
+        // A frame grabbed from the video carries no EXIF, so the capture time is the moment the shutter was pressed.
+        // Kept even when the pipeline could not take the photo and it is stored as rendered.
+        const metadata = { width: edited.width, height: edited.height, ...image.metadata, capturedAt: shot.takenAt.toISOString() };
+        images.push({ id: crypto.randomUUID(), ...image, metadata, markup: [], source: { fileName: photoFileName(shot.takenAt, index) } });
+      }
+      onSave(images);
+    } catch (error) {
+      console.error('Saving photos failed:', error);
+      alert('Failed to save photos.');
+      setIsSaving(false);
+    }
+  };
+
+  const shownCrop = draftCrop || selected?.edit.crop;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="nm-raised w-full max-w-5xl rounded-[40px] p-8 space-y-6 max-h-[95vh] flex flex-col">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4 min-w-0">
+            <div className="p-2 nm-inset rounded-xl text-emeraldArch"><Camera size={18} /></div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-black uppercase tracking-tight">Site Photos</h3>
+              <p className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted truncate">{shots.length} {shots.length === 1 ? 'photo' : 'photos'} taken</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="nm-btn p-2 rounded-xl text-textMuted"><X size={18} /></button>
+        </div>
+
+        <div className="relative h-[50vh] rounded-3xl bg-black overflow-hidden flex items-center justify-center">
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            onLoadedMetadata={() => setIsReady(true)}
+            className={`w-full h-full object-contain ${selected ? 'hidden' : ''}`}
+          />
+          {!selected && flash && <div className="absolute inset-0 bg-white/70 pointer-events-none" />}
+          {!selected && cameraError && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center p-8 text-center space-y-3 text-white">
+              <Camera size={28} className="opacity-50" />
+              <p className="text-xs font-bold max-w-sm leading-relaxed">{cameraError}</p>
+            </div>
+          )}
+          {!selected && !cameraError && !isReady && <Loader2 size={24} className="absolute animate-spin text-emeraldArch" />}
+
+          {selected && (preview ? (
+            <div
+              className="relative inline-block touch-none cursor-crosshair select-none overflow-hidden"
+              onPointerDown={handleCropDown}
+              onPointerMove={handleCropMove}
+              onPointerUp={handleCropUp}
+              onPointerCancel={handleCropUp}
+            >
+              <img src={preview} alt="Selected photo" draggable={false} className="block max-w-full max-h-[50vh]" />
+              {shownCrop && (
+                <div
+                  className="absolute border-2 border-emeraldArch pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                  style={{ left: `${shownCrop.x * 100}%`, top: `${shownCrop.y * 100}%`, width: `${shownCrop.width * 100}%`, height: `${shownCrop.height * 100}%` }}
+                />
+              )}
+            </div>
+          ) : (
+            <Loader2 size={24} className="animate-spin text-emeraldArch" />
+          ))}
+        </div>
+
+        {selected ? (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <button onClick={() => updateEdit(selected.id, edit => rotatePhoto(edit, -1))} title="Rotate left" className="nm-btn p-3 rounded-xl text-emeraldArch"><RotateCcw size={16} /></button>
+              <button onClick={() => updateEdit(selected.id, edit => rotatePhoto(edit, 1))} title="Rotate right" className="nm-btn p-3 rounded-xl text-emeraldArch"><RotateCw size={16} /></button>
+              <button
+                disabled={!selected.edit.crop}
+                onClick={() => updateEdit(selected.id, edit => ({ ...edit, crop: null }))}
+                className="nm-btn px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-textMuted disabled:opacity-40 flex items-center space-x-2"
+              >
+                <Crop size={14} />
+                <span>Clear Crop</span>
+              </button>
+              <span className="hidden md:inline text-[10px] font-black uppercase tracking-widest text-textMuted">Drag across the photo to crop</span>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button onClick={() => deleteShot(selected.id)} title="Delete photo" className="nm-btn p-3 rounded-xl text-red-500"><Trash2 size={16} /></button>
+              <button onClick={() => setSelectedId(null)} className="nm-btn px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-emeraldArch flex items-center space-x-2">
+                <Camera size={14} />
+                <span>Camera</span>
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setBurst(prev => !prev)}
+                className={`nm-btn px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center space-x-2 ${burst ? 'nm-btn-active text-emeraldArch' : 'text-textMuted'}`}
+              >
+                <Images size={14} />
+                <span>Burst ×{BURST_SHOTS}</span>
+              </button>
+              <button
+                onClick={() => setStampTime(prev => !prev)}
+                className={`nm-btn px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center space-x-2 ${stampTime ? 'nm-btn-active text-emeraldArch' : 'text-textMuted'}`}
+              >
+                <Clock size={14} />
+                <span>Stamp Time</span>
+              </button>
+            </div>
+            <button
+              disabled={!isReady || isCapturing}
+              onClick={takeShots}
+              title="Take photo"
+              className="nm-emerald w-16 h-16 rounded-full flex items-center justify-center disabled:opacity-50"
+            >
+              {isCapturing ? <Loader2 size={22} className="animate-spin" /> : <Camera size={22} />}
+            </button>
+            <div className="flex items-center justify-end min-w-[120px]">
+              {canSwitchCamera && (
+                <button onClick={() => setFacingMode(prev => prev === 'environment' ? 'user' : 'environment')} title="Switch camera" className="nm-btn p-3 rounded-xl text-emeraldArch"><SwitchCamera size={16} /></button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {shots.length > 0 && (
+          <div className="flex space-x-3 overflow-x-auto scrollbar-hide p-1">
+            {shots.map(shot => (
+              <button
+                key={shot.id}
+                onClick={() => setSelectedId(shot.id === selectedId ? null : shot.id)}
+                className={`relative w-16 h-16 rounded-xl overflow-hidden flex-shrink-0 bg-black transition-all ${shot.id === selectedId ? 'ring-2 ring-emeraldArch' : 'nm-btn'}`}
+              >
+                <img src={shot.url} alt="" className="w-full h-full object-cover" style={{ transform: `rotate(${shot.edit.rotation}deg)` }} />
+                {shot.edit.crop && (
+                  <div className="absolute bottom-1 right-1 w-4 h-4 rounded-md bg-black/60 text-white flex items-center justify-center"><Crop size={9} /></div>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <button
+          disabled={shots.length === 0 || isSaving}
+          onClick={save}
+          className="w-full nm-emerald py-5 rounded-2xl font-black text-xs uppercase tracking-widest flex items-center justify-center space-x-3 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Check size={18} />}
+          <span>{isSaving ? 'Saving...' : `Attach ${shots.length} ${shots.length === 1 ? 'Photo' : 'Photos'}`}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
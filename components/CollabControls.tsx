@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { CollabStatus, DEFAULT_RELAY_URL, Presence } from '../services/collab';
+import { Radio, X } from 'lucide-react';
+
+interface CollabControlsProps {
+  status: CollabStatus | null;
+  room: string | null;
+  meetingId: string;
+  self: Presence | null;
+  peers: Presence[];
+  onJoin: (serverUrl: string, name: string, room: string) => void;
+  onLeave: () => void;
+}
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  connecting: 'Connecting…',
+  live: 'Live',
+  offline: 'Reconnecting…'
+};
+
+const initials = (name: string) =>
+  name.trim().split(/\s+/).slice(0, 2).map(part => part[0]?.toUpperCase()).join('') || '?';
+
+export const PresenceAvatar: React.FC<{ presence: Presence; size?: 'sm' | 'md' }> = ({ presence, size = 'md' }) => (
+  <div
+    title={presence.name || 'Guest'}
+    className={`${size === 'sm' ? 'w-5 h-5 text-[8px]' : 'w-8 h-8 text-[10px]'} rounded-full flex items-center justify-center font-black text-white ring-2 ring-appBg`}
+    style={{ backgroundColor: presence.color }}
+  >
+    {initials(presence.name)}
+  </div>
+);
+
+/** Presence avatars for the meeting's room, and the dialog for joining or leaving it. */
+const CollabControls: React.FC<CollabControlsProps> = ({ status, room, meetingId, self, peers, onJoin, onLeave }) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [serverUrl, setServerUrl] = useState(() => localStorage.getItem('archi_collab_server') || DEFAULT_RELAY_URL);
+  const [name, setName] = useState(() => localStorage.getItem('archi_collab_name') || '');
+  const [roomCode, setRoomCode] = useState('');
+
+  const join = () => {
+    localStorage.setItem('archi_collab_server', serverUrl.trim());
+    localStorage.setItem('archi_collab_name', name.trim());
+    onJoin(serverUrl.trim(), name.trim(), roomCode.trim() || meetingId);
+    setIsDialogOpen(false);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => { setRoomCode(meetingId); setIsDialogOpen(true); }}
+        title={status ? STATUS_LABELS[status] : 'Edit this meeting together'}
+        className={`nm-btn px-3 py-2 rounded-xl flex items-center space-x-3 ${status ? 'text-emeraldArch' : 'text-textMuted hover:text-emeraldArch'}`}
+      >
+        <Radio size={16} className={status === 'live' ? 'animate-pulse' : ''} />
+        {status && self ? (
+          <div className="flex -space-x-2">
+            {[self, ...peers].map(presence => <PresenceAvatar key={presence.clientId} presence={presence} />)}
+          </div>
+        ) : (
+          <span className="text-[10px] font-black uppercase tracking-widest">Collaborate</span>
+        )}
+      </button>
+
+      {isDialogOpen && (
+        <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="nm-raised w-full max-w-md rounded-[40px] p-8 space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-xl font-black uppercase tracking-tight">Collaborate</h3>
+                <p className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">{status ? STATUS_LABELS[status] : 'Not connected'}</p>
+              </div>
+              <button onClick={() => setIsDialogOpen(false)} className="nm-btn p-2 rounded-xl text-textMuted"><X size={18} /></button>
+            </div>
+
+            {status ? (
+              <>
+                <div className="space-y-2">
+                  <span className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">Room</span>
+                  <div className="nm-inset rounded-xl px-4 py-3 text-xs font-bold font-mono select-all break-all">{room}</div>
+                </div>
+                <div className="space-y-3">
+                  {[...(self ? [self] : []), ...peers].map(presence => (
+                    <div key={presence.clientId} className="flex items-center space-x-3">
+                      <PresenceAvatar presence={presence} />
+                      <span className="text-xs font-bold">{presence.name || 'Guest'}{presence.clientId === self?.clientId ? ' (you)' : ''}</span>
+                    </div>
+                  ))}
+                </div>
+                <button onClick={() => { onLeave(); setIsDialogOpen(false); }} className="w-full nm-btn py-4 rounded-2xl font-black text-xs uppercase tracking-widest text-red-500">Leave Session</button>
+              </>
+            ) : (
+              <>
+                <p className="text-xs font-bold text-textMuted leading-relaxed">
+                  Everyone who joins the same room on the same relay edits this meeting together. Share the room code with them. Joining another meeting's room replaces this one's contents, so you are asked first.
+                </p>
+                <div className="space-y-2">
+                  <span className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">Your Name</span>
+                  <input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder="Shown to other participants" className="w-full nm-inset rounded-xl px-4 py-3 bg-transparent focus:outline-none text-xs font-bold" />
+                </div>
+                <div className="space-y-2">
+                  <span className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">Relay</span>
+                  <input value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} placeholder={DEFAULT_RELAY_URL} className="w-full nm-inset rounded-xl px-4 py-3 bg-transparent focus:outline-none text-xs font-bold font-mono" />
+                </div>
+                <div className="space-y-2">
+                  <span className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">Room</span>
+                  <input value={roomCode} onChange={(e) => setRoomCode(e.target.value)} placeholder={meetingId} className="w-full nm-inset rounded-xl px-4 py-3 bg-transparent focus:outline-none text-xs font-bold font-mono" />
+                </div>
+                <button disabled={!serverUrl.trim()} onClick={join} className="w-full nm-emerald py-4 rounded-2xl font-black text-xs uppercase tracking-widest disabled:opacity-50">Join Session</button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CollabControls;
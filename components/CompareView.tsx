@@ -0,0 +1,351 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Meeting, NoteImage } from '../types';
+import { flattenImageMarkup } from '../utils/markup';
+import {
+  Alignment,
+  CompareMode,
+  IDENTITY_ALIGNMENT,
+  ProjectImage,
+  alignmentTransform,
+  describeProjectImage,
+  projectImages
+} from '../utils/compare';
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowRight,
+  ArrowLeftRight,
+  ArrowUp,
+  Blend,
+  Columns2,
+  GitCompare,
+  Loader2,
+  Minus,
+  Plus,
+  RotateCcw,
+  RotateCw,
+  Split,
+  X
+} from 'lucide-react';
+
+interface CompareViewProps {
+  meetings: Meeting[]; // every meeting in the project; either sheet can come from any of them
+  initialImageId: string;
+  onClose: () => void;
+}
+
+type Slot = 'base' | 'overlay';
+
+const MODES: { mode: CompareMode; label: string; icon: typeof Blend }[] = [
+  { mode: 'side', label: 'Side by Side', icon: Columns2 },
+  { mode: 'onion', label: 'Onion Skin', icon: Blend },
+  { mode: 'swipe', label: 'Swipe', icon: Split }
+];
+
+const NUDGE = 0.001;
+const SCALE_STEP = 0.005;
+const ROTATE_STEP = 0.25;
+
+const fitWithin = (size: { width: number; height: number }, box: { width: number; height: number }) => {
+  const fit = Math.min(box.width / size.width, box.height / size.height);
+  return { width: size.width * fit, height: size.height * fit };
+};
+
+/**
+ * Two sheets from anywhere in the project, shown side by side, as an onion
+ * skin or either side of a swipe divider. In the overlay modes the second
+ * sheet can be dragged, nudged with the arrow keys, scaled and rotated until
+ * it registers on the first.
+ */
+const CompareView: React.FC<CompareViewProps> = ({ meetings, initialImageId, onClose }) => {
+  const images = projectImages(meetings);
+  const [baseId, setBaseId] = useState(initialImageId);
+  const [overlayId, setOverlayId] = useState<string | null>(null);
+  const [picking, setPicking] = useState<Slot | null>('overlay');
+  const [mode, setMode] = useState<CompareMode>('onion');
+  const [opacity, setOpacity] = useState(0.5);
+  const [swipe, setSwipe] = useState(0.5);
+  const [alignment, setAlignment] = useState<Alignment>(IDENTITY_ALIGNMENT);
+  const [showMarkup, setShowMarkup] = useState(false);
+  const [flattened, setFlattened] = useState<Record<string, string>>({});
+  const [naturalSizes, setNaturalSizes] = useState<Record<string, { width: number; height: number }>>({});
+  const [box, setBox] = useState({ width: 0, height: 0 });
+
+  const stageAreaRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ kind: 'sheet' | 'divider'; x: number; y: number } | null>(null);
+
+  const base = images.find(i => i.image.id === baseId);
+  const overlay = images.find(i => i.image.id === overlayId);
+
+  useEffect(() => {
+    const area = stageAreaRef.current;
+    if (!area) return;
+    const observer = new ResizeObserver(([entry]) => setBox({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(area);
+    return () => observer.disconnect();
+  }, [picking]);
+
+  // Markup is burnt into a copy of each sheet the first time it is asked for.
+  useEffect(() => {
+    if (!showMarkup) return;
+    let cancelled = false;
+    [base?.image, overlay?.image].forEach(image => {
+      if (!image || flattened[image.id]) return;
+      flattenImageMarkup(image).then(canvas => {
+        if (!cancelled) setFlattened(prev => ({ ...prev, [image.id]: canvas.toDataURL('image/jpeg', 0.9) }));
+      }).catch(error => console.error('Could not flatten markup for comparison:', error));
+    });
+    return () => { cancelled = true; };
+  }, [showMarkup, baseId, overlayId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        if (picking && overlay) setPicking(null);
+        else onClose();
+        return;
+      }
+      if (picking || mode === 'side' || (e.target as HTMLElement).tagName === 'INPUT') return;
+      const step = e.shiftKey ? NUDGE * 10 : NUDGE;
+      const moves: Record<string, Partial<Alignment>> = {
+        ArrowLeft: { x: alignment.x - step },
+        ArrowRight: { x: alignment.x + step },
+        ArrowUp: { y: alignment.y - step },
+        ArrowDown: { y: alignment.y + step }
+      };
+      if (!moves[e.key]) return;
+      e.preventDefault();
+      setAlignment(prev => ({ ...prev, ...moves[e.key] }));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [picking, mode, alignment, overlay]);
+
+  const sourceOf = (image: NoteImage) => (showMarkup && flattened[image.id]) || image.url;
+
+  const recordSize = (id: string) => (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    setNaturalSizes(prev => (prev[id] ? prev : { ...prev, [id]: { width: naturalWidth, height: naturalHeight } }));
+  };
+
+  const baseSize = base && naturalSizes[base.image.id];
+  const overlaySize = overlay && naturalSizes[overlay.image.id];
+  const stage = baseSize && box.width > 0 ? fitWithin(baseSize, box) : null;
+  // The overlay starts at the base sheet's width, so sheets exported at different resolutions line up.
+  const overlayHeight = stage && overlaySize ? (stage.width * overlaySize.height) / overlaySize.width : 0;
+
+  const pick = (slot: Slot, id: string) => {
+    if (slot === 'base') setBaseId(id);
+    else setOverlayId(id);
+    setAlignment(IDENTITY_ALIGNMENT);
+    setPicking(null);
+  };
+
+  const swapSheets = () => {
+    if (!overlayId) return;
+    setBaseId(overlayId);
+    setOverlayId(baseId);
+    setAlignment(IDENTITY_ALIGNMENT);
+  };
+
+  const adjust = (changes: Partial<Alignment>) => setAlignment(prev => ({ ...prev, ...changes }));
+
+  const startDrag = (e: React.PointerEvent, kind: 'sheet' | 'divider') => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { kind, x: e.clientX, y: e.clientY };
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag.current || !stage) return;
+    if (drag.current.kind === 'divider') {
+      const rect = e.currentTarget.getBoundingClientRect();
+      setSwipe(Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1));
+      return;
+    }
+    const dx = e.clientX - drag.current.x;
+    const dy = e.clientY - drag.current.y;
+    drag.current = { ...drag.current, x: e.clientX, y: e.clientY };
+    setAlignment(prev => ({ ...prev, x: prev.x + dx / stage.width, y: prev.y + dy / (overlayHeight || stage.height) }));
+  };
+
+  const renderLabel = (slot: Slot, entry?: ProjectImage) => (
+    <button
+      onClick={() => setPicking(slot)}
+      className={`nm-btn flex items-center space-x-3 px-4 py-2 rounded-xl min-w-0 max-w-[360px] ${picking === slot ? 'nm-btn-active' : ''}`}
+      title="Choose another sheet"
+    >
+      <span className={`w-5 h-5 rounded-md text-[10px] font-black flex items-center justify-center flex-shrink-0 ${slot === 'base' ? 'bg-emeraldArch text-black' : 'bg-red-500 text-white'}`}>{slot === 'base' ? 'A' : 'B'}</span>
+      <span className="text-[10px] font-black uppercase tracking-widest text-textMuted truncate">{entry ? describeProjectImage(entry) : 'Choose a sheet'}</span>
+    </button>
+  );
+
+  const renderPicker = (slot: Slot) => (
+    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4 overflow-y-auto p-2 scrollbar-hide">
+      {images.map(entry => {
+        const isCurrent = entry.image.id === (slot === 'base' ? baseId : overlayId);
+        const isOther = entry.image.id === (slot === 'base' ? overlayId : baseId);
+        return (
+          <button
+            key={entry.image.id}
+            onClick={() => pick(slot, entry.image.id)}
+            disabled={isOther}
+            className={`nm-btn rounded-2xl p-2 space-y-2 text-left disabled:opacity-30 ${isCurrent ? 'ring-2 ring-emeraldArch' : ''}`}
+          >
+            <img src={entry.image.url} className="w-full h-28 object-contain rounded-xl bg-white" />
+            <p className="text-[9px] font-black uppercase tracking-widest text-textMuted line-clamp-2">{describeProjectImage(entry)}</p>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderSheet = (entry: ProjectImage) => (
+    <img
+      src={sourceOf(entry.image)}
+      onLoad={recordSize(entry.image.id)}
+      className="max-w-full max-h-full object-contain select-none"
+      draggable={false}
+    />
+  );
+
+  const renderOverlayStage = () => {
+    if (!base || !overlay) return null;
+    return (
+      <div
+        className="relative bg-white shadow-2xl overflow-hidden touch-none"
+        style={stage ? { width: stage.width, height: stage.height } : { visibility: 'hidden' }}
+        onPointerMove={moveDrag}
+        onPointerUp={() => { drag.current = null; }}
+      >
+        <img
+          src={sourceOf(base.image)}
+          onLoad={recordSize(base.image.id)}
+          className="absolute inset-0 w-full h-full select-none"
+          draggable={false}
+        />
+        <div
+          className="absolute inset-0 cursor-move"
+          style={mode === 'onion' ? { opacity } : { clipPath: `inset(0 0 0 ${swipe * 100}%)` }}
+          onPointerDown={(e) => startDrag(e, 'sheet')}
+        >
+          <img
+            src={sourceOf(overlay.image)}
+            onLoad={recordSize(overlay.image.id)}
+            className="absolute left-0 top-0 select-none"
+            draggable={false}
+            style={{ width: stage?.width, height: overlayHeight || undefined, transform: alignmentTransform(alignment), transformOrigin: 'center' }}
+          />
+        </div>
+        {mode === 'swipe' && (
+          <div
+            className="absolute inset-y-0 w-6 -ml-3 cursor-ew-resize flex items-center justify-center"
+            style={{ left: `${swipe * 100}%` }}
+            onPointerDown={(e) => startDrag(e, 'divider')}
+          >
+            <div className="w-0.5 h-full bg-emeraldArch" />
+            <div className="absolute nm-raised p-1.5 rounded-full text-emeraldArch"><ArrowLeftRight size={14} /></div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const isAligned = alignment.x === 0 && alignment.y === 0 && alignment.scale === 1 && alignment.rotation === 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="nm-raised w-full max-w-[95vw] h-[90vh] rounded-[40px] p-8 space-y-6 flex flex-col">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4 min-w-0">
+            <div className="p-2 nm-inset rounded-xl text-emeraldArch"><GitCompare size={18} /></div>
+            <h3 className="text-xl font-black uppercase tracking-tight flex-shrink-0">Compare Revisions</h3>
+          </div>
+          <div className="flex items-center space-x-3">
+            <div className="flex nm-inset p-1 rounded-xl space-x-1">
+              {MODES.map(({ mode: option, label, icon: Icon }) => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  title={label}
+                  className={`p-2 rounded-lg transition-all ${mode === option ? 'nm-inset text-emeraldArch' : 'nm-btn text-textMuted'}`}
+                >
+                  <Icon size={16} />
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setShowMarkup(!showMarkup)}
+              className={`nm-btn px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest ${showMarkup ? 'nm-btn-active text-emeraldArch' : 'text-textMuted'}`}
+            >
+              Markup
+            </button>
+            <button onClick={onClose} className="nm-btn p-2 rounded-xl text-textMuted"><X size={18} /></button>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          {renderLabel('base', base)}
+          <button onClick={swapSheets} disabled={!overlay} title="Swap sheets" className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch disabled:opacity-30"><ArrowLeftRight size={14} /></button>
+          {renderLabel('overlay', overlay)}
+        </div>
+
+        {picking || !base || !overlay ? (
+          renderPicker(picking || 'overlay')
+        ) : (
+          <div ref={stageAreaRef} className="nm-inset relative flex-1 min-h-0 rounded-2xl overflow-hidden flex items-center justify-center p-6">
+            {mode === 'side' ? (
+              <div className="grid grid-cols-2 gap-6 w-full h-full">
+                <div className="flex items-center justify-center min-h-0">{renderSheet(base)}</div>
+                <div className="flex items-center justify-center min-h-0">{renderSheet(overlay)}</div>
+              </div>
+            ) : renderOverlayStage()}
+            {showMarkup && (!flattened[base.image.id] || !flattened[overlay.image.id]) && (
+              <Loader2 size={20} className="absolute animate-spin text-emeraldArch" />
+            )}
+          </div>
+        )}
+
+        {!picking && overlay && mode !== 'side' && (
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div className="flex items-center space-x-3">
+              {mode === 'onion' ? (
+                <>
+                  <span className="text-[9px] font-black uppercase tracking-widest text-textMuted">B Opacity</span>
+                  <input type="range" min={0} max={1} step={0.01} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} className="w-48 accent-emeraldArch" />
+                  <span className="text-[10px] font-mono font-bold text-emeraldArch w-10">{Math.round(opacity * 100)}%</span>
+                </>
+              ) : (
+                <span className="text-[9px] font-black uppercase tracking-widest text-textMuted">Drag the divider to sweep between A and B</span>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-[9px] font-black uppercase tracking-widest text-textMuted mr-1">Align B</span>
+              <button onClick={() => adjust({ x: alignment.x - NUDGE })} title="Nudge left (←, Shift for more)" className="nm-btn p-2 rounded-xl text-textMuted"><ArrowLeft size={14} /></button>
+              <button onClick={() => adjust({ y: alignment.y - NUDGE })} title="Nudge up (↑)" className="nm-btn p-2 rounded-xl text-textMuted"><ArrowUp size={14} /></button>
+              <button onClick={() => adjust({ y: alignment.y + NUDGE })} title="Nudge down (↓)" className="nm-btn p-2 rounded-xl text-textMuted"><ArrowDown size={14} /></button>
+              <button onClick={() => adjust({ x: alignment.x + NUDGE })} title="Nudge right (→)" className="nm-btn p-2 rounded-xl text-textMuted"><ArrowRight size={14} /></button>
+              <div className="w-px h-4 bg-textMuted/20 mx-1" />
+              <button onClick={() => adjust({ scale: alignment.scale - SCALE_STEP })} title="Shrink" className="nm-btn p-2 rounded-xl text-textMuted"><Minus size={14} /></button>
+              <span className="text-[10px] font-mono font-bold text-emeraldArch w-14 text-center">{(alignment.scale * 100).toFixed(1)}%</span>
+              <button onClick={() => adjust({ scale: alignment.scale + SCALE_STEP })} title="Enlarge" className="nm-btn p-2 rounded-xl text-textMuted"><Plus size={14} /></button>
+              <div className="w-px h-4 bg-textMuted/20 mx-1" />
+              <button onClick={() => adjust({ rotation: alignment.rotation - ROTATE_STEP })} title="Rotate anticlockwise" className="nm-btn p-2 rounded-xl text-textMuted"><RotateCcw size={14} /></button>
+              <span className="text-[10px] font-mono font-bold text-emeraldArch w-12 text-center">{alignment.rotation.toFixed(2)}°</span>
+              <button onClick={() => adjust({ rotation: alignment.rotation + ROTATE_STEP })} title="Rotate clockwise" className="nm-btn p-2 rounded-xl text-textMuted"><RotateCw size={14} /></button>
+              <button
+                onClick={() => setAlignment(IDENTITY_ALIGNMENT)}
+                disabled={isAligned}
+                className="nm-btn px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-textMuted disabled:opacity-30"
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
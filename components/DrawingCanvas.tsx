@@ -1,77 +1,102 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { MarkupPath, ToolType, ToolColor } from '../types';
-import { Undo, Redo, Eraser, Highlighter, PenTool, Save, X } from 'lucide-react';
+import { FreehandMarkup, ImagePin, MarkupLayer, MarkupPath, MarkupPoint, NoteImage, NoteRow, ScaleCalibration, ToolType } from '../types';
+import { Undo, Redo, Eraser, Highlighter, PenTool, Save, Trash2, Copy, X, Pencil, Maximize, MapPin } from 'lucide-react';
+import { MEASURE_TOOL_OPTIONS, SHAPE_TOOL_OPTIONS } from '../constants';
+import { createShape, drawFreehandSegments, drawMarkup, eraseMarkup, findMarkupAt, fitToEditor, isShapeTool } from '../utils/markup';
+import { calibrationScale, describeCalibration, distanceBetween, parseDistance } from '../utils/measurement';
+import { simplifyPoints, smoothPoint } from '../utils/strokes';
+import { isPathEditable, isPathVisible, layerOf, resolveLayers } from '../utils/layers';
+import { PIN_RADIUS, createPin, rowItemLabel } from '../utils/pins';
+import { useMarkupSelection } from '../hooks/useMarkupSelection';
+import { CanvasView, DEFAULT_VIEW, applyPinch, pointerPressure, usePointerDrawing } from '../hooks/usePointerDrawing';
+import LayerPanel from './LayerPanel';
+import PinPanel from './PinPanel';
 
 interface DrawingCanvasProps {
-  imageUrl: string;
-  initialMarkup: MarkupPath[];
-  onSave: (markup: MarkupPath[]) => void;
+  image: NoteImage;
+  rows: NoteRow[]; // the meeting's rows, which pins can link to
+  authors: string[];
+  penOnly: boolean;
+  onPenOnlyChange: (penOnly: boolean) => void;
+  onSave: (image: NoteImage) => void;
   onCancel: () => void;
+  onNavigateRow: (rowId: string) => void; // called after the edits are saved and the editor closed
 }
 
-const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ imageUrl, initialMarkup, onSave, onCancel }) => {
+/** One step of undo history: markup and pins are undone together, in the order they were edited. */
+interface EditorState {
+  paths: MarkupPath[];
+  pins: ImagePin[];
+}
+
+const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ image, rows, authors, penOnly, onPenOnlyChange, onSave, onCancel, onNavigateRow }) => {
+  const imageUrl = image.url;
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [paths, setPaths] = useState<MarkupPath[]>(initialMarkup);
-  const [redoStack, setRedoStack] = useState<MarkupPath[][]>([]);
+  const liveCanvasRef = useRef<HTMLCanvasElement>(null);
+  const drawnSegments = useRef(0);
+  const draggingPin = useRef<{ id: string, before: ImagePin[] } | null>(null);
+  const [paths, setPaths] = useState<MarkupPath[]>(image.markup);
+  const [calibration, setCalibration] = useState<ScaleCalibration | undefined>(image.calibration);
+  const [history, setHistory] = useState<EditorState[]>([]);
+  const [redoStack, setRedoStack] = useState<EditorState[]>([]);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [currentPath, setCurrentPath] = useState<{ x: number; y: number }[]>([]);
+  const [currentPath, setCurrentPath] = useState<MarkupPoint[]>([]);
   const [tool, setTool] = useState<ToolType>(ToolType.MARKER);
-  const [color, setColor] = useState<ToolColor>('#ef4444'); 
+  const [color, setColor] = useState<string>('#ef4444'); 
   const [imgSize, setImgSize] = useState({ width: 0, height: 0 });
+  // Markup is stored in this coordinate space, which stays fixed once an image has been marked up.
+  const [markupSize, setMarkupSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<CanvasView>(DEFAULT_VIEW);
+  const [layers, setLayers] = useState<MarkupLayer[]>(() => resolveLayers(image.layers));
+  const [activeLayerId, setActiveLayerId] = useState(() => resolveLayers(image.layers)[0].id);
+  const [pins, setPins] = useState<ImagePin[]>(image.pins || []);
+  const [activePinId, setActivePinId] = useState<string | null>(null);
+
+  const activeLayer = layers.find(l => l.id === activeLayerId) || layers[0];
+  const canDraw = activeLayer.visible && !activeLayer.locked;
+  const isEditable = (path: MarkupPath) => isPathEditable(path, layers);
+
+  const scale = calibrationScale(calibration);
+
+  const recordEdit = (before: EditorState) => {
+    setHistory(prev => [...prev, before]);
+    setRedoStack([]);
+  };
+
+  // Every edit goes through here so that undo steps back one whole edit, transforms included.
+  const commitPaths = (next: MarkupPath[]) => {
+    recordEdit({ paths, pins });
+    setPaths(next);
+  };
+
+  // Adding, moving and deleting pins are undoable; typing a note or changing its link is not.
+  const commitPins = (next: ImagePin[]) => {
+    recordEdit({ paths, pins });
+    setPins(next);
+  };
+
+  const selection = useMarkupSelection(paths, commitPaths, { enabled: tool === ToolType.SELECT, tolerance: 8, handleSize: 8, isSelectable: isEditable });
 
   useEffect(() => {
     const img = new Image();
     img.src = imageUrl;
     img.onload = () => {
-      const maxWidth = window.innerWidth * 0.8;
-      const maxHeight = window.innerHeight * 0.7;
-      let width = img.width;
-      let height = img.height;
-
-      if (width > maxWidth) {
-        height *= maxWidth / width;
-        width = maxWidth;
-      }
-      if (height > maxHeight) {
-        width *= maxHeight / height;
-        height = maxHeight;
-      }
-      setImgSize({ width, height });
+      const displaySize = fitToEditor(img.width, img.height);
+      setImgSize(displaySize);
+      setMarkupSize(image.markupSize || displaySize);
     };
   }, [imageUrl]);
 
   const drawPaths = useCallback((ctx: CanvasRenderingContext2D) => {
     ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
     
-    paths.forEach(path => {
-      ctx.beginPath();
-      ctx.strokeStyle = path.color;
-      ctx.lineWidth = path.width;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.globalAlpha = path.isHighlighter ? 0.4 : 1.0;
-      
-      if (path.points.length > 0) {
-        ctx.moveTo(path.points[0].x, path.points[0].y);
-        path.points.forEach(p => ctx.lineTo(p.x, p.y));
-        ctx.stroke();
-      }
+    selection.previewPaths.forEach(path => {
+      if (isPathVisible(path, layers)) drawMarkup(ctx, path, scale);
     });
-
-    if (currentPath.length > 0) {
-      ctx.beginPath();
-      ctx.strokeStyle = tool === ToolType.ERASER ? '#ffffff' : color;
-      ctx.lineWidth = tool === ToolType.HIGHLIGHTER ? 20 : 4;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.globalAlpha = tool === ToolType.HIGHLIGHTER ? 0.4 : 1.0;
-      ctx.moveTo(currentPath[0].x, currentPath[0].y);
-      currentPath.forEach(p => ctx.lineTo(p.x, p.y));
-      ctx.stroke();
-    }
-  }, [paths, currentPath, color, tool]);
+    selection.drawOverlay(ctx);
+  }, [selection.previewPaths, selection.drawOverlay, calibration, layers]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -79,72 +104,312 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ imageUrl, initialMarkup,
       const ctx = canvas.getContext('2d');
       if (ctx) drawPaths(ctx);
     }
-  }, [drawPaths, imgSize]);
+  }, [drawPaths, markupSize]);
+
+  // The stroke in progress has a canvas of its own. Freehand strokes only add
+  // their newest segment there, so the markup below is not re-stroked on every move.
+  useEffect(() => {
+    const ctx = liveCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const isFreehand = tool === ToolType.MARKER || tool === ToolType.HIGHLIGHTER || tool === ToolType.ERASER;
+    if (isFreehand && currentPath.length > 0) {
+      if (drawnSegments.current >= currentPath.length) {
+        ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        drawnSegments.current = 0;
+      }
+      const stroke: FreehandMarkup = {
+        type: 'freehand',
+        points: currentPath,
+        color: tool === ToolType.ERASER ? '#ffffff' : color,
+        width: tool === ToolType.HIGHLIGHTER ? 20 : 4,
+        isHighlighter: tool === ToolType.HIGHLIGHTER
+      };
+      drawFreehandSegments(ctx, stroke, drawnSegments.current, currentPath.length - 1);
+      drawnSegments.current = currentPath.length - 1;
+      return;
+    }
+
+    drawnSegments.current = 0;
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    if (calibration && tool === ToolType.CALIBRATE && currentPath.length === 0) {
+      drawMarkup(ctx, { type: 'dimension', points: calibration.points, color: '#50C878', width: 2 }, scale);
+    }
+    if (currentPath.length > 0 && tool === ToolType.CALIBRATE) {
+      drawMarkup(ctx, { type: 'dimension', points: [currentPath[0], currentPath[currentPath.length - 1]], color: '#50C878', width: 2 });
+    } else if (currentPath.length > 0 && tool === ToolType.AREA) {
+      drawMarkup(ctx, { type: 'area', points: currentPath, color, width: 2 }, currentPath.length >= 3 ? scale : undefined);
+    } else if (currentPath.length > 0 && isShapeTool(tool)) {
+      drawMarkup(ctx, createShape(tool, currentPath[0], currentPath[currentPath.length - 1], color, 4));
+    }
+  }, [currentPath, color, tool, calibration, markupSize]);
 
-  const getCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
+  const getCoordinates = (e: React.MouseEvent) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
     const rect = canvas.getBoundingClientRect();
-    const x = ('touches' in e ? e.touches[0].clientX : e.clientX) - rect.left;
-    const y = ('touches' in e ? e.touches[0].clientY : e.clientY) - rect.top;
-    return { x, y };
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    return { x: x * canvas.width / rect.width, y: y * canvas.height / rect.height };
   };
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    setIsDrawing(true);
+  // Only the pen records pressure; highlighter and eraser strokes keep an even width.
+  const getStrokePoint = (e: React.PointerEvent): MarkupPoint => {
+    const point = getCoordinates(e);
+    const pressure = tool === ToolType.MARKER ? pointerPressure(e) : undefined;
+    return pressure === undefined ? point : { ...point, pressure };
+  };
+
+  useEffect(() => {
+    if (tool !== ToolType.AREA || !isDrawing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') cancelDrawing();
+      if (e.key === 'Enter') finishArea();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tool, isDrawing, currentPath]);
+
+  const selectTool = (next: ToolType) => {
+    setTool(next);
+    cancelDrawing();
+  };
+
+  const pickColor = (next: string) => {
+    setColor(next);
+    if (tool === ToolType.SELECT && selection.selected.length > 0) selection.recolorSelected(next);
+    else if (!isShapeTool(tool) && tool !== ToolType.AREA) selectTool(ToolType.MARKER);
+  };
+
+  const cancelDrawing = () => {
+    setIsDrawing(false);
+    setCurrentPath([]);
+  };
+
+  const activateLayer = (id: string) => {
+    const layer = layers.find(l => l.id === id);
+    if (!layer) return;
+    setActiveLayerId(id);
+    setColor(layer.color);
+    cancelDrawing();
+  };
+
+  const deleteLayer = (id: string) => {
+    const layer = layers.find(l => l.id === id);
+    const remaining = layers.filter(l => l.id !== id);
+    if (!layer || remaining.length === 0) return;
+    const onLayer = paths.filter(p => layerOf(p, layers).id === id);
+    if (onLayer.length > 0 && !confirm(`Delete "${layer.name}" and its ${onLayer.length} markup ${onLayer.length === 1 ? 'item' : 'items'}?`)) return;
+    selection.clearSelection();
+    if (onLayer.length > 0) commitPaths(paths.filter(p => !onLayer.includes(p)));
+    setLayers(remaining);
+    if (id === activeLayer.id) setActiveLayerId(remaining[remaining.length - 1].id);
+  };
+
+  const markupCounts = paths.reduce<Record<string, number>>((counts, path) => {
+    const id = layerOf(path, layers).id;
+    counts[id] = (counts[id] || 0) + 1;
+    return counts;
+  }, {});
+
+  const toggleUnits = () => {
+    if (calibration) setCalibration({ ...calibration, units: calibration.units === 'metric' ? 'imperial' : 'metric' });
+  };
+
+  const calibrate = (points: MarkupPoint[]) => {
+    if (distanceBetween(points[0], points[1]) < 3) return;
+    const input = prompt('Real distance between the two points (e.g. 5000 mm, 4.2 m, 16\' 6")', calibration ? describeCalibration(calibration).replace(' reference', '') : '');
+    if (input === null) return;
+    const distance = parseDistance(input);
+    if (!distance) {
+      alert(`"${input}" is not a distance. Use a number with mm, cm, m, ft or in.`);
+      return;
+    }
+    setCalibration({ points, distanceMm: distance.mm, units: distance.units });
+  };
+
+  // The last point of an area in progress follows the pointer; clicks fix it in place.
+  const finishArea = () => {
+    const points = currentPath.slice(0, -1).filter((p, i, all) => i === 0 || distanceBetween(p, all[i - 1]) > 3);
+    if (points.length >= 3) {
+      commitPaths([...paths, { type: 'area', points, color, width: 2, layerId: activeLayer.id }]);
+    }
+    cancelDrawing();
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (tool === ToolType.AREA && isDrawing) finishArea();
+    else editCallout(e);
+  };
+
+  const editCallout = (e: React.MouseEvent) => {
+    if (tool !== ToolType.SELECT) return;
+    const index = findMarkupAt(paths, getCoordinates(e), 8, isEditable);
+    const path = paths[index];
+    if (path?.type !== 'text') return;
+    const text = prompt('Callout text', path.text);
+    if (text === null || !text.trim()) return;
+    commitPaths(paths.map((p, i) => i === index ? { ...path, text: text.trim() } : p));
+  };
+
+  const startDrawing = (e: React.PointerEvent) => {
     const coords = getCoordinates(e);
-    setCurrentPath([coords]);
+    if (tool === ToolType.SELECT) {
+      selection.pointerDown(coords, e.shiftKey);
+      return;
+    }
+    // Pins sit above the layers, so they can be dropped whichever layer is active.
+    if (tool === ToolType.PIN) {
+      const pin = createPin(pins, coords);
+      commitPins([...pins, pin]);
+      setActivePinId(pin.id);
+      return;
+    }
+    // Calibration only measures the image, so it works whatever the active layer.
+    if (!canDraw && tool !== ToolType.CALIBRATE) return;
+    if (tool === ToolType.AREA && isDrawing) {
+      if (currentPath.length >= 4 && distanceBetween(coords, currentPath[0]) < 10) finishArea();
+      else setCurrentPath(prev => [...prev.slice(0, -1), coords, coords]);
+      return;
+    }
+    if (tool === ToolType.AREA) {
+      setIsDrawing(true);
+      setCurrentPath([coords, coords]);
+      return;
+    }
+    setIsDrawing(true);
+    setCurrentPath([getStrokePoint(e)]);
   };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
+  const draw = (e: React.PointerEvent) => {
+    if (tool === ToolType.SELECT) selection.pointerMove(getCoordinates(e));
     if (!isDrawing) return;
     const coords = getCoordinates(e);
-    setCurrentPath(prev => [...prev, coords]);
+    if (tool === ToolType.AREA) setCurrentPath(prev => [...prev.slice(0, -1), coords]);
+    else if (isShapeTool(tool) || tool === ToolType.CALIBRATE) setCurrentPath(prev => [prev[0], coords]);
+    else if (tool === ToolType.ERASER) setCurrentPath(prev => [...prev, coords]);
+    else setCurrentPath(prev => [...prev, smoothPoint(prev[prev.length - 1], getStrokePoint(e))]);
+  };
+
+  // A second finger or a stylus took over from the pointer that was drawing.
+  const abandonStroke = () => {
+    if (tool === ToolType.SELECT) selection.cancelGesture();
+    else if (tool === ToolType.AREA && currentPath.length > 2) setCurrentPath(prev => [...prev.slice(0, -2), prev[prev.length - 1]]);
+    else cancelDrawing();
   };
 
   const endDrawing = () => {
-    if (!isDrawing) return;
+    if (tool === ToolType.SELECT) selection.pointerUp();
+    if (!isDrawing || tool === ToolType.AREA) return;
     setIsDrawing(false);
     
-    if (tool === ToolType.ERASER) {
-        setPaths(prev => prev.filter(p => !isPathIntersecting(p.points, currentPath)));
+    if (tool === ToolType.CALIBRATE) {
+        calibrate([currentPath[0], currentPath[currentPath.length - 1]]);
+    } else if (tool === ToolType.ERASER) {
+        commitPaths(eraseMarkup(paths, currentPath, 15, isEditable));
+    } else if (isShapeTool(tool)) {
+        const shape = { ...createShape(tool, currentPath[0], currentPath[currentPath.length - 1], color, 4), layerId: activeLayer.id };
+        if (shape.type === 'text') {
+          const text = prompt('Callout text');
+          if (text?.trim()) commitPaths([...paths, { ...shape, text: text.trim() }]);
+        } else if (Math.hypot(shape.points[1].x - shape.points[0].x, shape.points[1].y - shape.points[0].y) > 3) {
+          commitPaths([...paths, shape]);
+        }
     } else {
         const newPath: MarkupPath = {
-          points: currentPath,
+          type: 'freehand',
+          points: simplifyPoints(currentPath),
           color: color,
           width: tool === ToolType.HIGHLIGHTER ? 20 : 4,
-          isHighlighter: tool === ToolType.HIGHLIGHTER
+          isHighlighter: tool === ToolType.HIGHLIGHTER,
+          layerId: activeLayer.id
         };
-        setPaths(prev => [...prev, newPath]);
+        commitPaths([...paths, newPath]);
     }
-    setRedoStack([]);
     setCurrentPath([]);
   };
 
-  const isPathIntersecting = (p1: {x:number, y:number}[], p2: {x:number, y:number}[]) => {
-      for (const pt1 of p1) {
-          for (const pt2 of p2) {
-              const dist = Math.sqrt((pt1.x - pt2.x)**2 + (pt1.y - pt2.y)**2);
-              if (dist < 15) return true;
-          }
-      }
-      return false;
+  const pointer = usePointerDrawing({
+    penOnly,
+    onStart: startDrawing,
+    onMove: draw,
+    onEnd: endDrawing,
+    onCancel: abandonStroke,
+    onPinch: change => {
+      const canvas = canvasRef.current;
+      if (canvas) setView(prev => applyPinch(prev, change, canvas.getBoundingClientRect(), 0.5, 6));
+    }
+  });
+
+  const grabPin = (e: React.PointerEvent, id: string) => {
+    e.stopPropagation();
+    setActivePinId(id);
+    if (tool !== ToolType.PIN) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingPin.current = { id, before: pins };
+  };
+
+  const dragPin = (e: React.PointerEvent) => {
+    const drag = draggingPin.current;
+    if (!drag) return;
+    const { x, y } = getCoordinates(e);
+    const clamped = { x: Math.min(Math.max(x, 0), markupSize.width), y: Math.min(Math.max(y, 0), markupSize.height) };
+    setPins(prev => prev.map(pin => (pin.id === drag.id ? { ...pin, point: clamped } : pin)));
+  };
+
+  // A whole drag is one undo step, recorded once the pin is let go.
+  const dropPin = () => {
+    const drag = draggingPin.current;
+    draggingPin.current = null;
+    if (drag && drag.before !== pins) recordEdit({ paths, pins: drag.before });
+  };
+
+  const restore = (state: EditorState) => {
+    setPaths(state.paths);
+    setPins(state.pins);
   };
 
   const handleUndo = () => {
-    if (paths.length === 0) return;
-    const last = paths[paths.length - 1];
-    setRedoStack(prev => [[last], ...prev]);
-    setPaths(prev => prev.slice(0, -1));
+    if (history.length === 0) return;
+    selection.clearSelection();
+    setRedoStack(prev => [{ paths, pins }, ...prev]);
+    restore(history[history.length - 1]);
+    setHistory(prev => prev.slice(0, -1));
   };
 
   const handleRedo = () => {
     if (redoStack.length === 0) return;
-    const next = redoStack[0];
-    setPaths(prev => [...prev, ...next]);
+    selection.clearSelection();
+    setHistory(prev => [...prev, { paths, pins }]);
+    restore(redoStack[0]);
     setRedoStack(prev => prev.slice(1));
   };
 
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) outside text fields, which keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, redoStack, paths, pins]);
+
+  const editedImage = (): NoteImage => ({ ...image, markup: paths, markupSize, calibration, layers, pins });
+
+  // Following a pin's link leaves the editor, so the edits are published first.
+  const navigateToRow = (rowId: string) => {
+    onSave(editedImage());
+    onNavigateRow(rowId);
+  };
+
   return (
     <div className="fixed inset-0 z-50 bg-black/95 flex flex-col items-center justify-center p-4">
       <div className="bg-neutral-900 border border-neutral-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col max-w-[95vw] max-h-[90vh] w-full">
@@ -153,36 +418,36 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ imageUrl, initialMarkup,
           <div className="flex items-center space-x-6">
             <div className="flex bg-neutral-900 border border-neutral-800 rounded-xl overflow-hidden shadow-lg p-1">
               <button 
-                onClick={() => { setTool(ToolType.MARKER); setColor('#3b82f6'); }}
-                className={`p-2.5 rounded-lg transition-all ${tool === ToolType.MARKER && color === '#3b82f6' ? 'bg-blue-600/20 text-blue-400' : 'text-neutral-500 hover:text-white'}`}
+                onClick={() => pickColor('#3b82f6')}
+                className={`p-2.5 rounded-lg transition-all ${(tool === ToolType.MARKER || isShapeTool(tool)) && color === '#3b82f6' ? 'bg-blue-600/20 text-blue-400' : 'text-neutral-500 hover:text-white'}`}
                 title="Blue"
               >
                 <PenTool size={20} className="stroke-[3px]" />
               </button>
               <button 
-                onClick={() => { setTool(ToolType.MARKER); setColor('#ef4444'); }}
-                className={`p-2.5 rounded-lg transition-all ${tool === ToolType.MARKER && color === '#ef4444' ? 'bg-red-600/20 text-red-400' : 'text-neutral-500 hover:text-white'}`}
+                onClick={() => pickColor('#ef4444')}
+                className={`p-2.5 rounded-lg transition-all ${(tool === ToolType.MARKER || isShapeTool(tool)) && color === '#ef4444' ? 'bg-red-600/20 text-red-400' : 'text-neutral-500 hover:text-white'}`}
                 title="Red"
               >
                 <PenTool size={20} className="stroke-[3px]" />
               </button>
               <button 
-                onClick={() => { setTool(ToolType.MARKER); setColor('#22c55e'); }}
-                className={`p-2.5 rounded-lg transition-all ${tool === ToolType.MARKER && color === '#22c55e' ? 'bg-green-600/20 text-green-400' : 'text-neutral-500 hover:text-white'}`}
+                onClick={() => pickColor('#22c55e')}
+                className={`p-2.5 rounded-lg transition-all ${(tool === ToolType.MARKER || isShapeTool(tool)) && color === '#22c55e' ? 'bg-green-600/20 text-green-400' : 'text-neutral-500 hover:text-white'}`}
                 title="Green"
               >
                 <PenTool size={20} className="stroke-[3px]" />
               </button>
               <div className="w-px h-6 bg-neutral-800 mx-1 self-center" />
               <button 
-                onClick={() => { setTool(ToolType.HIGHLIGHTER); setColor('#facc15'); }}
+                onClick={() => { selectTool(ToolType.HIGHLIGHTER); setColor('#facc15'); }}
                 className={`p-2.5 rounded-lg transition-all ${tool === ToolType.HIGHLIGHTER ? 'bg-yellow-600/20 text-yellow-400' : 'text-neutral-500 hover:text-white'}`}
                 title="Highlighter"
               >
                 <Highlighter size={20} className="stroke-[2.5px]" />
               </button>
               <button 
-                onClick={() => setTool(ToolType.ERASER)}
+                onClick={() => selectTool(ToolType.ERASER)}
                 className={`p-2.5 rounded-lg transition-all ${tool === ToolType.ERASER ? 'bg-white/10 text-white' : 'text-neutral-500 hover:text-white'}`}
                 title="Eraser"
               >
@@ -191,7 +456,81 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ imageUrl, initialMarkup,
             </div>
 
             <div className="flex bg-neutral-900 border border-neutral-800 rounded-xl overflow-hidden shadow-lg p-1">
-              <button onClick={handleUndo} className="p-2.5 hover:text-emeraldArch text-neutral-500 disabled:opacity-20" disabled={paths.length === 0}>
+              {SHAPE_TOOL_OPTIONS.map(({ tool: option, label, icon: Icon }) => (
+                <button
+                  key={option}
+                  onClick={() => selectTool(option)}
+                  className={`p-2.5 rounded-lg transition-all ${tool === option ? 'bg-white/10 text-white' : 'text-neutral-500 hover:text-white'}`}
+                  title={label}
+                >
+                  <Icon size={20} />
+                </button>
+              ))}
+              {selection.selected.length > 0 && (
+                <>
+                  <div className="w-px h-6 bg-neutral-800 mx-1 self-center" />
+                  <input
+                    type="range"
+                    min={1}
+                    max={40}
+                    value={selection.selectedWidth ?? 4}
+                    onChange={(e) => selection.setSelectedWidth(Number(e.target.value))}
+                    className="w-20 self-center accent-emeraldArch"
+                    title="Stroke width"
+                  />
+                  <button onClick={selection.duplicateSelected} className="p-2.5 rounded-lg text-neutral-500 hover:text-white" title="Duplicate selected (Ctrl+D)">
+                    <Copy size={20} />
+                  </button>
+                  <button onClick={selection.deleteSelected} className="p-2.5 rounded-lg text-red-400 hover:text-red-300" title="Delete selected">
+                    <Trash2 size={20} />
+                  </button>
+                </>
+              )}
+            </div>
+
+            <div className="flex items-center bg-neutral-900 border border-neutral-800 rounded-xl overflow-hidden shadow-lg p-1">
+              {MEASURE_TOOL_OPTIONS.map(({ tool: option, label, icon: Icon }) => (
+                <button
+                  key={option}
+                  onClick={() => selectTool(option)}
+                  disabled={option !== ToolType.CALIBRATE && !calibration}
+                  className={`p-2.5 rounded-lg transition-all disabled:opacity-20 ${tool === option ? 'bg-white/10 text-white' : 'text-neutral-500 hover:text-white'}`}
+                  title={option !== ToolType.CALIBRATE && !calibration ? `${label} (set the scale first)` : label}
+                >
+                  <Icon size={20} />
+                </button>
+              ))}
+              {calibration && (
+                <button onClick={toggleUnits} className="px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest text-emeraldArch hover:text-white" title={`Scale: ${describeCalibration(calibration)}. Click to switch units.`}>
+                  {calibration.units === 'metric' ? 'mm' : 'ft-in'}
+                </button>
+              )}
+            </div>
+
+            <div className="flex bg-neutral-900 border border-neutral-800 rounded-xl overflow-hidden shadow-lg p-1">
+              <button
+                onClick={() => selectTool(ToolType.PIN)}
+                className={`p-2.5 rounded-lg transition-all ${tool === ToolType.PIN ? 'bg-white/10 text-emeraldArch' : 'text-neutral-500 hover:text-white'}`}
+                title="Pin a comment"
+              >
+                <MapPin size={20} />
+              </button>
+            </div>
+
+            <div className="flex bg-neutral-900 border border-neutral-800 rounded-xl overflow-hidden shadow-lg p-1">
+              <button
+                onClick={() => onPenOnlyChange(!penOnly)}
+                className={`p-2.5 rounded-lg transition-all ${penOnly ? 'bg-white/10 text-emeraldArch' : 'text-neutral-500 hover:text-white'}`}
+                title={penOnly ? 'Pen only: touch pans and zooms' : 'Touch draws. Click to draw with a stylus only'}
+              >
+                <Pencil size={20} />
+              </button>
+              {(view.zoom !== 1 || view.x !== 0 || view.y !== 0) && (
+                <button onClick={() => setView(DEFAULT_VIEW)} className="p-2.5 rounded-lg text-neutral-500 hover:text-white" title="Reset zoom">
+                  <Maximize size={20} />
+                </button>
+              )}
+              <button onClick={handleUndo} className="p-2.5 hover:text-emeraldArch text-neutral-500 disabled:opacity-20" disabled={history.length === 0}>
                 <Undo size={20} />
               </button>
               <button onClick={handleRedo} className="p-2.5 hover:text-emeraldArch text-neutral-500 disabled:opacity-20" disabled={redoStack.length === 0}>
@@ -205,7 +544,7 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ imageUrl, initialMarkup,
               Discard
             </button>
             <button 
-                onClick={() => onSave(paths)}
+                onClick={() => onSave(editedImage())}
                 className="px-8 py-2.5 bg-emeraldArch text-black hover:opacity-90 rounded-xl shadow-lg font-black flex items-center space-x-2"
             >
               <Save size={20} />
@@ -214,12 +553,16 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ imageUrl, initialMarkup,
           </div>
         </div>
 
+        <div className="flex flex-1 min-h-0">
         {/* Canvas Area */}
         <div 
           ref={containerRef}
-          className="relative overflow-auto bg-black flex-1 flex items-center justify-center p-12 cursor-crosshair"
+          className={`relative overflow-auto bg-black flex-1 flex items-center justify-center p-12 ${canDraw || tool === ToolType.SELECT ? 'cursor-crosshair' : 'cursor-not-allowed'}`}
         >
-          <div className="relative shadow-[0_0_100px_rgba(80,200,120,0.05)] bg-neutral-900 border border-neutral-800" style={{ width: imgSize.width, height: imgSize.height }}>
+          <div
+            className="relative shadow-[0_0_100px_rgba(80,200,120,0.05)] bg-neutral-900 border border-neutral-800"
+            style={{ width: imgSize.width, height: imgSize.height, transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+          >
             <img 
               src={imageUrl} 
               alt="Background" 
@@ -227,19 +570,64 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ imageUrl, initialMarkup,
             />
             <canvas
               ref={canvasRef}
-              width={imgSize.width}
-              height={imgSize.height}
-              onMouseDown={startDrawing}
-              onMouseMove={draw}
-              onMouseUp={endDrawing}
-              onMouseLeave={endDrawing}
-              onTouchStart={startDrawing}
-              onTouchMove={draw}
-              onTouchEnd={endDrawing}
-              className="absolute inset-0 z-10"
+              width={markupSize.width}
+              height={markupSize.height}
+              {...pointer}
+              onDoubleClick={handleDoubleClick}
+              className={`absolute inset-0 z-10 w-full h-full touch-none ${tool === ToolType.SELECT ? 'cursor-default' : ''}`}
+            />
+            <canvas
+              ref={liveCanvasRef}
+              width={markupSize.width}
+              height={markupSize.height}
+              className="absolute inset-0 z-20 w-full h-full pointer-events-none"
+              style={{ opacity: tool === ToolType.HIGHLIGHTER ? 0.4 : 1 }}
             />
+            <div className="absolute inset-0 z-30 pointer-events-none">
+              {markupSize.width > 0 && pins.map(pin => {
+                const size = (PIN_RADIUS * 2 * imgSize.width) / markupSize.width;
+                // With the pin tool, pins are dragged; otherwise a linked pin leads to its row.
+                const linkedRow = tool !== ToolType.PIN && rows.some(r => r.id === pin.rowId) ? pin.rowId : undefined;
+                return (
+                  <button
+                    key={pin.id}
+                    onPointerDown={(e) => grabPin(e, pin.id)}
+                    onPointerMove={dragPin}
+                    onPointerUp={dropPin}
+                    onClick={() => linkedRow && navigateToRow(linkedRow)}
+                    title={[pin.note || `Pin ${pin.number}`, linkedRow && `Save and go to ${rowItemLabel(rows, linkedRow)}`].filter(Boolean).join(' · ')}
+                    className={`absolute pointer-events-auto rounded-full bg-emeraldArch text-black font-black flex items-center justify-center border-2 touch-none ${pin.id === activePinId ? 'border-white ring-2 ring-emeraldArch/50' : 'border-white/80'} ${tool === ToolType.PIN ? 'cursor-move' : 'cursor-pointer'}`}
+                    style={{
+                      left: `${(pin.point.x / markupSize.width) * 100}%`,
+                      top: `${(pin.point.y / markupSize.height) * 100}%`,
+                      width: size,
+                      height: size,
+                      fontSize: size / 2,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  >
+                    {pin.number}
+                  </button>
+                );
+              })}
+            </div>
           </div>
         </div>
+
+        <LayerPanel
+          layers={layers}
+          activeLayerId={activeLayer.id}
+          authors={authors}
+          markupCounts={markupCounts}
+          dark
+          onChange={setLayers}
+          onActivate={activateLayer}
+          onDelete={deleteLayer}
+        />
+        {(tool === ToolType.PIN || pins.length > 0) && (
+          <PinPanel pins={pins} rows={rows} activePinId={activePinId} onChange={setPins} onDelete={id => commitPins(pins.filter(p => p.id !== id))} onActivate={setActivePinId} onNavigateRow={navigateToRow} />
+        )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ProjectGroup } from '../types';
+import { ArchiveConflicts } from '../services/archive';
+import { AlertTriangle, Copy, GitMerge, X } from 'lucide-react';
+
+interface ImportConflictDialogProps {
+  incoming: ProjectGroup;
+  conflicts: ArchiveConflicts;
+  canMerge: boolean;
+  onMerge: () => void;
+  onImportAsCopy: () => void;
+  onCancel: () => void;
+}
+
+const ImportConflictDialog: React.FC<ImportConflictDialogProps> = ({ incoming, conflicts, canMerge, onMerge, onImportAsCopy, onCancel }) => (
+  <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+    <div className="nm-raised w-full max-w-md rounded-[40px] p-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-black uppercase tracking-tight">Import Conflict</h3>
+        <button onClick={onCancel} className="nm-btn p-2 rounded-xl text-textMuted"><X size={18} /></button>
+      </div>
+      <div className="flex items-start space-x-3">
+        <AlertTriangle size={16} className="text-yellow-500 flex-shrink-0 mt-0.5" />
+        <p className="text-xs font-bold text-textMuted leading-relaxed">
+          <span className="text-textMain">{incoming.name}</span>
+          {conflicts.projectExists ? ' already exists on this device' : ' shares ids with data on this device'}
+          {conflicts.meetingIds.length > 0 && `, including ${conflicts.meetingIds.length} ${conflicts.meetingIds.length === 1 ? 'meeting' : 'meetings'}`}.
+        </p>
+      </div>
+      <div className="space-y-4">
+        {canMerge && (
+          <button onClick={onMerge} className="w-full nm-btn p-5 rounded-2xl flex items-center space-x-4 text-left hover:text-emeraldArch">
+            <GitMerge size={18} className="text-emeraldArch flex-shrink-0" />
+            <div>
+              <div className="text-xs font-black uppercase tracking-widest">Merge</div>
+              <div className="text-[10px] font-bold text-textMuted">Replace matching meetings with the imported versions and add new ones.</div>
+            </div>
+          </button>
+        )}
+        <button onClick={onImportAsCopy} className="w-full nm-btn p-5 rounded-2xl flex items-center space-x-4 text-left hover:text-emeraldArch">
+          <Copy size={18} className="text-emeraldArch flex-shrink-0" />
+          <div>
+            <div className="text-xs font-black uppercase tracking-widest">Import as Copy</div>
+            <div className="text-[10px] font-bold text-textMuted">Keep local data untouched and add the archive as a separate project.</div>
+          </div>
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ImportConflictDialog;
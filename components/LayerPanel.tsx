@@ -0,0 +1,108 @@
+import React from 'react';
+import { MarkupLayer } from '../types';
+import { LAYER_COLORS, createLayer } from '../utils/layers';
+import { Eye, EyeOff, Layers, Lock, LockOpen, Plus, Printer, Trash2 } from 'lucide-react';
+
+interface LayerPanelProps {
+  layers: MarkupLayer[];
+  activeLayerId: string;
+  authors: string[];
+  markupCounts: Record<string, number>;
+  dark?: boolean; // the image markup editor is always dark; the scratchpad follows the app theme
+  onChange: (layers: MarkupLayer[]) => void;
+  onActivate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const LayerPanel: React.FC<LayerPanelProps> = ({ layers, activeLayerId, authors, markupCounts, dark, onChange, onActivate, onDelete }) => {
+  const listId = `layer-authors-${dark ? 'editor' : 'scratchpad'}`;
+
+  const update = (id: string, changes: Partial<MarkupLayer>) =>
+    onChange(layers.map(layer => (layer.id === id ? { ...layer, ...changes } : layer)));
+
+  const addLayer = () => {
+    const layer = createLayer(layers);
+    onChange([...layers, layer]);
+    onActivate(layer.id);
+  };
+
+  const cycleColor = (layer: MarkupLayer) =>
+    update(layer.id, { color: LAYER_COLORS[(LAYER_COLORS.indexOf(layer.color) + 1) % LAYER_COLORS.length] });
+
+  const toggleClass = (on: boolean) => dark
+    ? `p-1.5 rounded-lg transition-colors ${on ? 'text-white' : 'text-neutral-600 hover:text-neutral-300'}`
+    : `p-1.5 rounded-lg transition-colors ${on ? 'text-emeraldArch' : 'text-textMuted/40 hover:text-textMuted'}`;
+
+  return (
+    <div className={`w-72 flex-shrink-0 flex flex-col ${dark ? 'bg-black border-l border-neutral-800' : 'nm-inset rounded-2xl'}`}>
+      <div className={`flex items-center justify-between px-4 py-3 ${dark ? 'border-b border-neutral-800' : ''}`}>
+        <div className={`flex items-center space-x-2 text-[10px] font-black uppercase tracking-[0.2em] ${dark ? 'text-neutral-400' : 'text-textMuted'}`}>
+          <Layers size={14} /><span>Layers</span>
+        </div>
+        <button onClick={addLayer} title="Add layer" className={dark ? 'p-1.5 rounded-lg text-emeraldArch hover:bg-white/10' : 'nm-btn p-1.5 rounded-lg text-emeraldArch'}>
+          <Plus size={14} />
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto scrollbar-hide p-3 space-y-2">
+        {[...layers].reverse().map(layer => {
+          const isActive = layer.id === activeLayerId;
+          return (
+            <div
+              key={layer.id}
+              onClick={() => onActivate(layer.id)}
+              className={`rounded-xl p-3 space-y-2 cursor-pointer border ${isActive
+                ? (dark ? 'border-emeraldArch/60 bg-white/5' : 'border-emeraldArch/40 nm-raised')
+                : (dark ? 'border-neutral-800 hover:border-neutral-700' : 'border-transparent')}`}
+            >
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={(e) => { e.stopPropagation(); cycleColor(layer); }}
+                  title="Change layer colour"
+                  className="w-4 h-4 rounded-full flex-shrink-0 border border-white/20"
+                  style={{ backgroundColor: layer.color }}
+                />
+                <input
+                  value={layer.name}
+                  onChange={(e) => update(layer.id, { name: e.target.value })}
+                  className={`flex-1 min-w-0 bg-transparent text-xs font-bold focus:outline-none ${dark ? 'text-white' : 'text-textMain'}`}
+                />
+                <span className={`text-[9px] font-mono ${dark ? 'text-neutral-600' : 'text-textMuted/50'}`}>{markupCounts[layer.id] || 0}</span>
+              </div>
+              <input
+                value={layer.author}
+                onChange={(e) => update(layer.id, { author: e.target.value })}
+                onClick={(e) => e.stopPropagation()}
+                list={listId}
+                placeholder="Author"
+                className={`w-full bg-transparent text-[10px] font-bold uppercase tracking-widest focus:outline-none ${dark ? 'text-neutral-400 placeholder:text-neutral-700' : 'text-textMuted placeholder:text-textMuted/30'}`}
+              />
+              <div className="flex items-center justify-between" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center space-x-1">
+                  <button onClick={() => update(layer.id, { visible: !layer.visible })} title={layer.visible ? 'Hide layer' : 'Show layer'} className={toggleClass(layer.visible)}>
+                    {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                  </button>
+                  <button onClick={() => update(layer.id, { locked: !layer.locked })} title={layer.locked ? 'Unlock layer' : 'Lock layer'} className={toggleClass(layer.locked)}>
+                    {layer.locked ? <Lock size={14} /> : <LockOpen size={14} />}
+                  </button>
+                  <button onClick={() => update(layer.id, { exported: !layer.exported })} title={layer.exported ? 'Included in PDF export' : 'Left out of PDF export'} className={toggleClass(layer.exported)}>
+                    <Printer size={14} />
+                  </button>
+                </div>
+                {layers.length > 1 && (
+                  <button onClick={() => onDelete(layer.id)} title="Delete layer" className={`p-1.5 rounded-lg ${dark ? 'text-neutral-600 hover:text-red-400' : 'text-textMuted/40 hover:text-red-500'}`}>
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <datalist id={listId}>
+        {authors.map(author => <option key={author} value={author} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default LayerPanel;
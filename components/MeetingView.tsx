@@ -1,8 +1,6 @@
 
-import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { Meeting, NoteRow, NoteImage, MarkupPath, ToolType, ToolColor, Attendee } from '../types';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Meeting, NoteRow, NoteImage, Attendee, ImageSource, ImageSettings } from '../types';
 import { 
   Plus, 
   Trash2, 
@@ -13,13 +11,7 @@ import {
   CheckCircle, 
   X, 
   FileText,
-  Undo,
-  Redo,
-  Eraser,
-  Highlighter,
-  PenTool,
   Loader2,
-  FileUp,
   ZoomIn,
   Download,
   FileDown,
@@ -35,50 +27,111 @@ import {
   CheckSquare,
   Square,
   Circle,
-  PlusCircle
+  PlusCircle,
+  ChevronLeft,
+  ChevronRight,
+  CornerDownRight,
+  GitCompare,
+  RectangleVertical,
+  Camera
 } from 'lucide-react';
 import DrawingCanvas from './DrawingCanvas';
-
-if (typeof window !== 'undefined' && (window as any).pdfjsLib) {
-  (window as any).pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.4.120/pdf.worker.min.js';
-}
+import PdfPagePicker from './PdfPagePicker';
+import Scratchpad from './Scratchpad';
+import CompareView from './CompareView';
+import CameraCapture from './CameraCapture';
+import ActionItemList from './ActionItemList';
+import { createAction } from '../utils/actions';
+import { describeRow, pinsLinkedTo, rowItemLabel } from '../utils/pins';
+import { DEFAULT_EXPORT_OPTIONS, MINUTES_FORMATS, MinutesExportOptions, PAPER_SIZES } from '../services/minutes';
+import { exportMinutesPdf } from '../services/minutesPdf';
+import { exportMinutesDocx } from '../services/minutesDocx';
+import { exportMinutesMarkdown } from '../services/minutesMarkdown';
+import { PdfDocument, isPdfFile, loadPdfDocument, renderPdfPage, renderPdfThumbnail } from '../services/pdf';
+import { prepareImage } from '../services/imagePipeline';
+import { DocumentBranding, documentReference } from '../utils/titleBlock';
+import { useCollaboration } from '../hooks/useCollaboration';
+import CollabControls, { PresenceAvatar } from './CollabControls';
+import RemoteCursors, { cursorFromPointer } from './RemoteCursors';
+
+// Edge length of the image thumbnails on a row, in CSS pixels (w-20).
+const THUMBNAIL_SIZE = 80;
+
+// Tooltip for a row image: the file it came from, and when and where a photo was taken.
+const describeImage = (image: NoteImage) => [
+  image.source?.fileName,
+  image.metadata?.capturedAt && `Taken ${new Date(image.metadata.capturedAt).toLocaleString()}`,
+  image.metadata?.location && `${image.metadata.location.latitude.toFixed(5)}, ${image.metadata.location.longitude.toFixed(5)}`
+].filter(Boolean).join(' · ');
+
+// getUserMedia only exists in secure contexts, so plain-http deployments get the file picker alone.
+const CAN_USE_CAMERA = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
 
 interface MeetingViewProps {
   meeting: Meeting;
+  projectMeetings: Meeting[]; // every meeting in the meeting's project, for comparing sheets across meetings
+  previousMeeting?: Meeting;
+  nextMeeting?: Meeting;
+  focusRowId?: string | null;
+  onFocusHandled?: () => void;
   onUpdate: (updatedMeeting: Meeting) => void;
   onClose: () => void;
+  onNavigateMeeting: (meetingId: string) => void;
+  onCreateNextInSeries: () => void;
+  branding: DocumentBranding; // practice and project details for the exported title block
+  imageSettings: ImageSettings; // how uploads are scaled and re-encoded
 }
 
-const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose }) => {
-  const [editingMarkup, setEditingMarkup] = useState<{ rowId: string, imageId: string, url: string, markup: MarkupPath[] } | null>(null);
-  const [whiteboardTool, setWhiteboardTool] = useState<ToolType>(ToolType.MARKER);
-  const [whiteboardColor, setWhiteboardColor] = useState<ToolColor>('#ef4444');
-  const [isDrawingWhiteboard, setIsDrawingWhiteboard] = useState(false);
-  const [currentWhiteboardPath, setCurrentWhiteboardPath] = useState<{ x: number, y: number }[]>([]);
+const MeetingView: React.FC<MeetingViewProps> = ({ meeting, projectMeetings, previousMeeting, nextMeeting, focusRowId, onFocusHandled, onUpdate, onClose, onNavigateMeeting, onCreateNextInSeries, branding, imageSettings }) => {
+  const [editingMarkup, setEditingMarkup] = useState<{ rowId: string, image: NoteImage } | null>(null);
+  const [comparingImageId, setComparingImageId] = useState<string | null>(null);
   const [attendeesExpanded, setAttendeesExpanded] = useState(true);
   const [attendeesVisible, setAttendeesVisible] = useState(true);
-  const [whiteboardSize, setWhiteboardSize] = useState({ width: 1600, height: 900 });
-  const [whiteboardScale, setWhiteboardScale] = useState(1);
-  const [redoStack, setRedoStack] = useState<MarkupPath[]>([]);
+  const [penOnly, setPenOnly] = useState(() => localStorage.getItem('archi_pen_only') === 'true');
   const [isProcessingFile, setIsProcessingFile] = useState(false);
+  const [highlightedRowId, setHighlightedRowId] = useState<string | null>(null);
+  const [pendingPdf, setPendingPdf] = useState<{ pdf: PdfDocument, fileName: string, target: 'whiteboard' | 'row', targetId: string } | null>(null);
+  const [cameraRowId, setCameraRowId] = useState<string | null>(null);
   
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
-  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
-  const [exportOptions, setExportOptions] = useState({
-    attendees: true,
-    whiteboard: true,
-    entries: true
-  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportOptions, setExportOptions] = useState<MinutesExportOptions>(DEFAULT_EXPORT_OPTIONS);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const whiteboardImageInputRef = useRef<HTMLInputElement>(null);
-  const whiteboardCanvasRef = useRef<HTMLCanvasElement>(null);
-  const whiteboardContainerRef = useRef<HTMLDivElement>(null);
+  const activeBoardId = useRef<string | null>(null);
   const activeRowId = useRef<string | null>(null);
+  const workspaceRef = useRef<HTMLDivElement>(null);
+  // Uploads land after awaits, when the `meeting` of the render that started them may be out of date,
+  // so they build on the newest copy, including one sent moments earlier and not rendered yet.
+  const latestMeeting = useRef(meeting);
+  latestMeeting.current = meeting;
+
+  const collab = useCollaboration(meeting, onUpdate);
+
+  const scrollToRow = (rowId: string) => {
+    const rowEl = document.getElementById(`row-${rowId}`);
+    if (rowEl) {
+      rowEl.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedRowId(rowId);
+    }
+  };
+
+  useEffect(() => {
+    if (!focusRowId) return;
+    scrollToRow(focusRowId);
+    onFocusHandled?.();
+  }, [focusRowId, meeting.id]);
+
+  useEffect(() => {
+    if (!highlightedRowId) return;
+    const timer = setTimeout(() => setHighlightedRowId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedRowId]);
 
   const groupedAttendees = useMemo(() => {
     const groups: Record<string, Attendee[]> = {};
-    (meeting.attendees || []).forEach(att => {
+    meeting.attendees.forEach(att => {
       const org = att.organisation?.trim() || 'Organisation 1';
       if (!groups[org]) groups[org] = [];
       groups[org].push(att);
@@ -86,48 +139,37 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
     return groups;
   }, [meeting.attendees]);
 
-  const processPdfFile = async (file: File): Promise<string> => {
-    const pdfjsLib = (window as any).pdfjsLib;
-    if (!pdfjsLib) throw new Error('PDF.js not loaded');
-
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    const page = await pdf.getPage(1);
-    const viewport = page.getViewport({ scale: 2.5 });
-    
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    if (!context) throw new Error('Could not create canvas context');
-    
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
-    
-    await page.render({ canvasContext: context, viewport }).promise;
-    return canvas.toDataURL('image/png');
+  const addImagesToRow = (rowId: string, images: NoteImage[]) => {
+    const current = latestMeeting.current;
+    latestMeeting.current = { ...current, rows: current.rows.map(row => row.id === rowId ? { ...row, images: [...row.images, ...images] } : row) };
+    onUpdate(latestMeeting.current);
+  };
+
+  const setBoardBackground = (boardId: string, image: string, imageSource: ImageSource) => {
+    const current = latestMeeting.current;
+    latestMeeting.current = { ...current, whiteboards: current.whiteboards.map(b => b.id === boardId ? { ...b, image, imageSource } : b) };
+    onUpdate(latestMeeting.current);
   };
 
-  const handleFileUpload = async (file: File, target: 'whiteboard' | 'row', rowId?: string) => {
+  // `targetId` is the row or scratchpad board the file was dropped on.
+  const applyUploadedImage = (image: Pick<NoteImage, 'url' | 'thumbnail' | 'metadata'>, source: ImageSource, target: 'whiteboard' | 'row', targetId: string) => {
+    if (target === 'whiteboard') {
+      setBoardBackground(targetId, image.url, source);
+    } else {
+      addImagesToRow(targetId, [{ id: crypto.randomUUID(), ...image, markup: [], source }]);
+    }
+  };
+
+  const handleFileUpload = async (file: File, target: 'whiteboard' | 'row', targetId: string) => {
     setIsProcessingFile(true);
     try {
-      let resultUrl = '';
-      if (file.type === 'application/pdf') {
-        resultUrl = await processPdfFile(file);
-      } else {
-        resultUrl = await new Promise((resolve) => {
-          const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.readAsDataURL(file);
-        });
-      }
-
-      if (target === 'whiteboard') {
-        onUpdate({ ...meeting, whiteboardImage: resultUrl });
-      } else if (target === 'row' && rowId) {
-        const row = meeting.rows.find(r => r.id === rowId);
-        if (row) {
-          updateRow(rowId, 'images', [...row.images, { id: crypto.randomUUID(), url: resultUrl, markup: [] }]);
-        }
+      if (isPdfFile(file)) {
+        const pdf = await loadPdfDocument(file);
+        setPendingPdf({ pdf, fileName: file.name, target, targetId });
+        return;
       }
+      const image = await prepareImage(file, imageSettings);
+      applyUploadedImage(image, { fileName: file.name }, target, targetId);
     } catch (error) {
       console.error('File processing failed:', error);
       alert('Failed to process file.');
@@ -136,150 +178,50 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
     }
   };
 
-  useEffect(() => {
-    const container = whiteboardContainerRef.current;
-    if (!container) return;
-
-    const handleWheel = (e: WheelEvent) => {
-      if (e.shiftKey && (e.ctrlKey || e.metaKey)) {
-        e.preventDefault();
-        const delta = e.deltaY > 0 ? -0.1 : 0.1;
-        setWhiteboardScale(prev => Math.min(Math.max(prev + delta, 0.5), 5));
+  const attachPdfPages = async (pageNumbers: number[]) => {
+    if (!pendingPdf) return;
+    const { pdf, fileName, target, targetId } = pendingPdf;
+    setPendingPdf(null);
+    setIsProcessingFile(true);
+    try {
+      const images: NoteImage[] = [];
+      for (const page of pageNumbers) {
+        // Drawings are kept lossless; the pipeline only adds the thumbnail and size.
+        const image = await prepareImage(await renderPdfPage(pdf, page), imageSettings, true);
+        // Without the pipeline, pdf.js draws the thumbnail.
+        const thumbnail = image.thumbnail || await renderPdfThumbnail(pdf, page);
+        images.push({ id: crypto.randomUUID(), ...image, thumbnail, markup: [], source: { fileName, page, pageCount: pdf.numPages } });
       }
-    };
-
-    container.addEventListener('wheel', handleWheel, { passive: false });
-    return () => container.removeEventListener('wheel', handleWheel);
-  }, []);
-
-  useEffect(() => {
-    if (meeting.whiteboardImage) {
-      const img = new Image();
-      img.src = meeting.whiteboardImage;
-      img.onload = () => {
-        const maxWidth = 2000;
-        const width = Math.min(img.width, maxWidth);
-        const height = (img.height / img.width) * width;
-        setWhiteboardSize({ width, height });
-      };
-    } else {
-      setWhiteboardSize({ width: 1600, height: 900 });
-    }
-  }, [meeting.whiteboardImage]);
-
-  const renderWhiteboardFrame = useCallback(() => {
-    const canvas = whiteboardCanvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    if (meeting.whiteboardImage) {
-      const img = new Image();
-      img.src = meeting.whiteboardImage;
-      if (img.complete) {
-        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      if (target === 'whiteboard') {
+        setBoardBackground(targetId, images[0].url, images[0].source!);
       } else {
-        img.onload = () => renderWhiteboardFrame();
+        addImagesToRow(targetId, images);
       }
+    } catch (error) {
+      console.error('PDF rendering failed:', error);
+      alert('Failed to render PDF pages.');
+    } finally {
+      pdf.destroy();
+      setIsProcessingFile(false);
     }
-    
-    const markup = meeting.whiteboardMarkup || [];
-    markup.forEach(path => {
-      ctx.beginPath();
-      ctx.strokeStyle = path.color;
-      ctx.lineWidth = path.width;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.globalAlpha = path.isHighlighter ? 0.4 : 1.0;
-      
-      if (path.points.length > 0) {
-        ctx.moveTo(path.points[0].x, path.points[0].y);
-        path.points.forEach(p => ctx.lineTo(p.x, p.y));
-        ctx.stroke();
-      }
-    });
-
-    if (currentWhiteboardPath.length > 0) {
-      ctx.beginPath();
-      const theme = document.documentElement.getAttribute('data-theme');
-      ctx.strokeStyle = whiteboardTool === ToolType.ERASER ? (theme === 'day' ? '#F5F5F5' : '#282828') : whiteboardColor;
-      ctx.lineWidth = whiteboardTool === ToolType.HIGHLIGHTER ? 30 : 4;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.globalAlpha = whiteboardTool === ToolType.HIGHLIGHTER ? 0.4 : 1.0;
-      ctx.moveTo(currentWhiteboardPath[0].x, currentWhiteboardPath[0].y);
-      currentWhiteboardPath.forEach(p => ctx.lineTo(p.x, p.y));
-      ctx.stroke();
-    }
-  }, [meeting.whiteboardMarkup, meeting.whiteboardImage, currentWhiteboardPath, whiteboardTool, whiteboardColor]);
-
-  useEffect(() => {
-    renderWhiteboardFrame();
-  }, [renderWhiteboardFrame, meeting.whiteboardImage, whiteboardSize]);
-
-  const getCanvasCoords = (e: React.MouseEvent | React.TouchEvent) => {
-    const canvas = whiteboardCanvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
-    const rect = canvas.getBoundingClientRect();
-    const clientX = 'touches' in e ? (e as React.TouchEvent).touches[0].clientX : (e as React.MouseEvent).clientX;
-    const clientY = 'touches' in e ? (e as React.TouchEvent).touches[0].clientY : (e as React.MouseEvent).clientY;
-    
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    return { 
-      x: (clientX - rect.left) * scaleX, 
-      y: (clientY - rect.top) * scaleY 
-    };
   };
 
-  const startWhiteboardDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    setIsDrawingWhiteboard(true);
-    setCurrentWhiteboardPath([getCanvasCoords(e)]);
+  const cancelPdfImport = () => {
+    pendingPdf?.pdf.destroy();
+    setPendingPdf(null);
   };
 
-  const endWhiteboardDrawing = () => {
-    if (!isDrawingWhiteboard) return;
-    setIsDrawingWhiteboard(false);
-    
-    if (whiteboardTool === ToolType.ERASER) {
-      const newMarkup = (meeting.whiteboardMarkup || []).filter(path => {
-        return !path.points.some(pt1 => 
-          currentWhiteboardPath.some(pt2 => Math.sqrt((pt1.x - pt2.x)**2 + (pt1.y - pt2.y)**2) < 20)
-        );
-      });
-      onUpdate({ ...meeting, whiteboardMarkup: newMarkup });
-    } else {
-      const newPath: MarkupPath = {
-        points: currentWhiteboardPath,
-        color: whiteboardColor,
-        width: whiteboardTool === ToolType.HIGHLIGHTER ? 30 : 4,
-        isHighlighter: whiteboardTool === ToolType.HIGHLIGHTER
-      };
-      onUpdate({ ...meeting, whiteboardMarkup: [...(meeting.whiteboardMarkup || []), newPath] });
-    }
-    setRedoStack([]);
-    setCurrentWhiteboardPath([]);
-  };
-
-  const undoWhiteboard = () => {
-    const markup = meeting.whiteboardMarkup || [];
-    if (markup.length === 0) return;
-    const last = markup[markup.length - 1];
-    setRedoStack(prev => [...prev, last]);
-    onUpdate({ ...meeting, whiteboardMarkup: markup.slice(0, -1) });
-  };
+  useEffect(() => {
+    localStorage.setItem('archi_pen_only', String(penOnly));
+  }, [penOnly]);
 
-  const redoWhiteboard = () => {
-    if (redoStack.length === 0) return;
-    const next = redoStack[redoStack.length - 1];
-    setRedoStack(prev => prev.slice(0, -1));
-    onUpdate({ ...meeting, whiteboardMarkup: [...(meeting.whiteboardMarkup || []), next] });
-  };
+  const layerAuthors = useMemo(
+    () => Array.from(new Set(meeting.attendees.map(a => a.name.trim()).filter(Boolean))),
+    [meeting.attendees]
+  );
 
   const addRow = () => {
-    const newRow: NoteRow = { id: crypto.randomUUID(), discussion: '', followUp: '', images: [] };
+    const newRow: NoteRow = { id: crypto.randomUUID(), discussion: '', followUp: '', images: [], actions: [] };
     onUpdate({ ...meeting, rows: [...meeting.rows, newRow] });
     setTimeout(() => {
       const workspace = document.getElementById('workspace-scroll');
@@ -309,6 +251,11 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
     fileInputRef.current?.click();
   };
 
+  const triggerBoardUpload = (boardId: string) => {
+    activeBoardId.current = boardId;
+    whiteboardImageInputRef.current?.click();
+  };
+
   const removeImage = (rowId: string, imgId: string) => {
     const row = meeting.rows.find(r => r.id === rowId);
     if (row) {
@@ -316,160 +263,42 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
     }
   };
 
-  const downloadWhiteboard = () => {
-    const canvas = whiteboardCanvasRef.current;
-    if (!canvas) return;
-    const dataUrl = canvas.toDataURL('image/png');
-    const link = document.createElement('a');
-    link.download = `Scratchpad_${meeting.name.replace(/\s+/g, '_')}.png`;
-    link.href = dataUrl;
-    link.click();
-  };
-
   const addAttendee = (orgName?: string) => {
-    const uniqueOrgs = Array.from(new Set((meeting.attendees || []).map(a => a.organisation?.trim() || 'Organisation 1')));
+    const uniqueOrgs = Array.from(new Set<string>(meeting.attendees.map(a => a.organisation?.trim() || 'Organisation 1')));
     const nextOrgNum = uniqueOrgs.length + 1;
     const defaultOrg = orgName || (uniqueOrgs.length > 0 ? uniqueOrgs[uniqueOrgs.length - 1] : `Organisation ${nextOrgNum}`);
     const newAttendee: Attendee = { id: crypto.randomUUID(), name: '', organisation: defaultOrg };
-    onUpdate({ ...meeting, attendees: [...(meeting.attendees || []), newAttendee] });
+    onUpdate({ ...meeting, attendees: [...meeting.attendees, newAttendee] });
     setAttendeesExpanded(true);
   };
 
   const addOrganisation = () => {
-    const uniqueOrgs = Array.from(new Set((meeting.attendees || []).map(a => a.organisation?.trim() || '')));
+    const uniqueOrgs = Array.from(new Set<string>(meeting.attendees.map(a => a.organisation?.trim() || '')));
     const nextOrgNum = uniqueOrgs.length + 1;
     const newOrgName = `ORGANISATION ${nextOrgNum}`;
     const newAttendee: Attendee = { id: crypto.randomUUID(), name: '', organisation: newOrgName };
-    onUpdate({ ...meeting, attendees: [...(meeting.attendees || []), newAttendee] });
+    onUpdate({ ...meeting, attendees: [...meeting.attendees, newAttendee] });
     setAttendeesExpanded(true);
   };
 
   const updateOrganisationName = (oldName: string, newName: string) => {
-    const updated = (meeting.attendees || []).map(a => 
+    const updated = meeting.attendees.map(a => 
       a.organisation === oldName ? { ...a, organisation: newName } : a
     );
     onUpdate({ ...meeting, attendees: updated });
   };
 
-  const handleExportPdf = async () => {
-    setIsGeneratingPdf(true);
+  const handleExport = async () => {
+    setIsExporting(true);
+    const exporters = { pdf: exportMinutesPdf, docx: exportMinutesDocx, markdown: exportMinutesMarkdown };
+    const label = MINUTES_FORMATS.find(f => f.value === exportOptions.format)?.label;
     try {
-      const doc = new jsPDF('p', 'mm', 'a4');
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const pageHeight = doc.internal.pageSize.getHeight();
-      const margin = 20;
-      let currentY = 0;
-
-      const addFooter = (pageNum: number, totalPages: number) => {
-        doc.setFont('helvetica', 'italic');
-        doc.setFontSize(8);
-        doc.setTextColor(150);
-        const footerText = `Page ${pageNum} of ${totalPages} | Generated by ArchiNotes`;
-        doc.text(footerText, pageWidth / 2, pageHeight - 10, { align: 'center' });
-      };
-
-      doc.setFillColor(80, 200, 120); 
-      doc.rect(0, 0, pageWidth, 20, 'F');
-      doc.setFont('helvetica', 'bold');
-      doc.setFontSize(16);
-      doc.setTextColor(0);
-      doc.text("ARCHINOTES: DESIGN MEETING LOG", margin, 13);
-      
-      currentY = 35;
-      doc.setFont('helvetica', 'bold');
-      doc.setFontSize(14);
-      doc.setTextColor(40);
-      doc.text(meeting.name.toUpperCase(), margin, currentY);
-      currentY += 8;
-      doc.setFont('helvetica', 'normal');
-      doc.setFontSize(10);
-      doc.setTextColor(100);
-      doc.text(`DATE: ${new Date(meeting.dateCreated).toLocaleDateString()}`, margin, currentY);
-      currentY += 12;
-
-      if (exportOptions.attendees && meeting.attendees?.length > 0) {
-        doc.setFont('helvetica', 'bold');
-        doc.setFontSize(11);
-        doc.setTextColor(80);
-        doc.text("STAKEHOLDERS", margin, currentY);
-        currentY += 6;
-        doc.setFont('helvetica', 'normal');
-        doc.setFontSize(9);
-        doc.setTextColor(60);
-        const attendeeText = meeting.attendees.map(a => `${a.name || 'Anonymous'} (${a.organisation || 'N/A'})`).join(', ');
-        const lines = doc.splitTextToSize(attendeeText, pageWidth - margin * 2);
-        doc.text(lines, margin, currentY);
-        currentY += (lines.length * 5) + 10;
-      }
-
-      doc.setFont('helvetica', 'bold');
-      doc.setFontSize(11);
-      doc.setTextColor(80);
-      doc.text("MEETING MINUTES & ACTIONS", margin, currentY);
-      currentY += 4;
-      doc.setDrawColor(230);
-      doc.line(margin, currentY, pageWidth - margin, currentY);
-      currentY += 10;
-
-      if (exportOptions.entries) {
-        meeting.rows.forEach((row, idx) => {
-          if (currentY > pageHeight - 40) {
-            doc.addPage();
-            currentY = margin;
-          }
-          doc.setFont('helvetica', 'bold');
-          doc.setFontSize(8);
-          doc.setTextColor(80, 200, 120);
-          doc.text(`ITEM ${idx + 1}`, margin, currentY);
-          currentY += 5;
-          doc.setFont('helvetica', 'normal');
-          doc.setFontSize(10);
-          doc.setTextColor(30);
-          const discLines = doc.splitTextToSize(row.discussion, (pageWidth - margin * 2) * 0.6);
-          doc.text(discLines, margin, currentY);
-          if (row.followUp) {
-            doc.setFont('helvetica', 'italic');
-            doc.setFontSize(10);
-            doc.setTextColor(100);
-            const actionText = `ACTION: ${row.followUp}`;
-            const actionLines = doc.splitTextToSize(actionText, (pageWidth - margin * 2) * 0.35);
-            doc.text(actionLines, pageWidth - margin, currentY, { align: 'right' });
-            currentY += Math.max(discLines.length * 5, actionLines.length * 5) + 8;
-          } else {
-            currentY += (discLines.length * 5) + 8;
-          }
-        });
-      }
-
-      if (exportOptions.whiteboard && (meeting.whiteboardImage || (meeting.whiteboardMarkup && meeting.whiteboardMarkup.length > 0))) {
-        doc.addPage();
-        currentY = margin;
-        doc.setFont('helvetica', 'bold');
-        doc.setFontSize(11);
-        doc.setTextColor(80);
-        doc.text("PROJECT SCRATCHPAD", margin, currentY);
-        currentY += 10;
-        const whiteboardEl = document.getElementById('pdf-section-whiteboard');
-        if (whiteboardEl) {
-          const canvas = await html2canvas(whiteboardEl, { scale: 2 });
-          const imgData = canvas.toDataURL('image/png');
-          const imgWidth = pageWidth - margin * 2;
-          const imgHeight = (canvas.height * imgWidth) / canvas.width;
-          doc.addImage(imgData, 'PNG', margin, currentY, imgWidth, imgHeight);
-        }
-      }
-
-      const totalPages = (doc as any).internal.getNumberOfPages();
-      for (let i = 1; i <= totalPages; i++) {
-        doc.setPage(i);
-        addFooter(i, totalPages);
-      }
-      doc.save(`ArchiNote_${meeting.name.replace(/\s+/g, '_')}.pdf`);
+      await exporters[exportOptions.format](meeting, exportOptions, branding);
     } catch (error) {
-      console.error('PDF Generation Failed:', error);
-      alert('Could not generate PDF.');
+      console.error(`${label} export failed:`, error);
+      alert(`Could not generate the ${label} export.`);
     } finally {
-      setIsGeneratingPdf(false);
+      setIsExporting(false);
       setIsExportModalOpen(false);
     }
   };
@@ -492,9 +321,36 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
               />
               <p className="text-[10px] font-black uppercase tracking-[0.2em] text-emeraldArch mt-1">DRAFTED: {new Date(meeting.dateCreated).toLocaleDateString()}</p>
             </div>
+            <div className="flex items-center space-x-2">
+              <button 
+                onClick={() => previousMeeting && onNavigateMeeting(previousMeeting.id)}
+                disabled={!previousMeeting}
+                title={previousMeeting ? `Previous: ${previousMeeting.name}` : 'No previous meeting in series'}
+                className="nm-btn p-3 rounded-2xl text-textMuted hover:text-emeraldArch transition-all disabled:opacity-30"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              {nextMeeting ? (
+                <button 
+                  onClick={() => onNavigateMeeting(nextMeeting.id)}
+                  title={`Next: ${nextMeeting.name}`}
+                  className="nm-btn p-3 rounded-2xl text-textMuted hover:text-emeraldArch transition-all"
+                >
+                  <ChevronRight size={16} />
+                </button>
+              ) : (
+                <button 
+                  onClick={onCreateNextInSeries}
+                  className="nm-btn px-4 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest text-emeraldArch/70 hover:text-emeraldArch transition-all"
+                >
+                  Next in Series
+                </button>
+              )}
+            </div>
           </div>
           <div className="flex items-center space-x-4">
             {isProcessingFile && <div className="flex items-center space-x-2 text-[10px] font-black uppercase text-emeraldArch animate-pulse"><Loader2 size={12} className="animate-spin" /><span>Processing Asset...</span></div>}
+            <CollabControls status={collab.status} room={collab.room} meetingId={meeting.id} self={collab.self} peers={collab.peers} onJoin={collab.join} onLeave={collab.leave} />
             <button onClick={addRow} className="nm-emerald px-6 py-3 rounded-xl font-black text-xs uppercase tracking-widest transition-all">Add Entry</button>
             <button 
               onClick={() => setIsExportModalOpen(true)}
@@ -506,7 +362,16 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
         </div>
       </div>
 
-      <div id="workspace-scroll" className="flex-1 overflow-auto p-8 pt-2 space-y-8 scrollbar-hide">
+      <div
+        id="workspace-scroll"
+        ref={workspaceRef}
+        className="relative flex-1 overflow-auto p-8 pt-2 space-y-8 scrollbar-hide"
+        onPointerMove={(e) => { if (collab.status && workspaceRef.current) collab.updatePresence({ cursor: cursorFromPointer(e, workspaceRef.current) }); }}
+        onPointerLeave={() => collab.status && collab.updatePresence({ cursor: null })}
+        onFocusCapture={(e) => collab.status && collab.updatePresence({ rowId: (e.target as Element).closest('[id^="row-"]')?.id.slice('row-'.length) ?? null })}
+        onBlurCapture={() => collab.status && collab.updatePresence({ rowId: null })}
+      >
+        <RemoteCursors peers={collab.peers} workspace={workspaceRef.current} />
         <div className="max-w-7xl mx-auto space-y-8">
           
           <div id="pdf-section-attendees">
@@ -564,14 +429,14 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
                                     <input 
                                       value={att.name}
                                       onChange={(e) => {
-                                          const updated = (meeting.attendees || []).map(a => a.id === att.id ? { ...a, name: e.target.value } : a);
+                                          const updated = meeting.attendees.map(a => a.id === att.id ? { ...a, name: e.target.value } : a);
                                           onUpdate({ ...meeting, attendees: updated });
                                       }}
                                       className="text-[11px] font-bold bg-transparent border-none focus:outline-none w-full placeholder:text-textMuted/30 focus:text-emeraldArch"
                                       placeholder="Full Name..."
                                     />
                                     <button 
-                                      onClick={() => onUpdate({ ...meeting, attendees: (meeting.attendees || []).filter(a => a.id !== att.id) })}
+                                      onClick={() => onUpdate({ ...meeting, attendees: meeting.attendees.filter(a => a.id !== att.id) })}
                                       className="opacity-0 group-hover/att:opacity-100 transition-opacity p-1 text-textMuted hover:text-red-500"
                                     >
                                       <X size={10} />
@@ -595,87 +460,31 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
           )}
           </div>
 
-          <div id="pdf-section-whiteboard" className="nm-raised rounded-[28px] overflow-hidden">
-            <div className="flex items-center justify-between px-6 py-3 bg-appBg/40">
-              <div className="flex items-center space-x-4">
-                  <span className="text-[9px] font-black uppercase tracking-widest text-textMuted">Project Scratchpad</span>
-                  <div className="nm-inset px-3 py-1 rounded-full text-[9px] font-mono font-bold text-emeraldArch">
-                      SCALE: {whiteboardScale.toFixed(1)}x <span className="opacity-40 text-textMain ml-2">(Shift+Ctrl+Scroll)</span>
-                  </div>
-              </div>
-              
-              <div className="flex items-center space-x-3">
-                  <div className="flex nm-inset p-1 rounded-xl space-x-1">
-                      {['#ef4444', '#3b82f6', '#22c55e'].map(c => (
-                          <button 
-                              key={c}
-                              onClick={() => { setWhiteboardTool(ToolType.MARKER); setWhiteboardColor(c as ToolColor); }}
-                              className={`p-1.5 rounded-lg transition-all flex items-center justify-center ${whiteboardTool === ToolType.MARKER && whiteboardColor === c ? 'nm-inset text-emeraldArch' : 'nm-btn text-textMuted'}`}
-                              style={{ color: c }}
-                          >
-                             <PenTool size={16} className="stroke-[3px]" />
-                          </button>
-                      ))}
-                  </div>
-                  <div className="w-px h-4 bg-textMuted/20 mx-1" />
-                  <button onClick={() => setWhiteboardTool(ToolType.HIGHLIGHTER)} className={`nm-btn p-2 rounded-xl transition-all ${whiteboardTool === ToolType.HIGHLIGHTER ? 'nm-btn-active text-yellow-500' : 'text-textMuted'}`}><Highlighter size={16} /></button>
-                  <button onClick={() => setWhiteboardTool(ToolType.ERASER)} className={`nm-btn p-2 rounded-xl transition-all ${whiteboardTool === ToolType.ERASER ? 'nm-btn-active text-red-500' : 'text-textMuted'}`}><Eraser size={16} /></button>
-                  <div className="w-px h-4 bg-textMuted/20 mx-1" />
-                  <button onClick={undoWhiteboard} className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><Undo size={16} /></button>
-                  <button onClick={redoWhiteboard} className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><Redo size={16} /></button>
-                  <div className="w-px h-4 bg-textMuted/20 mx-1" />
-                  <button onClick={() => whiteboardImageInputRef.current?.click()} className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><FileUp size={16} /></button>
-                  <button onClick={downloadWhiteboard} className="nm-btn p-2 rounded-xl text-emeraldArch hover:text-emeraldArch"><Download size={16} /></button>
-              </div>
-            </div>
-            
-            <div 
-              ref={whiteboardContainerRef}
-              className="nm-inset m-4 rounded-2xl overflow-hidden bg-black/5 relative cursor-crosshair flex items-center justify-center transition-all duration-300" 
-              style={{ minHeight: '400px' }}
-            >
-               <canvas 
-                  ref={whiteboardCanvasRef} 
-                  width={whiteboardSize.width} 
-                  height={whiteboardSize.height} 
-                  className="max-w-full h-auto w-auto"
-                  style={{ 
-                      transform: `scale(${whiteboardScale})`, 
-                      transformOrigin: 'center center',
-                      transition: 'transform 0.1s ease-out'
-                  }}
-                  onMouseDown={startWhiteboardDrawing}
-                  onMouseMove={(e) => {
-                      if (!isDrawingWhiteboard) return;
-                      const coords = getCanvasCoords(e);
-                      setCurrentWhiteboardPath(prev => [...prev, coords]);
-                  }}
-                  onMouseUp={endWhiteboardDrawing}
-                  onMouseLeave={endWhiteboardDrawing}
-                  onTouchStart={startWhiteboardDrawing}
-                  onTouchMove={(e) => {
-                      if (!isDrawingWhiteboard) return;
-                      const coords = getCanvasCoords(e);
-                      setCurrentWhiteboardPath(prev => [...prev, coords]);
-                  }}
-                  onTouchEnd={endWhiteboardDrawing}
-               />
-               {isProcessingFile && (
-                 <div className="absolute inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50">
-                    <div className="nm-raised p-6 rounded-3xl flex items-center space-x-4">
-                       <Loader2 size={24} className="animate-spin text-emeraldArch" />
-                       <span className="text-xs font-black uppercase tracking-widest">Rendering PDF...</span>
-                    </div>
-                 </div>
-               )}
-            </div>
-          </div>
+          <Scratchpad
+            key={meeting.id}
+            meetingName={meeting.name}
+            boards={meeting.whiteboards}
+            authors={layerAuthors}
+            penOnly={penOnly}
+            isProcessingFile={isProcessingFile}
+            onPenOnlyChange={setPenOnly}
+            onChange={whiteboards => onUpdate({ ...meeting, whiteboards })}
+            onImportBackground={triggerBoardUpload}
+          />
 
           <div id="pdf-section-entries" className="space-y-8 pb-32">
             {meeting.rows.map((row, idx) => (
-              <div key={row.id} className="grid grid-cols-12 gap-8 group">
+              <div key={row.id} id={`row-${row.id}`} className={`grid grid-cols-12 gap-8 group rounded-3xl transition-shadow duration-500 ${highlightedRowId === row.id ? 'ring-2 ring-emeraldArch/60 ring-offset-8 ring-offset-appBg' : ''}`}>
                 <div className="col-span-1 flex flex-col items-center">
                    <div className="nm-raised w-10 h-10 rounded-xl flex items-center justify-center text-[10px] font-black text-emeraldArch">{idx + 1}</div>
+                   {collab.peers.some(peer => peer.rowId === row.id) && (
+                     <div className="mt-3 flex flex-col items-center -space-y-1" title="Editing this entry">
+                       {collab.peers.filter(peer => peer.rowId === row.id).map(peer => <PresenceAvatar key={peer.clientId} presence={peer} size="sm" />)}
+                     </div>
+                   )}
+                   {row.carriedOverFromId && (
+                     <div title="Carried over from the previous meeting" className="mt-3 p-1.5 nm-inset rounded-lg text-yellow-500"><CornerDownRight size={12} /></div>
+                   )}
                    <div className="w-px flex-1 nm-inset mt-4 mb-4" />
                 </div>
                 <div className="col-span-7">
@@ -689,31 +498,99 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
                       />
                       <div className="flex items-center space-x-4 overflow-x-auto pb-2 scrollbar-hide">
                           {row.images.map(img => (
-                             <div key={img.id} className="relative nm-raised p-1 rounded-xl flex-shrink-0 group/img">
-                                  <img src={img.url} className="w-20 h-20 object-cover rounded-lg" />
+                             <div key={img.id} className="relative nm-raised p-1 rounded-xl flex-shrink-0 group/img" title={describeImage(img)}>
+                                  <img src={img.thumbnail || img.url} className="w-20 h-20 object-cover rounded-lg" />
+                                  {img.source?.page && (
+                                    <span className="absolute bottom-2 left-2 px-1.5 py-0.5 rounded-md bg-black/60 text-white text-[8px] font-black uppercase tracking-widest">p.{img.source.page}</span>
+                                  )}
                                   <div className="absolute inset-0 bg-black/40 opacity-0 group-hover/img:opacity-100 transition-opacity rounded-lg flex items-center justify-center space-x-2">
-                                      <button onClick={() => setEditingMarkup({ rowId: row.id, imageId: img.id, url: img.url, markup: img.markup })} className="text-white hover:text-emeraldArch transition-colors"><Edit3 size={12} /></button>
+                                      <button onClick={() => setEditingMarkup({ rowId: row.id, image: img })} className="text-white hover:text-emeraldArch transition-colors"><Edit3 size={12} /></button>
+                                      <button onClick={() => setComparingImageId(img.id)} title="Compare with another sheet" className="text-white hover:text-emeraldArch transition-colors"><GitCompare size={12} /></button>
                                       <button onClick={() => removeImage(row.id, img.id)} className="text-white hover:text-red-400 transition-colors"><Trash2 size={12} /></button>
                                   </div>
+                                  {img.markupSize && img.pins && img.pins.length > 0 && (
+                                    <div className="absolute inset-1 overflow-hidden rounded-lg pointer-events-none">
+                                      {img.pins.map(pin => {
+                                        // The thumbnail crops the image to a square, as object-cover does.
+                                        const { width, height } = img.markupSize!;
+                                        const fit = Math.max(THUMBNAIL_SIZE / width, THUMBNAIL_SIZE / height);
+                                        const linked = meeting.rows.some(r => r.id === pin.rowId);
+                                        return (
+                                          <button
+                                            key={pin.id}
+                                            onClick={() => linked && scrollToRow(pin.rowId!)}
+                                            title={[pin.note, describeRow(meeting.rows, pin.rowId)].filter(Boolean).join(' · ') || `Pin ${pin.number}`}
+                                            className={`absolute w-3.5 h-3.5 -ml-[7px] -mt-[7px] rounded-full bg-emeraldArch text-black text-[7px] font-black flex items-center justify-center border border-white pointer-events-auto ${linked ? 'cursor-pointer' : 'cursor-default'}`}
+                                            style={{ left: THUMBNAIL_SIZE / 2 + (pin.point.x - width / 2) * fit, top: THUMBNAIL_SIZE / 2 + (pin.point.y - height / 2) * fit }}
+                                          >
+                                            {pin.number}
+                                          </button>
+                                        );
+                                      })}
+                                    </div>
+                                  )}
                              </div>
                           ))}
-                          <button 
-                              onClick={() => triggerUpload(row.id)}
-                              className="w-20 h-20 nm-btn rounded-xl flex flex-col items-center justify-center text-emeraldArch/50 hover:text-emeraldArch transition-all border-2 border-dashed border-emeraldArch/20 hover:border-emeraldArch/40 flex-shrink-0"
-                          >
-                              <Plus size={16} />
-                              <span className="text-[8px] font-black uppercase mt-1 tracking-tighter">Attach</span>
-                          </button>
+                          <div className="w-20 h-20 nm-btn rounded-xl flex flex-col overflow-hidden border-2 border-dashed border-emeraldArch/20 hover:border-emeraldArch/40 transition-all flex-shrink-0">
+                              <button 
+                                  onClick={() => triggerUpload(row.id)}
+                                  className="flex-1 flex flex-col items-center justify-center text-emeraldArch/50 hover:text-emeraldArch transition-all"
+                              >
+                                  <Plus size={16} />
+                                  <span className="text-[8px] font-black uppercase mt-1 tracking-tighter">Attach</span>
+                              </button>
+                              {CAN_USE_CAMERA && (
+                                <button
+                                    onClick={() => setCameraRowId(row.id)}
+                                    title="Take photos"
+                                    className="h-7 flex items-center justify-center space-x-1 border-t-2 border-dashed border-emeraldArch/20 text-emeraldArch/50 hover:text-emeraldArch transition-all"
+                                >
+                                    <Camera size={12} />
+                                    <span className="text-[8px] font-black uppercase tracking-tighter">Camera</span>
+                                </button>
+                              )}
+                          </div>
                       </div>
+                      {pinsLinkedTo(meeting.rows, row.id).length > 0 && (
+                        <div className="flex flex-wrap gap-2 pt-2">
+                          {pinsLinkedTo(meeting.rows, row.id).map(({ pin, rowId }) => (
+                            <button
+                              key={pin.id}
+                              onClick={() => scrollToRow(rowId)}
+                              title={`Pinned on a drawing in ${rowItemLabel(meeting.rows, rowId)}`}
+                              className="nm-btn flex items-center space-x-2 pl-1 pr-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest text-textMuted hover:text-emeraldArch max-w-[240px]"
+                            >
+                              <span className="w-4 h-4 rounded-full bg-emeraldArch text-black text-[8px] flex items-center justify-center flex-shrink-0">{pin.number}</span>
+                              <span className="truncate">{pin.note || rowItemLabel(meeting.rows, rowId)}</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
                    </div>
                 </div>
                 <div className="col-span-4">
-                   <div className="nm-inset rounded-3xl p-6 h-full border-l-4 border-emeraldArch/20">
+                   <div className={`nm-inset rounded-3xl p-6 h-full border-l-4 flex flex-col space-y-4 ${row.followUpClosed ? 'border-textMuted/20 opacity-60' : 'border-emeraldArch/20'}`}>
+                      <div className="flex items-center justify-between">
+                        <span className="text-[9px] font-black uppercase tracking-widest text-textMuted">{row.carriedOverFromId ? 'Carried Over' : 'Follow-up'}</span>
+                        <button 
+                          onClick={() => updateRow(row.id, 'followUpClosed', !row.followUpClosed)}
+                          className={`flex items-center space-x-1 text-[9px] font-black uppercase tracking-widest transition-colors ${row.followUpClosed ? 'text-emeraldArch' : 'text-textMuted hover:text-emeraldArch'}`}
+                        >
+                          {row.followUpClosed ? <CheckSquare size={12} /> : <Square size={12} />}
+                          <span>Closed</span>
+                        </button>
+                      </div>
                       <textarea 
                         value={row.followUp}
                         onChange={(e) => updateRow(row.id, 'followUp', e.target.value)}
                         placeholder="Follow-up actions..."
-                        className="w-full h-full bg-transparent resize-none focus:outline-none text-xs italic text-emeraldArch font-medium"
+                        className="w-full flex-1 min-h-[60px] bg-transparent resize-none focus:outline-none text-xs italic text-emeraldArch font-medium"
+                      />
+                      <ActionItemList 
+                        actions={row.actions}
+                        attendees={meeting.attendees}
+                        onChange={(actions) => updateRow(row.id, 'actions', actions)}
+                        onAdd={() => updateRow(row.id, 'actions', [...row.actions, createAction(meeting.id, row.id)])}
                       />
                    </div>
                 </div>
@@ -736,7 +613,9 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
               <h3 className="text-xl font-black uppercase tracking-tight">Export Preferences</h3>
               <button onClick={() => setIsExportModalOpen(false)} className="nm-btn p-2 rounded-xl text-textMuted"><X size={18} /></button>
             </div>
-            <p className="text-xs font-bold text-textMuted leading-relaxed">Select components for PDF report.</p>
+            <p className="text-xs font-bold text-textMuted leading-relaxed">
+              Select components for the minutes. Issued under {branding.practice.name.trim() ? <span className="text-textMain">{branding.practice.name}</span> : 'no practice name'}{documentReference(branding.details) && <> as <span className="text-textMain">{documentReference(branding.details)}</span></>}; both are set in Settings.
+            </p>
             <div className="space-y-4">
                <button onClick={() => setExportOptions(prev => ({ ...prev, attendees: !prev.attendees }))} className={`w-full flex items-center justify-between p-5 rounded-2xl transition-all ${exportOptions.attendees ? 'nm-inset border border-emeraldArch/30' : 'nm-btn'}`}>
                  <span className="text-xs font-black uppercase tracking-widest">Stakeholders</span>
@@ -750,20 +629,79 @@ const MeetingView: React.FC<MeetingViewProps> = ({ meeting, onUpdate, onClose })
                  <span className="text-xs font-black uppercase tracking-widest">Log Entries</span>
                  {exportOptions.entries ? <CheckSquare size={18} className="text-emeraldArch" /> : <Square size={18} className="text-textMuted" />}
                </button>
+               <button onClick={() => setExportOptions(prev => ({ ...prev, actionSummary: !prev.actionSummary }))} className={`w-full flex items-center justify-between p-5 rounded-2xl transition-all ${exportOptions.actionSummary ? 'nm-inset border border-emeraldArch/30' : 'nm-btn'}`}>
+                 <span className="text-xs font-black uppercase tracking-widest">Action Summary</span>
+                 {exportOptions.actionSummary ? <CheckSquare size={18} className="text-emeraldArch" /> : <Square size={18} className="text-textMuted" />}
+               </button>
+            </div>
+            <div className="space-y-3">
+              <span className="text-[9px] font-black uppercase tracking-widest text-textMuted">Format</span>
+              <div className="flex nm-inset p-1 rounded-xl space-x-1">
+                {MINUTES_FORMATS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setExportOptions(prev => ({ ...prev, format: value }))}
+                    className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${exportOptions.format === value ? 'nm-inset text-emeraldArch' : 'nm-btn text-textMuted'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className={`space-y-3 transition-opacity ${exportOptions.format === 'markdown' ? 'opacity-30 pointer-events-none' : ''}`}>
+              <span className="text-[9px] font-black uppercase tracking-widest text-textMuted">Paper</span>
+              <div className="flex items-center space-x-3">
+                <div className="flex flex-1 nm-inset p-1 rounded-xl space-x-1">
+                  {PAPER_SIZES.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => setExportOptions(prev => ({ ...prev, paper: value }))}
+                      className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${exportOptions.paper === value ? 'nm-inset text-emeraldArch' : 'nm-btn text-textMuted'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setExportOptions(prev => ({ ...prev, orientation: prev.orientation === 'portrait' ? 'landscape' : 'portrait' }))}
+                  title={exportOptions.orientation === 'portrait' ? 'Portrait' : 'Landscape'}
+                  className="nm-btn p-3 rounded-xl text-emeraldArch"
+                >
+                  <RectangleVertical size={16} className={`transition-transform ${exportOptions.orientation === 'landscape' ? 'rotate-90' : ''}`} />
+                </button>
+              </div>
             </div>
-            <button disabled={isGeneratingPdf} onClick={handleExportPdf} className="w-full nm-emerald py-5 rounded-2xl font-black text-xs uppercase tracking-widest flex items-center justify-center space-x-3 disabled:opacity-50">
-              {isGeneratingPdf ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
-              <span>{isGeneratingPdf ? 'Exporting...' : 'Generate PDF'}</span>
+            <button disabled={isExporting} onClick={handleExport} className="w-full nm-emerald py-5 rounded-2xl font-black text-xs uppercase tracking-widest flex items-center justify-center space-x-3 disabled:opacity-50">
+              {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+              <span>{isExporting ? 'Exporting...' : `Generate ${MINUTES_FORMATS.find(f => f.value === exportOptions.format)?.label}`}</span>
             </button>
           </div>
         </div>
       )}
 
       <input type="file" ref={fileInputRef} className="hidden" accept="image/*,application/pdf" onChange={(e) => { const file = e.target.files?.[0]; if (file && activeRowId.current) { handleFileUpload(file, 'row', activeRowId.current); e.target.value = ''; } }} />
-      <input type="file" ref={whiteboardImageInputRef} className="hidden" accept="image/*,application/pdf" onChange={(e) => { const file = e.target.files?.[0]; if (file) { handleFileUpload(file, 'whiteboard'); e.target.value = ''; } }} />
+      <input type="file" ref={whiteboardImageInputRef} className="hidden" accept="image/*,application/pdf" onChange={(e) => { const file = e.target.files?.[0]; if (file && activeBoardId.current) { handleFileUpload(file, 'whiteboard', activeBoardId.current); e.target.value = ''; } }} />
+
+      {pendingPdf && (
+        <PdfPagePicker 
+          pdf={pendingPdf.pdf}
+          fileName={pendingPdf.fileName}
+          mode={pendingPdf.target === 'whiteboard' ? 'single' : 'multiple'}
+          onConfirm={attachPdfPages}
+          onCancel={cancelPdfImport}
+        />
+      )}
+
+      {cameraRowId && (
+        <CameraCapture imageSettings={imageSettings} onSave={(images) => { addImagesToRow(cameraRowId, images); setCameraRowId(null); }} onCancel={() => setCameraRowId(null)} />
+      )}
+
+      {comparingImageId && (
+        <CompareView meetings={projectMeetings} initialImageId={comparingImageId} onClose={() => setComparingImageId(null)} />
+      )}
 
       {editingMarkup && (
-        <DrawingCanvas imageUrl={editingMarkup.url} initialMarkup={editingMarkup.markup} onCancel={() => setEditingMarkup(null)} onSave={(markup) => { const { rowId, imageId } = editingMarkup; const updatedRows = meeting.rows.map(row => row.id === rowId ? { ...row, images: row.images.map(img => img.id === imageId ? { ...img, markup } : img) } : row); onUpdate({ ...meeting, rows: updatedRows }); setEditingMarkup(null); }} />
+        <DrawingCanvas image={editingMarkup.image} rows={meeting.rows} authors={layerAuthors} penOnly={penOnly} onPenOnlyChange={setPenOnly} onCancel={() => setEditingMarkup(null)} onNavigateRow={scrollToRow} onSave={(image) => { const { rowId } = editingMarkup; const updatedRows = meeting.rows.map(row => row.id === rowId ? { ...row, images: row.images.map(img => img.id === image.id ? image : img) } : row); onUpdate({ ...meeting, rows: updatedRows }); setEditingMarkup(null); }} />
       )}
     </div>
   );
@@ -0,0 +1,77 @@
+import React from 'react';
+import { MeetingTemplate } from '../types';
+import { FileText, Repeat, LayoutTemplate, X } from 'lucide-react';
+
+interface NewMeetingDialogProps {
+  projectName: string;
+  templates: MeetingTemplate[];
+  canContinueSeries: boolean;
+  onCreateBlank: () => void;
+  onCreateFromTemplate: (template: MeetingTemplate) => void;
+  onCreateNextInSeries: () => void;
+  onManageTemplates: () => void;
+  onClose: () => void;
+}
+
+const NewMeetingDialog: React.FC<NewMeetingDialogProps> = ({
+  projectName,
+  templates,
+  canContinueSeries,
+  onCreateBlank,
+  onCreateFromTemplate,
+  onCreateNextInSeries,
+  onManageTemplates,
+  onClose
+}) => (
+  <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+    <div className="nm-raised w-full max-w-lg rounded-[40px] p-8 space-y-6 max-h-[85vh] flex flex-col">
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <h3 className="text-xl font-black uppercase tracking-tight">New Meeting</h3>
+          <p className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted truncate">{projectName}</p>
+        </div>
+        <button onClick={onClose} className="nm-btn p-2 rounded-xl text-textMuted"><X size={18} /></button>
+      </div>
+
+      <div className="space-y-4 overflow-y-auto scrollbar-hide p-1">
+        <button onClick={onCreateBlank} className="w-full nm-btn p-5 rounded-2xl flex items-center space-x-4 text-left hover:text-emeraldArch">
+          <FileText size={18} className="text-emeraldArch flex-shrink-0" />
+          <div>
+            <div className="text-xs font-black uppercase tracking-widest">Blank Meeting</div>
+            <div className="text-[10px] font-bold text-textMuted">Start empty; open actions are carried forward.</div>
+          </div>
+        </button>
+        {canContinueSeries && (
+          <button onClick={onCreateNextInSeries} className="w-full nm-btn p-5 rounded-2xl flex items-center space-x-4 text-left hover:text-emeraldArch">
+            <Repeat size={18} className="text-emeraldArch flex-shrink-0" />
+            <div>
+              <div className="text-xs font-black uppercase tracking-widest">Next in Series</div>
+              <div className="text-[10px] font-bold text-textMuted">Same roster as the latest meeting, open items carried over.</div>
+            </div>
+          </button>
+        )}
+
+        <div className="flex items-center justify-between px-2 pt-2">
+          <span className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">Templates</span>
+          <button onClick={onManageTemplates} className="text-[10px] font-black uppercase tracking-widest text-emeraldArch/60 hover:text-emeraldArch">Manage</button>
+        </div>
+        {templates.length === 0 && (
+          <div className="text-[10px] font-black uppercase tracking-widest text-textMuted/40 text-center py-4">No templates yet</div>
+        )}
+        {templates.map(template => (
+          <button key={template.id} onClick={() => onCreateFromTemplate(template)} className="w-full nm-btn p-5 rounded-2xl flex items-center space-x-4 text-left hover:text-emeraldArch">
+            <LayoutTemplate size={18} className="text-emeraldArch/60 flex-shrink-0" />
+            <div className="min-w-0">
+              <div className="text-xs font-black uppercase tracking-widest truncate">{template.name}</div>
+              <div className="text-[10px] font-bold text-textMuted truncate">
+                {template.description || `${template.rows.length} agenda rows · ${template.organisations.length} organisations`}
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default NewMeetingDialog;
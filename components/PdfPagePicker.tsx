@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { PdfDocument, renderPdfThumbnail } from '../services/pdf';
+import { Check, FileText, Loader2, X } from 'lucide-react';
+
+interface PdfPagePickerProps {
+  pdf: PdfDocument;
+  fileName: string;
+  mode: 'multiple' | 'single';
+  onConfirm: (pageNumbers: number[]) => void;
+  onCancel: () => void;
+}
+
+const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ pdf, fileName, mode, onConfirm, onCancel }) => {
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [selectedPages, setSelectedPages] = useState<number[]>(pdf.numPages === 1 ? [1] : []);
+
+  const pageNumbers = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Render one page at a time; a 30-sheet drawing set rendered in parallel
+    // would hold every canvas in memory at once.
+    (async () => {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        if (cancelled) return;
+        try {
+          const url = await renderPdfThumbnail(pdf, pageNumber);
+          if (!cancelled) setThumbnails(prev => ({ ...prev, [pageNumber]: url }));
+        } catch (error) {
+          console.error(`Thumbnail for page ${pageNumber} failed:`, error);
+        }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [pdf]);
+
+  const togglePage = (pageNumber: number) => {
+    if (mode === 'single') {
+      setSelectedPages([pageNumber]);
+      return;
+    }
+    setSelectedPages(prev =>
+      prev.includes(pageNumber) ? prev.filter(p => p !== pageNumber) : [...prev, pageNumber].sort((a, b) => a - b)
+    );
+  };
+
+  const allSelected = selectedPages.length === pdf.numPages;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="nm-raised w-full max-w-5xl rounded-[40px] p-8 space-y-6 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4 min-w-0">
+            <div className="p-2 nm-inset rounded-xl text-emeraldArch"><FileText size={18} /></div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-black uppercase tracking-tight">{mode === 'single' ? 'Choose Scratchpad Sheet' : 'Attach Sheets'}</h3>
+              <p className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted truncate">{fileName} · {pdf.numPages} pages</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="nm-btn p-2 rounded-xl text-textMuted"><X size={18} /></button>
+        </div>
+
+        {mode === 'multiple' && (
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setSelectedPages(allSelected ? [] : pageNumbers)}
+              className="nm-btn px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-emeraldArch"
+            >
+              {allSelected ? 'Select None' : 'Select All'}
+            </button>
+            <span className="text-[10px] font-black uppercase tracking-widest text-textMuted">{selectedPages.length} selected</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-6 overflow-y-auto p-2 scrollbar-hide">
+          {pageNumbers.map(pageNumber => {
+            const isSelected = selectedPages.includes(pageNumber);
+            return (
+              <button
+                key={pageNumber}
+                onClick={() => togglePage(pageNumber)}
+                className={`relative rounded-2xl p-2 flex flex-col items-center transition-all ${isSelected ? 'nm-inset border border-emeraldArch/40' : 'nm-btn'}`}
+              >
+                <div className="w-full aspect-[3/4] rounded-xl bg-white flex items-center justify-center overflow-hidden">
+                  {thumbnails[pageNumber] ? (
+                    <img src={thumbnails[pageNumber]} alt={`Page ${pageNumber}`} className="max-w-full max-h-full object-contain" />
+                  ) : (
+                    <Loader2 size={18} className="animate-spin text-emeraldArch" />
+                  )}
+                </div>
+                <span className="text-[10px] font-black uppercase tracking-widest mt-2 text-textMuted">Page {pageNumber}</span>
+                {isSelected && (
+                  <div className="absolute top-3 right-3 nm-emerald w-6 h-6 rounded-lg flex items-center justify-center"><Check size={14} /></div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <button
+          disabled={selectedPages.length === 0}
+          onClick={() => onConfirm(selectedPages)}
+          className="w-full nm-emerald py-5 rounded-2xl font-black text-xs uppercase tracking-widest disabled:opacity-50"
+        >
+          {mode === 'single' ? 'Use As Scratchpad' : `Attach ${selectedPages.length} ${selectedPages.length === 1 ? 'Page' : 'Pages'}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PdfPagePicker;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ImagePin, NoteRow } from '../types';
+import { describeRow, rowItemLabel } from '../utils/pins';
+import { ArrowRight, Link2, MapPin, Trash2 } from 'lucide-react';
+
+interface PinPanelProps {
+  pins: ImagePin[];
+  rows: NoteRow[];
+  activePinId: string | null;
+  onChange: (pins: ImagePin[]) => void;
+  onDelete: (id: string) => void;
+  onActivate: (id: string) => void;
+  onNavigateRow: (rowId: string) => void;
+}
+
+const PinPanel: React.FC<PinPanelProps> = ({ pins, rows, activePinId, onChange, onDelete, onActivate, onNavigateRow }) => {
+  const update = (id: string, changes: Partial<ImagePin>) =>
+    onChange(pins.map(pin => (pin.id === id ? { ...pin, ...changes } : pin)));
+
+  return (
+    <div className="w-64 flex-shrink-0 flex flex-col bg-black border-l border-neutral-800">
+      <div className="flex items-center space-x-2 px-4 py-3 border-b border-neutral-800 text-[10px] font-black uppercase tracking-[0.2em] text-neutral-400">
+        <MapPin size={14} /><span>Pins</span>
+      </div>
+      <div className="flex-1 overflow-y-auto scrollbar-hide p-3 space-y-2">
+        {pins.length === 0 && (
+          <p className="px-1 text-[10px] font-bold uppercase tracking-widest text-neutral-600">Click the image to drop a pin</p>
+        )}
+        {[...pins].sort((a, b) => a.number - b.number).map(pin => (
+          <div
+            key={pin.id}
+            onClick={() => onActivate(pin.id)}
+            className={`rounded-xl p-3 space-y-2 cursor-pointer border ${pin.id === activePinId ? 'border-emeraldArch/60 bg-white/5' : 'border-neutral-800 hover:border-neutral-700'}`}
+          >
+            <div className="flex items-center space-x-2">
+              <span className="w-5 h-5 rounded-full bg-emeraldArch text-black text-[10px] font-black flex items-center justify-center flex-shrink-0">{pin.number}</span>
+              <input
+                value={pin.note}
+                onChange={(e) => update(pin.id, { note: e.target.value })}
+                placeholder="Note"
+                autoFocus={pin.id === activePinId && !pin.note}
+                className="flex-1 min-w-0 bg-transparent text-xs font-bold text-white placeholder:text-neutral-700 focus:outline-none"
+              />
+              <button onClick={(e) => { e.stopPropagation(); onDelete(pin.id); }} title="Delete pin" className="p-1 rounded-lg text-neutral-600 hover:text-red-400">
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <label className="flex items-center space-x-2 text-neutral-500" onClick={(e) => e.stopPropagation()}>
+              <Link2 size={12} className="flex-shrink-0" />
+              <select
+                value={rows.some(r => r.id === pin.rowId) ? pin.rowId : ''}
+                onChange={(e) => update(pin.id, { rowId: e.target.value || undefined })}
+                className="flex-1 min-w-0 bg-neutral-900 border border-neutral-800 rounded-lg px-2 py-1 text-[10px] font-bold text-neutral-300 focus:outline-none"
+              >
+                <option value="">Not linked</option>
+                {rows.map(row => <option key={row.id} value={row.id}>{describeRow(rows, row.id)}</option>)}
+              </select>
+              {pin.rowId && rows.some(r => r.id === pin.rowId) && (
+                <button onClick={() => onNavigateRow(pin.rowId!)} title={`Save and go to ${rowItemLabel(rows, pin.rowId)}`} className="p-1 rounded-lg text-neutral-600 hover:text-emeraldArch">
+                  <ArrowRight size={12} />
+                </button>
+              )}
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PinPanel;
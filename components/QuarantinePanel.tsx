@@ -0,0 +1,62 @@
+import React from 'react';
+import { QuarantinedDocument } from '../types';
+import { AlertTriangle, Download, Trash2, X } from 'lucide-react';
+
+interface QuarantinePanelProps {
+  entries: QuarantinedDocument[];
+  onDiscard: (entry: QuarantinedDocument) => void;
+  onClose: () => void;
+}
+
+// Projects are quarantined as their record; meetings as `{ meeting, rows }`.
+const documentName = (entry: QuarantinedDocument) => {
+  const doc = entry.document as { name?: unknown; meeting?: { name?: unknown } } | null;
+  const name = doc?.name ?? doc?.meeting?.name;
+  return typeof name === 'string' && name ? name : entry.id;
+};
+
+const QuarantinePanel: React.FC<QuarantinePanelProps> = ({ entries, onDiscard, onClose }) => {
+  const downloadEntry = (entry: QuarantinedDocument) => {
+    const blob = new Blob([JSON.stringify(entry, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `Quarantined_${entry.kind}_${entry.id}.json`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="nm-raised w-full max-w-xl rounded-[40px] p-8 space-y-6 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-black uppercase tracking-tight">Quarantined Documents</h3>
+          <button onClick={onClose} className="nm-btn p-2 rounded-xl text-textMuted"><X size={18} /></button>
+        </div>
+        <p className="text-xs font-bold text-textMuted leading-relaxed">
+          These documents could not be read with the current data format and were set aside. Download a copy before discarding.
+        </p>
+        <div className="space-y-4 overflow-y-auto scrollbar-hide">
+          {entries.length === 0 && (
+            <div className="text-[10px] font-black uppercase tracking-widest text-textMuted/40 text-center py-8">Nothing quarantined</div>
+          )}
+          {entries.map(entry => (
+            <div key={entry.id} className="nm-inset rounded-2xl p-5 flex items-start space-x-4">
+              <AlertTriangle size={16} className="text-red-500 flex-shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <div className="text-[10px] font-black uppercase tracking-[0.2em] text-emeraldArch">{entry.kind}</div>
+                <div className="text-xs font-bold truncate">{documentName(entry)}</div>
+                <div className="text-[10px] text-textMuted font-medium mt-1">{entry.reason}</div>
+                <div className="text-[9px] text-textMuted/60 font-mono mt-1">{new Date(entry.quarantinedAt).toLocaleString()}</div>
+              </div>
+              <button onClick={() => downloadEntry(entry)} className="nm-btn p-2 rounded-xl text-emeraldArch"><Download size={14} /></button>
+              <button onClick={() => onDiscard(entry)} className="nm-btn p-2 rounded-xl text-textMuted hover:text-red-500"><Trash2 size={14} /></button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuarantinePanel;
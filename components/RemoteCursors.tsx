@@ -0,0 +1,66 @@
+import React from 'react';
+import { CollabCursor, Presence } from '../services/collab';
+import { MousePointer2 } from 'lucide-react';
+
+interface RemoteCursorsProps {
+  peers: Presence[];
+  workspace: HTMLElement | null;
+}
+
+const rowElement = (rowId: string) => document.getElementById(`row-${rowId}`);
+
+/**
+ * The pointer as a collaboration cursor. Positions are taken relative to the
+ * row under the pointer, so they land on the same row on a screen of another
+ * width; outside any row they are relative to the scrolled workspace.
+ */
+export const cursorFromPointer = (event: React.PointerEvent, workspace: HTMLElement): CollabCursor => {
+  const row = (event.target as Element).closest<HTMLElement>('[id^="row-"]');
+  if (row && workspace.contains(row)) {
+    const rect = row.getBoundingClientRect();
+    return { rowId: row.id.slice('row-'.length), x: (event.clientX - rect.left) / rect.width, y: (event.clientY - rect.top) / rect.height };
+  }
+  const rect = workspace.getBoundingClientRect();
+  return {
+    x: (event.clientX - rect.left + workspace.scrollLeft) / workspace.scrollWidth,
+    y: (event.clientY - rect.top + workspace.scrollTop) / workspace.scrollHeight
+  };
+};
+
+// Where a cursor sits in the workspace's scrolled content, or null when its row is not on this screen.
+const cursorPosition = (cursor: CollabCursor, workspace: HTMLElement) => {
+  if (cursor.rowId) {
+    const row = rowElement(cursor.rowId);
+    if (!row) return null;
+    const rect = row.getBoundingClientRect();
+    const origin = workspace.getBoundingClientRect();
+    return {
+      left: rect.left - origin.left + workspace.scrollLeft + cursor.x * rect.width,
+      top: rect.top - origin.top + workspace.scrollTop + cursor.y * rect.height
+    };
+  }
+  return { left: cursor.x * workspace.scrollWidth, top: cursor.y * workspace.scrollHeight };
+};
+
+/** Other participants' pointers, drawn inside the workspace so they scroll with the rows. */
+const RemoteCursors: React.FC<RemoteCursorsProps> = ({ peers, workspace }) => {
+  if (!workspace) return null;
+  return (
+    <div className="absolute top-0 left-0 w-0 h-0 z-40 pointer-events-none">
+      {peers.map(peer => {
+        const position = peer.cursor && cursorPosition(peer.cursor, workspace);
+        if (!position) return null;
+        return (
+          <div key={peer.clientId} className="absolute transition-[left,top] duration-75 ease-linear" style={position}>
+            <MousePointer2 size={18} style={{ color: peer.color, fill: peer.color }} className="drop-shadow" />
+            <span className="absolute left-4 top-4 px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest text-white whitespace-nowrap" style={{ backgroundColor: peer.color }}>
+              {peer.name || 'Guest'}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RemoteCursors;
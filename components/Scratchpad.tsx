@@ -0,0 +1,567 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { FreehandMarkup, MarkupLayer, MarkupPath, MarkupPoint, ToolType, Whiteboard } from '../types';
+import { SHAPE_TOOL_OPTIONS } from '../constants';
+import { createShape, drawFreehandSegments, drawMarkup, eraseMarkup, findMarkupAt, isShapeTool, loadImage } from '../utils/markup';
+import { isPathEditable, isPathVisible, layerOf, resolveLayers } from '../utils/layers';
+import { simplifyPoints, smoothPoint } from '../utils/strokes';
+import {
+  DEFAULT_BOARD_FRAME,
+  Viewport,
+  backgroundSize,
+  boardBounds,
+  createWhiteboard,
+  fitViewport,
+  flattenWhiteboard,
+  panViewport,
+  screenToBoard,
+  zoomViewportAt
+} from '../utils/whiteboard';
+import { useMarkupSelection } from '../hooks/useMarkupSelection';
+import { pointerPressure, usePointerDrawing } from '../hooks/usePointerDrawing';
+import LayerPanel from './LayerPanel';
+import {
+  Copy,
+  Download,
+  Eraser,
+  FileUp,
+  Hand,
+  Highlighter,
+  Layers,
+  Loader2,
+  Maximize,
+  Pencil,
+  PenTool,
+  Plus,
+  Redo,
+  Trash2,
+  Undo,
+  X,
+  ZoomIn,
+  ZoomOut
+} from 'lucide-react';
+
+interface ScratchpadProps {
+  meetingName: string;
+  boards: Whiteboard[];
+  authors: string[];
+  penOnly: boolean;
+  isProcessingFile: boolean;
+  onPenOnlyChange: (penOnly: boolean) => void;
+  onChange: (boards: Whiteboard[]) => void;
+  onImportBackground: (boardId: string) => void;
+}
+
+const BOARD_HEIGHT = 520;
+const ZOOM_STEP = 1.25;
+
+/**
+ * The meeting's scratchpad: named boards, each an unbounded sheet that is
+ * redrawn at the current zoom rather than scaled, so strokes stay sharp.
+ * Ctrl+scroll zooms about the cursor; the hand tool, a middle-button drag or
+ * two fingers pan.
+ */
+const Scratchpad: React.FC<ScratchpadProps> = ({ meetingName, boards, authors, penOnly, isProcessingFile, onPenOnlyChange, onChange, onImportBackground }) => {
+  const [activeBoardId, setActiveBoardId] = useState(boards[0].id);
+  const [renamingBoardId, setRenamingBoardId] = useState<string | null>(null);
+  const [tool, setTool] = useState<ToolType>(ToolType.MARKER);
+  const [color, setColor] = useState<string>('#ef4444');
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [currentPath, setCurrentPath] = useState<MarkupPoint[]>([]);
+  const [history, setHistory] = useState<Record<string, MarkupPath[][]>>({});
+  const [redoStack, setRedoStack] = useState<Record<string, MarkupPath[][]>>({});
+  const [views, setViews] = useState<Record<string, Viewport>>({});
+  const [screenSize, setScreenSize] = useState({ width: 0, height: BOARD_HEIGHT });
+  const [background, setBackground] = useState<{ url: string; img: HTMLImageElement } | null>(null);
+  const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
+  const [isLayerPanelOpen, setIsLayerPanelOpen] = useState(false);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const liveCanvasRef = useRef<HTMLCanvasElement>(null);
+  const drawnSegments = useRef(0);
+  const panFrom = useRef<{ x: number; y: number } | null>(null);
+
+  const board = boards.find(b => b.id === activeBoardId) || boards[0];
+  const boardImage = background && background.url === board.image ? background.img : null;
+  const imageSize = boardImage ? backgroundSize(boardImage) : undefined;
+  const view = views[board.id] || { x: 0, y: 0, zoom: 1 };
+  const pixelRatio = window.devicePixelRatio || 1;
+
+  const layers = resolveLayers(board.layers);
+  const activeLayer = layers.find(l => l.id === activeLayerId) || layers[0];
+  const canDraw = activeLayer.visible && !activeLayer.locked;
+  const isEditable = (path: MarkupPath) => isPathEditable(path, layers);
+
+  const updateBoard = (changes: Partial<Whiteboard>) =>
+    onChange(boards.map(b => (b.id === board.id ? { ...b, ...changes } : b)));
+
+  const setView = (update: (prev: Viewport) => Viewport) =>
+    setViews(prev => ({ ...prev, [board.id]: update(prev[board.id] || view) }));
+
+  // Every edit goes through here so that undo steps back one whole edit, transforms included.
+  const commitMarkup = (markup: MarkupPath[]) => {
+    setHistory(prev => ({ ...prev, [board.id]: [...(prev[board.id] || []), board.markup] }));
+    setRedoStack(prev => ({ ...prev, [board.id]: [] }));
+    updateBoard({ markup });
+  };
+
+  // Hit areas and handles keep their on-screen size whatever the zoom.
+  const selection = useMarkupSelection(board.markup, commitMarkup, {
+    enabled: tool === ToolType.SELECT,
+    tolerance: 10 / view.zoom,
+    handleSize: 14 / view.zoom,
+    isSelectable: isEditable
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setScreenSize({ width: Math.round(entry.contentRect.width), height: Math.round(entry.contentRect.height) });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!board.image) return;
+    let cancelled = false;
+    const url = board.image;
+    loadImage(url).then(img => {
+      if (!cancelled) setBackground({ url, img });
+    }).catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [board.image]);
+
+  // A board is framed the first time it is shown, once its background has loaded.
+  useEffect(() => {
+    if (views[board.id] || screenSize.width === 0 || (board.image && !boardImage)) return;
+    const bounds = boardBounds(board, imageSize) || DEFAULT_BOARD_FRAME;
+    setViews(prev => ({ ...prev, [board.id]: fitViewport(bounds, screenSize.width, screenSize.height) }));
+  }, [board.id, boardImage, screenSize]);
+
+  useEffect(() => {
+    selection.clearSelection();
+    setActiveLayerId(null);
+    setIsDrawing(false);
+    setCurrentPath([]);
+  }, [board.id]);
+
+  const applyView = (ctx: CanvasRenderingContext2D) => {
+    const scale = pixelRatio * view.zoom;
+    ctx.setTransform(scale, 0, 0, scale, -view.x * scale, -view.y * scale);
+  };
+
+  const clearCanvas = (ctx: CanvasRenderingContext2D) => {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  };
+
+  const renderBoard = useCallback(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    clearCanvas(ctx);
+    applyView(ctx);
+    if (boardImage && imageSize) ctx.drawImage(boardImage, 0, 0, imageSize.width, imageSize.height);
+    selection.previewPaths.forEach(path => {
+      if (isPathVisible(path, layers)) drawMarkup(ctx, path);
+    });
+    selection.drawOverlay(ctx);
+  }, [selection.previewPaths, selection.drawOverlay, boardImage, board.layers, view, screenSize]);
+
+  useEffect(() => {
+    renderBoard();
+  }, [renderBoard]);
+
+  // The stroke in progress is drawn on its own canvas, one new segment at a time.
+  useEffect(() => {
+    const ctx = liveCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    if (currentPath.length > 0 && !isShapeTool(tool)) {
+      if (drawnSegments.current >= currentPath.length) {
+        clearCanvas(ctx);
+        drawnSegments.current = 0;
+      }
+      applyView(ctx);
+      const theme = document.documentElement.getAttribute('data-theme');
+      const stroke: FreehandMarkup = {
+        type: 'freehand',
+        points: currentPath,
+        color: tool === ToolType.ERASER ? (theme === 'day' ? '#F5F5F5' : '#282828') : color,
+        width: tool === ToolType.HIGHLIGHTER ? 30 : 4,
+        isHighlighter: tool === ToolType.HIGHLIGHTER
+      };
+      drawFreehandSegments(ctx, stroke, drawnSegments.current, currentPath.length - 1);
+      drawnSegments.current = currentPath.length - 1;
+      return;
+    }
+
+    drawnSegments.current = 0;
+    clearCanvas(ctx);
+    if (currentPath.length > 0) {
+      applyView(ctx);
+      drawMarkup(ctx, createShape(tool, currentPath[0], currentPath[currentPath.length - 1], color, 4));
+    }
+  }, [currentPath, tool, color, view, screenSize]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const factor = Math.exp(-e.deltaY * 0.002);
+      setView(prev => zoomViewportAt(prev, factor, e.clientX - rect.left, e.clientY - rect.top));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [board.id, view]);
+
+  const getBoardPoint = (e: React.MouseEvent) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return { x: 0, y: 0 };
+    const rect = canvas.getBoundingClientRect();
+    return screenToBoard(view, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const getStrokePoint = (e: React.PointerEvent): MarkupPoint => {
+    const point = getBoardPoint(e);
+    const pressure = tool === ToolType.MARKER ? pointerPressure(e) : undefined;
+    return pressure === undefined ? point : { ...point, pressure };
+  };
+
+  const zoomAtCentre = (factor: number) => setView(prev => zoomViewportAt(prev, factor, screenSize.width / 2, screenSize.height / 2));
+
+  const fitBoard = () => {
+    const bounds = boardBounds(board, imageSize) || DEFAULT_BOARD_FRAME;
+    setView(() => fitViewport(bounds, screenSize.width, screenSize.height));
+  };
+
+  const selectTool = (next: ToolType) => setTool(next);
+
+  const pickColor = (next: string) => {
+    setColor(next);
+    if (tool === ToolType.SELECT && selection.selected.length > 0) selection.recolorSelected(next);
+    else if (!isShapeTool(tool)) selectTool(ToolType.MARKER);
+  };
+
+  const markupCounts = board.markup.reduce<Record<string, number>>((counts, path) => {
+    const id = layerOf(path, layers).id;
+    counts[id] = (counts[id] || 0) + 1;
+    return counts;
+  }, {});
+
+  const activateLayer = (id: string) => {
+    const layer = layers.find(l => l.id === id);
+    if (!layer) return;
+    setActiveLayerId(id);
+    setColor(layer.color);
+  };
+
+  const deleteLayer = (id: string) => {
+    const layer = layers.find(l => l.id === id);
+    const remaining = layers.filter(l => l.id !== id);
+    if (!layer || remaining.length === 0) return;
+    const onLayer = board.markup.filter(p => layerOf(p, layers).id === id);
+    if (onLayer.length > 0 && !confirm(`Delete "${layer.name}" and its ${onLayer.length} markup ${onLayer.length === 1 ? 'item' : 'items'}?`)) return;
+    selection.clearSelection();
+    if (onLayer.length > 0) {
+      setHistory(prev => ({ ...prev, [board.id]: [...(prev[board.id] || []), board.markup] }));
+      setRedoStack(prev => ({ ...prev, [board.id]: [] }));
+    }
+    updateBoard({ markup: board.markup.filter(p => !onLayer.includes(p)), layers: remaining });
+    if (id === activeLayer.id) setActiveLayerId(remaining[remaining.length - 1].id);
+  };
+
+  const addBoard = () => {
+    const created = createWhiteboard(boards);
+    onChange([...boards, created]);
+    setActiveBoardId(created.id);
+  };
+
+  const renameBoard = (id: string, name: string) => {
+    onChange(boards.map(b => (b.id === id ? { ...b, name: name.trim() || b.name } : b)));
+    setRenamingBoardId(null);
+  };
+
+  const deleteBoard = (id: string) => {
+    const target = boards.find(b => b.id === id);
+    if (!target || boards.length === 1) return;
+    if ((target.markup.length > 0 || target.image) && !confirm(`Delete the board "${target.name}" and everything on it?`)) return;
+    const remaining = boards.filter(b => b.id !== id);
+    onChange(remaining);
+    if (id === board.id) setActiveBoardId(remaining[0].id);
+  };
+
+  const downloadBoard = async () => {
+    const canvas = await flattenWhiteboard(board);
+    if (!canvas) return;
+    const link = document.createElement('a');
+    link.download = `Scratchpad_${meetingName.replace(/\s+/g, '_')}_${board.name.replace(/\s+/g, '_')}.png`;
+    link.href = canvas.toDataURL('image/png');
+    link.click();
+  };
+
+  const editCallout = (e: React.MouseEvent) => {
+    if (tool !== ToolType.SELECT) return;
+    const index = findMarkupAt(board.markup, getBoardPoint(e), 10 / view.zoom, isEditable);
+    const path = board.markup[index];
+    if (path?.type !== 'text') return;
+    const text = prompt('Callout text', path.text);
+    if (text === null || !text.trim()) return;
+    commitMarkup(board.markup.map((p, i) => i === index ? { ...path, text: text.trim() } : p));
+  };
+
+  const startDrawing = (e: React.PointerEvent) => {
+    if (tool === ToolType.PAN) {
+      panFrom.current = { x: e.clientX, y: e.clientY };
+      return;
+    }
+    const coords = getBoardPoint(e);
+    if (tool === ToolType.SELECT) {
+      selection.pointerDown(coords, e.shiftKey);
+      return;
+    }
+    if (!canDraw) return;
+    setIsDrawing(true);
+    setCurrentPath([getStrokePoint(e)]);
+  };
+
+  const continueDrawing = (e: React.PointerEvent) => {
+    if (tool === ToolType.PAN && panFrom.current) {
+      const { x, y } = panFrom.current;
+      setView(prev => panViewport(prev, e.clientX - x, e.clientY - y));
+      panFrom.current = { x: e.clientX, y: e.clientY };
+      return;
+    }
+    if (tool === ToolType.SELECT) selection.pointerMove(getBoardPoint(e));
+    if (!isDrawing) return;
+    if (isShapeTool(tool)) setCurrentPath(prev => [prev[0], getBoardPoint(e)]);
+    else if (tool === ToolType.ERASER) setCurrentPath(prev => [...prev, getBoardPoint(e)]);
+    else setCurrentPath(prev => [...prev, smoothPoint(prev[prev.length - 1], getStrokePoint(e))]);
+  };
+
+  const abandonStroke = () => {
+    panFrom.current = null;
+    if (tool === ToolType.SELECT) selection.cancelGesture();
+    setIsDrawing(false);
+    setCurrentPath([]);
+  };
+
+  const endDrawing = () => {
+    panFrom.current = null;
+    if (tool === ToolType.SELECT) selection.pointerUp();
+    if (!isDrawing) return;
+    setIsDrawing(false);
+
+    if (tool === ToolType.ERASER) {
+      commitMarkup(eraseMarkup(board.markup, currentPath, 20 / view.zoom, isEditable));
+    } else if (isShapeTool(tool)) {
+      const shape = { ...createShape(tool, currentPath[0], currentPath[currentPath.length - 1], color, 4), layerId: activeLayer.id };
+      if (shape.type === 'text') {
+        const text = prompt('Callout text');
+        if (text?.trim()) commitMarkup([...board.markup, { ...shape, text: text.trim() }]);
+      } else if (Math.hypot(shape.points[1].x - shape.points[0].x, shape.points[1].y - shape.points[0].y) > 3 / view.zoom) {
+        commitMarkup([...board.markup, shape]);
+      }
+    } else {
+      const newPath: MarkupPath = {
+        type: 'freehand',
+        points: simplifyPoints(currentPath, 0.8 / view.zoom),
+        color,
+        width: tool === ToolType.HIGHLIGHTER ? 30 : 4,
+        isHighlighter: tool === ToolType.HIGHLIGHTER,
+        layerId: activeLayer.id
+      };
+      commitMarkup([...board.markup, newPath]);
+    }
+    setCurrentPath([]);
+  };
+
+  const pointer = usePointerDrawing({
+    penOnly,
+    onStart: startDrawing,
+    onMove: continueDrawing,
+    onEnd: endDrawing,
+    onCancel: abandonStroke,
+    onPinch: change => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const rect = canvas.getBoundingClientRect();
+      setView(prev => panViewport(zoomViewportAt(prev, change.factor, change.originX - rect.left, change.originY - rect.top), change.dx, change.dy));
+    }
+  });
+
+  const undo = () => {
+    const past = history[board.id] || [];
+    if (past.length === 0) return;
+    selection.clearSelection();
+    setRedoStack(prev => ({ ...prev, [board.id]: [board.markup, ...(prev[board.id] || [])] }));
+    setHistory(prev => ({ ...prev, [board.id]: past.slice(0, -1) }));
+    updateBoard({ markup: past[past.length - 1] });
+  };
+
+  const redo = () => {
+    const future = redoStack[board.id] || [];
+    if (future.length === 0) return;
+    selection.clearSelection();
+    setHistory(prev => ({ ...prev, [board.id]: [...(prev[board.id] || []), board.markup] }));
+    setRedoStack(prev => ({ ...prev, [board.id]: future.slice(1) }));
+    updateBoard({ markup: future[0] });
+  };
+
+  const cursor = tool === ToolType.PAN ? 'cursor-grab' : canDraw || tool === ToolType.SELECT ? 'cursor-crosshair' : 'cursor-not-allowed';
+
+  return (
+    <div id="pdf-section-whiteboard" className="nm-raised rounded-[28px] overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-3 bg-appBg/40">
+        <div className="flex items-center space-x-4 min-w-0">
+            <span className="text-[9px] font-black uppercase tracking-widest text-textMuted flex-shrink-0">Project Scratchpad</span>
+            <div className="nm-inset px-3 py-1 rounded-full text-[9px] font-mono font-bold text-emeraldArch flex-shrink-0">
+                ZOOM: {Math.round(view.zoom * 100)}% <span className="opacity-40 text-textMain ml-2">(Ctrl+Scroll)</span>
+            </div>
+            {board.imageSource && (
+                <span className="text-[9px] font-black uppercase tracking-widest text-textMuted truncate max-w-[240px]" title={board.imageSource.fileName}>
+                    {board.imageSource.fileName}{board.imageSource.page ? ` · p.${board.imageSource.page}` : ''}
+                </span>
+            )}
+        </div>
+
+        <div className="flex items-center space-x-3">
+            <div className="flex nm-inset p-1 rounded-xl space-x-1">
+                {['#ef4444', '#3b82f6', '#22c55e'].map(c => (
+                    <button
+                        key={c}
+                        onClick={() => pickColor(c)}
+                        className={`p-1.5 rounded-lg transition-all flex items-center justify-center ${(tool === ToolType.MARKER || isShapeTool(tool)) && color === c ? 'nm-inset text-emeraldArch' : 'nm-btn text-textMuted'}`}
+                        style={{ color: c }}
+                    >
+                       <PenTool size={16} className="stroke-[3px]" />
+                    </button>
+                ))}
+            </div>
+            <div className="w-px h-4 bg-textMuted/20 mx-1" />
+            <button onClick={() => selectTool(ToolType.HIGHLIGHTER)} className={`nm-btn p-2 rounded-xl transition-all ${tool === ToolType.HIGHLIGHTER ? 'nm-btn-active text-yellow-500' : 'text-textMuted'}`}><Highlighter size={16} /></button>
+            <button onClick={() => selectTool(ToolType.ERASER)} className={`nm-btn p-2 rounded-xl transition-all ${tool === ToolType.ERASER ? 'nm-btn-active text-red-500' : 'text-textMuted'}`}><Eraser size={16} /></button>
+            <button onClick={() => selectTool(ToolType.PAN)} title="Pan" className={`nm-btn p-2 rounded-xl transition-all ${tool === ToolType.PAN ? 'nm-btn-active text-emeraldArch' : 'text-textMuted'}`}><Hand size={16} /></button>
+            <div className="flex nm-inset p-1 rounded-xl space-x-1">
+                {SHAPE_TOOL_OPTIONS.map(({ tool: option, label, icon: Icon }) => (
+                    <button
+                        key={option}
+                        onClick={() => selectTool(option)}
+                        title={label}
+                        className={`p-1.5 rounded-lg transition-all flex items-center justify-center ${tool === option ? 'nm-inset text-emeraldArch' : 'nm-btn text-textMuted'}`}
+                    >
+                       <Icon size={16} />
+                    </button>
+                ))}
+            </div>
+            {selection.selected.length > 0 && (
+                <>
+                    <input
+                        type="range"
+                        min={1}
+                        max={40}
+                        value={selection.selectedWidth ?? 4}
+                        onChange={(e) => selection.setSelectedWidth(Number(e.target.value))}
+                        className="w-20 accent-emeraldArch"
+                        title="Stroke width"
+                    />
+                    <button onClick={selection.duplicateSelected} title="Duplicate selected (Ctrl+D)" className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><Copy size={16} /></button>
+                    <button onClick={selection.deleteSelected} title="Delete selected" className="nm-btn p-2 rounded-xl text-red-500"><Trash2 size={16} /></button>
+                </>
+            )}
+            <div className="w-px h-4 bg-textMuted/20 mx-1" />
+            <button onClick={() => zoomAtCentre(1 / ZOOM_STEP)} title="Zoom out" className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><ZoomOut size={16} /></button>
+            <button onClick={() => zoomAtCentre(ZOOM_STEP)} title="Zoom in" className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><ZoomIn size={16} /></button>
+            <button onClick={fitBoard} title="Fit board" className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><Maximize size={16} /></button>
+            <button onClick={() => onPenOnlyChange(!penOnly)} title={penOnly ? 'Pen only: touch pans and zooms' : 'Touch draws. Click to draw with a stylus only'} className={`nm-btn p-2 rounded-xl transition-all ${penOnly ? 'nm-btn-active text-emeraldArch' : 'text-textMuted'}`}><Pencil size={16} /></button>
+            <button onClick={() => setIsLayerPanelOpen(!isLayerPanelOpen)} title="Layers" className={`nm-btn p-2 rounded-xl transition-all ${isLayerPanelOpen ? 'nm-btn-active text-emeraldArch' : 'text-textMuted'}`}><Layers size={16} /></button>
+            <button onClick={undo} className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><Undo size={16} /></button>
+            <button onClick={redo} className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><Redo size={16} /></button>
+            <div className="w-px h-4 bg-textMuted/20 mx-1" />
+            <button onClick={() => onImportBackground(board.id)} title="Set board background" className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><FileUp size={16} /></button>
+            <button onClick={downloadBoard} title="Download board" className="nm-btn p-2 rounded-xl text-emeraldArch hover:text-emeraldArch"><Download size={16} /></button>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2 px-6 pt-3 overflow-x-auto scrollbar-hide">
+        {boards.map(b => (
+          <div key={b.id} className={`flex items-center rounded-xl px-3 py-1.5 flex-shrink-0 ${b.id === board.id ? 'nm-inset text-emeraldArch' : 'nm-btn text-textMuted'}`}>
+            {renamingBoardId === b.id ? (
+              <input
+                autoFocus
+                defaultValue={b.name}
+                onBlur={(e) => renameBoard(b.id, e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') renameBoard(b.id, e.currentTarget.value);
+                  if (e.key === 'Escape') setRenamingBoardId(null);
+                }}
+                className="bg-transparent text-[10px] font-black uppercase tracking-widest w-28 focus:outline-none"
+              />
+            ) : (
+              <button
+                onClick={() => setActiveBoardId(b.id)}
+                onDoubleClick={() => setRenamingBoardId(b.id)}
+                title="Double-click to rename"
+                className="text-[10px] font-black uppercase tracking-widest"
+              >
+                {b.name}
+              </button>
+            )}
+            {boards.length > 1 && b.id === board.id && (
+              <button onClick={() => deleteBoard(b.id)} title="Delete board" className="ml-2 text-textMuted hover:text-red-500"><X size={12} /></button>
+            )}
+          </div>
+        ))}
+        <button onClick={addBoard} title="Add board" className="nm-btn p-1.5 rounded-xl text-emeraldArch flex-shrink-0"><Plus size={14} /></button>
+      </div>
+
+      <div className="flex m-4 space-x-4">
+        <div
+          ref={containerRef}
+          className={`nm-inset flex-1 rounded-2xl overflow-hidden bg-black/5 relative ${cursor}`}
+          style={{ height: BOARD_HEIGHT }}
+        >
+          <canvas
+            ref={canvasRef}
+            width={screenSize.width * pixelRatio}
+            height={screenSize.height * pixelRatio}
+            className="absolute inset-0 w-full h-full touch-none"
+            {...pointer}
+            onDoubleClick={editCallout}
+          />
+          <canvas
+            ref={liveCanvasRef}
+            width={screenSize.width * pixelRatio}
+            height={screenSize.height * pixelRatio}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            style={{ opacity: tool === ToolType.HIGHLIGHTER ? 0.4 : 1 }}
+          />
+          {isProcessingFile && (
+            <div className="absolute inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50">
+               <div className="nm-raised p-6 rounded-3xl flex items-center space-x-4">
+                  <Loader2 size={24} className="animate-spin text-emeraldArch" />
+                  <span className="text-xs font-black uppercase tracking-widest">Rendering PDF...</span>
+               </div>
+            </div>
+          )}
+        </div>
+        {isLayerPanelOpen && (
+          <LayerPanel
+            layers={layers}
+            activeLayerId={activeLayer.id}
+            authors={authors}
+            markupCounts={markupCounts}
+            onChange={(next: MarkupLayer[]) => updateBoard({ layers: next })}
+            onActivate={activateLayer}
+            onDelete={deleteLayer}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Scratchpad;
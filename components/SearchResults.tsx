@@ -0,0 +1,57 @@
+import React from 'react';
+import { ProjectGroup } from '../types';
+import { SearchField, SearchResult } from '../services/searchIndex';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  projects: ProjectGroup[];
+  onSelect: (result: SearchResult) => void;
+}
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  discussion: 'Discussion',
+  followUp: 'Follow-up',
+  action: 'Action',
+  attendee: 'Attendee',
+  organisation: 'Organisation',
+};
+
+const SearchResults: React.FC<SearchResultsProps> = ({ results, projects, onSelect }) => {
+  const meetingName = (result: SearchResult) =>
+    projects.find(p => p.id === result.projectId)?.meetings.find(m => m.id === result.meetingId)?.name;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between px-2">
+        <span className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">Content Matches</span>
+        <span className="text-[10px] font-mono font-bold text-emeraldArch">{results.length}</span>
+      </div>
+      {results.length === 0 ? (
+        <div className="px-2 text-[10px] font-black uppercase tracking-widest text-textMuted/40">No matches in notes</div>
+      ) : (
+        <div className="space-y-2">
+          {results.map((result, i) => (
+            <button
+              key={`${result.meetingId}-${result.rowId || ''}-${result.field}-${i}`}
+              onClick={() => onSelect(result)}
+              className="w-full nm-btn px-4 py-3 rounded-2xl text-left space-y-1"
+            >
+              <div className="flex items-center justify-between space-x-2">
+                <span className="text-[10px] font-black truncate">{meetingName(result)}</span>
+                <span className="text-[8px] font-black uppercase tracking-widest text-textMuted flex-shrink-0">{FIELD_LABELS[result.field]}</span>
+              </div>
+              <p className="text-[11px] leading-snug text-textMuted line-clamp-3">
+                {result.snippet.map((part, j) => part.highlight
+                  ? <mark key={j} className="bg-emeraldArch/30 text-textMain rounded px-0.5">{part.text}</mark>
+                  : <span key={j}>{part.text}</span>
+                )}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchResults;
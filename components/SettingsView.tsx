@@ -0,0 +1,249 @@
+import React, { useRef, useState } from 'react';
+import { ImageFormat, ImageSettings, PracticeSettings, ProjectDetails, ProjectGroup, SyncConfig } from '../types';
+import { EMPTY_PROJECT_DETAILS } from '../constants';
+import { SyncStatus } from '../services/sync';
+import { ArrowLeft, Building2, Cloud, FileUp, Folder, Image as ImageIcon, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+
+interface SettingsViewProps {
+  practice: PracticeSettings;
+  projects: ProjectGroup[];
+  initialProjectId?: string;
+  onSavePractice: (practice: PracticeSettings) => void;
+  imageSettings: ImageSettings;
+  onSaveImageSettings: (settings: ImageSettings) => void;
+  onUpdateProjectDetails: (projectId: string, details: ProjectDetails) => void;
+  sync: { config: SyncConfig; status: SyncStatus; detail: string | null; lastSyncedAt: Date | null };
+  onSaveSync: (config: SyncConfig) => void;
+  onSyncNow: () => void;
+  onClose: () => void;
+}
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  off: 'Not syncing',
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  offline: 'Offline, changes are queued',
+  error: 'Sync failed'
+};
+
+const IMAGE_SIZES = [1600, 2400, 3200, 4096];
+
+const IMAGE_FORMATS: { value: ImageFormat; label: string }[] = [
+  { value: 'webp', label: 'WebP' },
+  { value: 'jpeg', label: 'JPEG' }
+];
+
+const PROJECT_FIELDS: { key: Exclude<keyof ProjectDetails, 'distribution'>; label: string; placeholder: string }[] = [
+  { key: 'projectNumber', label: 'Project Number', placeholder: 'e.g. 2417' },
+  { key: 'jobName', label: 'Job Name', placeholder: 'Defaults to the project name' },
+  { key: 'documentReference', label: 'Document Reference', placeholder: 'e.g. 2417-ARC-MIN-001' },
+  { key: 'revision', label: 'Revision', placeholder: 'e.g. P01' }
+];
+
+const labelClass = 'text-[10px] font-black uppercase tracking-[0.2em] text-textMuted';
+const inputClass = 'w-full nm-inset rounded-xl px-4 py-3 bg-transparent focus:outline-none text-xs font-bold';
+
+const SettingsView: React.FC<SettingsViewProps> = ({ practice, projects, initialProjectId, onSavePractice, imageSettings, onSaveImageSettings, onUpdateProjectDetails, sync, onSaveSync, onSyncNow, onClose }) => {
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(initialProjectId || projects[0]?.id || null);
+  const [syncDraft, setSyncDraft] = useState<SyncConfig>(sync.config);
+  const syncChanged = syncDraft.serverUrl.trim() !== sync.config.serverUrl || syncDraft.token !== sync.config.token;
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = projects.find(p => p.id === selectedProjectId);
+  const details = selected?.details || EMPTY_PROJECT_DETAILS;
+
+  const updatePractice = (changes: Partial<PracticeSettings>) => onSavePractice({ ...practice, ...changes });
+
+  const updateDetails = (changes: Partial<ProjectDetails>) => {
+    if (selected) onUpdateProjectDetails(selected.id, { ...details, ...changes });
+  };
+
+  const handleLogo = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => updatePractice({ logo: e.target?.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-appBg overflow-hidden">
+      <div className="px-8 py-6 flex-shrink-0 flex items-center space-x-6">
+        <button onClick={onClose} className="nm-btn p-3 rounded-2xl text-textMuted hover:text-emeraldArch transition-all shadow-sm">
+          <ArrowLeft size={18} />
+        </button>
+        <div>
+          <h2 className="text-2xl font-black text-textMain uppercase tracking-tighter">Settings</h2>
+          <p className="text-[10px] font-black uppercase tracking-[0.2em] text-emeraldArch mt-1">Title block for issued minutes</p>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0 px-8 pb-8 space-x-8">
+        <div className="w-96 flex-shrink-0 nm-raised rounded-[28px] p-8 space-y-6 overflow-y-auto scrollbar-hide">
+          <div className="flex items-center space-x-3 text-emeraldArch">
+            <Building2 size={16} />
+            <span className="text-xs font-black uppercase tracking-widest">Practice</span>
+          </div>
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>Logo</span>
+              <div className="flex items-center space-x-2">
+                <button onClick={() => logoInputRef.current?.click()} className="nm-btn p-1.5 rounded-lg text-emeraldArch"><FileUp size={12} /></button>
+                {practice.logo && (
+                  <button onClick={() => updatePractice({ logo: undefined })} className="nm-btn p-1.5 rounded-lg text-textMuted hover:text-red-500"><Trash2 size={12} /></button>
+                )}
+              </div>
+            </div>
+            {practice.logo ? (
+              <div className="nm-inset rounded-2xl p-4 flex items-center justify-center bg-white">
+                <img src={practice.logo} className="max-h-20 max-w-full object-contain" />
+              </div>
+            ) : (
+              <div className="py-6 flex flex-col items-center justify-center border-2 border-dashed border-textMuted/10 rounded-3xl">
+                <ImageIcon size={20} className="text-textMuted/20 mb-2" />
+                <p className="text-[10px] font-black uppercase tracking-widest text-textMuted/40">No logo</p>
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <span className={labelClass}>Practice Name</span>
+            <input value={practice.name} onChange={(e) => updatePractice({ name: e.target.value })} placeholder="Your practice" className={inputClass} />
+          </section>
+          <section className="space-y-2">
+            <span className={labelClass}>Address</span>
+            <textarea value={practice.address} onChange={(e) => updatePractice({ address: e.target.value })} rows={4} placeholder="One line per row" className={`${inputClass} resize-none`} />
+          </section>
+          <section className="space-y-2">
+            <span className={labelClass}>Contact</span>
+            <input value={practice.contact} onChange={(e) => updatePractice({ contact: e.target.value })} placeholder="Phone, email or website" className={inputClass} />
+          </section>
+
+          <div className="flex items-center space-x-3 text-emeraldArch pt-4">
+            <ImageIcon size={16} />
+            <span className="text-xs font-black uppercase tracking-widest">Images</span>
+          </div>
+          <section className="space-y-2">
+            <span className={labelClass}>Largest Side</span>
+            <div className="flex nm-inset p-1 rounded-xl space-x-1">
+              {IMAGE_SIZES.map(size => (
+                <button
+                  key={size}
+                  onClick={() => onSaveImageSettings({ ...imageSettings, maxSize: size })}
+                  className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${imageSettings.maxSize === size ? 'nm-inset text-emeraldArch' : 'nm-btn text-textMuted'}`}
+                >
+                  {size}px
+                </button>
+              ))}
+            </div>
+          </section>
+          <section className="space-y-2">
+            <span className={labelClass}>Format</span>
+            <div className="flex nm-inset p-1 rounded-xl space-x-1">
+              {IMAGE_FORMATS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onSaveImageSettings({ ...imageSettings, format: value })}
+                  className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${imageSettings.format === value ? 'nm-inset text-emeraldArch' : 'nm-btn text-textMuted'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </section>
+          <p className="text-[10px] font-bold text-textMuted leading-relaxed">Uploaded images and photos are scaled down to this size and re-encoded before they are stored. PDF pages are kept as rendered, without loss. Images already attached are not changed.</p>
+
+          <div className="flex items-center space-x-3 text-emeraldArch pt-4">
+            <Cloud size={16} />
+            <span className="text-xs font-black uppercase tracking-widest">Sync</span>
+          </div>
+          <section className="space-y-2">
+            <span className={labelClass}>Server</span>
+            <input value={syncDraft.serverUrl} onChange={(e) => setSyncDraft({ ...syncDraft, serverUrl: e.target.value })} placeholder="https://sync.example.com (blank to turn off)" className={`${inputClass} font-mono`} />
+          </section>
+          <section className="space-y-2">
+            <span className={labelClass}>Access Token</span>
+            <input type="password" value={syncDraft.token} onChange={(e) => setSyncDraft({ ...syncDraft, token: e.target.value })} placeholder="Only if the server asks for one" className={inputClass} />
+          </section>
+          <div className="flex items-center justify-between">
+            <div className="min-w-0">
+              <div className={`text-[10px] font-black uppercase tracking-widest ${sync.status === 'error' ? 'text-red-500' : 'text-textMuted'}`}>{SYNC_STATUS_LABELS[sync.status]}</div>
+              {(sync.detail || sync.lastSyncedAt) && (
+                <div className="text-[10px] font-bold text-textMuted/60 truncate">{sync.detail || `Last synced ${sync.lastSyncedAt!.toLocaleTimeString()}`}</div>
+              )}
+            </div>
+            {syncChanged ? (
+              <button onClick={() => onSaveSync({ serverUrl: syncDraft.serverUrl.trim(), token: syncDraft.token })} className="nm-emerald px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest flex-shrink-0">Connect</button>
+            ) : sync.config.serverUrl && (
+              <button onClick={onSyncNow} title="Sync now" className="nm-btn p-2 rounded-xl text-emeraldArch flex-shrink-0"><RefreshCw size={14} className={sync.status === 'syncing' ? 'animate-spin' : ''} /></button>
+            )}
+          </div>
+          {syncChanged && sync.config.serverUrl && (
+            <p className="text-[10px] font-bold text-textMuted leading-relaxed">Changes not yet synced to the current server stay on this device and are sent to the new one.</p>
+          )}
+        </div>
+
+        <div className="flex-1 flex min-w-0 space-x-8">
+          <div className="w-64 flex-shrink-0 space-y-3 overflow-y-auto scrollbar-hide p-1">
+            {projects.map(project => (
+              <button
+                key={project.id}
+                onClick={() => setSelectedProjectId(project.id)}
+                className={`w-full nm-btn px-4 py-3 rounded-2xl flex items-center space-x-3 text-left ${selectedProjectId === project.id ? 'nm-btn-active text-emeraldArch' : ''}`}
+              >
+                <Folder size={14} className="flex-shrink-0" />
+                <span className="text-xs font-bold truncate">{project.name}</span>
+              </button>
+            ))}
+          </div>
+
+          {selected ? (
+            <div className="flex-1 nm-raised rounded-[28px] p-8 space-y-6 overflow-y-auto scrollbar-hide">
+              <div className="text-xl font-black uppercase tracking-tight truncate">{selected.name}</div>
+              <div className="grid grid-cols-2 gap-6">
+                {PROJECT_FIELDS.map(field => (
+                  <section key={field.key} className="space-y-2">
+                    <span className={labelClass}>{field.label}</span>
+                    <input value={details[field.key]} onChange={(e) => updateDetails({ [field.key]: e.target.value })} placeholder={field.placeholder} className={inputClass} />
+                  </section>
+                ))}
+              </div>
+
+              <section className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className={labelClass}>Distribution</span>
+                  <button onClick={() => updateDetails({ distribution: [...details.distribution, ''] })} className="nm-btn p-1.5 rounded-lg text-emeraldArch"><Plus size={12} /></button>
+                </div>
+                {details.distribution.length === 0 && (
+                  <p className="text-[10px] font-black uppercase tracking-widest text-textMuted/40">Nobody on the distribution list</p>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  {details.distribution.map((name, index) => (
+                    <div key={index} className="nm-inset rounded-xl px-4 py-2 flex items-center space-x-3 group/recipient">
+                      <input
+                        autoFocus={name === '' && index === details.distribution.length - 1}
+                        value={name}
+                        onChange={(e) => updateDetails({ distribution: details.distribution.map((n, i) => i === index ? e.target.value : n) })}
+                        placeholder="Name or organisation"
+                        className="flex-1 text-xs font-bold bg-transparent focus:outline-none"
+                      />
+                      <button onClick={() => updateDetails({ distribution: details.distribution.filter((_, i) => i !== index) })} className="p-1 text-textMuted hover:text-red-500 opacity-0 group-hover/recipient:opacity-100 transition-opacity"><X size={10} /></button>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            </div>
+          ) : (
+            <div className="flex-1 flex flex-col items-center justify-center">
+              <Folder size={32} className="text-textMuted/20 mb-4" />
+              <p className="text-[10px] font-black uppercase tracking-widest text-textMuted/40">No projects yet</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <input type="file" ref={logoInputRef} className="hidden" accept="image/*" onChange={(e) => { const file = e.target.files?.[0]; if (file) { handleLogo(file); e.target.value = ''; } }} />
+    </div>
+  );
+};
+
+export default SettingsView;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { SyncConflictGroup } from '../services/sync';
+import { AlertTriangle, Cloud, Laptop, X } from 'lucide-react';
+
+interface SyncConflictDialogProps {
+  groups: SyncConflictGroup[];
+  onResolve: (key: string, sides: ('local' | 'remote')[]) => void;
+  onClose: () => void;
+}
+
+const preview = (value: unknown): string => {
+  if (value === null || value === undefined) return 'Removed';
+  if (typeof value === 'string') return value.startsWith('sync-blob:') ? 'An image' : value || '(empty)';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return `${value.length} ${value.length === 1 ? 'entry' : 'entries'}`;
+  const fields = value as Record<string, unknown>;
+  const text = ['name', 'discussion', 'description'].map(field => fields[field]).find(v => typeof v === 'string' && v);
+  return (text as string) || 'Edited';
+};
+
+/** Lists documents the sync held back and lets the user pick a side for each conflicting field. */
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ groups, onResolve, onClose }) => {
+  const [choices, setChoices] = useState<Record<string, ('local' | 'remote')[]>>({});
+
+  const sideFor = (key: string, index: number) => choices[key]?.[index] || 'local';
+
+  const choose = (group: SyncConflictGroup, index: number, side: 'local' | 'remote') => {
+    setChoices(prev => {
+      const sides = group.conflicts.map((_, i) => prev[group.key]?.[i] || 'local');
+      sides[index] = side;
+      return { ...prev, [group.key]: sides };
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="nm-raised w-full max-w-2xl max-h-[85vh] rounded-[40px] p-8 flex flex-col space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-black uppercase tracking-tight">Sync Conflicts</h3>
+          <button onClick={onClose} className="nm-btn p-2 rounded-xl text-textMuted"><X size={18} /></button>
+        </div>
+        <div className="flex items-start space-x-3">
+          <AlertTriangle size={16} className="text-yellow-500 flex-shrink-0 mt-0.5" />
+          <p className="text-xs font-bold text-textMuted leading-relaxed">
+            These were changed here and on another device in different ways. Until you choose, this device keeps its own version and the document is not synced.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto scrollbar-hide space-y-6 p-1">
+          {groups.map(group => (
+            <div key={group.key} className="nm-inset rounded-3xl p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="min-w-0">
+                  <div className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">{group.kind}</div>
+                  <div className="text-sm font-black uppercase tracking-tight truncate">{group.title}</div>
+                </div>
+                <button onClick={() => onResolve(group.key, group.conflicts.map((_, i) => sideFor(group.key, i)))} className="nm-emerald px-5 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest flex-shrink-0">Apply</button>
+              </div>
+              {group.conflicts.map((conflict, index) => (
+                <div key={index} className="space-y-2">
+                  <div className="text-[10px] font-black uppercase tracking-widest text-emeraldArch">{conflict.label}</div>
+                  <div className="grid grid-cols-2 gap-3">
+                    {(['local', 'remote'] as const).map(side => (
+                      <button
+                        key={side}
+                        onClick={() => choose(group, index, side)}
+                        className={`nm-btn p-3 rounded-2xl text-left space-y-1 ${sideFor(group.key, index) === side ? 'nm-btn-active text-emeraldArch' : 'text-textMuted'}`}
+                      >
+                        <div className="flex items-center space-x-2 text-[9px] font-black uppercase tracking-widest">
+                          {side === 'local' ? <Laptop size={10} /> : <Cloud size={10} />}
+                          <span>{side === 'local' ? 'This device' : 'Other device'}</span>
+                        </div>
+                        <div className="text-xs font-bold text-textMain line-clamp-3 break-words">{preview(conflict[side])}</div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictDialog;
@@ -0,0 +1,206 @@
+import React, { useRef, useState } from 'react';
+import { MeetingTemplate, TemplateRow } from '../types';
+import { createTemplate, downloadTemplates, parseTemplatesFile, withUniqueTemplateIds } from '../services/templates';
+import { ArrowLeft, Building2, Copy, Download, FileUp, Image as ImageIcon, LayoutTemplate, Plus, Trash2, Upload, X } from 'lucide-react';
+
+interface TemplatesViewProps {
+  templates: MeetingTemplate[];
+  onSave: (template: MeetingTemplate) => void;
+  onDelete: (id: string) => void;
+  onImport: (templates: MeetingTemplate[]) => void;
+  onClose: () => void;
+}
+
+const fileName = (name: string) => name.replace(/[^\w-]+/g, '_');
+
+const TemplatesView: React.FC<TemplatesViewProps> = ({ templates, onSave, onDelete, onImport, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id || null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = templates.find(t => t.id === selectedId);
+
+  const update = (changes: Partial<MeetingTemplate>) => {
+    if (selected) onSave({ ...selected, ...changes });
+  };
+
+  const updateRow = (index: number, changes: Partial<TemplateRow>) => {
+    if (!selected) return;
+    update({ rows: selected.rows.map((row, i) => i === index ? { ...row, ...changes } : row) });
+  };
+
+  const addTemplate = (template: MeetingTemplate) => {
+    onSave(template);
+    setSelectedId(template.id);
+  };
+
+  const deleteSelected = () => {
+    if (!selected || !confirm(`Delete the "${selected.name}" template?`)) return;
+    onDelete(selected.id);
+    setSelectedId(templates.find(t => t.id !== selected.id)?.id || null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const parsed = parseTemplatesFile(await file.text());
+      const clashing = parsed.filter(template => templates.some(t => t.id === template.id));
+      // Replacing keeps the file's ids; otherwise the clashing templates are added as copies.
+      const replace = clashing.length > 0 && confirm(
+        `${clashing.map(t => `"${t.name}"`).join(', ')} already ${clashing.length === 1 ? 'exists' : 'exist'} here. Replace with the imported version? Cancel adds the imported templates as copies.`
+      );
+      const imported = withUniqueTemplateIds(parsed, replace ? [] : templates);
+      onImport(imported);
+      setSelectedId(imported[0].id);
+    } catch (error) {
+      console.error('Template import failed:', error);
+      alert(error instanceof Error ? `Could not import templates: ${error.message}` : 'Could not import templates.');
+    }
+  };
+
+  const handleImage = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => update({ whiteboardImage: e.target?.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-appBg overflow-hidden">
+      <div className="px-8 py-6 flex-shrink-0 flex items-center justify-between">
+        <div className="flex items-center space-x-6">
+          <button onClick={onClose} className="nm-btn p-3 rounded-2xl text-textMuted hover:text-emeraldArch transition-all shadow-sm">
+            <ArrowLeft size={18} />
+          </button>
+          <div>
+            <h2 className="text-2xl font-black text-textMain uppercase tracking-tighter">Meeting Templates</h2>
+            <p className="text-[10px] font-black uppercase tracking-[0.2em] text-emeraldArch mt-1">{templates.length} templates</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button onClick={() => importInputRef.current?.click()} className="nm-btn px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-textMuted hover:text-emeraldArch flex items-center space-x-2">
+            <Upload size={14} /><span>Import</span>
+          </button>
+          <button disabled={templates.length === 0} onClick={() => downloadTemplates(templates, 'ArchiNotes_Templates.json')} className="nm-btn px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-textMuted hover:text-emeraldArch flex items-center space-x-2 disabled:opacity-30">
+            <Download size={14} /><span>Export All</span>
+          </button>
+          <button onClick={() => addTemplate(createTemplate())} className="nm-emerald px-6 py-3 rounded-xl font-black text-xs uppercase tracking-widest">New Template</button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0 px-8 pb-8 space-x-8">
+        <div className="w-72 flex-shrink-0 space-y-3 overflow-y-auto scrollbar-hide p-1">
+          {templates.map(template => (
+            <button
+              key={template.id}
+              onClick={() => setSelectedId(template.id)}
+              className={`w-full nm-btn px-4 py-3 rounded-2xl flex items-center space-x-3 text-left ${selectedId === template.id ? 'nm-btn-active text-emeraldArch' : ''}`}
+            >
+              <LayoutTemplate size={14} className="flex-shrink-0" />
+              <span className="text-xs font-bold truncate">{template.name}</span>
+            </button>
+          ))}
+        </div>
+
+        {selected ? (
+          <div className="flex-1 nm-raised rounded-[28px] p-8 space-y-8 overflow-y-auto scrollbar-hide">
+            <div className="flex items-start justify-between space-x-4">
+              <div className="flex-1 space-y-2">
+                <input
+                  value={selected.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  className="text-xl font-black bg-transparent focus:outline-none w-full uppercase tracking-tight"
+                  placeholder="Template name"
+                />
+                <input
+                  value={selected.description}
+                  onChange={(e) => update({ description: e.target.value })}
+                  className="text-xs font-bold text-textMuted bg-transparent focus:outline-none w-full"
+                  placeholder="What is this meeting type for?"
+                />
+              </div>
+              <button onClick={() => addTemplate({ ...selected, id: crypto.randomUUID(), name: `${selected.name} COPY` })} title="Duplicate" className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><Copy size={14} /></button>
+              <button onClick={() => downloadTemplates([selected], `Template_${fileName(selected.name)}.json`)} title="Export" className="nm-btn p-2 rounded-xl text-textMuted hover:text-emeraldArch"><Download size={14} /></button>
+              <button onClick={deleteSelected} title="Delete" className="nm-btn p-2 rounded-xl text-textMuted hover:text-red-500"><Trash2 size={14} /></button>
+            </div>
+
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">Agenda Rows</span>
+                <button onClick={() => update({ rows: [...selected.rows, { discussion: '', followUp: '' }] })} className="nm-btn p-1.5 rounded-lg text-emeraldArch"><Plus size={12} /></button>
+              </div>
+              {selected.rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-12 gap-4 items-start group/row">
+                  <div className="col-span-1 nm-raised w-8 h-8 rounded-lg flex items-center justify-center text-[10px] font-black text-emeraldArch">{index + 1}</div>
+                  <textarea
+                    value={row.discussion}
+                    onChange={(e) => updateRow(index, { discussion: e.target.value })}
+                    placeholder="Agenda item..."
+                    rows={2}
+                    className="col-span-6 nm-inset rounded-2xl p-3 bg-transparent resize-none focus:outline-none text-xs font-medium"
+                  />
+                  <textarea
+                    value={row.followUp}
+                    onChange={(e) => updateRow(index, { followUp: e.target.value })}
+                    placeholder="Default follow-up..."
+                    rows={2}
+                    className="col-span-4 nm-inset rounded-2xl p-3 bg-transparent resize-none focus:outline-none text-xs italic text-emeraldArch"
+                  />
+                  <button onClick={() => update({ rows: selected.rows.filter((_, i) => i !== index) })} className="col-span-1 p-2 text-textMuted hover:text-red-500 opacity-0 group-hover/row:opacity-100 transition-opacity"><X size={12} /></button>
+                </div>
+              ))}
+            </section>
+
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">Default Organisations</span>
+                <button onClick={() => update({ organisations: [...selected.organisations, `ORGANISATION ${selected.organisations.length + 1}`] })} className="nm-btn p-1.5 rounded-lg text-emeraldArch"><Plus size={12} /></button>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {selected.organisations.map((org, index) => (
+                  <div key={index} className="nm-inset rounded-xl px-4 py-2 flex items-center space-x-3 group/org">
+                    <Building2 size={12} className="text-emeraldArch/50" />
+                    <input
+                      value={org}
+                      onChange={(e) => update({ organisations: selected.organisations.map((o, i) => i === index ? e.target.value : o) })}
+                      className="flex-1 text-[10px] font-black uppercase tracking-[0.2em] text-emeraldArch bg-transparent focus:outline-none"
+                    />
+                    <button onClick={() => update({ organisations: selected.organisations.filter((_, i) => i !== index) })} className="p-1 text-textMuted hover:text-red-500 opacity-0 group-hover/org:opacity-100 transition-opacity"><X size={10} /></button>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black uppercase tracking-[0.2em] text-textMuted">Base Scratchpad Image</span>
+                <div className="flex items-center space-x-2">
+                  <button onClick={() => imageInputRef.current?.click()} className="nm-btn p-1.5 rounded-lg text-emeraldArch"><FileUp size={12} /></button>
+                  {selected.whiteboardImage && (
+                    <button onClick={() => update({ whiteboardImage: undefined })} className="nm-btn p-1.5 rounded-lg text-textMuted hover:text-red-500"><Trash2 size={12} /></button>
+                  )}
+                </div>
+              </div>
+              {selected.whiteboardImage ? (
+                <img src={selected.whiteboardImage} className="max-h-48 rounded-2xl nm-inset p-2" />
+              ) : (
+                <div className="py-8 flex flex-col items-center justify-center border-2 border-dashed border-textMuted/10 rounded-3xl">
+                  <ImageIcon size={24} className="text-textMuted/20 mb-2" />
+                  <p className="text-[10px] font-black uppercase tracking-widest text-textMuted/40">No base image</p>
+                </div>
+              )}
+            </section>
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col items-center justify-center">
+            <LayoutTemplate size={32} className="text-textMuted/20 mb-4" />
+            <p className="text-[10px] font-black uppercase tracking-widest text-textMuted/40">Select or create a template</p>
+          </div>
+        )}
+      </div>
+
+      <input type="file" ref={importInputRef} className="hidden" accept="application/json,.json" onChange={(e) => { const file = e.target.files?.[0]; if (file) { handleImport(file); e.target.value = ''; } }} />
+      <input type="file" ref={imageInputRef} className="hidden" accept="image/*" onChange={(e) => { const file = e.target.files?.[0]; if (file) { handleImage(file); e.target.value = ''; } }} />
+    </div>
+  );
+};
+
+export default TemplatesView;
@@ -1,6 +1,7 @@
 
 import React from 'react';
-import { Layout, Users, FileText, Image as ImageIcon, Plus, Trash2, Edit3, Save, ChevronLeft, ChevronRight, Undo, Redo, Eraser, Highlighter, PenTool } from 'lucide-react';
+import { Layout, Users, FileText, Image as ImageIcon, Plus, Trash2, Edit3, Save, ChevronLeft, ChevronRight, Undo, Redo, Eraser, Highlighter, PenTool, Circle, Cloud, LucideIcon, MousePointer2, MoveUpRight, Slash, Square, Type, Ruler, RulerDimensionLine, SquareDashed } from 'lucide-react';
+import { ActionStatus, ImageSettings, MeetingTemplate, PracticeSettings, ProjectDetails, ToolType } from './types';
 
 export const COLORS = {
   BLUE: '#3b82f6',
@@ -9,6 +10,78 @@ export const COLORS = {
   YELLOW: '#facc15', // Highlighter
 };
 
+// Tools shared by the image markup editor and the scratchpad, in toolbar order.
+export const SHAPE_TOOL_OPTIONS: { tool: ToolType; label: string; icon: LucideIcon }[] = [
+  { tool: ToolType.SELECT, label: 'Select', icon: MousePointer2 },
+  { tool: ToolType.LINE, label: 'Line', icon: Slash },
+  { tool: ToolType.ARROW, label: 'Arrow', icon: MoveUpRight },
+  { tool: ToolType.RECT, label: 'Rectangle', icon: Square },
+  { tool: ToolType.ELLIPSE, label: 'Ellipse', icon: Circle },
+  { tool: ToolType.CLOUD, label: 'Revision Cloud', icon: Cloud },
+  { tool: ToolType.TEXT, label: 'Text Callout', icon: Type },
+];
+
+// Measurement tools for image markup. Dimension and area need a calibrated scale.
+export const MEASURE_TOOL_OPTIONS: { tool: ToolType; label: string; icon: LucideIcon }[] = [
+  { tool: ToolType.CALIBRATE, label: 'Set Scale', icon: Ruler },
+  { tool: ToolType.DIMENSION, label: 'Dimension', icon: RulerDimensionLine },
+  { tool: ToolType.AREA, label: 'Area', icon: SquareDashed },
+];
+
+export const ACTION_STATUS_LABELS: Record<ActionStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  done: 'Done',
+};
+
+export const EMPTY_PRACTICE_SETTINGS: PracticeSettings = { name: '', address: '', contact: '' };
+
+// 2400px keeps a photographed A1 sheet legible without storing the camera's full resolution.
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = { maxSize: 2400, format: 'webp', quality: 0.85 };
+
+export const EMPTY_PROJECT_DETAILS: ProjectDetails = { projectNumber: '', jobName: '', documentReference: '', revision: '', distribution: [] };
+
+export const DEFAULT_TEMPLATES: MeetingTemplate[] = [
+  {
+    id: 'tpl-design-review',
+    name: 'Design Review',
+    description: 'Stage review of drawings against the brief.',
+    rows: [
+      { discussion: 'Review of previous actions', followUp: '' },
+      { discussion: 'Design development since last review', followUp: '' },
+      { discussion: 'Consultant coordination (structure / services)', followUp: '' },
+      { discussion: 'Planning and regulatory matters', followUp: '' },
+      { discussion: 'Programme and next submission', followUp: '' }
+    ],
+    organisations: ['Architect', 'Client', 'Structural Engineer', 'M&E Engineer']
+  },
+  {
+    id: 'tpl-site-visit',
+    name: 'Site Visit',
+    description: 'Inspection record with observations and instructions.',
+    rows: [
+      { discussion: 'Weather and site conditions', followUp: '' },
+      { discussion: 'Progress against programme', followUp: '' },
+      { discussion: 'Quality observations', followUp: '' },
+      { discussion: 'Health and safety observations', followUp: '' },
+      { discussion: 'Instructions issued', followUp: '' }
+    ],
+    organisations: ['Architect', 'Contractor']
+  },
+  {
+    id: 'tpl-client-workshop',
+    name: 'Client Workshop',
+    description: 'Briefing session to capture requirements and decisions.',
+    rows: [
+      { discussion: 'Objectives for the session', followUp: '' },
+      { discussion: 'Brief requirements and priorities', followUp: '' },
+      { discussion: 'Options presented', followUp: '' },
+      { discussion: 'Decisions and preferences', followUp: '' }
+    ],
+    organisations: ['Architect', 'Client']
+  }
+];
+
 export const INITIAL_DATA = [
   {
     id: 'proj-1',
@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from 'react';
+import { Meeting } from '../types';
+import { CollabCursor, CollabSession, CollabStatus, Presence, connectToRoom } from '../services/collab';
+import { Clock, CrdtDoc, CrdtOp, applyOps, createClock, diffMeeting, materializeMeeting } from '../utils/meetingCrdt';
+
+const PRESENCE_COLORS = ['#ef4444', '#3b82f6', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#6366f1'];
+const PRESENCE_INTERVAL_MS = 50;
+
+const colorFor = (clientId: string) =>
+  PRESENCE_COLORS[[...clientId].reduce((sum, char) => sum + char.charCodeAt(0), 0) % PRESENCE_COLORS.length];
+
+/**
+ * Shares the open meeting with everyone in its room on the relay. Local edits
+ * arrive as new `meeting` props and are diffed into writes; remote writes are
+ * merged into the doc and the merged meeting goes out through `onUpdate`, so
+ * the rest of the app, storage included, sees an ordinary edit.
+ */
+export const useCollaboration = (meeting: Meeting, onUpdate: (meeting: Meeting) => void) => {
+  const [status, setStatus] = useState<CollabStatus | null>(null); // null when not collaborating
+  const [peers, setPeers] = useState<Presence[]>([]);
+  const [room, setRoom] = useState<string | null>(null);
+
+  const session = useRef<CollabSession | null>(null);
+  const doc = useRef<CrdtDoc>(new Map());
+  const clock = useRef<Clock | null>(null);
+  const self = useRef<Presence | null>(null);
+  const synced = useRef<Meeting | null>(null); // the meeting as of the last write sent or merged
+  const latest = useRef(meeting);
+  const onUpdateRef = useRef(onUpdate);
+  const presenceTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  latest.current = meeting;
+  onUpdateRef.current = onUpdate;
+
+  // Sends local edits not yet turned into writes. Runs before remote writes are merged so they cannot be overwritten.
+  const flushLocal = () => {
+    if (!session.current || !clock.current || !synced.current || latest.current === synced.current) return;
+    const ops = diffMeeting(doc.current, clock.current.tick, synced.current, latest.current);
+    applyOps(doc.current, ops);
+    synced.current = latest.current;
+    session.current.sendOps(ops);
+  };
+
+  const mergeRemote = (ops: CrdtOp[]) => {
+    ops.forEach(op => clock.current?.observe(op.stamp));
+    if (applyOps(doc.current, ops).length === 0) return;
+    const merged = materializeMeeting(doc.current, latest.current);
+    synced.current = merged;
+    onUpdateRef.current(merged);
+  };
+
+  const leave = () => {
+    clearTimeout(presenceTimer.current);
+    presenceTimer.current = undefined;
+    session.current?.close();
+    session.current = null;
+    synced.current = null;
+    setStatus(null);
+    setPeers([]);
+    setRoom(null);
+  };
+
+  /**
+   * Joins `roomCode`, by default this meeting's id. A room that already has
+   * state replaces this meeting's contents; when it belongs to another
+   * meeting, the user is asked first.
+   */
+  const join = (serverUrl: string, name: string, roomCode: string = latest.current.id) => {
+    leave();
+    const clientId = crypto.randomUUID();
+    const ownClock = createClock(clientId);
+    clock.current = ownClock;
+    doc.current = new Map();
+    self.current = { clientId, name, color: colorFor(clientId), cursor: null, rowId: null };
+
+    const current: CollabSession = connectToRoom(serverUrl, roomCode, self.current, {
+      onStatus: setStatus,
+      onWelcome: (ops, roomPeers) => {
+        setPeers(roomPeers);
+        if (!synced.current) {
+          if (ops.length > 0) {
+            // This meeting's own room holds it as edited elsewhere; any other room holds a different meeting.
+            if (roomCode !== latest.current.id && !confirm(`Room "${roomCode}" already has a meeting in it. Replace this meeting's rows, attendees and boards with it?`)) {
+              leave();
+              return;
+            }
+            mergeRemote(ops);
+          } else {
+            const seed = diffMeeting(doc.current, ownClock.tick, null, latest.current);
+            applyOps(doc.current, seed);
+            synced.current = latest.current;
+            current.sendOps(seed);
+          }
+          return;
+        }
+        // Back after a drop: catch up, then resend our own writes in case some were sent into a closing socket.
+        flushLocal();
+        mergeRemote(ops);
+        current.sendOps([...doc.current.values()].filter(op => op.stamp.client === clientId));
+      },
+      onOps: (ops) => {
+        flushLocal();
+        mergeRemote(ops);
+      },
+      onPresence: (presence) => setPeers(prev => [...prev.filter(p => p.clientId !== presence.clientId), presence]),
+      onLeave: (id) => setPeers(prev => prev.filter(p => p.clientId !== id))
+    });
+    session.current = current;
+    setRoom(roomCode);
+  };
+
+  /** Shares where this participant is pointing or typing. Cursor moves are sent at most every 50ms. */
+  const updatePresence = (changes: { cursor?: CollabCursor | null; rowId?: string | null }) => {
+    if (!self.current || !session.current) return;
+    self.current = { ...self.current, ...changes };
+    if (presenceTimer.current !== undefined) return;
+    presenceTimer.current = setTimeout(() => {
+      presenceTimer.current = undefined;
+      if (self.current) session.current?.sendPresence(self.current);
+    }, PRESENCE_INTERVAL_MS);
+  };
+
+  useEffect(() => {
+    flushLocal();
+  }, [meeting]);
+
+  // A room is one meeting; opening another meeting leaves it.
+  useEffect(() => leave, [meeting.id]);
+
+  return { status, room, peers, self: self.current, join, leave, updatePresence };
+};
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { MarkupPath, MarkupPoint } from '../types';
+import {
+  boundsCenter,
+  drawLasso,
+  drawSelectionFrame,
+  drawSelectionOutline,
+  findMarkupAt,
+  findMarkupInLasso,
+  isInsideBounds,
+  rotateMarkup,
+  scaleMarkup,
+  selectionBounds,
+  selectionHandles,
+  translateMarkup
+} from '../utils/markup';
+
+type Gesture =
+  | { kind: 'move'; start: MarkupPoint }
+  | { kind: 'scale'; start: MarkupPoint; pivot: MarkupPoint }
+  | { kind: 'rotate'; start: MarkupPoint; pivot: MarkupPoint }
+  | { kind: 'lasso'; points: MarkupPoint[]; additive: boolean };
+
+interface MarkupSelectionOptions {
+  enabled: boolean;
+  tolerance: number; // hit radius for shapes, in markup units
+  handleSize: number; // on-canvas size of the transform handles, in markup units
+  isSelectable?: (path: MarkupPath) => boolean; // e.g. leaves out hidden and locked layers
+}
+
+const DUPLICATE_OFFSET = 16;
+
+const distance = (a: MarkupPoint, b: MarkupPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Select tool state shared by the image markup editor and the scratchpad:
+ * click or lasso to select, then drag to move, pull a corner to scale or the
+ * top handle to rotate. Transforms are previewed through `previewPaths` and
+ * only reach `onChange` when the pointer is released, so each gesture is a
+ * single edit for undo and storage.
+ */
+export const useMarkupSelection = (paths: MarkupPath[], onChange: (paths: MarkupPath[]) => void, options: MarkupSelectionOptions) => {
+  const { enabled, tolerance, handleSize, isSelectable } = options;
+  const [selected, setSelected] = useState<number[]>([]);
+  const [gesture, setGesture] = useState<Gesture | null>(null);
+  const [pointer, setPointer] = useState<MarkupPoint | null>(null);
+
+  const selection = selected.filter(i => i < paths.length && (!isSelectable || isSelectable(paths[i])));
+  const bounds = selectionBounds(selection.map(i => paths[i]));
+
+  const pendingTransform = (): ((path: MarkupPath) => MarkupPath) | null => {
+    if (!gesture || !pointer || gesture.kind === 'lasso') return null;
+    switch (gesture.kind) {
+      case 'move':
+        return path => translateMarkup(path, pointer.x - gesture.start.x, pointer.y - gesture.start.y);
+      case 'scale': {
+        const factor = Math.max(0.05, distance(pointer, gesture.pivot) / (distance(gesture.start, gesture.pivot) || 1));
+        return path => scaleMarkup(path, gesture.pivot, factor);
+      }
+      case 'rotate': {
+        const angle = Math.atan2(pointer.y - gesture.pivot.y, pointer.x - gesture.pivot.x)
+          - Math.atan2(gesture.start.y - gesture.pivot.y, gesture.start.x - gesture.pivot.x);
+        return path => rotateMarkup(path, gesture.pivot, angle);
+      }
+    }
+  };
+
+  const transform = pendingTransform();
+  const previewPaths = transform ? paths.map((path, i) => (selection.includes(i) ? transform(path) : path)) : paths;
+
+  const clearSelection = () => {
+    setSelected([]);
+    setGesture(null);
+  };
+
+  useEffect(() => {
+    if (!enabled) clearSelection();
+  }, [enabled]);
+
+  const pointerDown = (p: MarkupPoint, additive: boolean) => {
+    setPointer(p);
+    if (bounds && !additive) {
+      const handles = selectionHandles(bounds, handleSize);
+      if (distance(p, handles.rotate) <= handleSize) {
+        setGesture({ kind: 'rotate', start: p, pivot: boundsCenter(bounds) });
+        return;
+      }
+      const corner = handles.corners.findIndex(c => distance(p, c) <= handleSize);
+      if (corner !== -1) {
+        setGesture({ kind: 'scale', start: p, pivot: handles.corners[(corner + 2) % 4] });
+        return;
+      }
+    }
+
+    const index = findMarkupAt(paths, p, tolerance, isSelectable);
+    if (index !== -1) {
+      if (additive) {
+        setSelected(selection.includes(index) ? selection.filter(i => i !== index) : [...selection, index]);
+        return;
+      }
+      if (!selection.includes(index)) setSelected([index]);
+      setGesture({ kind: 'move', start: p });
+      return;
+    }
+    if (bounds && !additive && isInsideBounds(bounds, p)) {
+      setGesture({ kind: 'move', start: p });
+      return;
+    }
+    if (!additive) setSelected([]);
+    setGesture({ kind: 'lasso', points: [p], additive });
+  };
+
+  const pointerMove = (p: MarkupPoint) => {
+    if (!gesture) return;
+    setPointer(p);
+    if (gesture.kind === 'lasso') setGesture({ ...gesture, points: [...gesture.points, p] });
+  };
+
+  const pointerUp = () => {
+    if (!gesture) return;
+    if (gesture.kind === 'lasso') {
+      if (gesture.points.length >= 3) {
+        const found = findMarkupInLasso(paths, gesture.points, isSelectable);
+        setSelected(gesture.additive ? Array.from(new Set([...selection, ...found])) : found);
+      }
+    } else if (transform && pointer && distance(pointer, gesture.start) > 1) {
+      onChange(previewPaths);
+    }
+    setGesture(null);
+  };
+
+  /** Drops a transform or lasso in progress without applying it, e.g. when a pinch takes over. */
+  const cancelGesture = () => setGesture(null);
+
+  const updateSelected = (change: (path: MarkupPath) => MarkupPath) => {
+    if (selection.length === 0) return;
+    onChange(paths.map((path, i) => (selection.includes(i) ? change(path) : path)));
+  };
+
+  const deleteSelected = () => {
+    if (selection.length === 0) return;
+    onChange(paths.filter((_, i) => !selection.includes(i)));
+    setSelected([]);
+  };
+
+  const duplicateSelected = () => {
+    if (selection.length === 0) return;
+    const copies = selection.map(i => translateMarkup(paths[i], DUPLICATE_OFFSET, DUPLICATE_OFFSET));
+    onChange([...paths, ...copies]);
+    setSelected(copies.map((_, i) => paths.length + i));
+  };
+
+  const recolorSelected = (color: string) => updateSelected(path => ({ ...path, color }));
+
+  const setSelectedWidth = (width: number) => updateSelected(path => ({ ...path, width }));
+
+  const selectedWidth = selection.length > 0 ? paths[selection[0]].width : null;
+
+  useEffect(() => {
+    if (!enabled || selection.length === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSelected();
+      } else if (e.key === 'Escape') {
+        clearSelection();
+      } else if (e.key === 'd' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        duplicateSelected();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, paths, selected]);
+
+  /** Draws outlines, the transform frame and any lasso in progress over the rendered markup. */
+  const drawOverlay = (ctx: CanvasRenderingContext2D) => {
+    if (!enabled) return;
+    const shown = selection.map(i => previewPaths[i]);
+    shown.forEach(path => drawSelectionOutline(ctx, path));
+    const frame = selectionBounds(shown);
+    if (frame) drawSelectionFrame(ctx, frame, handleSize);
+    if (gesture?.kind === 'lasso') drawLasso(ctx, gesture.points, handleSize);
+  };
+
+  return {
+    selected: selection,
+    previewPaths,
+    isTransforming: gesture !== null,
+    pointerDown,
+    pointerMove,
+    pointerUp,
+    cancelGesture,
+    drawOverlay,
+    clearSelection,
+    deleteSelected,
+    duplicateSelected,
+    recolorSelected,
+    setSelectedWidth,
+    selectedWidth
+  };
+};
@@ -0,0 +1,131 @@
+import React, { useRef } from 'react';
+
+/** Pan and zoom applied to a canvas as `translate(x, y) scale(zoom)` about its centre. */
+export interface CanvasView {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+/** One step of a two-finger gesture or middle-button drag, relative to the previous step. */
+export interface PinchChange {
+  factor: number;
+  dx: number;
+  dy: number;
+  originX: number; // midpoint between the fingers (or the mouse) before this step, in client pixels
+  originY: number;
+}
+
+interface PointerDrawingOptions {
+  penOnly: boolean; // touches only pan and zoom; drawing needs a stylus or mouse
+  onStart: (e: React.PointerEvent) => void;
+  onMove: (e: React.PointerEvent) => void;
+  onEnd: () => void;
+  onCancel: () => void; // a second finger or a stylus took over: drop the stroke in progress
+  onPinch: (change: PinchChange) => void; // also reports middle-button drags, with a factor of 1
+}
+
+export const DEFAULT_VIEW: CanvasView = { zoom: 1, x: 0, y: 0 };
+
+/** Stylus pressure for the event, or undefined for mouse and touch input that has none to give. */
+export const pointerPressure = (e: React.PointerEvent) =>
+  e.pointerType === 'pen' && e.pressure > 0 ? Math.round(e.pressure * 100) / 100 : undefined;
+
+/**
+ * Applies a pinch step to a view, keeping the content under the fingers in
+ * place. `rect` is the canvas's on-screen box, which already includes the view.
+ */
+export const applyPinch = (view: CanvasView, change: PinchChange, rect: DOMRect, minZoom: number, maxZoom: number): CanvasView => {
+  const zoom = Math.min(Math.max(view.zoom * change.factor, minZoom), maxZoom);
+  const k = zoom / view.zoom;
+  const ax = change.originX - (rect.left + rect.width / 2);
+  const ay = change.originY - (rect.top + rect.height / 2);
+  return { zoom, x: view.x + ax * (1 - k) + change.dx, y: view.y + ay * (1 - k) + change.dy };
+};
+
+/**
+ * Routes Pointer Events for the markup canvases. One pointer draws at a time;
+ * a stylus always wins over touch, so a palm resting on the screen cannot
+ * leave ink. A second finger turns the gesture into pan and zoom and
+ * abandons whatever the first finger had started. Dragging with the middle
+ * mouse button pans.
+ */
+export const usePointerDrawing = (options: PointerDrawingOptions) => {
+  const touches = useRef(new Map<number, { x: number; y: number }>());
+  const drawing = useRef<{ id: number; type: string } | null>(null);
+  const pinch = useRef<{ distance: number; x: number; y: number } | null>(null);
+  const middleDrag = useRef<{ id: number; x: number; y: number } | null>(null);
+
+  const pinchState = () => {
+    const [a, b] = Array.from(touches.current.values());
+    return { distance: Math.hypot(b.x - a.x, b.y - a.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  };
+
+  const abandonStroke = () => {
+    drawing.current = null;
+    options.onCancel();
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button === 1) {
+      e.preventDefault(); // no autoscroll
+      e.currentTarget.setPointerCapture(e.pointerId);
+      middleDrag.current = { id: e.pointerId, x: e.clientX, y: e.clientY };
+      return;
+    }
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    if (e.pointerType === 'touch') {
+      if (drawing.current?.type === 'pen') return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      touches.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touches.current.size === 2) {
+        if (drawing.current) abandonStroke();
+        pinch.current = pinchState();
+      }
+      if (touches.current.size > 1 || options.penOnly || drawing.current) return;
+    } else if (drawing.current) {
+      if (e.pointerType !== 'pen' || drawing.current.type !== 'touch') return;
+      abandonStroke();
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = { id: e.pointerId, type: e.pointerType };
+    options.onStart(e);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (middleDrag.current?.id === e.pointerId) {
+      const { x, y } = middleDrag.current;
+      options.onPinch({ factor: 1, dx: e.clientX - x, dy: e.clientY - y, originX: x, originY: y });
+      middleDrag.current = { id: e.pointerId, x: e.clientX, y: e.clientY };
+      return;
+    }
+    if (touches.current.has(e.pointerId)) {
+      touches.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pinch.current && touches.current.size >= 2) {
+        const next = pinchState();
+        options.onPinch({
+          factor: pinch.current.distance > 0 ? next.distance / pinch.current.distance : 1,
+          dx: next.x - pinch.current.x,
+          dy: next.y - pinch.current.y,
+          originX: pinch.current.x,
+          originY: pinch.current.y
+        });
+        pinch.current = next;
+        return;
+      }
+    }
+    if (drawing.current?.id === e.pointerId) options.onMove(e);
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    if (middleDrag.current?.id === e.pointerId) middleDrag.current = null;
+    touches.current.delete(e.pointerId);
+    if (touches.current.size < 2) pinch.current = null;
+    if (drawing.current?.id !== e.pointerId) return;
+    drawing.current = null;
+    if (e.type === 'pointercancel') options.onCancel();
+    else options.onEnd();
+  };
+
+  return { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp };
+};
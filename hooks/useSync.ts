@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react';
+import { ProjectGroup, SyncConfig } from '../types';
+import { loadSyncState } from '../services/storage';
+import { SyncConflictGroup, SyncEngine, SyncStatus, SyncedDocument, createSyncEngine } from '../services/sync';
+
+/**
+ * Runs the sync engine for the app's project tree. `enabled` must stay false
+ * until the tree has really been loaded: an empty tree would read as every
+ * synced document having been deleted.
+ */
+export const useSync = (projects: ProjectGroup[], enabled: boolean, onRemote: (documents: SyncedDocument[]) => void) => {
+  const [engine, setEngine] = useState<SyncEngine | null>(null);
+  const [config, setConfig] = useState<SyncConfig>({ serverUrl: '', token: '' });
+  const [status, setStatus] = useState<SyncStatus>('off');
+  const [detail, setDetail] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflictGroup[]>([]);
+  const onRemoteRef = useRef(onRemote);
+  onRemoteRef.current = onRemote;
+
+  useEffect(() => {
+    let cancelled = false;
+    let created: SyncEngine | null = null;
+    loadSyncState()
+      .then(stored => {
+        if (cancelled) return;
+        setConfig(stored.config);
+        created = createSyncEngine(stored, {
+          onStatus: (next, message) => {
+            setStatus(next);
+            setDetail(message || null);
+            if (next === 'idle') setLastSyncedAt(new Date());
+          },
+          onConflicts: setConflicts,
+          onRemote: documents => onRemoteRef.current(documents)
+        });
+        setEngine(created);
+      })
+      .catch(error => console.error('Loading sync state failed:', error));
+    return () => {
+      cancelled = true;
+      created?.stop();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (engine && enabled) engine.track(projects);
+  }, [engine, enabled, projects]);
+
+  const configure = async (next: SyncConfig) => {
+    if (!engine) return;
+    await engine.configure(next);
+    setConfig(next);
+    setLastSyncedAt(null);
+  };
+
+  return {
+    config,
+    status,
+    detail,
+    lastSyncedAt,
+    conflicts,
+    configure,
+    syncNow: () => engine?.syncNow(),
+    resolve: (key: string, sides: ('local' | 'remote')[]) => engine?.resolve(key, sides)
+  };
+};
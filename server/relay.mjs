@@ -0,0 +1,281 @@
+// ArchiNotes collaboration relay.
+//
+// Holds the latest write per key for each meeting ("room") and forwards new
+// writes and presence to everyone else in the room. It never interprets a
+// meeting: clients merge by comparing stamps, and the relay does the same so
+// a late joiner can be sent the room's current state.
+//
+//   node server/relay.mjs                 listens on :8787, state kept in memory
+//   PORT=9000 RELAY_DATA_DIR=./rooms node server/relay.mjs
+//
+// A room is dropped from memory once its last participant leaves. With
+// RELAY_DATA_DIR set, each room is written to <dir>/<hash>.json first and
+// reloaded when someone joins again or after a restart; without it, the next
+// participant seeds the room afresh. Plain HTTP; put it behind a TLS proxy for wss://.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = process.env.RELAY_DATA_DIR;
+const MAX_MESSAGE_BYTES = 64 * 1024 * 1024; // images travel inline as data URLs
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const SAVE_DELAY_MS = 2000;
+
+/** @typedef {{ time: number, counter: number, client: string }} Stamp */
+/** @typedef {{ key: string, value: unknown, stamp: Stamp }} Op */
+/** @typedef {{ ops: Map<string, Op>, sockets: Set<Connection>, presence: Map<string, object>, saveTimer?: NodeJS.Timeout }} Room */
+
+/** @type {Map<string, Room>} */
+const rooms = new Map();
+
+/** @param {Stamp} a @param {Stamp} b */
+const compareStamps = (a, b) =>
+  a.time - b.time || a.counter - b.counter || (a.client < b.client ? -1 : a.client > b.client ? 1 : 0);
+
+// Hashed so every room id, whatever characters it holds, gets a file of its own.
+const roomFile = (id) => join(DATA_DIR, `${createHash('sha256').update(id).digest('hex')}.json`);
+
+const getRoom = (id) => {
+  let room = rooms.get(id);
+  if (room) return room;
+  room = { ops: new Map(), sockets: new Set(), presence: new Map() };
+  if (DATA_DIR && existsSync(roomFile(id))) {
+    try {
+      for (const op of JSON.parse(readFileSync(roomFile(id), 'utf8'))) room.ops.set(op.key, op);
+    } catch (error) {
+      console.error(`Room ${id} could not be read:`, error);
+    }
+  }
+  rooms.set(id, room);
+  return room;
+};
+
+const saveRoom = (id, room) => {
+  clearTimeout(room.saveTimer);
+  room.saveTimer = undefined;
+  try {
+    writeFileSync(roomFile(id), JSON.stringify([...room.ops.values()]));
+  } catch (error) {
+    console.error(`Room ${id} could not be saved:`, error);
+  }
+};
+
+const scheduleSave = (id, room) => {
+  if (!DATA_DIR || room.saveTimer) return;
+  room.saveTimer = setTimeout(() => saveRoom(id, room), SAVE_DELAY_MS);
+};
+
+/** @param {unknown} stamp @returns {stamp is Stamp} */
+const isStamp = (stamp) =>
+  !!stamp && Number.isFinite(stamp.time) && Number.isFinite(stamp.counter) && typeof stamp.client === 'string';
+
+/** Keeps the newer of two writes per key; returns the writes that were new to the room. */
+const mergeOps = (room, ops) =>
+  ops.filter(op => {
+    // A stamp that does not compare (NaN, a missing client) would stick and block every later write to its key.
+    if (!op || typeof op.key !== 'string' || !isStamp(op.stamp)) return false;
+    const current = room.ops.get(op.key);
+    if (current && compareStamps(current.stamp, op.stamp) >= 0) return false;
+    room.ops.set(op.key, op);
+    return true;
+  });
+
+// --- Minimal RFC 6455 framing: text, close and ping frames, with fragmentation. ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+class Connection {
+  constructor(socket, onMessage, onClose) {
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    this.closed = false;
+    this.room = null;
+    this.clientId = null;
+    socket.on('data', chunk => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.readFrames(onMessage);
+    });
+    socket.on('close', () => {
+      this.closed = true;
+      onClose(this);
+    });
+    socket.on('end', () => socket.end());
+    socket.on('error', () => socket.destroy());
+  }
+
+  readFrames(onMessage) {
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_MESSAGE_BYTES) return this.close(1009);
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= this.buffer[maskOffset + (i % 4)];
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+
+      if (opcode === 0x8) return this.close(1000);
+      if (opcode === 0x9) {
+        this.write(encodeFrame(0xa, payload));
+        continue;
+      }
+      if (opcode !== 0x1 && opcode !== 0x0) continue;
+      // Each frame is checked above; a message split into many frames is limited as a whole.
+      this.fragmentBytes += payload.length;
+      if (this.fragmentBytes > MAX_MESSAGE_BYTES) return this.close(1009);
+      this.fragments.push(payload);
+      if (!fin) continue;
+      const message = Buffer.concat(this.fragments).toString('utf8');
+      this.fragments = [];
+      this.fragmentBytes = 0;
+      onMessage(this, message);
+    }
+  }
+
+  write(frame) {
+    if (!this.closed) this.socket.write(frame);
+  }
+
+  send(message) {
+    this.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+
+  close(code) {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.write(encodeFrame(0x8, payload));
+    this.socket.end();
+  }
+}
+
+// --- Protocol ---
+//
+// client → relay   { type: 'join', room, presence }  { type: 'ops', ops }  { type: 'presence', presence }
+// relay → client   { type: 'welcome', ops, peers }    { type: 'ops', ops }  { type: 'presence', presence }  { type: 'leave', clientId }
+
+const broadcast = (room, from, message) => {
+  room.sockets.forEach(connection => {
+    if (connection !== from) connection.send(message);
+  });
+};
+
+const leaveRoom = (connection) => {
+  const id = connection.room;
+  const room = id !== null && rooms.get(id);
+  connection.room = null;
+  if (!room) return;
+  room.sockets.delete(connection);
+  if (room.sockets.size === 0) {
+    if (room.saveTimer) saveRoom(id, room);
+    rooms.delete(id);
+    return;
+  }
+  // A reconnect can arrive before the old socket has closed.
+  if (![...room.sockets].some(c => c.clientId === connection.clientId)) {
+    room.presence.delete(connection.clientId);
+    broadcast(room, connection, { type: 'leave', clientId: connection.clientId });
+  }
+};
+
+const handleMessage = (connection, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (!message || typeof message !== 'object') return;
+
+  if (message.type === 'join' && typeof message.room === 'string' && message.presence?.clientId) {
+    // A socket is in one room at a time; joining another leaves the first.
+    if (connection.room !== null) leaveRoom(connection);
+    const room = getRoom(message.room);
+    connection.room = message.room;
+    connection.clientId = message.presence.clientId;
+    room.sockets.add(connection);
+    room.presence.set(connection.clientId, message.presence);
+    connection.send({ type: 'welcome', ops: [...room.ops.values()], peers: [...room.presence.values()].filter(p => p.clientId !== connection.clientId) });
+    broadcast(room, connection, { type: 'presence', presence: message.presence });
+    return;
+  }
+
+  const room = connection.room && rooms.get(connection.room);
+  if (!room) return;
+
+  if (message.type === 'ops' && Array.isArray(message.ops)) {
+    const accepted = mergeOps(room, message.ops);
+    if (accepted.length > 0) {
+      broadcast(room, connection, { type: 'ops', ops: accepted });
+      scheduleSave(connection.room, room);
+    }
+  } else if (message.type === 'presence' && message.presence?.clientId === connection.clientId) {
+    room.presence.set(connection.clientId, message.presence);
+    broadcast(room, connection, { type: 'presence', presence: message.presence });
+  }
+};
+
+if (DATA_DIR) mkdirSync(DATA_DIR, { recursive: true });
+
+const server = createServer((request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain', 'Access-Control-Allow-Origin': '*' });
+  response.end(`ArchiNotes relay: ${rooms.size} room(s) open\n`);
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  new Connection(socket, handleMessage, leaveRoom);
+});
+
+server.listen(PORT, () => {
+  console.log(`ArchiNotes relay listening on ws://localhost:${PORT}${DATA_DIR ? `, rooms saved to ${DATA_DIR}` : ''}`);
+});
@@ -0,0 +1,207 @@
+// ArchiNotes sync server (reference implementation).
+//
+// Stores each project and meeting as a versioned JSON document, and images
+// as blobs named by the SHA-256 of their bytes. It never merges anything: a
+// write must name the version it was made against, and a stale write is
+// refused with the current document so the client can merge and retry.
+//
+//   node server/sync.mjs                                  listens on :8788, data in ./sync-data
+//   PORT=9000 SYNC_DATA_DIR=/srv/archinotes SYNC_TOKEN=secret node server/sync.mjs
+//
+// With SYNC_TOKEN set, every request but CORS preflight must carry
+// `Authorization: Bearer <token>`.
+// Plain HTTP; put it behind a TLS proxy when it leaves the local network.
+//
+// GET  /                       { server, documents, cursor }
+// GET  /changes?since=<cursor>   { cursor, changes: [{ kind, id, version, document }] }, oldest first
+// PUT  /documents/<kind>/<id>    body { baseVersion, document }; 200 with the stored document,
+//                                or 409 with the current one. A null document deletes.
+// HEAD /blobs/<sha256>           200 when the image is stored, else 404
+// GET  /blobs/<sha256>           the image
+// PUT  /blobs/<sha256>           stores the image; refused when the bytes do not match the hash
+
+import { createServer } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8788;
+const DATA_DIR = process.env.SYNC_DATA_DIR || './sync-data';
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_DOCUMENT_BYTES = 16 * 1024 * 1024;
+const MAX_BLOB_BYTES = 64 * 1024 * 1024;
+const KINDS = new Set(['project', 'meeting']);
+
+const DOCUMENT_DIR = join(DATA_DIR, 'documents');
+const LEGACY_STATE_FILE = join(DATA_DIR, 'documents.json');
+const BLOB_DIR = join(DATA_DIR, 'blobs');
+
+/** @typedef {{ kind: string, id: string, version: number, seq: number, document: object | null, updatedAt: string }} StoredDocument */
+
+mkdirSync(BLOB_DIR, { recursive: true });
+mkdirSync(DOCUMENT_DIR, { recursive: true });
+
+/** @type {{ seq: number, documents: Map<string, StoredDocument> }} */
+const state = { seq: 0, documents: new Map() };
+
+// One file per document, so a write costs the size of that document rather
+// than of everything stored. Hashed so any id gets a file of its own.
+const documentFile = (key) => join(DOCUMENT_DIR, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+// Written whole and renamed into place, so a crash never leaves half a file.
+/** @param {StoredDocument} doc */
+const saveDocument = (doc) => {
+  const file = documentFile(`${doc.kind}/${doc.id}`);
+  writeFileSync(`${file}.tmp`, JSON.stringify(doc));
+  renameSync(`${file}.tmp`, file);
+};
+
+/** @param {StoredDocument} doc */
+const remember = (doc) => {
+  state.documents.set(`${doc.kind}/${doc.id}`, doc);
+  state.seq = Math.max(state.seq, doc.seq);
+};
+
+readdirSync(DOCUMENT_DIR).filter(name => name.endsWith('.json')).forEach(name => remember(JSON.parse(readFileSync(join(DOCUMENT_DIR, name), 'utf8'))));
+
+// Earlier versions kept every document in a single file; it is split up once.
+if (existsSync(LEGACY_STATE_FILE)) {
+  const saved = JSON.parse(readFileSync(LEGACY_STATE_FILE, 'utf8'));
+  saved.documents.forEach(doc => {
+    saveDocument(doc);
+    remember(doc);
+  });
+  state.seq = Math.max(state.seq, saved.seq);
+  renameSync(LEGACY_STATE_FILE, `${LEGACY_STATE_FILE}.imported`);
+}
+
+const wireDocument = ({ kind, id, version, document }) => ({ kind, id, version, document });
+
+const send = (response, status, body, headers = {}) => {
+  const isJson = body !== undefined && !Buffer.isBuffer(body);
+  response.writeHead(status, { ...(isJson && { 'Content-Type': 'application/json' }), ...headers });
+  response.end(isJson ? JSON.stringify(body) : body);
+};
+
+const readBody = (request, response, limit) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    const onData = chunk => {
+      size += chunk.length;
+      if (size > limit) {
+        // Stops reading without dropping the connection, so the client still
+        // gets the 413; the connection is closed once that has been sent.
+        request.off('data', onData);
+        request.unpipe();
+        request.pause();
+        response.setHeader('Connection', 'close');
+        response.once('finish', () => request.destroy());
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    request.on('data', onData);
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+const isAuthorized = (request) => {
+  if (!TOKEN) return true;
+  const given = Buffer.from(request.headers.authorization || '');
+  const expected = Buffer.from(`Bearer ${TOKEN}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const handleChanges = (url, response) => {
+  const since = Number(url.searchParams.get('since')) || 0;
+  const changes = [...state.documents.values()].filter(doc => doc.seq > since).sort((a, b) => a.seq - b.seq);
+  send(response, 200, { cursor: state.seq, changes: changes.map(wireDocument) });
+};
+
+const handleDocument = async (request, response, kind, id) => {
+  if (!KINDS.has(kind) || !id) return send(response, 404, { error: 'Unknown document kind' });
+  let body;
+  try {
+    body = JSON.parse((await readBody(request, response, MAX_DOCUMENT_BYTES)).toString('utf8'));
+  } catch (error) {
+    return send(response, error.status || 400, { error: error.status ? error.message : 'Body is not JSON' });
+  }
+  const isDocument = body?.document === null || (typeof body?.document === 'object' && !Array.isArray(body.document));
+  if (!Number.isInteger(body?.baseVersion) || !isDocument) {
+    return send(response, 400, { error: 'Expected { baseVersion, document }' });
+  }
+
+  const key = `${kind}/${id}`;
+  const current = state.documents.get(key);
+  const currentVersion = current?.version ?? 0;
+  if (body.baseVersion !== currentVersion) {
+    return send(response, 409, wireDocument(current || { kind, id, version: 0, document: null }));
+  }
+  const stored = { kind, id, version: currentVersion + 1, seq: ++state.seq, document: body.document, updatedAt: new Date().toISOString() };
+  saveDocument(stored);
+  state.documents.set(key, stored);
+  send(response, 200, wireDocument(stored));
+};
+
+const handleBlob = async (request, response, hash) => {
+  if (!/^[0-9a-f]{64}$/.test(hash)) return send(response, 404, { error: 'Not a blob hash' });
+  const file = join(BLOB_DIR, hash);
+  const typeFile = `${file}.type`;
+
+  if (request.method === 'HEAD' || request.method === 'GET') {
+    if (!existsSync(file)) return send(response, 404, request.method === 'HEAD' ? undefined : { error: 'No such blob' });
+    const type = existsSync(typeFile) ? readFileSync(typeFile, 'utf8') : 'application/octet-stream';
+    const headers = { 'Content-Type': type, 'Cache-Control': 'public, max-age=31536000, immutable' };
+    return send(response, 200, request.method === 'HEAD' ? undefined : readFileSync(file), headers);
+  }
+
+  if (request.method === 'PUT') {
+    let bytes;
+    try {
+      bytes = await readBody(request, response, MAX_BLOB_BYTES);
+    } catch (error) {
+      return send(response, error.status || 400, { error: error.message });
+    }
+    if (createHash('sha256').update(bytes).digest('hex') !== hash) {
+      return send(response, 400, { error: 'Bytes do not match the hash' });
+    }
+    writeFileSync(file, bytes);
+    writeFileSync(typeFile, String(request.headers['content-type'] || 'application/octet-stream'));
+    return send(response, 200, { hash });
+  }
+
+  send(response, 405, { error: 'Method not allowed' });
+};
+
+const server = createServer(async (request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, PUT, OPTIONS');
+  if (request.method === 'OPTIONS') return send(response, 204);
+
+  if (!isAuthorized(request)) return send(response, 401, { error: 'Missing or wrong access token' });
+
+  let url, section, rest;
+  try {
+    url = new URL(request.url, 'http://localhost');
+    [, section, ...rest] = url.pathname.split('/').map(decodeURIComponent);
+  } catch {
+    return send(response, 400, { error: 'Malformed URL' });
+  }
+  try {
+    if (url.pathname === '/') return send(response, 200, { server: 'archinotes-sync', documents: state.documents.size, cursor: state.seq });
+    if (section === 'changes' && request.method === 'GET') return handleChanges(url, response);
+    if (section === 'documents' && request.method === 'PUT' && rest.length === 2) return await handleDocument(request, response, rest[0], rest[1]);
+    if (section === 'blobs' && rest.length === 1) return await handleBlob(request, response, rest[0]);
+    send(response, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error(`${request.method} ${url.pathname} failed:`, error);
+    if (!response.headersSent) send(response, 500, { error: 'Server error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`ArchiNotes sync server listening on http://localhost:${PORT}, data in ${DATA_DIR}${TOKEN ? ', token required' : ''}`);
+});
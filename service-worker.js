@@ -0,0 +1,53 @@
+// ArchiNotes service worker.
+//
+// The build (see `serviceWorker` in vite.config.ts) replaces the two
+// placeholders below with the list of files it emitted and a version derived
+// from them, so every release installs into a fresh cache. Everything the app
+// needs is precached on install; the app then starts with no network at all.
+//
+// A new worker waits until every ArchiNotes window has closed before taking
+// over, so a running session never has its files swapped underneath it.
+
+const CACHE_VERSION = '__CACHE_VERSION__';
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST__;
+const CACHE_NAME = `archinotes-${CACHE_VERSION}`;
+const SHELL_URL = './';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('archinotes-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Sync and collaboration servers, and anything else off-origin, always go to the network.
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    // The shell is served from the cache so the app opens instantly and offline.
+    event.respondWith(caches.match(SHELL_URL).then(cached => cached || fetch(request)));
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then(cached => {
+      if (cached) return cached;
+      return fetch(request).then(response => {
+        // Files left out of the precache, such as font subsets for other scripts, are kept once fetched.
+        if (response.ok && response.type === 'basic') {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
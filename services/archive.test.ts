@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { cloneProjectWithNewIds, exportProjectArchive, findArchiveConflicts, mergeProjects, readProjectArchive } from './archive';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { meetingFixture, projectFixture } from '../test/fixtures';
+import { ProjectGroup } from '../types';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+const project = (): ProjectGroup => projectFixture([meetingFixture({
+  rows: [{ id: 'r1', discussion: 'Site access', images: [{ id: 'i1', url: PNG, thumbnail: PNG, markup: [] }] }],
+  whiteboardImage: PNG
+})]);
+
+const asFile = (blob: Blob) => new File([blob], 'project.archinotes.zip', { type: 'application/zip' });
+
+const archiveWithManifest = (manifestProject: unknown, files: Record<string, Uint8Array> = {}) => new File([zipSync({
+  'project.json': strToU8(JSON.stringify({ format: 'archinotes-project', schemaVersion: CURRENT_SCHEMA_VERSION, exportedAt: '2024-03-02T00:00:00.000Z', project: manifestProject })),
+  ...files
+})], 'crafted.zip');
+
+const bytesOf = async (url: string) => new Uint8Array(await (await fetch(url)).arrayBuffer());
+
+describe('project archives', () => {
+  it('round-trips a project with its images packed in the archive', async () => {
+    const restored = await readProjectArchive(asFile(await exportProjectArchive(project())));
+
+    const [meeting] = restored.meetings;
+    const image = meeting.rows[0].images[0];
+    expect(restored.name).toBe('Project');
+    expect(meeting.rows[0].discussion).toBe('Site access');
+    expect(image.url).toMatch(/^blob:/);
+    expect(image.thumbnail).toBe(PNG);
+    expect(await bytesOf(image.url)).toEqual(await bytesOf(PNG));
+    expect(meeting.whiteboards[0].image).toMatch(/^blob:/);
+  });
+
+  it('drops image URLs that point outside the archive', async () => {
+    const crafted = project();
+    const row = crafted.meetings[0].rows[0];
+    crafted.meetings[0].rows[0] = {
+      ...row,
+      images: [
+        { ...row.images[0], url: 'http://example.com/track.png', thumbnail: 'https://example.com/thumb.png' },
+        { ...row.images[0], id: 'i2', url: 'project.json' },
+        { ...row.images[0], id: 'i3', url: 'images/i3.png' },
+        { ...row.images[0], id: 'i4', url: PNG }
+      ]
+    };
+    crafted.meetings[0].whiteboards[0].image = '//example.com/board.png';
+
+    const restored = await readProjectArchive(archiveWithManifest(crafted, { 'images/i3.png': await bytesOf(PNG) }));
+    const images = restored.meetings[0].rows[0].images;
+    expect(images.map(img => img.url.replace(/^blob:.*/, 'blob:'))).toEqual(['', '', 'blob:', PNG]);
+    expect(images[0].thumbnail).toBeUndefined();
+    expect(restored.meetings[0].whiteboards[0].image).toBe('');
+  });
+
+  it('refuses files that are not project archives', async () => {
+    await expect(readProjectArchive(new File(['not a zip'], 'notes.txt'))).rejects.toThrow(/not a readable archive/);
+    await expect(readProjectArchive(new File([zipSync({ 'other.json': strToU8('{}') })], 'other.zip'))).rejects.toThrow(/no project.json/);
+    await expect(readProjectArchive(archiveWithManifest({ id: 'p1' }))).rejects.toThrow(/could not be read/);
+  });
+});
+
+// Two meetings in a series: the second carries a row over and pins it on a photo.
+const series = (): ProjectGroup => projectFixture([
+  meetingFixture({
+    id: 'm1',
+    nextMeetingId: 'm2',
+    rows: [{ id: 'r1', discussion: 'Damp at the east wall', actions: [{ id: 'a1', description: 'Survey', status: 'open', sourceMeetingId: 'm1', sourceRowId: 'r1' }] }]
+  }),
+  meetingFixture({
+    id: 'm2',
+    dateCreated: '2024-03-08T10:00:00.000Z',
+    previousMeetingId: 'm1',
+    rows: [
+      { id: 'r2', discussion: 'Damp at the east wall', carriedOverFromId: 'r1', actions: [{ id: 'a1', description: 'Survey', status: 'open', sourceMeetingId: 'm1', sourceRowId: 'r1' }] },
+      {
+        id: 'r3',
+        discussion: 'Photos',
+        images: [{
+          id: 'i1',
+          url: PNG,
+          markup: [],
+          pins: [
+            { id: 'pin1', number: 1, point: { x: 10, y: 20 }, note: 'Tide mark', rowId: 'r2' },
+            { id: 'pin2', number: 2, point: { x: 30, y: 40 }, note: 'Elsewhere', rowId: 'not-in-project' }
+          ]
+        }]
+      }
+    ]
+  })
+]);
+
+describe('cloneProjectWithNewIds', () => {
+  it('gives everything fresh ids and keeps the links between them', () => {
+    const original = series();
+    const copy = cloneProjectWithNewIds(original);
+    const [first, second] = copy.meetings;
+    const [carried, photos] = second.rows;
+
+    expect(copy.name).toBe('Project (COPY)');
+    expect(findArchiveConflicts([original], copy)).toBeNull();
+    expect(first.nextMeetingId).toBe(second.id);
+    expect(second.previousMeetingId).toBe(first.id);
+    expect(carried.carriedOverFromId).toBe(first.rows[0].id);
+    expect(carried.actions[0]).toMatchObject({ id: 'a1', sourceMeetingId: first.id, sourceRowId: first.rows[0].id });
+    expect(photos.images[0].id).not.toBe('i1');
+    expect(photos.images[0].pins).toEqual([
+      { id: 'pin1', number: 1, point: { x: 10, y: 20 }, note: 'Tide mark', rowId: carried.id },
+      { id: 'pin2', number: 2, point: { x: 30, y: 40 }, note: 'Elsewhere' }
+    ]);
+  });
+
+  it('imports an archive of a project that is already here as a separate copy', async () => {
+    const original = series();
+    const imported = await readProjectArchive(asFile(await exportProjectArchive(original)));
+    expect(findArchiveConflicts([original], imported)).toEqual({ projectExists: true, meetingIds: ['m1', 'm2'] });
+
+    const copy = cloneProjectWithNewIds(imported);
+    expect(findArchiveConflicts([original], copy)).toBeNull();
+    expect(copy.meetings[1].rows[1].images[0].pins?.[0].rowId).toBe(copy.meetings[1].rows[0].id);
+    expect(copy.meetings[1].rows[1].images[0].url).toMatch(/^blob:/);
+  });
+});
+
+describe('mergeProjects', () => {
+  it('replaces the meetings the archive also holds and appends the rest', () => {
+    const local = series();
+    const renamed = { ...local.meetings[1], name: 'Site visit 2 (revised)' };
+    const added = meetingFixture({ id: 'm3' });
+    const merged = mergeProjects(local, { ...local, name: 'Imported', meetings: [renamed, added] });
+    expect(merged.name).toBe(local.name);
+    expect(merged.meetings).toEqual([local.meetings[0], renamed, added]);
+  });
+});
@@ -0,0 +1,216 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { ProjectGroup, Meeting } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateProjectTree } from './migrations';
+import { relinkPins } from '../utils/pins';
+
+const ARCHIVE_FORMAT = 'archinotes-project';
+const MANIFEST_PATH = 'project.json';
+const IMAGE_DIR = 'images/';
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  project: ProjectGroup;
+}
+
+export interface ArchiveConflicts {
+  projectExists: boolean;
+  meetingIds: string[];
+}
+
+const extensionFor = (mimeType: string) => MIME_EXTENSIONS[mimeType] || 'bin';
+
+const mimeFor = (path: string) =>
+  Object.keys(MIME_EXTENSIONS).find(mime => path.endsWith(`.${MIME_EXTENSIONS[mime]}`)) || 'application/octet-stream';
+
+/** Applies `transform` to every image URL in a meeting: row images and scratchpad board backgrounds. */
+const mapMeetingImages = async (meeting: Meeting, transform: (url: string, name: string) => Promise<string>): Promise<Meeting> => {
+  const rows = [];
+  for (const row of meeting.rows) {
+    const images = [];
+    for (const img of row.images) {
+      images.push({ ...img, url: await transform(img.url, img.id) });
+    }
+    rows.push({ ...row, images });
+  }
+  const whiteboards = [];
+  for (const board of meeting.whiteboards) {
+    whiteboards.push(board.image ? { ...board, image: await transform(board.image, `${meeting.id}-${board.id}`) } : board);
+  }
+  return { ...meeting, rows, whiteboards };
+};
+
+/**
+ * Packs a project into a single zip: `project.json` holds the meetings, and
+ * every image is written once under `images/` with the JSON pointing at it.
+ */
+export const exportProjectArchive = async (project: ProjectGroup): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {};
+
+  const meetings: Meeting[] = [];
+  for (const meeting of project.meetings) {
+    meetings.push(await mapMeetingImages(meeting, async (url, name) => {
+      if (!url) return url;
+      const blob = await (await fetch(url)).blob();
+      const path = `${IMAGE_DIR}${name}.${extensionFor(blob.type)}`;
+      files[path] = new Uint8Array(await blob.arrayBuffer());
+      return path;
+    }));
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { ...project, meetings }
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  // Images are already compressed; deflating them again only costs time.
+  const zipped = zipSync(files, { level: 0 });
+  return new Blob([zipped], { type: 'application/zip' });
+};
+
+export const downloadProjectArchive = async (project: ProjectGroup) => {
+  const blob = await exportProjectArchive(project);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = `${project.name.replace(/[^\w-]+/g, '_')}.archinotes.zip`;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Reads an archive back into a project, upgrading it to the current schema. */
+export const readProjectArchive = async (file: File): Promise<ProjectGroup> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new ArchiveError('The file is not a readable archive.');
+  }
+  if (!files[MANIFEST_PATH]) throw new ArchiveError(`The archive has no ${MANIFEST_PATH}.`);
+
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_PATH]));
+  } catch {
+    throw new ArchiveError(`${MANIFEST_PATH} is not valid JSON.`);
+  }
+  if (manifest.format !== ARCHIVE_FORMAT) throw new ArchiveError('The archive is not an ArchiNotes project.');
+
+  let project: ProjectGroup;
+  try {
+    project = migrateProjectTree(manifest.project);
+  } catch (error) {
+    throw new ArchiveError(`The project could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const meetings: Meeting[] = [];
+  for (const meeting of project.meetings) {
+    const mapped = await mapMeetingImages(meeting, async (path) => {
+      // Anything but an inline image or one packed in the archive (a remote
+      // URL, say) would be fetched from elsewhere every time it is shown.
+      if (path.startsWith('data:')) return path;
+      const bytes = path.startsWith(IMAGE_DIR) ? files[path] : undefined;
+      return bytes ? URL.createObjectURL(new Blob([bytes], { type: mimeFor(path) })) : '';
+    });
+    meetings.push({
+      ...mapped,
+      rows: mapped.rows.map(row => ({
+        ...row,
+        images: row.images.map(img => (img.thumbnail && !img.thumbnail.startsWith('data:') ? { ...img, thumbnail: undefined } : img))
+      }))
+    });
+  }
+  return { ...project, meetings };
+};
+
+/** Ids in `incoming` that already exist locally. Row and image ids are storage keys too, so they count. */
+export const findArchiveConflicts = (existing: ProjectGroup[], incoming: ProjectGroup): ArchiveConflicts | null => {
+  const meetingIds = new Set(existing.flatMap(p => p.meetings.map(m => m.id)));
+  const rowIds = new Set(existing.flatMap(p => p.meetings.flatMap(m => m.rows.map(r => r.id))));
+  const imageIds = new Set(existing.flatMap(p => p.meetings.flatMap(m => m.rows.flatMap(r => r.images.map(i => i.id)))));
+
+  const projectExists = existing.some(p => p.id === incoming.id);
+  const conflictingMeetings = incoming.meetings
+    .filter(m => meetingIds.has(m.id) || m.rows.some(r => rowIds.has(r.id) || r.images.some(i => imageIds.has(i.id))))
+    .map(m => m.id);
+
+  return projectExists || conflictingMeetings.length > 0 ? { projectExists, meetingIds: conflictingMeetings } : null;
+};
+
+/**
+ * Gives the project and everything keyed inside it fresh ids, rewriting the
+ * references between them (series links, carried-over rows, action sources,
+ * pinned rows).
+ */
+export const cloneProjectWithNewIds = (project: ProjectGroup, nameSuffix = ' (COPY)'): ProjectGroup => {
+  const ids = new Map<string, string>();
+  const remap = (id: string) => {
+    if (!ids.has(id)) ids.set(id, crypto.randomUUID());
+    return ids.get(id)!;
+  };
+  const remapOptional = (id?: string) => (id && ids.has(id) ? ids.get(id) : id);
+
+  project.meetings.forEach(m => {
+    remap(m.id);
+    m.rows.forEach(r => remap(r.id));
+  });
+
+  return {
+    ...project,
+    id: crypto.randomUUID(),
+    name: `${project.name}${nameSuffix}`,
+    meetings: project.meetings.map(meeting => ({
+      ...meeting,
+      id: remap(meeting.id),
+      previousMeetingId: remapOptional(meeting.previousMeetingId),
+      nextMeetingId: remapOptional(meeting.nextMeetingId),
+      rows: meeting.rows.map(row => ({
+        ...row,
+        id: remap(row.id),
+        carriedOverFromId: remapOptional(row.carriedOverFromId),
+        images: row.images.map(img => relinkPins({ ...img, id: crypto.randomUUID() }, ids)),
+        actions: row.actions.map(action => ({
+          ...action,
+          sourceMeetingId: remapOptional(action.sourceMeetingId)!,
+          sourceRowId: remapOptional(action.sourceRowId)!
+        }))
+      }))
+    }))
+  };
+};
+
+/**
+ * Folds an imported copy of a project into the local one: meetings with the
+ * same id are replaced by the imported version, new meetings are appended.
+ */
+export const mergeProjects = (local: ProjectGroup, incoming: ProjectGroup): ProjectGroup => {
+  const incomingById = new Map(incoming.meetings.map(m => [m.id, m] as const));
+  const localIds = new Set(local.meetings.map(m => m.id));
+  return {
+    ...local,
+    details: local.details || incoming.details,
+    meetings: [
+      ...local.meetings.map(m => incomingById.get(m.id) || m),
+      ...incoming.meetings.filter(m => !localIds.has(m.id))
+    ]
+  };
+};
@@ -0,0 +1,135 @@
+import { CrdtOp } from '../utils/meetingCrdt';
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:8787';
+
+export type CollabStatus = 'connecting' | 'live' | 'offline';
+
+/** Where a participant's pointer is: fractions across the row it is over, or across the workspace when it is over no row. */
+export interface CollabCursor {
+  rowId?: string;
+  x: number;
+  y: number;
+}
+
+export interface Presence {
+  clientId: string;
+  name: string;
+  color: string;
+  cursor: CollabCursor | null;
+  rowId: string | null; // the row being typed in
+}
+
+interface SessionHandlers {
+  onStatus: (status: CollabStatus) => void;
+  onWelcome: (ops: CrdtOp[], peers: Presence[]) => void;
+  onOps: (ops: CrdtOp[]) => void;
+  onPresence: (presence: Presence) => void;
+  onLeave: (clientId: string) => void;
+}
+
+interface RelayMessage {
+  type?: string;
+  ops?: CrdtOp[];
+  peers?: Presence[];
+  presence?: Presence;
+  clientId?: string;
+}
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Object URLs only mean something in the tab that made them, so images are sent inline.
+const portableOp = async (op: CrdtOp): Promise<CrdtOp> => {
+  if (typeof op.value !== 'string' || !op.value.startsWith('blob:')) return op;
+  const blob = await (await fetch(op.value)).blob();
+  return { ...op, value: await blobToDataUrl(blob) };
+};
+
+/**
+ * A connection to one room on the relay. It rejoins with backoff after a
+ * drop; each rejoin is answered with a fresh `onWelcome` carrying the room's
+ * whole state. Writes made while the socket is down are not queued, so the
+ * caller resends its own writes after a welcome.
+ */
+export const connectToRoom = (serverUrl: string, room: string, presence: Presence, handlers: SessionHandlers) => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let attempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let current = presence;
+  let sendQueue: Promise<unknown> = Promise.resolve();
+
+  const send = (message: object) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const open = () => {
+    handlers.onStatus('connecting');
+    try {
+      socket = new WebSocket(serverUrl);
+    } catch (error) {
+      console.error('Could not reach the collaboration relay:', error);
+      handlers.onStatus('offline');
+      return;
+    }
+    socket.onopen = () => {
+      attempts = 0;
+      send({ type: 'join', room, presence: current });
+    };
+    socket.onmessage = (event) => {
+      let message: RelayMessage | null;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (!message || typeof message !== 'object') return;
+      if (message.type === 'welcome') {
+        handlers.onStatus('live');
+        handlers.onWelcome(message.ops || [], message.peers || []);
+      } else if (message.type === 'ops') {
+        handlers.onOps(message.ops || []);
+      } else if (message.type === 'presence' && message.presence) {
+        handlers.onPresence(message.presence);
+      } else if (message.type === 'leave' && message.clientId) {
+        handlers.onLeave(message.clientId);
+      }
+    };
+    socket.onclose = () => {
+      if (closed) return;
+      handlers.onStatus('offline');
+      retryTimer = setTimeout(open, Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempts++));
+    };
+  };
+
+  open();
+
+  return {
+    // Ordered, because turning object URLs into data URLs is asynchronous.
+    sendOps: (ops: CrdtOp[]) => {
+      if (ops.length === 0) return;
+      sendQueue = sendQueue
+        .then(() => Promise.all(ops.map(portableOp)))
+        .then(portable => send({ type: 'ops', ops: portable }))
+        .catch(error => console.error('Sending changes to the relay failed:', error));
+    },
+    sendPresence: (next: Presence) => {
+      current = next;
+      send({ type: 'presence', presence: next });
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    }
+  };
+};
+
+export type CollabSession = ReturnType<typeof connectToRoom>;
@@ -0,0 +1,88 @@
+import { ImageMetadata, ImageSettings, NoteImage } from '../types';
+
+export interface ProcessedImage {
+  url: string; // data URL, re-encoded and no larger than the configured maximum, or the file itself when kept
+  thumbnail: string; // data URL
+  metadata: ImageMetadata;
+}
+
+export interface ImagePipelineRequest {
+  id: number;
+  file: Blob;
+  settings: ImageSettings;
+  keepOriginal?: boolean; // store the file as it is; only the thumbnail and metadata are made
+}
+
+export type ImagePipelineResponse = { id: number; image: ProcessedImage } | { id: number; error: string };
+
+export class ImagePipelineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImagePipelineError';
+  }
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (image: ProcessedImage) => void; reject: (error: Error) => void }>();
+
+// Started on first use and kept for the session; decoding a camera photo is too slow for the main thread.
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./imagePipeline.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<ImagePipelineResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if ('error' in event.data) request.reject(new ImagePipelineError(event.data.error));
+    else request.resolve(event.data.image);
+  };
+  // A worker that fails to load or crashes takes every queued image with it; the next upload starts a fresh one.
+  worker.onerror = (event) => {
+    event.preventDefault();
+    const error = new ImagePipelineError(event.message || 'The image worker stopped');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+/**
+ * Downscales and re-encodes an uploaded image off the main thread, turning
+ * it upright from its EXIF orientation, and reads its capture time and GPS
+ * position. With `keepOriginal`, for files that must stay lossless and are
+ * already upright (rendered PDF pages), the file is kept as it is. Rejects
+ * with an ImagePipelineError when the browser cannot decode the file there
+ * (SVG, or HEIC outside Safari).
+ */
+export const processImage = (file: Blob, settings: ImageSettings, keepOriginal = false): Promise<ProcessedImage> => {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return Promise.reject(new ImagePipelineError('This browser cannot process images in the background'));
+  }
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    const request: ImagePipelineRequest = { id, file, settings, keepOriginal };
+    getWorker().postMessage(request);
+  });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/** Runs an image through the pipeline, or keeps it as it is when the pipeline cannot take it. */
+export const prepareImage = async (file: Blob, settings: ImageSettings, keepOriginal = false): Promise<Pick<NoteImage, 'url' | 'thumbnail' | 'metadata'>> => {
+  try {
+    return await processImage(file, settings, keepOriginal);
+  } catch (error) {
+    if (!(error instanceof ImagePipelineError)) throw error;
+    console.warn('Storing the image unprocessed:', error.message);
+    return { url: await blobToDataUrl(file) };
+  }
+};
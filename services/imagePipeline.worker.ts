@@ -0,0 +1,97 @@
+import { ImageMetadata, ImageSettings } from '../types';
+import { readJpegInfo } from '../utils/exif';
+import type { ImagePipelineRequest, ImagePipelineResponse, ProcessedImage } from './imagePipeline';
+
+// Shortest edge of a row thumbnail: twice the 80px tile, for high-density screens.
+const THUMBNAIL_EDGE = 160;
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Safari cannot encode WebP from a canvas and quietly hands back a PNG instead.
+const encode = async (canvas: OffscreenCanvas, settings: ImageSettings, quality = settings.quality) => {
+  const blob = await canvas.convertToBlob({ type: `image/${settings.format}`, quality });
+  return blob.type === `image/${settings.format}` ? blob : canvas.convertToBlob({ type: 'image/jpeg', quality });
+};
+
+/**
+ * Draws the bitmap turned and mirrored as EXIF `orientation` says, at
+ * `scale`. Transparent areas are filled white: JPEG has no alpha, and the
+ * drawings people attach are on white paper.
+ */
+const drawUpright = (bitmap: ImageBitmap, orientation: number, scale: number) => {
+  const { width, height } = bitmap;
+  const turned = orientation >= 5;
+  const canvas = new OffscreenCanvas(
+    Math.max(1, Math.round((turned ? height : width) * scale)),
+    Math.max(1, Math.round((turned ? width : height) * scale))
+  );
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  return canvas;
+};
+
+const processImage = async (file: Blob, settings: ImageSettings, keepOriginal: boolean): Promise<ProcessedImage> => {
+  const jpeg = readJpegInfo(await file.arrayBuffer());
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    // Current browsers apply the EXIF orientation while decoding. Older ones
+    // hand back the pixels as stored, which shows as a quarter-turned photo
+    // keeping its stored proportions; those are turned here instead.
+    const rawPixels = !!jpeg && jpeg.orientation >= 5 && jpeg.width !== jpeg.height
+      && bitmap.width === jpeg.width && bitmap.height === jpeg.height;
+    const orientation = rawPixels ? jpeg!.orientation : 1;
+    const longEdge = Math.max(bitmap.width, bitmap.height);
+    const canvas = drawUpright(bitmap, orientation, keepOriginal ? 1 : Math.min(1, settings.maxSize / longEdge));
+
+    const thumbnailScale = Math.min(1, THUMBNAIL_EDGE / Math.min(canvas.width, canvas.height));
+    const thumbnail = new OffscreenCanvas(Math.max(1, Math.round(canvas.width * thumbnailScale)), Math.max(1, Math.round(canvas.height * thumbnailScale)));
+    const thumbnailCtx = thumbnail.getContext('2d')!;
+    thumbnailCtx.imageSmoothingQuality = 'high';
+    thumbnailCtx.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+
+    const metadata: ImageMetadata = {
+      width: canvas.width,
+      height: canvas.height,
+      originalSize: file.size,
+      ...(jpeg?.capturedAt && { capturedAt: jpeg.capturedAt }),
+      ...(jpeg?.location && { location: jpeg.location })
+    };
+    return {
+      url: await blobToDataUrl(keepOriginal ? file : await encode(canvas, settings)),
+      thumbnail: await blobToDataUrl(await encode(thumbnail, settings, 0.7)),
+      metadata
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// The project compiles against the DOM lib only; a worker's `self` has the same onmessage/postMessage shape as a window's.
+self.onmessage = async (event: MessageEvent<ImagePipelineRequest>) => {
+  const { id, file, settings, keepOriginal = false } = event.data;
+  let response: ImagePipelineResponse;
+  try {
+    response = { id, image: await processImage(file, settings, keepOriginal) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
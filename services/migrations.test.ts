@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, SchemaValidationError, migrateMeeting, migrateProject, migrateProjectTree } from './migrations';
+
+// A meeting as the first release stored it: no schemaVersion, optional lists, untyped markup, one scratchpad.
+const versionZeroMeeting = () => ({
+  id: 'm1',
+  name: 'Kick-off',
+  dateCreated: '2024-03-01T10:00:00.000Z',
+  rows: [
+    {
+      id: 'r1',
+      discussion: 'Site access',
+      images: [{ id: 'i1', url: 'data:image/png;base64,AA==', markup: [{ points: [{ x: 1, y: 2 }], color: '#000', width: 2 }] }]
+    },
+    { id: 'r2' }
+  ],
+  whiteboardMarkup: [{ points: [{ x: 0, y: 0 }], color: '#f00', width: 4 }],
+  whiteboardImage: 'data:image/png;base64,BB=='
+});
+
+describe('migrateMeeting', () => {
+  it('upgrades a version 0 meeting to the current schema', () => {
+    const meeting = migrateMeeting(versionZeroMeeting());
+
+    expect(meeting.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(meeting.attendees).toEqual([]);
+    expect(meeting.rows[0]).toMatchObject({ discussion: 'Site access', followUp: '', actions: [] });
+    expect(meeting.rows[0].images[0].markup[0]).toEqual({ type: 'freehand', isHighlighter: false, points: [{ x: 1, y: 2 }], color: '#000', width: 2 });
+    expect(meeting.rows[1]).toMatchObject({ discussion: '', followUp: '', images: [], actions: [] });
+    expect(meeting.whiteboards).toEqual([{
+      id: 'scratchpad',
+      name: 'Scratchpad',
+      markup: [{ type: 'freehand', isHighlighter: false, points: [{ x: 0, y: 0 }], color: '#f00', width: 4 }],
+      layers: undefined,
+      image: 'data:image/png;base64,BB==',
+      imageSource: undefined
+    }]);
+    expect(meeting).not.toHaveProperty('whiteboardMarkup');
+    expect(meeting).not.toHaveProperty('whiteboardImage');
+  });
+
+  it('leaves a current meeting as it is', () => {
+    const current = migrateMeeting(versionZeroMeeting());
+    expect(migrateMeeting(JSON.parse(JSON.stringify(current)))).toEqual(current);
+  });
+
+  it('refuses a schemaVersion newer than the app', () => {
+    const future = { ...migrateMeeting(versionZeroMeeting()), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+    expect(() => migrateMeeting(future)).toThrow(SchemaValidationError);
+    expect(() => migrateMeeting(future)).toThrow(/newer than this app supports/);
+  });
+
+  it.each([
+    ['not an object', 'meeting'],
+    ['a negative version', { ...versionZeroMeeting(), schemaVersion: -1 }],
+    ['a missing id', { ...versionZeroMeeting(), id: '' }],
+    ['an unparseable date', { ...versionZeroMeeting(), dateCreated: 'last Tuesday' }],
+    ['an unknown markup type', { ...migrateMeeting(versionZeroMeeting()), whiteboards: [{ id: 'b', name: 'B', markup: [{ type: 'blob', points: [], color: '#000' }] }] }],
+    ['rows that are not a list', { ...migrateMeeting(versionZeroMeeting()), rows: {} }],
+    ['an image without a url', { ...migrateMeeting(versionZeroMeeting()), rows: [{ id: 'r', discussion: '', followUp: '', actions: [], images: [{ id: 'i', markup: [] }] }] }],
+    ['an action with an unknown status', { ...migrateMeeting(versionZeroMeeting()), rows: [{ id: 'r', discussion: '', followUp: '', images: [], actions: [{ id: 'a', status: 'maybe' }] }] }]
+  ])('rejects a meeting with %s', (_, raw) => {
+    expect(() => migrateMeeting(raw)).toThrow(SchemaValidationError);
+  });
+});
+
+describe('migrateProject', () => {
+  it('upgrades the project header and leaves its meetings for the caller', () => {
+    const raw = { id: 'p1', name: 'Riverside', meetings: [{ id: 'broken' }] };
+    const project = migrateProject(raw);
+    expect(project.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(project.meetings).toEqual([{ id: 'broken' }]);
+  });
+
+  it('rejects a project without a name', () => {
+    expect(() => migrateProject({ id: 'p1' })).toThrow(SchemaValidationError);
+  });
+
+  it('migrates a whole tree', () => {
+    const tree = migrateProjectTree({ id: 'p1', name: 'Riverside', meetings: [versionZeroMeeting()] });
+    expect(tree.meetings[0].schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+});
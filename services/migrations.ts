@@ -0,0 +1,203 @@
+import { ProjectGroup, Meeting } from '../types';
+
+/**
+ * Each step upgrades a document from version `index` to `index + 1`.
+ * Documents written before versioning existed are treated as version 0.
+ * Meetings and projects share one version number, so both lists always grow
+ * together; a step with nothing to change for one of them returns `doc`.
+ */
+type Doc = Record<string, unknown>;
+type MigrationStep = (doc: Doc) => Doc;
+
+export class SchemaValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+const isObject = (value: unknown): value is Doc =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+const asDoc = (value: unknown): Doc => (isObject(value) ? value : {});
+const asFreehand = (path: unknown) => ({ type: 'freehand', isHighlighter: false, ...asDoc(path) });
+
+const MEETING_MIGRATIONS: MigrationStep[] = [
+  // 0 -> 1: optional collections become required so call sites stop patching them.
+  (doc) => ({
+    ...doc,
+    attendees: asArray(doc.attendees),
+    whiteboardMarkup: asArray(doc.whiteboardMarkup),
+    rows: asArray(doc.rows).map(row => ({
+      ...asDoc(row),
+      discussion: asString(asDoc(row).discussion),
+      followUp: asString(asDoc(row).followUp),
+      images: asArray(asDoc(row).images).map(img => ({ ...asDoc(img), markup: asArray(asDoc(img).markup) }))
+    }))
+  }),
+  // 1 -> 2: rows gain structured action items.
+  (doc) => ({
+    ...doc,
+    rows: asArray(doc.rows).map(row => ({ ...asDoc(row), actions: asArray(asDoc(row).actions) }))
+  }),
+  // 2 -> 3: markup becomes a union of shapes; everything stored so far was freehand.
+  (doc) => ({
+    ...doc,
+    whiteboardMarkup: asArray(doc.whiteboardMarkup).map(asFreehand),
+    rows: asArray(doc.rows).map(row => ({
+      ...asDoc(row),
+      images: asArray(asDoc(row).images).map(img => ({ ...asDoc(img), markup: asArray(asDoc(img).markup).map(asFreehand) }))
+    }))
+  }),
+  // 3 -> 4: the single scratchpad becomes the first of a list of named boards.
+  (doc) => {
+    const { whiteboardMarkup, whiteboardLayers, whiteboardImage, whiteboardImageSource, ...rest } = doc;
+    return {
+      ...rest,
+      whiteboards: [{
+        id: 'scratchpad',
+        name: 'Scratchpad',
+        markup: whiteboardMarkup,
+        layers: whiteboardLayers,
+        image: whiteboardImage,
+        imageSource: whiteboardImageSource
+      }]
+    };
+  }
+];
+
+const PROJECT_MIGRATIONS: MigrationStep[] = [
+  (doc) => doc,
+  (doc) => doc,
+  (doc) => doc,
+  (doc) => doc
+];
+
+export const CURRENT_SCHEMA_VERSION = MEETING_MIGRATIONS.length;
+
+const expect: (condition: boolean, message: string) => asserts condition = (condition, message) => {
+  if (!condition) throw new SchemaValidationError(message);
+};
+
+const readVersion = (doc: Doc) => {
+  const version = doc.schemaVersion ?? 0;
+  expect(typeof version === 'number' && Number.isInteger(version) && version >= 0, 'schemaVersion is not a valid version number');
+  expect(version <= CURRENT_SCHEMA_VERSION, `schemaVersion ${version} is newer than this app supports (${CURRENT_SCHEMA_VERSION})`);
+  return version;
+};
+
+const runMigrations = (doc: Doc, steps: MigrationStep[]) => {
+  let current = doc;
+  for (let version = readVersion(doc); version < steps.length; version++) {
+    current = { ...steps[version](current), schemaVersion: version + 1 };
+  }
+  return current;
+};
+
+const MARKUP_TYPES: unknown[] = ['freehand', 'line', 'arrow', 'rect', 'ellipse', 'cloud', 'text', 'dimension', 'area'];
+
+const validatePath = (path: unknown, where: string) => {
+  expect(isObject(path), `${where} is not an object`);
+  expect(MARKUP_TYPES.includes(path.type), `${where}.type is not a known markup type`);
+  expect(Array.isArray(path.points), `${where}.points is not an array`);
+  if (path.type === 'area') expect(path.points.length >= 3, `${where}.points does not hold a polygon`);
+  else expect(path.type === 'freehand' || path.points.length === 2, `${where}.points does not hold two points`);
+  expect(typeof path.color === 'string', `${where}.color is not a string`);
+  expect(path.type !== 'text' || typeof path.text === 'string', `${where}.text is not a string`);
+};
+
+const validateLayers = (layers: unknown, where: string) => {
+  if (layers === undefined) return;
+  expect(Array.isArray(layers), `${where} is not an array`);
+  layers.forEach((layer: unknown, i: number) => {
+    expect(isObject(layer) && typeof layer.id === 'string', `${where}[${i}] has no id`);
+    expect(typeof layer.name === 'string', `${where}[${i}].name is not a string`);
+  });
+};
+
+const ACTION_STATUSES: unknown[] = ['open', 'in_progress', 'done'];
+
+const validateImage = (img: unknown, where: string) => {
+  expect(isObject(img) && typeof img.id === 'string', `${where} has no id`);
+  expect(typeof img.url === 'string', `${where}.url is not a string`);
+  expect(Array.isArray(img.markup), `${where}.markup is not an array`);
+  img.markup.forEach((path: unknown, k: number) => validatePath(path, `${where}.markup[${k}]`));
+  validateLayers(img.layers, `${where}.layers`);
+  if (img.pins !== undefined) {
+    expect(Array.isArray(img.pins), `${where}.pins is not an array`);
+    img.pins.forEach((pin: unknown, k: number) => {
+      expect(isObject(pin) && typeof pin.id === 'string', `${where}.pins[${k}] has no id`);
+      expect(typeof pin.number === 'number' && isObject(pin.point), `${where}.pins[${k}] has no number or point`);
+    });
+  }
+  if (img.thumbnail !== undefined) {
+    expect(typeof img.thumbnail === 'string', `${where}.thumbnail is not a string`);
+  }
+  if (img.metadata !== undefined) {
+    expect(isObject(img.metadata) && typeof img.metadata.width === 'number' && typeof img.metadata.height === 'number', `${where}.metadata has no dimensions`);
+  }
+  if (img.calibration !== undefined) {
+    const calibration = img.calibration;
+    expect(isObject(calibration) && Array.isArray(calibration.points) && calibration.points.length === 2, `${where}.calibration has no reference points`);
+    expect(typeof calibration.distanceMm === 'number' && calibration.distanceMm > 0, `${where}.calibration.distanceMm is not a positive number`);
+  }
+};
+
+const validateMeeting = (doc: Doc): Meeting => {
+  expect(typeof doc.id === 'string' && doc.id.length > 0, 'meeting id is missing');
+  expect(typeof doc.name === 'string', 'meeting name is not a string');
+  expect(typeof doc.dateCreated === 'string' && !isNaN(Date.parse(doc.dateCreated)), 'meeting dateCreated is not a date');
+  expect(Array.isArray(doc.attendees), 'attendees is not an array');
+  doc.attendees.forEach((att: unknown, i: number) => {
+    expect(isObject(att) && typeof att.id === 'string', `attendees[${i}] has no id`);
+  });
+  expect(Array.isArray(doc.rows), 'rows is not an array');
+  doc.rows.forEach((row: unknown, i: number) => {
+    expect(isObject(row) && typeof row.id === 'string', `rows[${i}] has no id`);
+    expect(Array.isArray(row.images) && Array.isArray(row.actions), `rows[${i}] has no image or action list`);
+    row.images.forEach((img: unknown, j: number) => validateImage(img, `rows[${i}].images[${j}]`));
+    row.actions.forEach((action: unknown, j: number) => {
+      expect(isObject(action) && typeof action.id === 'string', `rows[${i}].actions[${j}] has no id`);
+      expect(ACTION_STATUSES.includes(action.status), `rows[${i}].actions[${j}].status is not a known status`);
+    });
+  });
+  expect(Array.isArray(doc.whiteboards) && doc.whiteboards.length > 0, 'whiteboards is not a list of boards');
+  doc.whiteboards.forEach((board: unknown, i: number) => {
+    expect(isObject(board) && typeof board.id === 'string', `whiteboards[${i}] has no id`);
+    expect(typeof board.name === 'string', `whiteboards[${i}].name is not a string`);
+    expect(Array.isArray(board.markup), `whiteboards[${i}].markup is not an array`);
+    board.markup.forEach((path: unknown, j: number) => validatePath(path, `whiteboards[${i}].markup[${j}]`));
+    validateLayers(board.layers, `whiteboards[${i}].layers`);
+  });
+  return doc as unknown as Meeting;
+};
+
+/** Upgrades a stored meeting to the current schema, throwing SchemaValidationError if it cannot be used. */
+export const migrateMeeting = (raw: unknown): Meeting => {
+  expect(isObject(raw), 'meeting is not an object');
+  return validateMeeting(runMigrations(raw, MEETING_MIGRATIONS));
+};
+
+export type ProjectHeader = Omit<ProjectGroup, 'meetings'>;
+
+/**
+ * Upgrades a stored project's own fields. Any `meetings` it carries are left
+ * untouched so that callers can migrate (and quarantine) them one at a time.
+ */
+export const migrateProject = <T extends object>(raw: T): T & ProjectHeader => {
+  expect(isObject(raw), 'project is not an object');
+  const doc = runMigrations(raw, PROJECT_MIGRATIONS);
+  expect(typeof doc.id === 'string' && doc.id.length > 0, 'project id is missing');
+  expect(typeof doc.name === 'string', 'project name is not a string');
+  expect(doc.details === undefined || isObject(doc.details), 'project details are not an object');
+  return doc as unknown as T & ProjectHeader;
+};
+
+/** Migrates a whole in-memory project tree, e.g. seed data. Invalid documents throw. */
+export const migrateProjectTree = (raw: unknown): ProjectGroup => {
+  expect(isObject(raw), 'project is not an object');
+  const project = migrateProject(raw);
+  return { ...project, meetings: asArray(project.meetings).map(migrateMeeting) };
+};
@@ -0,0 +1,106 @@
+import { Meeting, NoteImage, NoteRow } from '../types';
+import { ACTION_STATUS_LABELS } from '../constants';
+import { loadImage } from '../utils/markup';
+import { describeCalibration } from '../utils/measurement';
+import { rowItemLabel } from '../utils/pins';
+
+export type MinutesFormat = 'pdf' | 'docx' | 'markdown';
+export type PaperSize = 'a4' | 'a3' | 'letter' | 'legal';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+export interface MinutesExportOptions {
+  format: MinutesFormat;
+  attendees: boolean;
+  whiteboard: boolean;
+  entries: boolean;
+  actionSummary: boolean;
+  paper: PaperSize; // ignored by Markdown, which has no page
+  orientation: PaperOrientation;
+}
+
+export const MINUTES_FORMATS: { value: MinutesFormat; label: string }[] = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'docx', label: 'Word' },
+  { value: 'markdown', label: 'Markdown' }
+];
+
+export const PAPER_SIZES: { value: PaperSize; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'a3', label: 'A3' },
+  { value: 'letter', label: 'Letter' },
+  { value: 'legal', label: 'Legal' }
+];
+
+/** Portrait width and height of each paper size, in millimetres. */
+export const PAPER_DIMENSIONS: Record<PaperSize, [number, number]> = {
+  a4: [210, 297],
+  a3: [297, 420],
+  letter: [215.9, 279.4],
+  legal: [215.9, 355.6]
+};
+
+export const DEFAULT_EXPORT_OPTIONS: MinutesExportOptions = {
+  format: 'pdf',
+  attendees: true,
+  whiteboard: true,
+  entries: true,
+  actionSummary: true,
+  paper: 'a4',
+  orientation: 'portrait'
+};
+
+export const describeAttendee = (attendee: Meeting['attendees'][number]) =>
+  `${attendee.name || 'Anonymous'} (${attendee.organisation || 'N/A'})`;
+
+export const actionOwner = (meeting: Meeting, action: NoteRow['actions'][number]) =>
+  meeting.attendees.find(a => a.id === action.ownerId)?.name;
+
+export const describeAction = (meeting: Meeting, action: NoteRow['actions'][number]) => {
+  const details = [actionOwner(meeting, action), action.dueDate && `due ${action.dueDate}`, ACTION_STATUS_LABELS[action.status]].filter(Boolean).join(', ');
+  return `${action.description || 'Untitled action'}${details ? ` (${details})` : ''}`;
+};
+
+/** Source sheet and scale of a row image, e.g. "A-201.pdf p.2  |  SCALE: 1:100". */
+export const imageCaption = (image: NoteImage) => [
+  image.source ? `${image.source.fileName}${image.source.page ? ` p.${image.source.page}` : ''}` : '',
+  image.calibration ? `SCALE: ${describeCalibration(image.calibration)}` : ''
+].filter(Boolean).join('  |  ');
+
+/** One line per pin, in number order, naming the row each one is linked to. */
+export const pinNotes = (image: NoteImage, rows: NoteRow[]) =>
+  [...(image.pins || [])]
+    .sort((a, b) => a.number - b.number)
+    .map(pin => {
+      const link = rowItemLabel(rows, pin.rowId);
+      return `${pin.number}. ${pin.note || 'Pin'}${link ? `  (see ${link.toUpperCase()})` : ''}`;
+    });
+
+/** Draws the practice logo onto a canvas so any browser-readable format (SVG included) can be re-encoded. */
+export const renderLogo = async (url: string) => {
+  const img = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth || 400;
+  canvas.height = img.naturalHeight || 200;
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const canvasBytes = (canvas: HTMLCanvasElement, type: 'image/png' | 'image/jpeg', quality?: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error('The image could not be encoded.'));
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, type, quality);
+  });
+
+export const minutesFileName = (meeting: Meeting, extension: string) =>
+  `ArchiNote_${meeting.name.replace(/\s+/g, '_')}.${extension}`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+};
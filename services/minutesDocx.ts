@@ -0,0 +1,325 @@
+import { zipSync, strToU8 } from 'fflate';
+import { Meeting } from '../types';
+import { ACTION_STATUS_LABELS } from '../constants';
+import { flattenImageMarkup } from '../utils/markup';
+import { flattenWhiteboard } from '../utils/whiteboard';
+import { DocumentBranding, distributionList, documentReference, titleBlockFields } from '../utils/titleBlock';
+import {
+  MinutesExportOptions, PAPER_DIMENSIONS, actionOwner, canvasBytes, describeAction, describeAttendee,
+  downloadBlob, imageCaption, minutesFileName, pinNotes, renderLogo
+} from './minutes';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const TWIPS_PER_MM = 1440 / 25.4;
+const EMU_PER_MM = 36000;
+const MARGIN_MM = 20;
+const GREY = '787878';
+const EMERALD = '50C878';
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"'
+].join(' ');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const twips = (mm: number) => Math.round(mm * TWIPS_PER_MM);
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  size?: number; // points
+  color?: string;
+}
+
+/** A run of text; line breaks and tabs in `text` become Word breaks and tabs. */
+const run = (text: string, style: RunStyle = {}) => {
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size * 2}"/>` : ''
+  ].join('');
+  const body = text.split('\n')
+    .map(line => line.split('\t').map(part => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`).join('<w:tab/>'))
+    .join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${body}</w:r>`;
+};
+
+interface ParagraphOptions {
+  style?: string;
+  after?: number; // spacing after, in points
+  pageBreakBefore?: boolean;
+}
+
+const paragraph = (content: string, options: ParagraphOptions = {}) => {
+  const props = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+    options.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+    options.after !== undefined ? `<w:spacing w:after="${options.after * 20}"/>` : ''
+  ].join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+};
+
+/** An empty paragraph drawn as a horizontal rule. */
+const rule = (color: string, weight: number) =>
+  `<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="${weight}" w:space="1" w:color="${color}"/></w:pBdr><w:spacing w:after="120"/></w:pPr></w:p>`;
+
+interface Cell {
+  content: string; // paragraphs
+  shade?: string;
+}
+
+/** A fixed-layout table; widths are in millimetres. Header rows repeat on every page the table runs onto. */
+const table = (widths: number[], rows: Cell[][], { borders = true, headerRows = 0 } = {}) => {
+  const border = (side: string) => `<w:${side} w:val="${borders ? 'single' : 'nil'}" w:sz="4" w:space="0" w:color="D2D2D2"/>`;
+  const total = widths.reduce((sum, w) => sum + w, 0);
+  return [
+    '<w:tbl><w:tblPr>',
+    `<w:tblW w:w="${twips(total)}" w:type="dxa"/>`,
+    `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>`,
+    '<w:tblLayout w:type="fixed"/>',
+    '<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar>',
+    '</w:tblPr>',
+    `<w:tblGrid>${widths.map(w => `<w:gridCol w:w="${twips(w)}"/>`).join('')}</w:tblGrid>`,
+    ...rows.map((cells, r) => [
+      `<w:tr><w:trPr><w:cantSplit/>${r < headerRows ? '<w:tblHeader/>' : ''}</w:trPr>`,
+      ...cells.map((cell, c) => [
+        `<w:tc><w:tcPr><w:tcW w:w="${twips(widths[c])}" w:type="dxa"/>`,
+        cell.shade ? `<w:shd w:val="clear" w:color="auto" w:fill="${cell.shade}"/>` : '',
+        `</w:tcPr>${cell.content || paragraph('')}</w:tc>`
+      ].join('')),
+      '</w:tr>'
+    ].join('')),
+    '</w:tbl>',
+    // Word needs a paragraph between a table and whatever follows it.
+    paragraph('', { after: 6 })
+  ].join('');
+};
+
+/**
+ * Collects the pictures a document embeds. Each `add` stores the bytes under
+ * word/media and returns the inline drawing that shows them at the given size.
+ */
+const createMedia = () => {
+  const files: Record<string, Uint8Array> = {};
+  const relationships: string[] = [];
+  let count = 0;
+  return {
+    files,
+    relationships,
+    add: (bytes: Uint8Array, extension: 'png' | 'jpeg', widthMm: number, heightMm: number) => {
+      count += 1;
+      const name = `image${count}.${extension}`;
+      const relId = `rIdImage${count}`;
+      files[`word/media/${name}`] = bytes;
+      relationships.push(`<Relationship Id="${relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${name}"/>`);
+      const cx = Math.round(widthMm * EMU_PER_MM);
+      const cy = Math.round(heightMm * EMU_PER_MM);
+      return [
+        '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">',
+        `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${count}" name="Picture ${count}"/>`,
+        '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>',
+        `<pic:nvPicPr><pic:cNvPr id="${count}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>`,
+        `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`,
+        `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`,
+        '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>'
+      ].join('');
+    }
+  };
+};
+
+type Media = ReturnType<typeof createMedia>;
+
+const titleBlock = async (meeting: Meeting, branding: DocumentBranding, media: Media, contentWidth: number) => {
+  const { practice } = branding;
+  let logo = '';
+  if (practice.logo) {
+    try {
+      const canvas = await renderLogo(practice.logo);
+      const aspect = canvas.height / canvas.width;
+      const width = Math.min(45, 20 / aspect);
+      logo = paragraph(media.add(await canvasBytes(canvas, 'image/png'), 'png', width, width * aspect));
+    } catch (error) {
+      console.warn('Practice logo could not be embedded:', error);
+    }
+  }
+  const practiceText = [
+    practice.name.trim() ? paragraph(run(practice.name.trim().toUpperCase(), { bold: true, size: 13 }), { after: 2 }) : '',
+    ...[practice.address, practice.contact].map(text => text.trim()).filter(Boolean).map(text => paragraph(run(text, { size: 8, color: GREY }), { after: 0 }))
+  ].join('');
+
+  const header = logo
+    ? table([50, contentWidth - 50], [[{ content: logo }, { content: practiceText }]], { borders: false })
+    : practiceText;
+
+  const fields = titleBlockFields(branding, meeting);
+  const cellWidth = contentWidth / 3;
+  const fieldRows: Cell[][] = [];
+  for (let i = 0; i < fields.length; i += 3) {
+    fieldRows.push(fields.slice(i, i + 3).map(field => ({
+      content: paragraph(run(field.label.toUpperCase(), { size: 6.5, color: GREY }), { after: 0 })
+        + paragraph(run(field.value || '—', { bold: true, size: 9 }), { after: 0 })
+    })));
+  }
+
+  const distribution = distributionList(branding.details);
+  return [
+    header,
+    rule(EMERALD, 18),
+    table([cellWidth, cellWidth, cellWidth], fieldRows),
+    distribution.length > 0 ? paragraph(run(`DISTRIBUTION: ${distribution.join(', ')}`, { size: 9, color: '3C3C3C' })) : ''
+  ].join('');
+};
+
+const entryRows = async (meeting: Meeting, widths: number[], media: Media) => {
+  const rows: Cell[][] = [[
+    { content: paragraph(run('ITEM', { bold: true, size: 8 }), { after: 0 }), shade: 'F0F0F0' },
+    { content: paragraph(run('DISCUSSION & ACTIONS', { bold: true, size: 8 }), { after: 0 }), shade: 'F0F0F0' },
+    { content: paragraph(run('DRAWINGS', { bold: true, size: 8 }), { after: 0 }), shade: 'F0F0F0' }
+  ]];
+  const imageWidth = widths[2] - 4;
+  for (const [index, row] of meeting.rows.entries()) {
+    const text = [
+      ...(row.discussion || '—').split('\n').map(line => paragraph(run(line), { after: 2 })),
+      row.followUp.trim() ? paragraph(run(`FOLLOW-UP: ${row.followUp.trim()}`, { italic: true, color: '646464' })) : '',
+      ...row.actions.map(action => paragraph(run(`• ${describeAction(meeting, action)}`, { size: 9, color: '3C3C3C' }), { after: 0 }))
+    ].join('');
+
+    const images: string[] = [];
+    for (const image of row.images) {
+      const canvas = await flattenImageMarkup(image, 2000, 'exported');
+      images.push(paragraph(media.add(await canvasBytes(canvas, 'image/jpeg', 0.85), 'jpeg', imageWidth, imageWidth * canvas.height / canvas.width), { after: 2 }));
+      const caption = imageCaption(image);
+      if (caption) images.push(paragraph(run(caption, { size: 7, color: GREY }), { after: 0 }));
+      pinNotes(image, meeting.rows).forEach(note => images.push(paragraph(run(note, { size: 8, color: '3C3C3C' }), { after: 0 })));
+      images.push(paragraph('', { after: 4 }));
+    }
+
+    rows.push([
+      { content: paragraph(run(`${index + 1}${row.carriedOverFromId ? '\nCARRIED OVER' : ''}`, { bold: true, size: 8, color: EMERALD }), { after: 0 }) },
+      { content: text },
+      { content: images.join('') }
+    ]);
+  }
+  return rows;
+};
+
+const actionSummaryRows = (meeting: Meeting): Cell[][] => [
+  ['ITEM', 'ACTION', 'OWNER', 'DUE', 'STATUS'].map(label => ({ content: paragraph(run(label, { bold: true, size: 8 }), { after: 0 }), shade: 'F0F0F0' })),
+  ...meeting.rows.flatMap((row, index) => row.actions.map(action => [
+    String(index + 1),
+    action.description || 'Untitled action',
+    actionOwner(meeting, action) || '—',
+    action.dueDate || '—',
+    ACTION_STATUS_LABELS[action.status]
+  ].map(text => ({ content: paragraph(run(text, { size: 8 }), { after: 0 }) }))))
+];
+
+const footerXml = (branding: DocumentBranding, contentWidth: number) => {
+  const field = (instruction: string) => `<w:fldSimple w:instr="${instruction}"><w:r><w:t>1</w:t></w:r></w:fldSimple>`;
+  const style = { italic: true, size: 8, color: '969696' };
+  return `${XML_HEADER}<w:ftr ${NAMESPACES}><w:p><w:pPr><w:tabs><w:tab w:val="center" w:pos="${twips(contentWidth / 2)}"/><w:tab w:val="right" w:pos="${twips(contentWidth)}"/></w:tabs></w:pPr>`
+    + run(branding.practice.name.trim(), style)
+    + run('\tPage ', style) + field('PAGE') + run(' of ', style) + field('NUMPAGES')
+    + run(`\t${documentReference(branding.details)}`, style)
+    + '</w:p></w:ftr>';
+};
+
+const STYLES_XML = `${XML_HEADER}<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">`
+  + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial"/><w:sz w:val="20"/><w:color w:val="1E1E1E"/></w:rPr></w:rPrDefault>'
+  + '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+  + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="22"/><w:color w:val="505050"/></w:rPr></w:style>'
+  + '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/></w:tblPr></w:style>'
+  + '</w:styles>';
+
+const CONTENT_TYPES_XML = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Default Extension="png" ContentType="image/png"/>'
+  + '<Default Extension="jpeg" ContentType="image/jpeg"/>'
+  + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+  + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+  + '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>'
+  + '</Types>';
+
+const PACKAGE_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+  + '</Relationships>';
+
+/**
+ * Writes the minutes as a Word document: the title block, then the same
+ * sections as the PDF with each minute row as a table row and its drawings,
+ * markup flattened in, embedded beside the text. Paper and orientation carry
+ * over as the document's page setup.
+ */
+export const buildMinutesDocx = async (meeting: Meeting, options: MinutesExportOptions, branding: DocumentBranding): Promise<Blob> => {
+  const [shortSide, longSide] = PAPER_DIMENSIONS[options.paper];
+  const [pageWidth, pageHeight] = options.orientation === 'landscape' ? [longSide, shortSide] : [shortSide, longSide];
+  const contentWidth = pageWidth - MARGIN_MM * 2;
+  const media = createMedia();
+
+  const body: string[] = [await titleBlock(meeting, branding, media, contentWidth)];
+
+  if (options.attendees && meeting.attendees.length > 0) {
+    body.push(paragraph(run('STAKEHOLDERS'), { style: 'Heading1' }));
+    meeting.attendees.forEach(attendee => body.push(paragraph(run(`• ${describeAttendee(attendee)}`, { size: 9 }), { after: 0 })));
+  }
+
+  if (options.entries && meeting.rows.length > 0) {
+    const widths = [contentWidth * 0.08, contentWidth * 0.52, contentWidth * 0.4];
+    body.push(paragraph(run('MEETING MINUTES & ACTIONS'), { style: 'Heading1' }));
+    body.push(table(widths, await entryRows(meeting, widths, media), { headerRows: 1 }));
+  }
+
+  if (options.actionSummary && meeting.rows.some(row => row.actions.length > 0)) {
+    body.push(paragraph(run('ACTION ITEMS'), { style: 'Heading1' }));
+    body.push(table([0.09, 0.46, 0.2, 0.12, 0.13].map(share => share * contentWidth), actionSummaryRows(meeting), { headerRows: 1 }));
+  }
+
+  if (options.whiteboard) {
+    for (const board of meeting.whiteboards) {
+      const canvas = await flattenWhiteboard(board);
+      if (!canvas) continue;
+      body.push(paragraph(run(`PROJECT SCRATCHPAD — ${board.name.toUpperCase()}`), { style: 'Heading1', pageBreakBefore: true }));
+      const fit = Math.min(contentWidth / canvas.width, (pageHeight - MARGIN_MM * 2 - 30) / canvas.height);
+      body.push(paragraph(media.add(await canvasBytes(canvas, 'image/png'), 'png', canvas.width * fit, canvas.height * fit)));
+    }
+  }
+
+  const sectionProperties = [
+    '<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/>',
+    `<w:pgSz w:w="${twips(pageWidth)}" w:h="${twips(pageHeight)}"${options.orientation === 'landscape' ? ' w:orient="landscape"' : ''}/>`,
+    `<w:pgMar w:top="${twips(MARGIN_MM)}" w:right="${twips(MARGIN_MM)}" w:bottom="${twips(MARGIN_MM)}" w:left="${twips(MARGIN_MM)}" w:header="${twips(10)}" w:footer="${twips(8)}" w:gutter="0"/>`,
+    '</w:sectPr>'
+  ].join('');
+
+  const documentRels = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+    + '<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>'
+    + media.relationships.join('')
+    + '</Relationships>';
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(CONTENT_TYPES_XML),
+    '_rels/.rels': strToU8(PACKAGE_RELS_XML),
+    'word/document.xml': strToU8(`${XML_HEADER}<w:document ${NAMESPACES}><w:body>${body.join('')}${sectionProperties}</w:body></w:document>`),
+    'word/styles.xml': strToU8(STYLES_XML),
+    'word/footer1.xml': strToU8(footerXml(branding, contentWidth)),
+    'word/_rels/document.xml.rels': strToU8(documentRels),
+    ...media.files
+  };
+  return new Blob([zipSync(files)], { type: DOCX_TYPE });
+};
+
+export const exportMinutesDocx = async (meeting: Meeting, options: MinutesExportOptions, branding: DocumentBranding) => {
+  downloadBlob(await buildMinutesDocx(meeting, options, branding), minutesFileName(meeting, 'docx'));
+};
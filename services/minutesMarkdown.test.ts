@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { buildMinutesMarkdown } from './minutesMarkdown';
+import { DEFAULT_EXPORT_OPTIONS } from './minutes';
+import { meetingFixture } from '../test/fixtures';
+
+const meeting = meetingFixture({
+  name: 'Site meeting #4',
+  attendees: [{ id: 'a1', name: 'Sam Reed', organisation: 'Reed Engineering' }, { id: 'a2', name: '', organisation: '' }],
+  rows: [
+    {
+      id: 'r1',
+      discussion: 'Stair *core* moved\nto grid C',
+      followUp: 'Engineer to confirm\nloads',
+      actions: [
+        { id: 'x1', description: 'Check loads', ownerId: 'a1', dueDate: '2024-03-15', status: 'open', sourceMeetingId: 'm1', sourceRowId: 'r1' },
+        { id: 'x2', description: '', status: 'done', sourceMeetingId: 'm1', sourceRowId: 'r1' }
+      ]
+    },
+    { id: 'r2', discussion: '', carriedOverFromId: 'r0' }
+  ]
+});
+
+const branding = {
+  practice: { name: 'Hale Architects', address: '1 Mill Lane\nBristol', contact: '' },
+  projectName: 'Riverside',
+  details: { projectNumber: '2417', jobName: '', documentReference: 'HA-MIN-004', revision: 'C', distribution: ['Client', 'QS'] }
+};
+
+const readBundle = async (blob: Blob) => unzipSync(new Uint8Array(await blob.arrayBuffer()));
+
+describe('buildMinutesMarkdown', () => {
+  it('writes the minutes as escaped Markdown with the title block and action table', async () => {
+    const files = await readBundle(await buildMinutesMarkdown(meeting, DEFAULT_EXPORT_OPTIONS, branding));
+    expect(Object.keys(files)).toEqual(['minutes.md']);
+    const date = new Date(meeting.dateCreated).toLocaleDateString();
+    expect(strFromU8(files['minutes.md']).split('\n')).toEqual([
+      '**HALE ARCHITECTS**  ',
+      '1 Mill Lane  ',
+      'Bristol  ',
+      '',
+      '# Site meeting \\#4',
+      '',
+      '| Project No. | Job | Document Ref. | Revision | Meeting | Date |',
+      '| --- | --- | --- | --- | --- | --- |',
+      `| 2417 | Riverside | HA-MIN-004 | C | Site meeting \\#4 | ${date} |`,
+      '',
+      '**Distribution:** Client, QS',
+      '',
+      '## Stakeholders',
+      '',
+      '- Sam Reed (Reed Engineering)',
+      '- Anonymous (N/A)',
+      '',
+      '## Meeting Minutes & Actions',
+      '',
+      '### Item 1',
+      '',
+      'Stair \\*core\\* moved  ',
+      'to grid C  ',
+      '',
+      '> **Follow-up:** Engineer to confirm  ',
+      '> loads  ',
+      '',
+      '- [ ] Check loads (Sam Reed, due 2024-03-15, Open)',
+      '- [x] Untitled action (Done)',
+      '',
+      '### Item 2 (carried over)',
+      '',
+      '—  ',
+      '',
+      '## Action Items',
+      '',
+      '| Item | Action | Owner | Due | Status |',
+      '| --- | --- | --- | --- | --- |',
+      '| 1 | Check loads | Sam Reed | 2024-03-15 | Open |',
+      '| 1 | Untitled action | — | — | Done |',
+      '',
+      '---',
+      '',
+      '*Hale Architects · HA-MIN-004 Rev C*',
+      ''
+    ]);
+  });
+
+  it('leaves out the sections that are switched off or empty', async () => {
+    const options = { ...DEFAULT_EXPORT_OPTIONS, attendees: false, actionSummary: false };
+    const files = await readBundle(await buildMinutesMarkdown(meeting, options, { practice: { name: '', address: '', contact: '' }, projectName: 'Riverside' }));
+    const text = strFromU8(files['minutes.md']);
+    expect(text.startsWith('\n# Site meeting \\#4\n')).toBe(true);
+    expect(text).not.toMatch(/Stakeholders|Action Items|Distribution|Scratchpad|---\n\n\*/);
+    expect(text).toMatch(/### Item 1/);
+  });
+});
@@ -0,0 +1,113 @@
+import { zipSync, strToU8 } from 'fflate';
+import { Meeting } from '../types';
+import { ACTION_STATUS_LABELS } from '../constants';
+import { flattenImageMarkup } from '../utils/markup';
+import { flattenWhiteboard } from '../utils/whiteboard';
+import { DocumentBranding, distributionList, documentReference, titleBlockFields } from '../utils/titleBlock';
+import { MinutesExportOptions, actionOwner, canvasBytes, describeAction, describeAttendee, downloadBlob, imageCaption, minutesFileName, pinNotes, renderLogo } from './minutes';
+
+const MINUTES_PATH = 'minutes.md';
+const IMAGE_DIR = 'images/';
+
+/** Escapes the characters that would otherwise start Markdown formatting inside running text. */
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#|<>])/g, '\\$1');
+
+const tableCell = (text: string) => escapeMarkdown(text).replace(/\n/g, '<br>') || '—';
+
+const tableRows = (header: string[], rows: string[][]) => [
+  `| ${header.join(' | ')} |`,
+  `| ${header.map(() => '---').join(' | ')} |`,
+  ...rows.map(cells => `| ${cells.map(tableCell).join(' | ')} |`)
+];
+
+/** Multi-line text as Markdown lines that keep their breaks. */
+const textLines = (text: string) => text.split('\n').map(line => `${escapeMarkdown(line)}  `);
+
+/**
+ * Writes the minutes as a zip holding `minutes.md` and an `images/` folder.
+ * Drawings are exported with their markup flattened in and linked by
+ * relative path, so the bundle reads correctly once unzipped.
+ */
+export const buildMinutesMarkdown = async (meeting: Meeting, options: MinutesExportOptions, branding: DocumentBranding): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {};
+  const lines: string[] = [];
+  const { practice } = branding;
+
+  if (practice.logo) {
+    try {
+      files[`${IMAGE_DIR}logo.png`] = await canvasBytes(await renderLogo(practice.logo), 'image/png');
+      lines.push(`![${escapeMarkdown(practice.name || 'Logo')}](${IMAGE_DIR}logo.png)`, '');
+    } catch (error) {
+      console.warn('Practice logo could not be embedded:', error);
+    }
+  }
+  if (practice.name.trim()) lines.push(`**${escapeMarkdown(practice.name.trim().toUpperCase())}**  `);
+  [practice.address, practice.contact].filter(text => text.trim()).forEach(text => lines.push(...textLines(text.trim())));
+  lines.push('');
+
+  lines.push(`# ${escapeMarkdown(meeting.name)}`, '');
+  const fields = titleBlockFields(branding, meeting);
+  lines.push(...tableRows(fields.map(f => f.label), [fields.map(f => f.value)]), '');
+  const distribution = distributionList(branding.details);
+  if (distribution.length > 0) lines.push(`**Distribution:** ${escapeMarkdown(distribution.join(', '))}`, '');
+
+  if (options.attendees && meeting.attendees.length > 0) {
+    lines.push('## Stakeholders', '');
+    meeting.attendees.forEach(attendee => lines.push(`- ${escapeMarkdown(describeAttendee(attendee))}`));
+    lines.push('');
+  }
+
+  if (options.entries && meeting.rows.length > 0) {
+    lines.push('## Meeting Minutes & Actions', '');
+    for (const [index, row] of meeting.rows.entries()) {
+      lines.push(`### Item ${index + 1}${row.carriedOverFromId ? ' (carried over)' : ''}`, '');
+      lines.push(...textLines(row.discussion || '—'), '');
+      if (row.followUp.trim()) lines.push(`> **Follow-up:** ${textLines(row.followUp.trim()).join('\n> ')}`, '');
+      if (row.actions.length > 0) {
+        row.actions.forEach(action => lines.push(`- [${action.status === 'done' ? 'x' : ' '}] ${escapeMarkdown(describeAction(meeting, action))}`));
+        lines.push('');
+      }
+      for (const [imageIndex, image] of row.images.entries()) {
+        const path = `${IMAGE_DIR}item-${index + 1}-${imageIndex + 1}.jpg`;
+        files[path] = await canvasBytes(await flattenImageMarkup(image, 2000, 'exported'), 'image/jpeg', 0.85);
+        const caption = imageCaption(image);
+        lines.push(`![${escapeMarkdown(caption || `Item ${index + 1} drawing ${imageIndex + 1}`)}](${path})`, '');
+        if (caption) lines.push(`*${escapeMarkdown(caption)}*`, '');
+        const pins = pinNotes(image, meeting.rows);
+        if (pins.length > 0) lines.push(...pins.map(pin => `- ${escapeMarkdown(pin)}`), '');
+      }
+    }
+  }
+
+  if (options.actionSummary && meeting.rows.some(row => row.actions.length > 0)) {
+    lines.push('## Action Items', '');
+    lines.push(...tableRows(['Item', 'Action', 'Owner', 'Due', 'Status'], meeting.rows.flatMap((row, index) => row.actions.map(action => [
+      String(index + 1),
+      action.description || 'Untitled action',
+      actionOwner(meeting, action) || '—',
+      action.dueDate || '—',
+      ACTION_STATUS_LABELS[action.status]
+    ]))), '');
+  }
+
+  if (options.whiteboard) {
+    for (const [index, board] of meeting.whiteboards.entries()) {
+      const canvas = await flattenWhiteboard(board);
+      if (!canvas) continue;
+      const path = `${IMAGE_DIR}scratchpad-${index + 1}.png`;
+      files[path] = await canvasBytes(canvas, 'image/png');
+      lines.push(`## Project Scratchpad — ${escapeMarkdown(board.name)}`, '', `![${escapeMarkdown(board.name)}](${path})`, '');
+    }
+  }
+
+  const issuer = [practice.name.trim(), documentReference(branding.details)].filter(Boolean).join(' · ');
+  if (issuer) lines.push('---', '', `*${escapeMarkdown(issuer)}*`, '');
+
+  files[MINUTES_PATH] = strToU8(lines.join('\n'));
+  // Images are already compressed; deflating them again only costs time.
+  return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' });
+};
+
+export const exportMinutesMarkdown = async (meeting: Meeting, options: MinutesExportOptions, branding: DocumentBranding) => {
+  downloadBlob(await buildMinutesMarkdown(meeting, options, branding), minutesFileName(meeting, 'md.zip'));
+};
@@ -0,0 +1,379 @@
+import { jsPDF } from 'jspdf';
+import { Meeting, NoteImage, NoteRow } from '../types';
+import { ACTION_STATUS_LABELS } from '../constants';
+import { flattenImageMarkup } from '../utils/markup';
+import { DocumentBranding, distributionList, documentReference, titleBlockFields } from '../utils/titleBlock';
+import { flattenWhiteboard } from '../utils/whiteboard';
+import { MinutesExportOptions, actionOwner, describeAction, describeAttendee, imageCaption, minutesFileName, pinNotes, renderLogo } from './minutes';
+
+const MARGIN = 20;
+const FOOTER_SPACE = 18;
+const COLUMN_GAP = 8;
+const ROW_GAP = 10;
+const IMAGE_GAP = 4;
+const EMERALD: [number, number, number] = [80, 200, 120];
+
+type TextStyle = { font: 'normal' | 'bold' | 'italic'; size: number; color: number | [number, number, number]; lineHeight: number };
+
+const STYLES = {
+  heading: { font: 'bold', size: 11, color: 80, lineHeight: 6 },
+  item: { font: 'bold', size: 8, color: EMERALD, lineHeight: 5 },
+  body: { font: 'normal', size: 10, color: 30, lineHeight: 5 },
+  followUp: { font: 'italic', size: 10, color: 100, lineHeight: 5 },
+  action: { font: 'normal', size: 9, color: 60, lineHeight: 4.5 },
+  caption: { font: 'normal', size: 7, color: 120, lineHeight: 3.5 },
+  pin: { font: 'normal', size: 8, color: 60, lineHeight: 4 },
+  tableHead: { font: 'bold', size: 8, color: 60, lineHeight: 4 },
+  practice: { font: 'bold', size: 13, color: 30, lineHeight: 6 },
+  address: { font: 'normal', size: 8, color: 100, lineHeight: 3.8 },
+  fieldLabel: { font: 'normal', size: 6.5, color: 130, lineHeight: 3 },
+  fieldValue: { font: 'bold', size: 9, color: 30, lineHeight: 4.5 },
+  table: { font: 'normal', size: 8, color: 40, lineHeight: 4 }
+} satisfies Record<string, TextStyle>;
+
+const applyStyle = (doc: jsPDF, style: TextStyle) => {
+  doc.setFont('helvetica', style.font);
+  doc.setFontSize(style.size);
+  if (Array.isArray(style.color)) doc.setTextColor(...style.color);
+  else doc.setTextColor(style.color);
+};
+
+const wrap = (doc: jsPDF, style: TextStyle, text: string, width: number): string[] => {
+  applyStyle(doc, style);
+  return doc.splitTextToSize(text, width);
+};
+
+/**
+ * Tracks the write position on the current page. Blocks ask for the space
+ * they need up front, so a block that does not fit starts on a fresh page
+ * instead of being cut in two.
+ */
+const createLayout = (doc: jsPDF) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const layout = {
+    doc,
+    pageWidth,
+    pageHeight,
+    left: MARGIN,
+    contentWidth: pageWidth - MARGIN * 2,
+    top: MARGIN,
+    bottom: pageHeight - FOOTER_SPACE,
+    y: MARGIN,
+    newPage: () => {
+      doc.addPage();
+      layout.y = layout.top;
+    },
+    // Starts a new page unless `height` fits below the current position; a block taller than a whole page starts at the top.
+    reserve: (height: number) => {
+      if (layout.y + height > layout.bottom && layout.y > layout.top) layout.newPage();
+    },
+    lines: (lines: string[], style: TextStyle) => {
+      applyStyle(doc, style);
+      lines.forEach(line => {
+        if (layout.y + style.lineHeight > layout.bottom) {
+          layout.newPage();
+          applyStyle(doc, style);
+        }
+        doc.text(line, layout.left, layout.y + style.lineHeight * 0.75);
+        layout.y += style.lineHeight;
+      });
+    }
+  };
+  return layout;
+};
+
+type Layout = ReturnType<typeof createLayout>;
+
+interface PreparedImage {
+  data: string;
+  aspect: number; // height / width
+  captions: string[];
+  pins: string[];
+}
+
+const prepareImage = async (image: NoteImage, rows: NoteRow[]): Promise<PreparedImage> => {
+  const canvas = await flattenImageMarkup(image, 2000, 'exported');
+  const caption = imageCaption(image);
+  return {
+    data: canvas.toDataURL('image/jpeg', 0.85),
+    aspect: canvas.height / canvas.width,
+    captions: caption ? [caption] : [],
+    pins: pinNotes(image, rows)
+  };
+};
+
+/**
+ * One minute row: the discussion, follow-up and actions on the left and the
+ * row's drawings, markup flattened in, on the right. The row is kept on one
+ * page; its images shrink if they alone would overflow a page.
+ */
+const drawRow = async (layout: Layout, meeting: Meeting, row: NoteRow, index: number) => {
+  const { doc } = layout;
+  const images = await Promise.all(row.images.map(image => prepareImage(image, meeting.rows)));
+  const imageWidth = images.length > 0 ? layout.contentWidth * 0.42 : 0;
+  const textWidth = images.length > 0 ? layout.contentWidth - imageWidth - COLUMN_GAP : layout.contentWidth;
+
+  const discussion = wrap(doc, STYLES.body, row.discussion || '—', textWidth);
+  const followUp = row.followUp.trim() ? wrap(doc, STYLES.followUp, `FOLLOW-UP: ${row.followUp.trim()}`, textWidth) : [];
+  const actions = row.actions.flatMap(action => wrap(doc, STYLES.action, `• ${describeAction(meeting, action)}`, textWidth));
+  const textHeight = STYLES.item.lineHeight
+    + discussion.length * STYLES.body.lineHeight
+    + (followUp.length > 0 ? 2 + followUp.length * STYLES.followUp.lineHeight : 0)
+    + (actions.length > 0 ? 2 + actions.length * STYLES.action.lineHeight : 0);
+
+  const captions = images.map(image => ({
+    captions: image.captions.flatMap(caption => wrap(doc, STYLES.caption, caption, imageWidth)),
+    pins: image.pins.flatMap(pin => wrap(doc, STYLES.pin, pin, imageWidth))
+  }));
+  const captionHeight = captions.reduce((sum, c) => sum + c.captions.length * STYLES.caption.lineHeight + c.pins.length * STYLES.pin.lineHeight + IMAGE_GAP, 0);
+  const naturalImageHeight = images.reduce((sum, image) => sum + imageWidth * image.aspect, 0);
+  const pageSpace = layout.bottom - layout.top - ROW_GAP;
+  const shrink = naturalImageHeight > 0 ? Math.min(1, Math.max(pageSpace - captionHeight, pageSpace * 0.5) / naturalImageHeight) : 1;
+  const imageColumnHeight = naturalImageHeight * shrink + captionHeight;
+
+  layout.reserve(Math.max(textHeight, imageColumnHeight) + ROW_GAP);
+  const rowTop = layout.y;
+  const pageAtTop = doc.getCurrentPageInfo().pageNumber;
+
+  let imageY = rowTop;
+  images.forEach((image, i) => {
+    const width = imageWidth * shrink;
+    const height = width * image.aspect;
+    const x = layout.left + layout.contentWidth - width;
+    doc.addImage(image.data, 'JPEG', x, imageY, width, height);
+    doc.setDrawColor(220);
+    doc.rect(x, imageY, width, height);
+    imageY += height + 1.5;
+    const { captions: captionLines, pins } = captions[i];
+    applyStyle(doc, STYLES.caption);
+    captionLines.forEach(line => {
+      doc.text(line, layout.left + layout.contentWidth - imageWidth, imageY + STYLES.caption.lineHeight * 0.75);
+      imageY += STYLES.caption.lineHeight;
+    });
+    applyStyle(doc, STYLES.pin);
+    pins.forEach(line => {
+      doc.text(line, layout.left + layout.contentWidth - imageWidth, imageY + STYLES.pin.lineHeight * 0.75);
+      imageY += STYLES.pin.lineHeight;
+    });
+    imageY += IMAGE_GAP;
+  });
+
+  layout.lines([`ITEM ${index + 1}${row.carriedOverFromId ? '  (CARRIED OVER)' : ''}`], STYLES.item);
+  layout.lines(discussion, STYLES.body);
+  if (followUp.length > 0) {
+    layout.y += 2;
+    layout.lines(followUp, STYLES.followUp);
+  }
+  if (actions.length > 0) {
+    layout.y += 2;
+    layout.lines(actions, STYLES.action);
+  }
+
+  // Only text longer than a page can have moved on; the images stayed with the row's first page.
+  if (doc.getCurrentPageInfo().pageNumber === pageAtTop) layout.y = Math.max(layout.y, imageY - IMAGE_GAP);
+  layout.y += ROW_GAP / 2;
+  doc.setDrawColor(230);
+  doc.line(layout.left, layout.y, layout.left + layout.contentWidth, layout.y);
+  layout.y += ROW_GAP / 2;
+};
+
+const TABLE_COLUMNS = [
+  { label: 'ITEM', share: 0.09 },
+  { label: 'ACTION', share: 0.46 },
+  { label: 'OWNER', share: 0.2 },
+  { label: 'DUE', share: 0.12 },
+  { label: 'STATUS', share: 0.13 }
+];
+
+/** Every action in the meeting as a table, with the header repeated on each page it runs onto. */
+const drawActionSummary = (layout: Layout, meeting: Meeting) => {
+  const { doc } = layout;
+  const entries = meeting.rows.flatMap((row, index) => row.actions.map(action => ({ action, index })));
+  if (entries.length === 0) return;
+
+  const widths = TABLE_COLUMNS.map(c => c.share * layout.contentWidth);
+  const padding = 2;
+  const drawHeader = () => {
+    doc.setFillColor(240, 240, 240);
+    doc.rect(layout.left, layout.y, layout.contentWidth, 7, 'F');
+    applyStyle(doc, STYLES.tableHead);
+    let x = layout.left;
+    TABLE_COLUMNS.forEach((column, i) => {
+      doc.text(column.label, x + padding, layout.y + 4.8);
+      x += widths[i];
+    });
+    layout.y += 7;
+  };
+
+  layout.reserve(STYLES.heading.lineHeight + 4 + 7 + 10);
+  layout.lines(['ACTION ITEMS'], STYLES.heading);
+  layout.y += 2;
+  drawHeader();
+
+  entries.forEach(({ action, index }) => {
+    const cells = [
+      String(index + 1),
+      action.description || 'Untitled action',
+      actionOwner(meeting, action) || '—',
+      action.dueDate || '—',
+      ACTION_STATUS_LABELS[action.status]
+    ].map((text, i) => wrap(doc, STYLES.table, text, widths[i] - padding * 2));
+    const height = Math.max(...cells.map(lines => lines.length)) * STYLES.table.lineHeight + padding * 2;
+    if (layout.y + height > layout.bottom) {
+      layout.newPage();
+      drawHeader();
+    }
+    applyStyle(doc, STYLES.table);
+    let x = layout.left;
+    cells.forEach((lines, i) => {
+      doc.text(lines, x + padding, layout.y + padding + STYLES.table.lineHeight * 0.75);
+      x += widths[i];
+    });
+    layout.y += height;
+    doc.setDrawColor(225);
+    doc.line(layout.left, layout.y, layout.left + layout.contentWidth, layout.y);
+  });
+  layout.y += ROW_GAP;
+};
+
+const drawBoards = async (layout: Layout, meeting: Meeting) => {
+  const { doc } = layout;
+  for (const board of meeting.whiteboards) {
+    const canvas = await flattenWhiteboard(board);
+    if (!canvas) continue;
+    layout.newPage();
+    layout.lines([`PROJECT SCRATCHPAD — ${board.name.toUpperCase()}`], STYLES.heading);
+    layout.y += 4;
+    const maxHeight = layout.bottom - layout.y;
+    const fit = Math.min(layout.contentWidth / canvas.width, maxHeight / canvas.height);
+    doc.addImage(canvas.toDataURL('image/png'), 'PNG', layout.left, layout.y, canvas.width * fit, canvas.height * fit);
+  }
+};
+
+const LOGO_MAX_WIDTH = 45;
+const LOGO_MAX_HEIGHT = 20;
+const FIELD_COLUMNS = 3;
+const FIELD_HEIGHT = 11;
+
+/**
+ * The first-page title block: logo and practice address across the top, the
+ * project and document fields in a ruled grid, then the distribution list.
+ */
+const drawTitleBlock = async (layout: Layout, meeting: Meeting, branding: DocumentBranding) => {
+  const { doc } = layout;
+  const { practice } = branding;
+
+  let logoHeight = 0;
+  let practiceLeft = layout.left;
+  if (practice.logo) {
+    try {
+      const logo = await renderLogo(practice.logo);
+      const aspect = logo.height / logo.width;
+      const width = Math.min(LOGO_MAX_WIDTH, LOGO_MAX_HEIGHT / aspect);
+      logoHeight = width * aspect;
+      doc.addImage(logo.toDataURL('image/png'), 'PNG', layout.left, layout.y, width, logoHeight);
+      practiceLeft += width + COLUMN_GAP;
+    } catch (error) {
+      console.warn('Practice logo could not be drawn:', error);
+    }
+  }
+
+  const practiceWidth = layout.left + layout.contentWidth - practiceLeft;
+  const practiceLines = [
+    ...(practice.name.trim() ? wrap(doc, STYLES.practice, practice.name.trim().toUpperCase(), practiceWidth).map(text => ({ text, style: STYLES.practice })) : []),
+    ...[practice.address, practice.contact]
+      .flatMap(text => text.split('\n'))
+      .map(text => text.trim())
+      .filter(Boolean)
+      .flatMap(text => wrap(doc, STYLES.address, text, practiceWidth).map(line => ({ text: line, style: STYLES.address })))
+  ];
+  let textY = layout.y;
+  practiceLines.forEach(({ text, style }) => {
+    applyStyle(doc, style);
+    doc.text(text, practiceLeft, textY + style.lineHeight * 0.75);
+    textY += style.lineHeight;
+  });
+  layout.y = Math.max(layout.y + logoHeight, textY) + 4;
+
+  doc.setDrawColor(...EMERALD);
+  doc.setLineWidth(0.8);
+  doc.line(layout.left, layout.y, layout.left + layout.contentWidth, layout.y);
+  doc.setLineWidth(0.2);
+
+  const fields = titleBlockFields(branding, meeting);
+  const cellWidth = layout.contentWidth / FIELD_COLUMNS;
+  doc.setDrawColor(210);
+  fields.forEach((field, i) => {
+    const x = layout.left + (i % FIELD_COLUMNS) * cellWidth;
+    const y = layout.y + Math.floor(i / FIELD_COLUMNS) * FIELD_HEIGHT;
+    doc.rect(x, y, cellWidth, FIELD_HEIGHT);
+    applyStyle(doc, STYLES.fieldLabel);
+    doc.text(field.label.toUpperCase(), x + 2, y + 3.5);
+    const [value] = wrap(doc, STYLES.fieldValue, field.value || '—', cellWidth - 4);
+    doc.text(value, x + 2, y + 8.5);
+  });
+  layout.y += Math.ceil(fields.length / FIELD_COLUMNS) * FIELD_HEIGHT + 4;
+
+  const distribution = distributionList(branding.details);
+  if (distribution.length > 0) {
+    layout.lines(wrap(doc, STYLES.action, `DISTRIBUTION: ${distribution.join(', ')}`, layout.contentWidth), STYLES.action);
+    layout.y += 2;
+  }
+  layout.y += 4;
+};
+
+/** Practice name, page count and document reference along the foot of every page. */
+const drawFooters = (layout: Layout, branding: DocumentBranding) => {
+  const { doc } = layout;
+  const totalPages = doc.getNumberOfPages();
+  const y = layout.pageHeight - 10;
+  const reference = documentReference(branding.details);
+  for (let page = 1; page <= totalPages; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(230);
+    doc.line(layout.left, y - 5, layout.left + layout.contentWidth, y - 5);
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    if (branding.practice.name.trim()) doc.text(branding.practice.name.trim(), layout.left, y);
+    doc.text(`Page ${page} of ${totalPages}`, layout.pageWidth / 2, y, { align: 'center' });
+    if (reference) doc.text(reference, layout.left + layout.contentWidth, y, { align: 'right' });
+  }
+};
+
+/** Lays out a meeting's minutes as a PDF on the chosen paper, under the practice's title block. */
+export const buildMinutesPdf = async (meeting: Meeting, options: MinutesExportOptions, branding: DocumentBranding): Promise<jsPDF> => {
+  const doc = new jsPDF(options.orientation === 'landscape' ? 'l' : 'p', 'mm', options.paper);
+  const layout = createLayout(doc);
+
+  await drawTitleBlock(layout, meeting, branding);
+
+  if (options.attendees && meeting.attendees.length > 0) {
+    layout.lines(['STAKEHOLDERS'], STYLES.heading);
+    const attendeeText = meeting.attendees.map(describeAttendee).join(', ');
+    layout.lines(wrap(doc, STYLES.action, attendeeText, layout.contentWidth), STYLES.action);
+    layout.y += 8;
+  }
+
+  if (options.entries) {
+    layout.lines(['MEETING MINUTES & ACTIONS'], STYLES.heading);
+    doc.setDrawColor(230);
+    doc.line(layout.left, layout.y, layout.left + layout.contentWidth, layout.y);
+    layout.y += 6;
+    for (const [index, row] of meeting.rows.entries()) {
+      await drawRow(layout, meeting, row, index);
+    }
+  }
+
+  if (options.actionSummary) drawActionSummary(layout, meeting);
+  if (options.whiteboard) await drawBoards(layout, meeting);
+
+  drawFooters(layout, branding);
+  return doc;
+};
+
+export const exportMinutesPdf = async (meeting: Meeting, options: MinutesExportOptions, branding: DocumentBranding) => {
+  const doc = await buildMinutesPdf(meeting, options, branding);
+  doc.save(minutesFileName(meeting, 'pdf'));
+};
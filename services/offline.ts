@@ -0,0 +1,13 @@
+/**
+ * Registers the service worker that lets the installed app start offline.
+ * Only production builds have one: in development Vite serves modules that
+ * must not be cached.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./service-worker.js').catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+};
@@ -0,0 +1,56 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import pdfWorkerSrc from 'pdfjs-dist/build/pdf.worker.min.js?url';
+
+const PAGE_RENDER_SCALE = 2.5;
+const MAX_PAGE_DIMENSION = 4096;
+
+// pdf.js is large and only needed once a PDF is opened, so it is split into its own chunk.
+const loadPdfJs = async () => {
+  const pdfjsLib = await import('pdfjs-dist');
+  pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerSrc;
+  return pdfjsLib;
+};
+
+export type PdfDocument = PDFDocumentProxy;
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf';
+
+export const loadPdfDocument = async (file: File): Promise<PdfDocument> => {
+  const pdfjsLib = await loadPdfJs();
+  const arrayBuffer = await file.arrayBuffer();
+  return pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+};
+
+const renderToCanvas = async (page: PDFPageProxy, scale: number) => {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not create canvas context');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+};
+
+/**
+ * Renders one page at attachment quality as a lossless PNG, which is stored
+ * as it is so fine linework stays sharp. Large sheets (A1/A0 drawings) are
+ * scaled down so neither side exceeds MAX_PAGE_DIMENSION pixels.
+ */
+export const renderPdfPage = async (pdf: PdfDocument, pageNumber: number): Promise<Blob> => {
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const scale = Math.min(PAGE_RENDER_SCALE, MAX_PAGE_DIMENSION / Math.max(base.width, base.height));
+  const canvas = await renderToCanvas(page, scale);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Could not encode page ${pageNumber}`))), 'image/png');
+  });
+};
+
+/** Renders a page so that its longest side is `maxSize` pixels, for picker thumbnails. */
+export const renderPdfThumbnail = async (pdf: PdfDocument, pageNumber: number, maxSize = 240): Promise<string> => {
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const canvas = await renderToCanvas(page, maxSize / Math.max(base.width, base.height));
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
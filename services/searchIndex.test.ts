@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { createSearchIndex } from './searchIndex';
+import { meetingFixture, projectFixture } from '../test/fixtures';
+
+interface RowText {
+  id: string;
+  discussion?: string;
+  followUp?: string;
+  actions?: string[];
+}
+
+const meeting = (id: string, rows: RowText[], attendees: { name: string; organisation: string }[] = []) => meetingFixture({
+  id,
+  name: `Meeting ${id}`,
+  attendees: attendees.map((attendee, i) => ({ id: `${id}-a${i}`, ...attendee })),
+  rows: rows.map(row => ({
+    ...row,
+    actions: (row.actions || []).map((description, i) => ({ id: `${row.id}-a${i}`, description, status: 'open', sourceMeetingId: id, sourceRowId: row.id }))
+  }))
+});
+
+const keys = (results: ReturnType<ReturnType<typeof createSearchIndex>['search']>) =>
+  results.map(result => `${result.meetingId}/${result.rowId ?? '-'}/${result.field}`).sort();
+
+describe('createSearchIndex', () => {
+  it('matches earlier terms exactly and the last term as a prefix', () => {
+    const index = createSearchIndex();
+    index.sync([projectFixture([meeting('m1', [
+      { id: 'r1', discussion: 'Stair core moved north' },
+      { id: 'r2', discussion: 'Stairwell lighting', followUp: 'Stair nosings to be confirmed' }
+    ])])]);
+
+    expect(keys(index.search('stair'))).toEqual(['m1/r1/discussion', 'm1/r2/discussion', 'm1/r2/followUp']);
+    expect(keys(index.search('stair co'))).toEqual(['m1/r1/discussion', 'm1/r2/followUp']);
+    expect(keys(index.search('stai core'))).toEqual([]);
+    expect(index.search('zz')).toEqual([]);
+    expect(index.search('  ')).toEqual([]);
+  });
+
+  it('finds actions, attendees and organisations', () => {
+    const index = createSearchIndex();
+    index.sync([projectFixture([meeting('m1', [{ id: 'r1', actions: ['Issue revised marlow drawings'] }], [{ name: 'Ines Marlow', organisation: 'Marlow Structures' }])])]);
+
+    expect(keys(index.search('marlow'))).toEqual(['m1/-/attendee', 'm1/-/organisation', 'm1/r1/action']);
+  });
+
+  it('ranks a phrase match first and highlights the matched terms', () => {
+    const index = createSearchIndex();
+    index.sync([projectFixture([meeting('m1', [
+      { id: 'r1', discussion: 'Roof drainage and roof lights' },
+      { id: 'r2', discussion: 'Drainage for the roof terrace' }
+    ])])]);
+
+    const [first, second] = index.search('roof drainage');
+    expect(first.rowId).toBe('r1');
+    expect(first.score).toBeGreaterThan(second.score);
+    expect(first.snippet).toEqual([
+      { text: 'Roof', highlight: true },
+      { text: ' ', highlight: false },
+      { text: 'drainage', highlight: true },
+      { text: ' and ', highlight: false },
+      { text: 'roof', highlight: true },
+      { text: ' lights', highlight: false }
+    ]);
+  });
+
+  it('re-indexes changed meetings and forgets removed ones', () => {
+    const index = createSearchIndex();
+    const original = meeting('m1', [{ id: 'r1', discussion: 'Cladding samples' }]);
+    const other = meeting('m2', [{ id: 'r2', discussion: 'Cladding fixings' }]);
+    index.sync([projectFixture([original, other])]);
+    expect(keys(index.search('clad'))).toEqual(['m1/r1/discussion', 'm2/r2/discussion']);
+
+    const edited = { ...original, rows: [{ ...original.rows[0], discussion: 'Brick samples' }] };
+    index.sync([projectFixture([edited, other])]);
+    expect(keys(index.search('clad'))).toEqual(['m2/r2/discussion']);
+    expect(keys(index.search('bri'))).toEqual(['m1/r1/discussion']);
+
+    index.sync([projectFixture([edited])]);
+    expect(index.search('clad')).toEqual([]);
+    expect(index.search('fixings')).toEqual([]);
+  });
+
+  it('keeps prefix ranges correct as terms come and go around them', () => {
+    const index = createSearchIndex();
+    const words = ['beam', 'bea', 'beams', 'bead', 'bed', 'be', 'ab', 'beb'];
+    const meetings = words.map((word, i) => meeting(`m${i}`, [{ id: `r${i}`, discussion: word }]));
+    index.sync([projectFixture(meetings)]);
+    expect(keys(index.search('bea')).map(key => key.split('/')[0])).toEqual(['m0', 'm1', 'm2', 'm3']);
+
+    index.sync([projectFixture(meetings.filter((_, i) => i !== 1 && i !== 3))]);
+    expect(keys(index.search('bea')).map(key => key.split('/')[0])).toEqual(['m0', 'm2']);
+    expect(keys(index.search('be')).map(key => key.split('/')[0])).toEqual(['m0', 'm2', 'm4', 'm5', 'm7']);
+  });
+});
@@ -0,0 +1,183 @@
+import { ProjectGroup, Meeting } from '../types';
+
+export type SearchField = 'discussion' | 'followUp' | 'action' | 'attendee' | 'organisation';
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  projectId: string;
+  meetingId: string;
+  rowId?: string;
+  field: SearchField;
+  snippet: SnippetPart[];
+  score: number;
+}
+
+interface IndexedDocument {
+  key: string;
+  projectId: string;
+  meetingId: string;
+  rowId?: string;
+  field: SearchField;
+  text: string;
+  tokens: string[];
+}
+
+const SNIPPET_RADIUS = 60;
+const MAX_RESULTS = 50;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const tokenize = (text: string) => (text.toLowerCase().match(TOKEN_PATTERN) || []) as string[];
+
+// Index of the first entry in sorted `terms` that is not less than `term`.
+const lowerBound = (terms: string[], term: string) => {
+  let low = 0;
+  let high = terms.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (terms[mid] < term) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const meetingDocuments = (projectId: string, meeting: Meeting): Omit<IndexedDocument, 'tokens'>[] => {
+  const docs: Omit<IndexedDocument, 'tokens'>[] = [];
+  const base = { projectId, meetingId: meeting.id };
+  meeting.rows.forEach(row => {
+    if (row.discussion) docs.push({ ...base, key: `${row.id}:discussion`, rowId: row.id, field: 'discussion', text: row.discussion });
+    if (row.followUp) docs.push({ ...base, key: `${row.id}:followUp`, rowId: row.id, field: 'followUp', text: row.followUp });
+    row.actions.forEach(action => {
+      if (action.description) docs.push({ ...base, key: `${row.id}:action:${action.id}`, rowId: row.id, field: 'action', text: action.description });
+    });
+  });
+  meeting.attendees.forEach(att => {
+    if (att.name) docs.push({ ...base, key: `${meeting.id}:attendee:${att.id}`, field: 'attendee', text: att.name });
+  });
+  Array.from(new Set<string>(meeting.attendees.map(a => a.organisation?.trim()).filter(Boolean))).forEach(org => {
+    docs.push({ ...base, key: `${meeting.id}:organisation:${org}`, field: 'organisation', text: org });
+  });
+  return docs;
+};
+
+/** Splits `text` into plain and highlighted parts around the first match, trimmed to a window. */
+const buildSnippet = (text: string, terms: string[]): SnippetPart[] => {
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  const first = text.search(pattern);
+  const start = first > SNIPPET_RADIUS ? text.lastIndexOf(' ', first - SNIPPET_RADIUS) + 1 : 0;
+  const endSpace = text.indexOf(' ', Math.max(first, 0) + SNIPPET_RADIUS * 2);
+  const end = endSpace === -1 ? text.length : endSpace;
+  const window = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  return window
+    .split(pattern)
+    .filter(part => part !== '')
+    .map(part => ({ text: part, highlight: terms.some(term => part.toLowerCase() === term) }));
+};
+
+/**
+ * An inverted index over meeting content. `sync` re-indexes only meetings
+ * whose object identity changed since the last call, so keeping the index
+ * current while typing costs one meeting's worth of work.
+ */
+export const createSearchIndex = () => {
+  const documents = new Map<string, IndexedDocument>();
+  const postings = new Map<string, Set<string>>();
+  const documentsByMeeting = new Map<string, string[]>();
+  const indexedMeetings = new Map<string, Meeting>();
+  // Every token in `postings`, kept sorted so a prefix is one contiguous range.
+  const sortedTerms: string[] = [];
+
+  const removeMeeting = (meetingId: string) => {
+    (documentsByMeeting.get(meetingId) || []).forEach(key => {
+      const doc = documents.get(key);
+      doc?.tokens.forEach(token => {
+        const set = postings.get(token);
+        set?.delete(key);
+        if (set && set.size === 0) {
+          postings.delete(token);
+          sortedTerms.splice(lowerBound(sortedTerms, token), 1);
+        }
+      });
+      documents.delete(key);
+    });
+    documentsByMeeting.delete(meetingId);
+    indexedMeetings.delete(meetingId);
+  };
+
+  const addMeeting = (projectId: string, meeting: Meeting) => {
+    const keys: string[] = [];
+    meetingDocuments(projectId, meeting).forEach(partial => {
+      const doc = { ...partial, tokens: Array.from(new Set(tokenize(partial.text))) };
+      documents.set(doc.key, doc);
+      keys.push(doc.key);
+      doc.tokens.forEach(token => {
+        if (!postings.has(token)) {
+          postings.set(token, new Set());
+          sortedTerms.splice(lowerBound(sortedTerms, token), 0, token);
+        }
+        postings.get(token)!.add(doc.key);
+      });
+    });
+    documentsByMeeting.set(meeting.id, keys);
+    indexedMeetings.set(meeting.id, meeting);
+  };
+
+  const sync = (projects: ProjectGroup[]) => {
+    const seen = new Set<string>();
+    projects.forEach(project => project.meetings.forEach(meeting => {
+      seen.add(meeting.id);
+      if (indexedMeetings.get(meeting.id) === meeting) return;
+      removeMeeting(meeting.id);
+      addMeeting(project.id, meeting);
+    }));
+    Array.from(indexedMeetings.keys()).filter(id => !seen.has(id)).forEach(removeMeeting);
+  };
+
+  // The last query term matches as a prefix so results appear while typing.
+  const matchingKeys = (term: string, isPrefix: boolean) => {
+    if (!isPrefix) return postings.get(term) || new Set<string>();
+    const keys = new Set<string>();
+    for (let i = lowerBound(sortedTerms, term); i < sortedTerms.length && sortedTerms[i].startsWith(term); i++) {
+      postings.get(sortedTerms[i])!.forEach(key => keys.add(key));
+    }
+    return keys;
+  };
+
+  const search = (query: string): SearchResult[] => {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+
+    let candidates: Set<string> | null = null;
+    terms.forEach((term, i) => {
+      const keys = matchingKeys(term, i === terms.length - 1);
+      candidates = candidates ? new Set([...candidates].filter(key => keys.has(key))) : new Set(keys);
+    });
+
+    const phrase = terms.join(' ');
+    const results: SearchResult[] = [];
+    (candidates as Set<string> | null)?.forEach(key => {
+      const doc = documents.get(key)!;
+      const lower = doc.text.toLowerCase();
+      const score = (lower.includes(phrase) ? 10 : 0) + terms.filter(term => doc.tokens.includes(term)).length;
+      results.push({
+        projectId: doc.projectId,
+        meetingId: doc.meetingId,
+        rowId: doc.rowId,
+        field: doc.field,
+        snippet: buildSnippet(doc.text, terms),
+        score
+      });
+    });
+    return results.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS);
+  };
+
+  return { sync, search };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -0,0 +1,125 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateProjectTree } from './migrations';
+import { meetingFixture, projectFixture } from '../test/fixtures';
+
+const LEGACY_KEY = 'archi_notes_v1';
+
+// Node has no localStorage; the legacy import only needs get, set and remove.
+const legacyStore = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => legacyStore.get(key) ?? null,
+  setItem: (key: string, value: string) => legacyStore.set(key, value),
+  removeItem: (key: string) => legacyStore.delete(key)
+});
+
+// Each test starts a fresh app session against a fresh database.
+const loadStorage = async () => {
+  vi.resetModules();
+  return import('./storage');
+};
+
+// A fresh, empty browser: no legacy key and no database yet.
+const resetBrowser = () => {
+  legacyStore.clear();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+};
+
+const editRecord = (store: string, id: string, edit: (record: Record<string, unknown>) => void) => new Promise<void>((resolve, reject) => {
+  const open = indexedDB.open('archinotes');
+  open.onerror = () => reject(open.error);
+  open.onsuccess = () => {
+    const db = open.result;
+    const tx = db.transaction(store, 'readwrite');
+    const request = tx.objectStore(store).get(id);
+    request.onsuccess = () => {
+      const record = request.result;
+      edit(record);
+      tx.objectStore(store).put(record);
+    };
+    tx.oncomplete = () => { db.close(); resolve(); };
+    tx.onerror = () => reject(tx.error);
+  };
+});
+
+// A meeting as the first release stored it, before schemaVersion existed.
+const legacyMeeting = (id: string, discussion: string) => ({
+  id,
+  name: `Meeting ${id}`,
+  dateCreated: '2024-03-01T10:00:00.000Z',
+  rows: [{ id: `${id}-r1`, discussion }]
+});
+
+describe('loadProjects', () => {
+  beforeEach(resetBrowser);
+
+  it('returns null on the first run and an empty list once every project is gone', async () => {
+    const first = await loadStorage();
+    expect(await first.loadProjects()).toBeNull();
+
+    const next = await loadStorage();
+    expect(await next.loadProjects()).toEqual([]);
+  });
+
+  it('copies legacy data into the database, migrated, and clears the old key', async () => {
+    const legacy = { id: 'p1', name: 'Riverside', meetings: [legacyMeeting('m1', 'Site access')] };
+    legacyStore.set(LEGACY_KEY, JSON.stringify([legacy]));
+    const first = await loadStorage();
+    expect(await first.loadProjects()).toEqual([migrateProjectTree(legacy)]);
+    expect(legacyStore.has(LEGACY_KEY)).toBe(false);
+
+    const next = await loadStorage();
+    expect(await next.loadProjects()).toEqual([migrateProjectTree(legacy)]);
+  });
+
+  it('quarantines invalid legacy documents and imports the rest', async () => {
+    legacyStore.set(LEGACY_KEY, JSON.stringify([
+      { id: 'p1', name: 'Riverside', meetings: [legacyMeeting('m1', 'Site access'), { id: 'm2', name: 'No date' }] },
+      { id: 'p2' }
+    ]));
+    const storage = await loadStorage();
+
+    const projects = await storage.loadProjects();
+    expect(projects?.map(p => p.id)).toEqual(['p1']);
+    expect(projects?.[0].meetings.map(m => [m.id, m.schemaVersion])).toEqual([['m1', CURRENT_SCHEMA_VERSION]]);
+    expect(legacyStore.has(LEGACY_KEY)).toBe(false);
+
+    const quarantined = await storage.listQuarantined();
+    expect(quarantined.map(entry => [entry.kind, entry.id]).sort()).toEqual([['meeting', 'm2'], ['project', 'p2']]);
+    expect(quarantined.find(entry => entry.id === 'm2')?.reason).toMatch(/dateCreated/);
+  });
+
+  it('quarantines a stored meeting written by a newer version and keeps loading the rest', async () => {
+    const writer = await loadStorage();
+    await writer.loadProjects();
+    await writer.persistProjectChanges([], [projectFixture([meetingFixture({ id: 'm1' }), meetingFixture({ id: 'm2' })])]);
+    await editRecord('meetings', 'm2', record => { record.schemaVersion = CURRENT_SCHEMA_VERSION + 1; });
+
+    const reader = await loadStorage();
+    const projects = await reader.loadProjects();
+    expect(projects?.[0].meetings.map(m => m.id)).toEqual(['m1']);
+    const [entry] = await reader.listQuarantined();
+    expect(entry).toMatchObject({ kind: 'meeting', id: 'm2', projectId: 'p1' });
+    expect(entry.reason).toMatch(/newer than this app supports/);
+  });
+});
+
+describe('persistProjectChanges', () => {
+  beforeEach(resetBrowser);
+
+  it('stores edited meetings and removes deleted ones', async () => {
+    const writer = await loadStorage();
+    await writer.loadProjects();
+    const project = projectFixture([
+      meetingFixture({ id: 'm1', rows: [{ id: 'r1', discussion: 'Site access' }] }),
+      meetingFixture({ id: 'm2', rows: [{ id: 'r2', discussion: 'Drainage' }] })
+    ]);
+    await writer.persistProjectChanges([], [project]);
+    const edited = { ...project, meetings: [{ ...project.meetings[0], name: 'Kick-off' }] };
+    await writer.persistProjectChanges([project], [edited]);
+
+    const reader = await loadStorage();
+    expect(await reader.loadProjects()).toEqual([edited]);
+  });
+});
@@ -0,0 +1,684 @@
+import { ProjectGroup, ProjectDetails, Meeting, NoteRow, NoteImage, QuarantinedDocument, MeetingTemplate, PracticeSettings, ImageSettings, Whiteboard, SyncConfig, SyncBase, OutboxEntry } from '../types';
+import { DEFAULT_IMAGE_SETTINGS, DEFAULT_TEMPLATES, EMPTY_PRACTICE_SETTINGS } from '../constants';
+import { migrateMeeting, migrateProject, SchemaValidationError } from './migrations';
+
+const DB_NAME = 'archinotes';
+const DB_VERSION = 5;
+const LEGACY_STORAGE_KEY = 'archi_notes_v1';
+
+const STORE_PROJECTS = 'projects';
+const STORE_MEETINGS = 'meetings';
+const STORE_ROWS = 'rows';
+const STORE_IMAGES = 'images';
+const STORE_QUARANTINE = 'quarantine';
+const STORE_TEMPLATES = 'templates';
+const STORE_SETTINGS = 'settings';
+const STORE_SYNC_BASES = 'syncBases';
+const STORE_SYNC_OUTBOX = 'syncOutbox';
+
+const PRACTICE_SETTINGS_KEY = 'practice';
+const IMAGE_SETTINGS_KEY = 'images';
+const SYNC_CONFIG_KEY = 'sync';
+const SYNC_CURSOR_KEY = 'syncCursor';
+
+interface ProjectRecord {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  order: number;
+  meetingIds: string[];
+  details?: ProjectDetails;
+}
+
+interface WhiteboardRecord extends Omit<Whiteboard, 'image'> {
+  hasImage: boolean;
+}
+
+interface MeetingRecord extends Omit<Meeting, 'rows' | 'whiteboards'> {
+  projectId: string;
+  rowIds: string[];
+  whiteboards: WhiteboardRecord[];
+  hasWhiteboardImage?: boolean; // records from before boards keep their one image under `whiteboardImageKey`
+}
+
+interface RowRecord extends Omit<NoteRow, 'images'> {
+  meetingId: string;
+  images: Omit<NoteImage, 'url'>[];
+}
+
+interface ImageRecord {
+  key: string;
+  meetingId: string;
+  blob: Blob;
+}
+
+interface ImageRef {
+  key: string;
+  url: string;
+}
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+// Last URL written to (or read from) the images store, per image key. Lets a
+// meeting save skip re-encoding images that have not changed since.
+const persistedImageUrls = new Map<string, string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Set when this session created the database, i.e. the app's first run in this browser.
+let createdDatabase = false;
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const whiteboardImageKey = (meetingId: string) => `${meetingId}:whiteboard`;
+const boardImageKey = (meetingId: string, boardId: string) => `${meetingId}:whiteboard:${boardId}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion === 0) createdDatabase = true;
+      if (!db.objectStoreNames.contains(STORE_PROJECTS)) {
+        db.createObjectStore(STORE_PROJECTS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_MEETINGS)) {
+        db.createObjectStore(STORE_MEETINGS, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+      }
+      if (!db.objectStoreNames.contains(STORE_ROWS)) {
+        db.createObjectStore(STORE_ROWS, { keyPath: 'id' }).createIndex('meetingId', 'meetingId');
+      }
+      if (!db.objectStoreNames.contains(STORE_IMAGES)) {
+        db.createObjectStore(STORE_IMAGES, { keyPath: 'key' }).createIndex('meetingId', 'meetingId');
+      }
+      if (!db.objectStoreNames.contains(STORE_QUARANTINE)) {
+        db.createObjectStore(STORE_QUARANTINE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_TEMPLATES)) {
+        // Seeded once, when the store is created, so deleted defaults stay deleted.
+        const templates = db.createObjectStore(STORE_TEMPLATES, { keyPath: 'id' });
+        DEFAULT_TEMPLATES.forEach(template => templates.put(template));
+      }
+      if (!db.objectStoreNames.contains(STORE_SETTINGS)) {
+        db.createObjectStore(STORE_SETTINGS);
+      }
+      if (!db.objectStoreNames.contains(STORE_SYNC_BASES)) {
+        db.createObjectStore(STORE_SYNC_BASES, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORE_SYNC_OUTBOX)) {
+        db.createObjectStore(STORE_SYNC_OUTBOX, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Already reported as blocked; let the other tab upgrade instead of holding the database open.
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // A newer version opened in another tab; step aside so it can upgrade. The next write reopens.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(new StorageError('Could not open the local database.', request.error));
+    };
+    // An older version of the app in another tab is holding the database open.
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new StorageError('ArchiNotes is open in another tab running an older version. Close that tab and reload this one.'));
+    };
+  });
+  return dbPromise;
+};
+
+// IndexedDB serialises transactions per store, but image encoding happens
+// before a transaction is opened, so writes are chained to keep them ordered.
+const enqueueWrite = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = writeQueue.then(task, task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+const collectImageRefs = (meeting: Meeting): ImageRef[] => {
+  const refs: ImageRef[] = [];
+  meeting.rows.forEach(row => row.images.forEach(img => refs.push({ key: img.id, url: img.url })));
+  meeting.whiteboards.forEach(board => {
+    if (board.image) refs.push({ key: boardImageKey(meeting.id, board.id), url: board.image });
+  });
+  return refs;
+};
+
+const toProjectRecord = (project: ProjectGroup, order: number): ProjectRecord => ({
+  schemaVersion: project.schemaVersion,
+  id: project.id,
+  name: project.name,
+  order,
+  meetingIds: project.meetings.map(m => m.id),
+  details: project.details
+});
+
+const toMeetingRecord = (projectId: string, meeting: Meeting): MeetingRecord => {
+  const { rows, whiteboards, ...rest } = meeting;
+  return {
+    ...rest,
+    projectId,
+    rowIds: rows.map(r => r.id),
+    whiteboards: whiteboards.map(({ image, ...board }) => ({ ...board, hasImage: !!image }))
+  };
+};
+
+const toRowRecord = (meetingId: string, row: NoteRow): RowRecord => ({
+  ...row,
+  meetingId,
+  images: row.images.map(({ url, ...img }) => img)
+});
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const describeWriteError = (subject: string, error: unknown) =>
+  isQuotaError(error)
+    ? `Browser storage is full. ${subject} could not be saved.`
+    : `${subject} could not be saved.`;
+
+const readAll = async <T>(db: IDBDatabase, storeName: string): Promise<T[]> => {
+  const tx = db.transaction(storeName, 'readonly');
+  return requestToPromise(tx.objectStore(storeName).getAll() as IDBRequest<T[]>);
+};
+
+const quarantineEntry = (
+  kind: QuarantinedDocument['kind'],
+  id: string,
+  document: unknown,
+  error: unknown,
+  projectId?: string
+): QuarantinedDocument => ({
+  id,
+  kind,
+  projectId,
+  reason: error instanceof Error ? error.message : String(error),
+  document,
+  quarantinedAt: new Date().toISOString()
+});
+
+const documentId = (doc: unknown, fallback: string) => {
+  const id = typeof doc === 'object' && doc !== null ? (doc as { id?: unknown }).id : undefined;
+  return typeof id === 'string' ? id : fallback;
+};
+
+const readLegacyProjects = (): { projects: ProjectGroup[]; quarantined: QuarantinedDocument[] } | null => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(saved);
+  } catch (error) {
+    return { projects: [], quarantined: [quarantineEntry('project', LEGACY_STORAGE_KEY, saved, error)] };
+  }
+  if (!Array.isArray(parsed)) {
+    return { projects: [], quarantined: [quarantineEntry('project', LEGACY_STORAGE_KEY, parsed, 'Stored data is not a project list')] };
+  }
+
+  const projects: ProjectGroup[] = [];
+  const quarantined: QuarantinedDocument[] = [];
+  parsed.forEach((raw, index) => {
+    let project;
+    try {
+      project = migrateProject(raw);
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      quarantined.push(quarantineEntry('project', documentId(raw, `${LEGACY_STORAGE_KEY}:${index}`), raw, error));
+      return;
+    }
+    const meetings: Meeting[] = [];
+    (Array.isArray(project.meetings) ? project.meetings : []).forEach((rawMeeting: unknown, meetingIndex: number) => {
+      try {
+        meetings.push(migrateMeeting(rawMeeting));
+      } catch (error) {
+        if (!(error instanceof SchemaValidationError)) throw error;
+        const id = documentId(rawMeeting, `${project.id}:${meetingIndex}`);
+        quarantined.push(quarantineEntry('meeting', id, rawMeeting, error, project.id));
+      }
+    });
+    projects.push({ ...project, meetings });
+  });
+  return { projects, quarantined };
+};
+
+const imageUrlForKey = (key: string, images: Map<string, Blob>) => {
+  const blob = images.get(key);
+  if (!blob) return '';
+  const url = URL.createObjectURL(blob);
+  persistedImageUrls.set(key, url);
+  return url;
+};
+
+interface LoadedDatabase {
+  projects: ProjectGroup[];
+  upgraded: { projectId: string; meeting: Meeting }[];
+  upgradedProjects: ProjectGroup[];
+}
+
+const loadFromDatabase = async (db: IDBDatabase): Promise<LoadedDatabase> => {
+  const [projectRecords, meetingRecords, rowRecords, imageRecords] = await Promise.all([
+    readAll<ProjectRecord>(db, STORE_PROJECTS),
+    readAll<MeetingRecord>(db, STORE_MEETINGS),
+    readAll<RowRecord>(db, STORE_ROWS),
+    readAll<ImageRecord>(db, STORE_IMAGES)
+  ]);
+
+  const images = new Map(imageRecords.map(r => [r.key, r.blob] as const));
+  const rowsById = new Map(rowRecords.map(r => [r.id, r] as const));
+  const meetingsById = new Map(meetingRecords.map(m => [m.id, m] as const));
+  const upgraded: LoadedDatabase['upgraded'] = [];
+  const upgradedProjects: ProjectGroup[] = [];
+
+  // Records are reassembled as-is and only then migrated, so hydration must
+  // tolerate fields that older or damaged records may lack.
+  const hydrateRow = (record: RowRecord) => {
+    const { meetingId, images: rowImages, ...row } = record;
+    return {
+      ...row,
+      images: Array.isArray(rowImages)
+        ? rowImages.map(img => ({ ...img, url: img?.id ? imageUrlForKey(img.id, images) : '' }))
+        : rowImages
+    };
+  };
+
+  const hydrateMeeting = (record: MeetingRecord) => {
+    const { projectId, rowIds, hasWhiteboardImage, whiteboards, ...meeting } = record;
+    return {
+      ...meeting,
+      rows: (rowIds || []).map(id => rowsById.get(id)).filter((r): r is RowRecord => !!r).map(hydrateRow),
+      ...(Array.isArray(whiteboards) && {
+        whiteboards: whiteboards.map(({ hasImage, ...board }) => ({
+          ...board,
+          image: hasImage && board?.id ? imageUrlForKey(boardImageKey(record.id, board.id), images) || undefined : undefined
+        }))
+      }),
+      ...(hasWhiteboardImage && { whiteboardImage: imageUrlForKey(whiteboardImageKey(record.id), images) || undefined })
+    };
+  };
+
+  const loadMeeting = async (projectId: string, record: MeetingRecord): Promise<Meeting | null> => {
+    try {
+      const meeting = migrateMeeting(hydrateMeeting(record));
+      if (record.schemaVersion !== meeting.schemaVersion) upgraded.push({ projectId, meeting });
+      return meeting;
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      const rows = (record.rowIds || []).map(id => rowsById.get(id)).filter(Boolean);
+      await quarantineMeeting(db, quarantineEntry('meeting', record.id, { meeting: record, rows }, error, projectId));
+      return null;
+    }
+  };
+
+  const projects: ProjectGroup[] = [];
+  for (const record of projectRecords.sort((a, b) => a.order - b.order)) {
+    let header: ProjectRecord;
+    try {
+      header = migrateProject(record);
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      await quarantineProject(db, quarantineEntry('project', record.id, record, error));
+      continue;
+    }
+    const meetings: Meeting[] = [];
+    for (const id of header.meetingIds || []) {
+      const meetingRecord = meetingsById.get(id);
+      if (!meetingRecord) continue;
+      const meeting = await loadMeeting(header.id, meetingRecord);
+      if (meeting) meetings.push(meeting);
+    }
+    const { order, meetingIds, ...project } = header;
+    const loaded = { ...project, meetings };
+    if (record.schemaVersion !== header.schemaVersion) upgradedProjects.push(loaded);
+    projects.push(loaded);
+  }
+  return { projects, upgraded, upgradedProjects };
+};
+
+const quarantineMeeting = async (db: IDBDatabase, entry: QuarantinedDocument) => {
+  const tx = db.transaction([STORE_QUARANTINE, STORE_MEETINGS, STORE_ROWS], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(STORE_QUARANTINE).put(entry);
+  tx.objectStore(STORE_MEETINGS).delete(entry.id);
+  const rowStore = tx.objectStore(STORE_ROWS);
+  const rowIds = await requestToPromise(rowStore.index('meetingId').getAllKeys(entry.id));
+  rowIds.forEach(id => rowStore.delete(id));
+  await done;
+};
+
+const quarantineProject = async (db: IDBDatabase, entry: QuarantinedDocument) => {
+  const tx = db.transaction([STORE_QUARANTINE, STORE_PROJECTS], 'readwrite');
+  tx.objectStore(STORE_QUARANTINE).put(entry);
+  tx.objectStore(STORE_PROJECTS).delete(entry.id);
+  await transactionDone(tx);
+};
+
+const writeQuarantine = async (db: IDBDatabase, entries: QuarantinedDocument[]) => {
+  if (entries.length === 0) return;
+  const tx = db.transaction(STORE_QUARANTINE, 'readwrite');
+  entries.forEach(entry => tx.objectStore(STORE_QUARANTINE).put(entry));
+  await transactionDone(tx);
+};
+
+const writeMeeting = async (db: IDBDatabase, projectId: string, meeting: Meeting) => {
+  const refs = collectImageRefs(meeting);
+  const changedImages: ImageRecord[] = [];
+  for (const ref of refs) {
+    if (!ref.url || persistedImageUrls.get(ref.key) === ref.url) continue;
+    const blob = await (await fetch(ref.url)).blob();
+    changedImages.push({ key: ref.key, meetingId: meeting.id, blob });
+  }
+
+  const tx = db.transaction([STORE_MEETINGS, STORE_ROWS, STORE_IMAGES], 'readwrite');
+  const done = transactionDone(tx);
+  const rowStore = tx.objectStore(STORE_ROWS);
+  const imageStore = tx.objectStore(STORE_IMAGES);
+
+  tx.objectStore(STORE_MEETINGS).put(toMeetingRecord(projectId, meeting));
+  meeting.rows.forEach(row => rowStore.put(toRowRecord(meeting.id, row)));
+  changedImages.forEach(record => imageStore.put(record));
+
+  const rowIds = new Set(meeting.rows.map(r => r.id));
+  const storedRowIds = await requestToPromise(rowStore.index('meetingId').getAllKeys(meeting.id));
+  storedRowIds.filter(id => !rowIds.has(id as string)).forEach(id => rowStore.delete(id));
+
+  const imageKeys = new Set(refs.map(r => r.key));
+  const storedImageKeys = await requestToPromise(imageStore.index('meetingId').getAllKeys(meeting.id));
+  storedImageKeys.filter(key => !imageKeys.has(key as string)).forEach(key => {
+    imageStore.delete(key);
+    persistedImageUrls.delete(key as string);
+  });
+
+  await done;
+  refs.forEach(ref => persistedImageUrls.set(ref.key, ref.url));
+};
+
+const removeMeeting = async (db: IDBDatabase, meetingId: string) => {
+  const tx = db.transaction([STORE_MEETINGS, STORE_ROWS, STORE_IMAGES], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(STORE_MEETINGS).delete(meetingId);
+  const rowStore = tx.objectStore(STORE_ROWS);
+  const imageStore = tx.objectStore(STORE_IMAGES);
+  const [rowIds, imageKeys] = await Promise.all([
+    requestToPromise(rowStore.index('meetingId').getAllKeys(meetingId)),
+    requestToPromise(imageStore.index('meetingId').getAllKeys(meetingId))
+  ]);
+  rowIds.forEach(id => rowStore.delete(id));
+  imageKeys.forEach(key => {
+    imageStore.delete(key);
+    persistedImageUrls.delete(key as string);
+  });
+  await done;
+};
+
+const writeProjectRecord = async (db: IDBDatabase, record: ProjectRecord) => {
+  const tx = db.transaction(STORE_PROJECTS, 'readwrite');
+  tx.objectStore(STORE_PROJECTS).put(record);
+  await transactionDone(tx);
+};
+
+const removeProjectRecord = async (db: IDBDatabase, projectId: string) => {
+  const tx = db.transaction(STORE_PROJECTS, 'readwrite');
+  tx.objectStore(STORE_PROJECTS).delete(projectId);
+  await transactionDone(tx);
+};
+
+/**
+ * Loads every project from IndexedDB, upgrading older documents to the current
+ * schema and writing the upgraded copies back. Documents that fail validation
+ * are moved to the quarantine store rather than returned. On first launch, data
+ * left in the old single `archi_notes_v1` localStorage key is copied across and
+ * the key is cleared once the copy has been written. Returns null only on the
+ * first run, when the database was just created and nothing is stored; an
+ * existing database with no projects left loads as an empty list.
+ */
+export const loadProjects = async (): Promise<ProjectGroup[] | null> => {
+  const db = await openDatabase();
+  const stored = await loadFromDatabase(db);
+  if (stored.projects.length > 0) {
+    if (stored.upgraded.length > 0 || stored.upgradedProjects.length > 0) {
+      await enqueueWrite(async () => {
+        for (const { projectId, meeting } of stored.upgraded) await writeMeeting(db, projectId, meeting);
+        for (const project of stored.upgradedProjects) {
+          await writeProjectRecord(db, toProjectRecord(project, stored.projects.indexOf(project)));
+        }
+      });
+    }
+    return stored.projects;
+  }
+
+  const legacy = readLegacyProjects();
+  if (!legacy) return createdDatabase ? null : [];
+
+  await enqueueWrite(async () => {
+    await writeQuarantine(db, legacy.quarantined);
+    for (const [order, project] of legacy.projects.entries()) {
+      for (const meeting of project.meetings) {
+        await writeMeeting(db, project.id, meeting);
+      }
+      await writeProjectRecord(db, toProjectRecord(project, order));
+    }
+  });
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacy.projects;
+};
+
+export const listQuarantined = async (): Promise<QuarantinedDocument[]> => {
+  const db = await openDatabase();
+  const entries = await readAll<QuarantinedDocument>(db, STORE_QUARANTINE);
+  return entries.sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
+};
+
+/** Permanently removes a quarantined document together with any image blobs it still owns. */
+export const discardQuarantined = (entry: QuarantinedDocument): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_QUARANTINE, STORE_IMAGES], 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(STORE_QUARANTINE).delete(entry.id);
+    if (entry.kind === 'meeting') {
+      const imageStore = tx.objectStore(STORE_IMAGES);
+      const keys = await requestToPromise(imageStore.index('meetingId').getAllKeys(entry.id));
+      keys.forEach(key => imageStore.delete(key));
+    }
+    await done;
+  });
+
+/**
+ * Writes only what differs between two snapshots of the project tree: meetings
+ * whose object identity changed, project records whose name, details or
+ * meeting order changed, and anything that was removed.
+ */
+export const persistProjectChanges = (previous: ProjectGroup[], next: ProjectGroup[]): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openDatabase();
+    const previousProjects = new Map(previous.map((p, i) => [p.id, { project: p, order: i }] as const));
+    const nextMeetingIds = new Set(next.flatMap(p => p.meetings.map(m => m.id)));
+
+    for (const [order, project] of next.entries()) {
+      const before = previousProjects.get(project.id);
+      const previousMeetings = new Map((before?.project.meetings || []).map(m => [m.id, m] as const));
+
+      for (const meeting of project.meetings) {
+        if (previousMeetings.get(meeting.id) === meeting) continue;
+        try {
+          await writeMeeting(db, project.id, meeting);
+        } catch (error) {
+          throw new StorageError(describeWriteError(`Meeting "${meeting.name}"`, error), error);
+        }
+      }
+
+      const record = toProjectRecord(project, order);
+      const previousRecord = before ? toProjectRecord(before.project, before.order) : null;
+      if (!previousRecord || JSON.stringify(previousRecord) !== JSON.stringify(record)) {
+        try {
+          await writeProjectRecord(db, record);
+        } catch (error) {
+          throw new StorageError(describeWriteError(`Project "${project.name}"`, error), error);
+        }
+      }
+    }
+
+    const nextProjectIds = new Set(next.map(p => p.id));
+    for (const project of previous) {
+      for (const meeting of project.meetings) {
+        if (!nextMeetingIds.has(meeting.id)) await removeMeeting(db, meeting.id);
+      }
+      if (!nextProjectIds.has(project.id)) await removeProjectRecord(db, project.id);
+    }
+  });
+
+export const loadTemplates = async (): Promise<MeetingTemplate[]> => {
+  const db = await openDatabase();
+  const templates = await readAll<MeetingTemplate>(db, STORE_TEMPLATES);
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTemplate = (template: MeetingTemplate): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_TEMPLATES, 'readwrite');
+    tx.objectStore(STORE_TEMPLATES).put(template);
+    try {
+      await transactionDone(tx);
+    } catch (error) {
+      throw new StorageError(describeWriteError(`Template "${template.name}"`, error), error);
+    }
+  });
+
+export const deleteTemplate = (id: string): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_TEMPLATES, 'readwrite');
+    tx.objectStore(STORE_TEMPLATES).delete(id);
+    await transactionDone(tx);
+  });
+
+export const loadPracticeSettings = async (): Promise<PracticeSettings> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_SETTINGS, 'readonly');
+  const stored = await requestToPromise<PracticeSettings | undefined>(tx.objectStore(STORE_SETTINGS).get(PRACTICE_SETTINGS_KEY));
+  return { ...EMPTY_PRACTICE_SETTINGS, ...stored };
+};
+
+export const savePracticeSettings = (settings: PracticeSettings): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_SETTINGS, 'readwrite');
+    tx.objectStore(STORE_SETTINGS).put(settings, PRACTICE_SETTINGS_KEY);
+    try {
+      await transactionDone(tx);
+    } catch (error) {
+      throw new StorageError(describeWriteError('Practice settings', error), error);
+    }
+  });
+
+export const loadImageSettings = async (): Promise<ImageSettings> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_SETTINGS, 'readonly');
+  const stored = await requestToPromise<ImageSettings | undefined>(tx.objectStore(STORE_SETTINGS).get(IMAGE_SETTINGS_KEY));
+  return { ...DEFAULT_IMAGE_SETTINGS, ...stored };
+};
+
+export const saveImageSettings = (settings: ImageSettings): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_SETTINGS, 'readwrite');
+    tx.objectStore(STORE_SETTINGS).put(settings, IMAGE_SETTINGS_KEY);
+    try {
+      await transactionDone(tx);
+    } catch (error) {
+      throw new StorageError(describeWriteError('Image settings', error), error);
+    }
+  });
+
+export interface StoredSyncState {
+  config: SyncConfig;
+  cursor: number;
+  bases: SyncBase[];
+  outbox: OutboxEntry[];
+}
+
+export const loadSyncState = async (): Promise<StoredSyncState> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_SETTINGS, STORE_SYNC_BASES, STORE_SYNC_OUTBOX], 'readonly');
+  const settings = tx.objectStore(STORE_SETTINGS);
+  const [config, cursor, bases, outbox] = await Promise.all([
+    requestToPromise<SyncConfig | undefined>(settings.get(SYNC_CONFIG_KEY)),
+    requestToPromise<number | undefined>(settings.get(SYNC_CURSOR_KEY)),
+    requestToPromise<SyncBase[]>(tx.objectStore(STORE_SYNC_BASES).getAll()),
+    requestToPromise<OutboxEntry[]>(tx.objectStore(STORE_SYNC_OUTBOX).getAll())
+  ]);
+  return { config: { serverUrl: '', token: '', ...config }, cursor: cursor || 0, bases, outbox };
+};
+
+/**
+ * Saves a new sync server. Bases, outbox and cursor all describe the old
+ * server, so they are cleared; everything is pushed again on the next sync.
+ */
+export const saveSyncConfig = (config: SyncConfig): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_SETTINGS, STORE_SYNC_BASES, STORE_SYNC_OUTBOX], 'readwrite');
+    tx.objectStore(STORE_SETTINGS).put(config, SYNC_CONFIG_KEY);
+    tx.objectStore(STORE_SETTINGS).delete(SYNC_CURSOR_KEY);
+    tx.objectStore(STORE_SYNC_BASES).clear();
+    tx.objectStore(STORE_SYNC_OUTBOX).clear();
+    try {
+      await transactionDone(tx);
+    } catch (error) {
+      throw new StorageError(describeWriteError('Sync settings', error), error);
+    }
+  });
+
+export interface SyncProgress {
+  cursor?: number;
+  bases?: SyncBase[];
+  outbox?: OutboxEntry[];
+  removedOutbox?: string[];
+}
+
+/** Records the outcome of a sync step in one transaction, so cursor, bases and outbox never disagree after a crash. */
+export const saveSyncProgress = (progress: SyncProgress): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_SETTINGS, STORE_SYNC_BASES, STORE_SYNC_OUTBOX], 'readwrite');
+    const outbox = tx.objectStore(STORE_SYNC_OUTBOX);
+    if (progress.cursor !== undefined) tx.objectStore(STORE_SETTINGS).put(progress.cursor, SYNC_CURSOR_KEY);
+    progress.bases?.forEach(base => tx.objectStore(STORE_SYNC_BASES).put(base));
+    progress.removedOutbox?.forEach(key => outbox.delete(key));
+    progress.outbox?.forEach(entry => outbox.put(entry));
+    try {
+      await transactionDone(tx);
+    } catch (error) {
+      throw new StorageError(describeWriteError('Changes waiting to sync', error), error);
+    }
+  });
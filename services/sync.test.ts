@@ -0,0 +1,151 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SyncEngine, SyncStatus, SyncedDocument, createSyncEngine } from './sync';
+import { ProjectGroup, SyncDocument } from '../types';
+import { meetingFixture, projectFixture } from '../test/fixtures';
+
+const SERVER_URL = 'http://sync.test';
+
+interface StoredDocument {
+  kind: string;
+  id: string;
+  version: number;
+  seq: number;
+  document: SyncDocument | null;
+}
+
+/** The reference server's protocol, kept in memory and answered through a stubbed fetch. */
+const createFakeServer = () => {
+  let seq = 0;
+  const documents = new Map<string, StoredDocument>();
+  const wire = ({ kind, id, version, document }: StoredDocument) => ({ kind, id, version, document });
+  const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  const server = {
+    documents,
+    failPuts: false,
+    /** Stores a new version of a document, as another device's push would. */
+    edit: (key: string, change: (document: SyncDocument) => SyncDocument) => {
+      const current = documents.get(key)!;
+      documents.set(key, { ...current, version: current.version + 1, seq: ++seq, document: change(current.document!) });
+    },
+    fetch: async (input: string, init: RequestInit = {}) => {
+      const url = new URL(input);
+      if (url.pathname === '/changes') {
+        const since = Number(url.searchParams.get('since')) || 0;
+        const changes = [...documents.values()].filter(doc => doc.seq > since).sort((a, b) => a.seq - b.seq);
+        return json(200, { cursor: seq, changes: changes.map(wire) });
+      }
+      const match = url.pathname.match(/^\/documents\/(project|meeting)\/(.+)$/);
+      if (match && init.method === 'PUT') {
+        if (server.failPuts) return json(500, { error: 'Server error' });
+        const [, kind, id] = match;
+        const body = JSON.parse(String(init.body));
+        const key = `${kind}/${decodeURIComponent(id)}`;
+        const current = documents.get(key);
+        if (body.baseVersion !== (current?.version ?? 0)) return json(409, wire(current || { kind, id, version: 0, seq: 0, document: null }));
+        const stored = { kind, id: decodeURIComponent(id), version: body.baseVersion + 1, seq: ++seq, document: body.document };
+        documents.set(key, stored);
+        return json(200, wire(stored));
+      }
+      return json(404, { error: 'Not found' });
+    }
+  };
+  return server;
+};
+
+const localTree = (): ProjectGroup[] => [projectFixture([meetingFixture({ rows: [{ id: 'r1', discussion: 'Budget' }] })])];
+
+let engine: SyncEngine | null = null;
+
+// Starts an engine against the server; `run` resolves with the status a sync ends on.
+const startEngine = (fetchStub: (input: string, init?: RequestInit) => Promise<Response>) => {
+  vi.stubGlobal('fetch', fetchStub);
+  const waiting: ((status: SyncStatus) => void)[] = [];
+  const statuses: { status: SyncStatus; detail?: string }[] = [];
+  const received: SyncedDocument[] = [];
+  engine = createSyncEngine({ config: { serverUrl: SERVER_URL, token: '' }, cursor: 0, bases: [], outbox: [] }, {
+    onStatus: (status, detail) => {
+      statuses.push({ status, detail });
+      if (status !== 'syncing') waiting.shift()?.(status);
+    },
+    onConflicts: () => {},
+    onRemote: documents => received.push(...documents)
+  });
+  const current = engine;
+  const nextRun = () => new Promise<SyncStatus>(resolve => waiting.push(resolve));
+  return {
+    statuses,
+    received,
+    run: (projects?: ProjectGroup[]) => {
+      const done = nextRun();
+      if (projects) current.track(projects);
+      current.syncNow();
+      return done;
+    }
+  };
+};
+
+describe('sync engine', () => {
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.stubGlobal('window', new EventTarget());
+    // Failed runs are logged; the statuses are what these tests check.
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    engine?.stop();
+    engine = null;
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('pushes local changes and pulls edits made on another device', async () => {
+    const server = createFakeServer();
+    const sync = startEngine(server.fetch);
+    const tree = localTree();
+    expect(await sync.run(tree)).toBe('idle');
+    expect(server.documents.get('meeting/m1')).toMatchObject({ version: 1, document: { name: 'Meeting' } });
+
+    // Another device renames the meeting while this one renames the project.
+    server.edit('meeting/m1', document => ({ ...document, name: 'Meeting (revised)' }));
+    expect(await sync.run([{ ...tree[0], name: 'Project phase 2' }])).toBe('idle');
+    expect(server.documents.get('project/p1')).toMatchObject({ version: 2, document: { name: 'Project phase 2' } });
+    expect(sync.received).toContainEqual(expect.objectContaining({ kind: 'meeting', id: 'm1', value: expect.objectContaining({ name: 'Meeting (revised)' }) }));
+  });
+
+  it('keeps a pulled remote edit when the push after it fails', async () => {
+    const server = createFakeServer();
+    const sync = startEngine(server.fetch);
+    const tree = localTree();
+    expect(await sync.run(tree)).toBe('idle');
+    expect(server.documents.get('meeting/m1')?.version).toBe(1);
+
+    // Another device renames the meeting while this one renames the project.
+    server.edit('meeting/m1', document => ({ ...document, name: 'Meeting (revised)' }));
+    server.failPuts = true;
+    expect(await sync.run([{ ...tree[0], name: 'Project phase 2' }])).toBe('error');
+    expect(sync.statuses.at(-1)?.detail).toMatch(/answered 500/);
+
+    server.failPuts = false;
+    expect(await sync.run()).toBe('idle');
+    expect(server.documents.get('meeting/m1')).toMatchObject({ version: 2, document: { name: 'Meeting (revised)' } });
+    expect(server.documents.get('project/p1')).toMatchObject({ version: 2, document: { name: 'Project phase 2' } });
+    expect(sync.received).toContainEqual(expect.objectContaining({ kind: 'meeting', id: 'm1', value: expect.objectContaining({ name: 'Meeting (revised)' }) }));
+  });
+
+  it('reports an HTTP failure as an error and an unreachable server as offline', async () => {
+    const missing = startEngine(async () => new Response('<html>Not found</html>', { status: 404 }));
+    expect(await missing.run(localTree())).toBe('error');
+    expect(missing.statuses.at(-1)?.detail).toMatch(/answered 404/);
+    engine?.stop();
+
+    const notJson = startEngine(async () => new Response('<html>Welcome</html>', { status: 200 }));
+    expect(await notJson.run(localTree())).toBe('error');
+    expect(notJson.statuses.at(-1)?.detail).toMatch(/cannot read/);
+    engine?.stop();
+
+    const unreachable = startEngine(async () => { throw new TypeError('Failed to fetch'); });
+    expect(await unreachable.run(localTree())).toBe('offline');
+  });
+});
@@ -0,0 +1,567 @@
+import { Meeting, OutboxEntry, ProjectGroup, SyncBase, SyncConfig, SyncDocument, SyncFieldConflict, SyncKind } from '../types';
+import { CURRENT_SCHEMA_VERSION, SchemaValidationError, migrateMeeting, migrateProject } from './migrations';
+import { StoredSyncState, SyncProgress, saveSyncConfig, saveSyncProgress } from './storage';
+import { mergeDocuments, resolveConflict, stableStringify } from '../utils/syncMerge';
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export class SyncError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+/** One document as the server holds it. */
+interface RemoteDocument {
+  kind: SyncKind;
+  id: string;
+  version: number;
+  document: SyncDocument | null;
+}
+
+/** A document decoded for the app: a project header or a meeting, or null when deleted. */
+export type SyncedDocument =
+  | { kind: 'project'; id: string; value: (Omit<ProjectGroup, 'meetings'> & { meetingIds: string[] }) | null }
+  | { kind: 'meeting'; id: string; projectId?: string; value: Meeting | null };
+
+type PendingDocuments = Map<string, { kind: SyncKind; id: string; document: SyncDocument | null }>;
+
+/** A document held back from syncing until the user settles where it conflicts with the server. */
+export interface SyncConflictGroup {
+  key: string;
+  kind: SyncKind;
+  title: string;
+  conflicts: SyncFieldConflict[];
+}
+
+interface SyncHandlers {
+  onStatus: (status: SyncStatus, detail?: string) => void;
+  onConflicts: (groups: SyncConflictGroup[]) => void;
+  onRemote: (documents: SyncedDocument[]) => void;
+}
+
+const BLOB_PREFIX = 'sync-blob:';
+const LOCAL_CHANGE_DELAY_MS = 1500;
+const POLL_INTERVAL_MS = 30000;
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  dateCreated: 'Date',
+  attendees: 'Attendee',
+  organisation: 'Organisation',
+  rows: 'Item',
+  discussion: 'Discussion',
+  followUp: 'Follow-up',
+  followUpClosed: 'Follow-up closed',
+  actions: 'Action',
+  description: 'Description',
+  ownerId: 'Owner',
+  dueDate: 'Due date',
+  status: 'Status',
+  images: 'Image',
+  url: 'Picture',
+  markup: 'Markup',
+  layers: 'Layers',
+  pins: 'Pins',
+  calibration: 'Scale',
+  whiteboards: 'Sheet',
+  image: 'Background',
+  details: 'Title block',
+  projectNumber: 'Project number',
+  jobName: 'Job name',
+  documentReference: 'Document reference',
+  revision: 'Revision',
+  distribution: 'Distribution',
+  meetingIds: 'Meeting'
+};
+
+export const syncKey = (kind: SyncKind, id: string) => `${kind}/${id}`;
+
+// --- Images travel separately, addressed by the SHA-256 of their bytes. ---
+
+const hashesByUrl = new Map<string, string>();
+const urlsByHash = new Map<string, string>();
+
+const hashImage = async (url: string) => {
+  const known = hashesByUrl.get(url);
+  if (known) return known;
+  const bytes = await (await fetch(url)).arrayBuffer();
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  const hash = [...digest].map(b => b.toString(16).padStart(2, '0')).join('');
+  hashesByUrl.set(url, hash);
+  if (!urlsByHash.has(hash)) urlsByHash.set(hash, url);
+  return hash;
+};
+
+const toBlobRef = async (url: string | undefined) => url ? `${BLOB_PREFIX}${await hashImage(url)}` : url;
+
+const blobRefs = (document: SyncDocument | null): string[] => {
+  const refs: string[] = [];
+  JSON.stringify(document, (_, value) => {
+    if (typeof value === 'string' && value.startsWith(BLOB_PREFIX)) refs.push(value.slice(BLOB_PREFIX.length));
+    return value;
+  });
+  return refs;
+};
+
+// --- Documents ---
+
+const projectDocument = (project: ProjectGroup): SyncDocument => {
+  const { meetings, ...header } = project;
+  return { ...header, meetingIds: meetings.map(m => m.id) };
+};
+
+// Serialising a meeting means hashing its images, so the result is kept for as long as the meeting object lives.
+const meetingDocuments = new WeakMap<Meeting, { projectId: string; document: SyncDocument }>();
+
+const meetingDocument = async (projectId: string, meeting: Meeting): Promise<SyncDocument> => {
+  const cached = meetingDocuments.get(meeting);
+  if (cached && cached.projectId === projectId) return cached.document;
+  const rows = [];
+  for (const row of meeting.rows) {
+    const images = [];
+    for (const image of row.images) images.push({ ...image, url: await toBlobRef(image.url) });
+    rows.push({ ...row, images });
+  }
+  const whiteboards = [];
+  for (const board of meeting.whiteboards) whiteboards.push({ ...board, image: await toBlobRef(board.image) });
+  const document = { ...meeting, projectId, rows, whiteboards } as SyncDocument;
+  meetingDocuments.set(meeting, { projectId, document });
+  return document;
+};
+
+const fingerprints = new WeakMap<object, string>();
+
+const fingerprint = (document: SyncDocument | null) => {
+  if (!document) return 'null';
+  let print = fingerprints.get(document);
+  if (print === undefined) {
+    print = stableStringify(document);
+    fingerprints.set(document, print);
+  }
+  return print;
+};
+
+const sameDocument = (a: SyncDocument | null, b: SyncDocument | null) => a === b || fingerprint(a) === fingerprint(b);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const describePath = (conflict: SyncFieldConflict, document: SyncDocument | null) => {
+  if (conflict.path.length === 0) return conflict.local ? 'Deleted on another device' : 'Deleted on this device';
+  const parts: string[] = [];
+  let cursor: unknown = document;
+  conflict.path.forEach(step => {
+    if (typeof step === 'string') {
+      parts.push(FIELD_LABELS[step] || step);
+      cursor = isRecord(cursor) ? cursor[step] : undefined;
+      return;
+    }
+    const list: unknown[] = Array.isArray(cursor) ? cursor : [];
+    const index = list.findIndex(item => item === step.id || (isRecord(item) && item.id === step.id));
+    const item = list[index];
+    const label = parts.pop() || 'Entry';
+    const name = isRecord(item) && typeof item.name === 'string' ? item.name : '';
+    parts.push(name ? `${label} "${name}"` : index >= 0 ? `${label} ${index + 1}` : label);
+    cursor = item;
+  });
+  return parts.join(' › ');
+};
+
+const conflictGroup = (entry: OutboxEntry, base: SyncBase | undefined): SyncConflictGroup => ({
+  key: entry.key,
+  kind: entry.kind,
+  title: String(entry.document?.name ?? base?.document?.name ?? (entry.kind === 'meeting' ? 'Meeting' : 'Project')),
+  conflicts: entry.conflicts || []
+});
+
+/**
+ * Applies documents from the server to the project tree. Meetings move to
+ * the project their document names, and a project document's meeting list
+ * decides the order of that project's meetings.
+ */
+export const applySyncedDocuments = (projects: ProjectGroup[], documents: SyncedDocument[]): ProjectGroup[] => {
+  let next = projects;
+  const ordered: Map<string, string[]> = new Map();
+
+  documents.forEach(doc => {
+    if (doc.kind !== 'project') return;
+    const { id, value } = doc;
+    if (!value) {
+      next = next.filter(p => p.id !== id);
+      return;
+    }
+    const { meetingIds, ...header } = value;
+    ordered.set(id, meetingIds);
+    next = next.some(p => p.id === id)
+      ? next.map(p => p.id === id ? { ...header, meetings: p.meetings } : p)
+      : [...next, { ...header, meetings: [] }];
+  });
+
+  documents.forEach(doc => {
+    if (doc.kind !== 'meeting') return;
+    const { id, projectId, value: meeting } = doc;
+    const withoutMeeting = next.map(p => p.meetings.some(m => m.id === id) ? { ...p, meetings: p.meetings.filter(m => m.id !== id) } : p);
+    if (!meeting || !projectId) {
+      next = withoutMeeting;
+      return;
+    }
+    const owner = next.find(p => p.id === projectId);
+    const position = owner ? owner.meetings.findIndex(m => m.id === id) : -1;
+    if (!owner) {
+      withoutMeeting.push({ schemaVersion: CURRENT_SCHEMA_VERSION, id: projectId, name: 'SYNCED PROJECT', meetings: [] });
+    }
+    next = withoutMeeting.map(p => {
+      if (p.id !== projectId) return p;
+      const meetings = [...p.meetings];
+      meetings.splice(position === -1 ? meetings.length : position, 0, meeting);
+      return { ...p, meetings };
+    });
+  });
+
+  return next.map(p => {
+    const order = ordered.get(p.id);
+    if (!order) return p;
+    const rank = (id: string) => order.includes(id) ? order.indexOf(id) : order.length;
+    return { ...p, meetings: [...p.meetings].sort((a, b) => rank(a.id) - rank(b.id)) };
+  });
+};
+
+/**
+ * Keeps the local project tree in step with a self-hosted sync server.
+ *
+ * Local edits are found by comparing each project and meeting with the
+ * server copy it was last synced against (its base) and are queued in a
+ * persistent outbox, so nothing is lost offline or across reloads. A sync
+ * pulls the server's changes since the last cursor, merges each one with any
+ * queued local change field by field, then pushes the outbox. The server
+ * only accepts a push made against its current version; a rejected push is
+ * merged and retried. Fields both sides changed differently hold their
+ * document back until the user picks a side with `resolve`.
+ */
+export const createSyncEngine = (stored: StoredSyncState, handlers: SyncHandlers) => {
+  let config: SyncConfig = stored.config;
+  let cursor = stored.cursor;
+  let bases = new Map(stored.bases.map(base => [base.key, base] as const));
+  let outbox = new Map(stored.outbox.map(entry => [entry.key, entry] as const));
+  let latest: ProjectGroup[] | null = null;
+  let running = false;
+  let rerun = false;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const uploadedBlobs = new Set<string>();
+  // Documents applied locally while the user was editing them: what the edit started from and what was applied.
+  const overtaken = new Map<string, { started: SyncDocument | null; applied: SyncDocument | null }>();
+
+  const endpoint = (path: string) => `${config.serverUrl.replace(/\/+$/, '')}${path}`;
+
+  /** Rejects with a SyncError for any answer but success and the statuses in `expected`. */
+  const request = async (path: string, init: RequestInit = {}, expected: number[] = []) => {
+    const headers = new Headers(init.headers);
+    if (config.token) headers.set('Authorization', `Bearer ${config.token}`);
+    const response = await fetch(endpoint(path), { ...init, headers });
+    if (!response.ok && !expected.includes(response.status)) {
+      throw new SyncError(response.status === 401 ? 'The sync server rejected the access token.' : `The sync server answered ${response.status}.`, response.status);
+    }
+    return response;
+  };
+
+  const readJson = async <T>(response: Response): Promise<T> => {
+    try {
+      return await response.json();
+    } catch {
+      throw new SyncError('The sync server sent an answer this app cannot read. Check the server address.', response.status);
+    }
+  };
+
+  const reportConflicts = () => {
+    handlers.onConflicts([...outbox.values()].filter(entry => entry.conflicts?.length).map(entry => conflictGroup(entry, bases.get(entry.key))));
+  };
+
+  const resolveBlob = async (hash: string) => {
+    const known = urlsByHash.get(hash);
+    if (known) return known;
+    const response = await request(`/blobs/${hash}`, {}, [404]);
+    if (!response.ok) throw new SyncError(`Image ${hash.slice(0, 8)} is missing on the sync server.`, response.status);
+    const url = URL.createObjectURL(await response.blob());
+    urlsByHash.set(hash, url);
+    hashesByUrl.set(url, hash);
+    return url;
+  };
+
+  const decode = async (kind: SyncKind, id: string, document: SyncDocument | null): Promise<SyncedDocument | null> => {
+    if (!document) return { kind, id, value: null } as SyncedDocument;
+    for (const hash of blobRefs(document)) await resolveBlob(hash);
+    const withUrls = JSON.parse(JSON.stringify(document), (_, value) =>
+      typeof value === 'string' && value.startsWith(BLOB_PREFIX) ? urlsByHash.get(value.slice(BLOB_PREFIX.length)) : value);
+    try {
+      if (kind === 'project') return { kind, id, value: migrateProject(withUrls) };
+      const { projectId, ...raw } = withUrls;
+      const meeting = migrateMeeting(raw);
+      // The meeting reads back as the document it came from, so applying it is not taken for a local edit.
+      meetingDocuments.set(meeting, { projectId, document });
+      return { kind, id, projectId, value: meeting };
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      console.error(`Synced ${kind} ${id} is not usable and was skipped:`, error);
+      return null;
+    }
+  };
+
+  // The documents the local tree holds right now, keyed by sync key.
+  const localDocuments = async (projects: ProjectGroup[]) => {
+    const documents = new Map<string, { kind: SyncKind; id: string; document: SyncDocument }>();
+    for (const project of projects) {
+      documents.set(syncKey('project', project.id), { kind: 'project', id: project.id, document: projectDocument(project) });
+      for (const meeting of project.meetings) {
+        documents.set(syncKey('meeting', meeting.id), { kind: 'meeting', id: meeting.id, document: await meetingDocument(project.id, meeting) });
+      }
+    }
+    return documents;
+  };
+
+  /** Queues every local document that differs from what the outbox or the server already has. */
+  const collectLocalChanges = async (progress: SyncProgress, toApply: PendingDocuments) => {
+    if (!latest) return;
+    const snapshot = latest;
+    const documents = await localDocuments(snapshot);
+    const queue = (kind: SyncKind, id: string, document: SyncDocument | null, conflicts?: SyncFieldConflict[]) => {
+      const entry: OutboxEntry = { key: syncKey(kind, id), kind, id, document, queuedAt: new Date().toISOString(), ...(conflicts && { conflicts }) };
+      outbox.set(entry.key, entry);
+      progress.outbox = [...(progress.outbox || []), entry];
+    };
+
+    documents.forEach(({ kind, id, document }, key) => {
+      const rebase = overtaken.get(key);
+      overtaken.delete(key);
+      if (rebase) {
+        // Edits made while a sync was applying changes to this document are replayed on top of them.
+        document = mergeDocuments(rebase.started, document, rebase.applied).document || document;
+        toApply.set(key, { kind, id, document });
+      }
+      const pending = outbox.get(key);
+      const reference = pending ? pending.document : bases.get(key)?.document ?? null;
+      if (sameDocument(reference, document)) return;
+      queue(kind, id, document, pending?.conflicts);
+    });
+
+    new Set([...bases.keys(), ...outbox.keys()]).forEach(key => {
+      if (documents.has(key)) return;
+      const pending = outbox.get(key);
+      const base = bases.get(key);
+      if (!base || base.document === null) {
+        if (pending) {
+          outbox.delete(key);
+          progress.removedOutbox = [...(progress.removedOutbox || []), key];
+        }
+      } else if (!pending || pending.document !== null) {
+        queue(key.startsWith('project/') ? 'project' : 'meeting', key.slice(key.indexOf('/') + 1), null, pending?.conflicts);
+      }
+    });
+  };
+
+  /** Merges one document from the server with whatever is queued for it locally. */
+  const takeRemote = (remote: RemoteDocument, progress: SyncProgress, toApply: PendingDocuments) => {
+    const key = syncKey(remote.kind, remote.id);
+    const base = bases.get(key);
+    if (base && base.version >= remote.version) return;
+    const nextBase: SyncBase = { key, version: remote.version, document: remote.document };
+    bases.set(key, nextBase);
+    progress.bases = [...(progress.bases || []), nextBase];
+
+    const pending = outbox.get(key);
+    if (!pending) {
+      toApply.set(key, { kind: remote.kind, id: remote.id, document: remote.document });
+      return;
+    }
+    const merged = mergeDocuments(base?.document ?? null, pending.document, remote.document);
+    if (merged.conflicts.length === 0 && sameDocument(merged.document, remote.document)) {
+      outbox.delete(key);
+      progress.removedOutbox = [...(progress.removedOutbox || []), key];
+    } else {
+      const fresh = merged.conflicts.map(conflict => ({ ...conflict, label: describePath(conflict, merged.document || pending.document) }));
+      const paths = new Set(fresh.map(conflict => JSON.stringify(conflict.path)));
+      const conflicts = [...(pending.conflicts || []).filter(conflict => !paths.has(JSON.stringify(conflict.path))), ...fresh];
+      const entry: OutboxEntry = { ...pending, document: merged.document };
+      if (conflicts.length > 0) entry.conflicts = conflicts;
+      outbox.set(key, entry);
+      progress.outbox = [...(progress.outbox || []), entry];
+    }
+    toApply.set(key, { kind: remote.kind, id: remote.id, document: merged.document });
+  };
+
+  /** Decodes documents and hands them to the app, keeping `latest` in step so they are not mistaken for local edits. */
+  const applyLocally = async (toApply: PendingDocuments, startedFrom: Map<string, { document: SyncDocument }>) => {
+    if (toApply.size === 0) return;
+    const decoded: SyncedDocument[] = [];
+    for (const { kind, id, document } of toApply.values()) {
+      const doc = await decode(kind, id, document);
+      if (doc) decoded.push(doc);
+    }
+    let snapshot: ProjectGroup[] | null = null;
+    let current = new Map<string, { document: SyncDocument }>();
+    while (latest && snapshot !== latest) {
+      snapshot = latest;
+      current = await localDocuments(snapshot);
+    }
+    // A document edited since this sync read it would lose the edit; it is held back and merged with it on the next pass.
+    const held = new Set<string>();
+    toApply.forEach(({ document }, key) => {
+      const started = startedFrom.get(key)?.document ?? null;
+      const now = current.get(key)?.document ?? null;
+      if (snapshot && !sameDocument(started, now)) {
+        overtaken.set(key, { started, applied: document });
+        held.add(key);
+      }
+    });
+    const ready = decoded.filter(doc => !held.has(syncKey(doc.kind, doc.id)));
+    if (ready.length === 0) return;
+    if (latest) latest = applySyncedDocuments(latest, ready);
+    handlers.onRemote(ready);
+  };
+
+  const pull = async (progress: SyncProgress, toApply: PendingDocuments) => {
+    const response = await request(`/changes?since=${cursor}`);
+    const body = await readJson<{ cursor: number; changes: RemoteDocument[] }>(response);
+    // Fetched before anything is applied, so decoding does not wait on the network.
+    for (const change of body.changes) for (const hash of blobRefs(change.document)) await resolveBlob(hash);
+    body.changes.forEach(change => takeRemote(change, progress, toApply));
+    cursor = body.cursor;
+    progress.cursor = cursor;
+  };
+
+  const uploadBlobs = async (document: SyncDocument | null) => {
+    for (const hash of blobRefs(document)) {
+      if (uploadedBlobs.has(hash)) continue;
+      const existing = await request(`/blobs/${hash}`, { method: 'HEAD' }, [404]);
+      if (!existing.ok) {
+        const url = urlsByHash.get(hash);
+        if (!url) throw new SyncError('An image waiting to sync is no longer available.');
+        const blob = await (await fetch(url)).blob();
+        await request(`/blobs/${hash}`, { method: 'PUT', body: blob, headers: { 'Content-Type': blob.type || 'application/octet-stream' } });
+      }
+      uploadedBlobs.add(hash);
+    }
+  };
+
+  // Projects go first so a server never holds a meeting before the project that lists it.
+  const push = async (progress: SyncProgress, toApply: PendingDocuments) => {
+    const ready = [...outbox.values()].filter(entry => !entry.conflicts?.length).sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'project' ? -1 : 1));
+    for (const entry of ready) {
+      await uploadBlobs(entry.document);
+      const response = await request(`/documents/${entry.kind}/${encodeURIComponent(entry.id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseVersion: bases.get(entry.key)?.version ?? 0, document: entry.document })
+      }, [409]);
+      const body = await readJson<RemoteDocument>(response);
+      if (response.status === 409) {
+        takeRemote(body, progress, toApply);
+        rerun = true;
+        continue;
+      }
+      const base: SyncBase = { key: entry.key, version: body.version, document: entry.document };
+      bases.set(entry.key, base);
+      progress.bases = [...(progress.bases || []), base];
+      if (outbox.get(entry.key) === entry) {
+        outbox.delete(entry.key);
+        progress.removedOutbox = [...(progress.removedOutbox || []), entry.key];
+      }
+    }
+  };
+
+  const run = async () => {
+    if (!config.serverUrl || stopped) return handlers.onStatus('off');
+    if (running) {
+      rerun = true;
+      return;
+    }
+    if (!navigator.onLine) return handlers.onStatus('offline');
+    running = true;
+    rerun = false;
+    handlers.onStatus('syncing');
+    // Pulling moves the cursor and bases past documents that are only applied
+    // at the end; a run that fails before then must not keep them, or the next
+    // run would read the stale local copies as edits and push them over.
+    const before = { cursor, bases: new Map(bases), outbox: new Map(outbox), overtaken: new Map(overtaken) };
+    try {
+      const progress: SyncProgress = {};
+      const toApply = new Map<string, { kind: SyncKind; id: string; document: SyncDocument | null }>();
+      await collectLocalChanges(progress, toApply);
+      const startedFrom = latest ? await localDocuments(latest) : new Map();
+      await pull(progress, toApply);
+      await push(progress, toApply);
+      await applyLocally(toApply, startedFrom);
+      await saveSyncProgress(progress);
+      reportConflicts();
+      handlers.onStatus('idle');
+    } catch (error) {
+      ({ cursor, bases, outbox } = before);
+      overtaken.clear();
+      before.overtaken.forEach((value, key) => overtaken.set(key, value));
+      console.error('Sync failed:', error);
+      // fetch rejects with a TypeError only when the server cannot be reached at all.
+      if (error instanceof TypeError) {
+        handlers.onStatus('offline');
+      } else {
+        handlers.onStatus('error', error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      running = false;
+    }
+    if (rerun || overtaken.size > 0) schedule(0);
+  };
+
+  const schedule = (delay: number) => {
+    clearTimeout(timer);
+    if (!stopped) timer = setTimeout(run, delay);
+  };
+
+  const poll = setInterval(() => run(), POLL_INTERVAL_MS);
+  const onOnline = () => schedule(0);
+  window.addEventListener('online', onOnline);
+  reportConflicts();
+
+  return {
+    /** Hands the engine the current project tree; changes are picked up after a short pause. */
+    track: (projects: ProjectGroup[]) => {
+      if (projects === latest) return;
+      const first = latest === null;
+      latest = projects;
+      schedule(first ? 0 : LOCAL_CHANGE_DELAY_MS);
+    },
+    configure: async (next: SyncConfig) => {
+      await saveSyncConfig(next);
+      config = next;
+      cursor = 0;
+      bases = new Map();
+      outbox = new Map();
+      overtaken.clear();
+      reportConflicts();
+      schedule(0);
+    },
+    syncNow: () => schedule(0),
+    /** Settles a held document, taking this device's or the server's value for each of its conflicts in turn. */
+    resolve: async (key: string, sides: ('local' | 'remote')[]) => {
+      const entry = outbox.get(key);
+      if (!entry?.conflicts) return;
+      const document = entry.conflicts.reduce((doc, conflict, i) => resolveConflict(doc, conflict, sides[i] || 'local'), entry.document);
+      const { conflicts, ...rest } = entry;
+      const settled: OutboxEntry = { ...rest, document };
+      outbox.set(key, settled);
+      await saveSyncProgress({ outbox: [settled] });
+      reportConflicts();
+      const toApply = new Map([[key, { kind: entry.kind, id: entry.id, document }]]);
+      await applyLocally(toApply, latest ? await localDocuments(latest) : new Map());
+      schedule(0);
+    },
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+      clearInterval(poll);
+      window.removeEventListener('online', onOnline);
+    }
+  };
+};
+
+export type SyncEngine = ReturnType<typeof createSyncEngine>;
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateFileError, parseTemplatesFile, withUniqueTemplateIds } from './templates';
+import { MeetingTemplate } from '../types';
+
+const siteVisit = { name: 'Site visit', description: 'Weekly walk round', rows: ['Progress', { discussion: 'Safety', followUp: 'Toolbox talk' }], organisations: ['Contractor', 3] };
+
+describe('parseTemplatesFile', () => {
+  it('reads the export format, a bare list and a single template', () => {
+    const wrapped = parseTemplatesFile(JSON.stringify({ format: 'archinotes-templates', version: 1, templates: [siteVisit] }));
+    expect(wrapped).toEqual([{
+      id: expect.any(String),
+      name: 'Site visit',
+      description: 'Weekly walk round',
+      rows: [{ discussion: 'Progress', followUp: '' }, { discussion: 'Safety', followUp: 'Toolbox talk' }],
+      organisations: ['Contractor'],
+      whiteboardImage: undefined
+    }]);
+    expect(parseTemplatesFile(JSON.stringify([siteVisit, { name: 'Design review' }])).map(t => t.name)).toEqual(['Site visit', 'Design review']);
+    expect(parseTemplatesFile(JSON.stringify({ name: 'Design review' }))).toMatchObject([{ name: 'Design review', rows: [], organisations: [] }]);
+  });
+
+  it('keeps an embedded whiteboard image', () => {
+    const [template] = parseTemplatesFile(JSON.stringify({ name: 'Plan review', whiteboardImage: 'data:image/png;base64,AA==' }));
+    expect(template.whiteboardImage).toBe('data:image/png;base64,AA==');
+  });
+
+  it.each([
+    ['text that is not JSON', 'templates', /not valid JSON/],
+    ['a newer export', JSON.stringify({ format: 'archinotes-templates', version: 2, templates: [siteVisit] }), /newer version/],
+    ['an empty list', '[]', /no templates/],
+    ['a template without a name', JSON.stringify([{ name: ' ' }]), /templates\[0\] has no name/],
+    ['a row that is not a row', JSON.stringify([{ name: 'Site visit', rows: [4] }]), /templates\[0\]\.rows\[0\] is not a row/],
+    ['a linked whiteboard image', JSON.stringify({ name: 'Site visit', whiteboardImage: 'https://example.com/plan.png' }), /not an embedded image/]
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseTemplatesFile(text)).toThrow(TemplateFileError);
+    expect(() => parseTemplatesFile(text)).toThrow(message);
+  });
+});
+
+describe('withUniqueTemplateIds', () => {
+  const template = (id: string, name: string): MeetingTemplate => ({ id, name, description: '', rows: [], organisations: [] });
+
+  it('gives templates whose id is taken here or earlier in the list a new id', () => {
+    const imported = [template('t1', 'Site visit'), template('t2', 'Handover'), template('t2', 'Handover (old)')];
+    const result = withUniqueTemplateIds(imported, [template('t1', 'Site visit (local)')]);
+
+    expect(result.map(t => t.name)).toEqual(['Site visit', 'Handover', 'Handover (old)']);
+    expect(result[1]).toBe(imported[1]);
+    expect(new Set(result.map(t => t.id)).size).toBe(3);
+    expect(result.map(t => t.id)).not.toContain('t1');
+  });
+});
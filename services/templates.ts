@@ -0,0 +1,96 @@
+import { MeetingTemplate, TemplateRow } from '../types';
+
+const TEMPLATE_FILE_FORMAT = 'archinotes-templates';
+const TEMPLATE_FILE_VERSION = 1;
+
+export class TemplateFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateFileError';
+  }
+}
+
+export const createTemplate = (): MeetingTemplate => ({
+  id: crypto.randomUUID(),
+  name: 'NEW TEMPLATE',
+  description: '',
+  rows: [],
+  organisations: []
+});
+
+export const downloadTemplates = (templates: MeetingTemplate[], fileName: string) => {
+  const payload = { format: TEMPLATE_FILE_FORMAT, version: TEMPLATE_FILE_VERSION, templates };
+  const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+type Doc = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Doc =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+const isEmbeddedImage = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:image/');
+
+const parseRow = (raw: unknown, where: string): TemplateRow => {
+  if (typeof raw === 'string') return { discussion: raw, followUp: '' };
+  if (!isObject(raw)) throw new TemplateFileError(`${where} is not a row`);
+  return { discussion: asString(raw.discussion), followUp: asString(raw.followUp) };
+};
+
+const parseTemplate = (raw: unknown, index: number): MeetingTemplate => {
+  const where = `templates[${index}]`;
+  if (!isObject(raw)) throw new TemplateFileError(`${where} is not an object`);
+  if (typeof raw.name !== 'string' || !raw.name.trim()) throw new TemplateFileError(`${where} has no name`);
+  const { whiteboardImage } = raw;
+  if (whiteboardImage !== undefined && !isEmbeddedImage(whiteboardImage)) {
+    throw new TemplateFileError(`${where}.whiteboardImage is not an embedded image`);
+  }
+  return {
+    id: asString(raw.id) || crypto.randomUUID(),
+    name: raw.name,
+    description: asString(raw.description),
+    rows: asArray(raw.rows).map((row, i) => parseRow(row, `${where}.rows[${i}]`)),
+    organisations: asArray(raw.organisations).filter((o): o is string => typeof o === 'string'),
+    whiteboardImage: isEmbeddedImage(whiteboardImage) ? whiteboardImage : undefined
+  };
+};
+
+/**
+ * Reads a template export. Accepts the wrapped export format, a bare array of
+ * templates, or a single template object.
+ */
+export const parseTemplatesFile = (text: string): MeetingTemplate[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new TemplateFileError('The file is not valid JSON.');
+  }
+  const wrapped = isObject(parsed) && parsed.format === TEMPLATE_FILE_FORMAT ? parsed : null;
+  if (wrapped && typeof wrapped.version === 'number' && wrapped.version > TEMPLATE_FILE_VERSION) {
+    throw new TemplateFileError('The file was exported by a newer version of ArchiNotes.');
+  }
+  const list = wrapped ? wrapped.templates : Array.isArray(parsed) ? parsed : [parsed];
+  if (!Array.isArray(list) || list.length === 0) throw new TemplateFileError('The file contains no templates.');
+  return list.map(parseTemplate);
+};
+
+/**
+ * Gives each template whose id is already taken, by an existing template or
+ * an earlier one in the list, a new id so it is added instead of replacing.
+ */
+export const withUniqueTemplateIds = (imported: MeetingTemplate[], existing: MeetingTemplate[]): MeetingTemplate[] => {
+  const taken = new Set(existing.map(t => t.id));
+  return imported.map(template => {
+    const id = taken.has(template.id) ? crypto.randomUUID() : template.id;
+    taken.add(id);
+    return id === template.id ? template : { ...template, id };
+  });
+};
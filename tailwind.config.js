@@ -0,0 +1,21 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.tsx', './{components,hooks,services,utils}/**/*.{ts,tsx}'],
+  theme: {
+    extend: {
+      colors: {
+        emeraldArch: '#50C878',
+        appBg: 'var(--app-bg)',
+        sidebarBg: 'var(--sidebar-bg)',
+        cardBg: 'var(--card-bg)',
+        textMain: 'var(--text-main)',
+        textMuted: 'var(--text-muted)',
+        borderMain: 'var(--border-main)',
+      },
+      fontFamily: {
+        sans: ['Inter', 'sans-serif'],
+        mono: ['JetBrains Mono', 'monospace'],
+      }
+    }
+  }
+};
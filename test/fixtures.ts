@@ -0,0 +1,13 @@
+import { CURRENT_SCHEMA_VERSION, migrateMeeting } from '../services/migrations';
+import { Meeting, ProjectGroup } from '../types';
+
+/**
+ * Test data shared by the colocated tests: current-schema documents holding
+ * only the fields a test passes in, with everything else left to the
+ * migrations' defaults.
+ */
+export const meetingFixture = (fields: Record<string, unknown> = {}): Meeting =>
+  migrateMeeting({ id: 'm1', name: 'Meeting', dateCreated: '2024-03-01T10:00:00.000Z', rows: [], ...fields });
+
+export const projectFixture = (meetings: Meeting[] = [], fields: Partial<ProjectGroup> = {}): ProjectGroup =>
+  ({ id: 'p1', name: 'Project', schemaVersion: CURRENT_SCHEMA_VERSION, meetings, ...fields });
@@ -5,17 +5,121 @@ export interface Attendee {
   organisation: string;
 }
 
-export interface MarkupPath {
-  points: { x: number; y: number }[];
+export interface MarkupPoint {
+  x: number;
+  y: number;
+  pressure?: number; // 0–1, only recorded for stylus input on freehand strokes
+}
+
+interface MarkupStroke {
   color: string;
   width: number;
+  layerId?: string; // MarkupLayer.id; markup without one belongs to the first layer
+}
+
+export interface FreehandMarkup extends MarkupStroke {
+  type: 'freehand';
+  points: MarkupPoint[];
   isHighlighter: boolean;
 }
 
+// points: [start, end]. Arrows put the head on `end`.
+export interface LineMarkup extends MarkupStroke {
+  type: 'line' | 'arrow';
+  points: MarkupPoint[];
+}
+
+// points: two opposite corners of the unrotated box; rotation (radians) is about its centre.
+export interface BoxMarkup extends MarkupStroke {
+  type: 'rect' | 'ellipse' | 'cloud';
+  points: MarkupPoint[];
+  rotation?: number;
+}
+
+// points: [leader tip, label anchor]. A callout placed with a single click has both at the same spot.
+export interface TextMarkup extends MarkupStroke {
+  type: 'text';
+  points: MarkupPoint[];
+  text: string;
+  fontSize: number;
+}
+
+// Dimensions are drawn between points[0] and points[1]; areas are closed polygons of three or more points.
+// Their labels come from the image's ScaleCalibration at render time.
+export interface MeasureMarkup extends MarkupStroke {
+  type: 'dimension' | 'area';
+  points: MarkupPoint[];
+}
+
+export type MarkupPath = FreehandMarkup | LineMarkup | BoxMarkup | TextMarkup | MeasureMarkup;
+
+export type MarkupType = MarkupPath['type'];
+
+export interface ImageSource {
+  fileName: string;
+  page?: number;
+  pageCount?: number;
+}
+
+export interface MarkupLayer {
+  id: string;
+  name: string;
+  color: string;
+  author: string;
+  visible: boolean;
+  locked: boolean;
+  exported: boolean; // included when the markup is flattened into a PDF
+}
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface ScaleCalibration {
+  points: MarkupPoint[]; // two reference points, in markup space
+  distanceMm: number; // real-world distance between them
+  units: UnitSystem; // how measurements on the image are displayed
+}
+
+// A numbered marker on an image, placed in the image's markup space.
+export interface ImagePin {
+  id: string;
+  number: number; // kept when other pins are deleted, so minutes can refer to it
+  point: MarkupPoint;
+  note: string;
+  rowId?: string; // NoteRow.id in the same meeting that the pin refers to
+}
+
+// Where and when a photo was taken, as recorded by the camera.
+export interface ImageMetadata {
+  capturedAt?: string; // ISO 8601; without a zone when the camera recorded none
+  location?: { latitude: number; longitude: number; altitude?: number }; // WGS 84 degrees, metres
+  width: number; // of the stored image, after downscaling
+  height: number;
+  originalSize?: number; // bytes of the file as uploaded
+}
+
 export interface NoteImage {
   id: string;
   url: string;
+  thumbnail?: string; // small data URL shown on the row instead of decoding `url`
+  metadata?: ImageMetadata;
   markup: MarkupPath[];
+  markupSize?: { width: number; height: number }; // the coordinate space markup was drawn in
+  calibration?: ScaleCalibration;
+  layers?: MarkupLayer[];
+  pins?: ImagePin[];
+  source?: ImageSource;
+}
+
+export type ActionStatus = 'open' | 'in_progress' | 'done';
+
+export interface ActionItem {
+  id: string;
+  description: string;
+  ownerId?: string; // Attendee.id within the meeting that holds the action
+  dueDate?: string; // yyyy-mm-dd
+  status: ActionStatus;
+  sourceMeetingId: string;
+  sourceRowId: string;
 }
 
 export interface NoteRow {
@@ -23,28 +127,144 @@ export interface NoteRow {
   discussion: string;
   followUp: string;
   images: NoteImage[];
+  actions: ActionItem[];
+  followUpClosed?: boolean;
+  carriedOverFromId?: string; // NoteRow.id in the previous meeting of the series
+}
+
+/**
+ * One named sheet of a meeting's scratchpad. Markup is in board units; the
+ * background image sits at the origin and the board extends without limit.
+ */
+export interface Whiteboard {
+  id: string;
+  name: string;
+  markup: MarkupPath[];
+  layers?: MarkupLayer[];
+  image?: string;
+  imageSource?: ImageSource;
 }
 
 export interface Meeting {
+  schemaVersion: number;
   id: string;
   name: string;
   dateCreated: string;
   attendees: Attendee[];
   rows: NoteRow[];
-  whiteboardMarkup?: MarkupPath[];
-  whiteboardImage?: string;
+  whiteboards: Whiteboard[];
+  previousMeetingId?: string;
+  nextMeetingId?: string;
+}
+
+/** Title-block fields for one project's issued documents. */
+export interface ProjectDetails {
+  projectNumber: string;
+  jobName: string;
+  documentReference: string;
+  revision: string;
+  distribution: string[];
 }
 
 export interface ProjectGroup {
+  schemaVersion: number;
   id: string;
   name: string;
   meetings: Meeting[];
+  details?: ProjectDetails;
+}
+
+/** The practice issuing the minutes, shown in every export's title block. */
+export interface PracticeSettings {
+  name: string;
+  address: string;
+  contact: string;
+  logo?: string; // data URL
+}
+
+export type ImageFormat = 'webp' | 'jpeg';
+
+// How uploaded images are re-encoded before they are stored.
+export interface ImageSettings {
+  maxSize: number; // long edge in pixels
+  format: ImageFormat;
+  quality: number; // 0-1
+}
+
+export interface TemplateRow {
+  discussion: string;
+  followUp: string;
+}
+
+export interface MeetingTemplate {
+  id: string;
+  name: string;
+  description: string;
+  rows: TemplateRow[];
+  organisations: string[];
+  whiteboardImage?: string;
+}
+
+export interface QuarantinedDocument {
+  id: string;
+  kind: 'project' | 'meeting';
+  projectId?: string;
+  reason: string;
+  document: unknown;
+  quarantinedAt: string;
+}
+
+export type SyncKind = 'project' | 'meeting';
+
+/** A document in the shape it is synced in: JSON only, with images replaced by content hashes. */
+export type SyncDocument = Record<string, unknown>;
+
+export interface SyncConfig {
+  serverUrl: string; // empty when sync is off
+  token: string;
+}
+
+/** The server's copy of a document as of the last pull or push: the common ancestor for merges. */
+export interface SyncBase {
+  key: string; // `${kind}/${id}`
+  version: number;
+  document: SyncDocument | null; // null once deleted on the server
+}
+
+/** One place where this device and the server changed the same thing differently. */
+export interface SyncFieldConflict {
+  path: (string | { id: string })[]; // field names, and `{ id }` steps into lists of entities
+  label: string;
+  local: unknown;
+  remote: unknown;
+}
+
+/** A local change waiting to be pushed. Entries with conflicts wait for the user first. */
+export interface OutboxEntry {
+  key: string;
+  kind: SyncKind;
+  id: string;
+  document: SyncDocument | null; // null to delete
+  queuedAt: string;
+  conflicts?: SyncFieldConflict[];
 }
 
 export enum ToolType {
   MARKER = 'MARKER',
   HIGHLIGHTER = 'HIGHLIGHTER',
-  ERASER = 'ERASER'
+  ERASER = 'ERASER',
+  SELECT = 'SELECT',
+  LINE = 'LINE',
+  ARROW = 'ARROW',
+  RECT = 'RECT',
+  ELLIPSE = 'ELLIPSE',
+  CLOUD = 'CLOUD',
+  TEXT = 'TEXT',
+  CALIBRATE = 'CALIBRATE',
+  DIMENSION = 'DIMENSION',
+  AREA = 'AREA',
+  PIN = 'PIN',
+  PAN = 'PAN'
 }
 
 export type ToolColor = '#3b82f6' | '#ef4444' | '#22c55e' | '#facc15'; // Blue, Red, Green, Yellow
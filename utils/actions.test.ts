@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildCarriedForwardRow, collectProjectActions, createAction, isActionOpen } from './actions';
+import { meetingFixture, projectFixture } from '../test/fixtures';
+import { ActionItem } from '../types';
+
+const action = (id: string, status: ActionItem['status'], ownerId?: string): ActionItem =>
+  ({ ...createAction('m1', 'r1'), id, description: `Action ${id}`, status, ownerId });
+
+const owner = { id: 'o1', name: 'Sam Reed', organisation: 'Reed Engineering' };
+
+// The same action carried from the first meeting into the second, where it was closed.
+const project = () => projectFixture([
+  meetingFixture({
+    id: 'm1',
+    attendees: [owner],
+    rows: [{ id: 'r1', actions: [action('a1', 'open', 'o1'), action('a2', 'in_progress', 'o1')] }]
+  }),
+  meetingFixture({
+    id: 'm2',
+    rows: [{ id: 'r2', actions: [action('a1', 'done')] }, { id: 'r3', actions: [action('a3', 'open', 'nobody')] }]
+  })
+]);
+
+describe('isActionOpen', () => {
+  it('treats everything but done as open', () => {
+    expect(['open', 'in_progress', 'done'].map(status => isActionOpen(action('a', status as ActionItem['status'])))).toEqual([true, true, false]);
+  });
+});
+
+describe('collectProjectActions', () => {
+  it('lists each action once, from the latest meeting that holds it', () => {
+    const entries = collectProjectActions(project());
+    expect(entries.map(entry => [entry.action.id, entry.action.status, entry.meeting.id, entry.row.id])).toEqual([
+      ['a1', 'done', 'm2', 'r2'],
+      ['a2', 'in_progress', 'm1', 'r1'],
+      ['a3', 'open', 'm2', 'r3']
+    ]);
+  });
+
+  it('resolves owners against the meeting that holds the action', () => {
+    const owners = collectProjectActions(project()).map(entry => entry.owner?.name);
+    expect(owners).toEqual([undefined, 'Sam Reed', undefined]);
+  });
+});
+
+describe('buildCarriedForwardRow', () => {
+  it('carries the open actions forward with the attendees who own them', () => {
+    const carried = buildCarriedForwardRow(project());
+    expect(carried?.row.actions.map(a => a.id)).toEqual(['a2', 'a3']);
+    expect(carried?.row.actions[0]).toMatchObject({ sourceMeetingId: 'm1', sourceRowId: 'r1' });
+    expect(carried?.owners).toEqual([owner]);
+  });
+
+  it('returns null when nothing is open', () => {
+    expect(buildCarriedForwardRow(projectFixture([meetingFixture({ rows: [{ id: 'r1', actions: [action('a1', 'done')] }] })]))).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { ProjectGroup, Meeting, NoteRow, ActionItem, Attendee } from '../types';
+
+export interface ProjectActionEntry {
+  action: ActionItem;
+  meeting: Meeting;
+  row: NoteRow;
+  owner?: Attendee;
+}
+
+export const isActionOpen = (action: ActionItem) => action.status !== 'done';
+
+export const createAction = (meetingId: string, rowId: string): ActionItem => ({
+  id: crypto.randomUUID(),
+  description: '',
+  status: 'open',
+  sourceMeetingId: meetingId,
+  sourceRowId: rowId
+});
+
+/**
+ * Every action in a project. A carried-forward action keeps its id, so when
+ * the same action appears in several meetings only the copy in the latest
+ * meeting (last in `project.meetings`) is returned.
+ */
+export const collectProjectActions = (project: ProjectGroup): ProjectActionEntry[] => {
+  const latest = new Map<string, ProjectActionEntry>();
+  project.meetings.forEach(meeting => {
+    meeting.rows.forEach(row => {
+      row.actions.forEach(action => {
+        latest.set(action.id, {
+          action,
+          meeting,
+          row,
+          owner: meeting.attendees.find(a => a.id === action.ownerId)
+        });
+      });
+    });
+  });
+  return Array.from(latest.values());
+};
+
+/**
+ * Builds the "carried forward" row for a new meeting from every action still
+ * open in the project, together with the attendees who own them so the owner
+ * links keep resolving in the new meeting. Returns null when nothing is open.
+ */
+export const buildCarriedForwardRow = (project: ProjectGroup): { row: NoteRow; owners: Attendee[] } | null => {
+  const open = collectProjectActions(project).filter(entry => isActionOpen(entry.action));
+  if (open.length === 0) return null;
+
+  const owners = new Map<string, Attendee>();
+  open.forEach(entry => {
+    if (entry.owner) owners.set(entry.owner.id, entry.owner);
+  });
+
+  return {
+    row: {
+      id: crypto.randomUUID(),
+      discussion: 'Actions carried forward from previous meetings.',
+      followUp: '',
+      images: [],
+      actions: open.map(entry => ({ ...entry.action }))
+    },
+    owners: Array.from(owners.values())
+  };
+};
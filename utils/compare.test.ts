@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { IDENTITY_ALIGNMENT, alignmentTransform, describeProjectImage, projectImages } from './compare';
+import { meetingFixture } from '../test/fixtures';
+
+const sheet = (id: string, source?: { fileName: string; page?: number }) => ({ id, url: `data:image/png;base64,${id}`, markup: [], source });
+
+const meetings = () => [
+  meetingFixture({ id: 'm1', name: 'Design review 1', dateCreated: '2024-03-01T10:00:00.000Z', rows: [{ id: 'r1', images: [sheet('a', { fileName: 'GA plans.pdf', page: 2 })] }] }),
+  meetingFixture({
+    id: 'm2',
+    name: 'Design review 2',
+    dateCreated: '2024-03-08T10:00:00.000Z',
+    rows: [{ id: 'r2' }, { id: 'r3', images: [sheet('b', { fileName: 'site.jpg' }), sheet('c')] }]
+  })
+];
+
+describe('projectImages', () => {
+  it('lists every row image, newest meeting first', () => {
+    expect(projectImages(meetings()).map(({ image, meeting, rowIndex }) => [image.id, meeting.id, rowIndex])).toEqual([
+      ['b', 'm2', 1],
+      ['c', 'm2', 1],
+      ['a', 'm1', 0]
+    ]);
+  });
+});
+
+describe('describeProjectImage', () => {
+  it('names the meeting, the item and the source file and page', () => {
+    expect(projectImages(meetings()).map(describeProjectImage)).toEqual([
+      'Design review 2 · Item 2 · site.jpg',
+      'Design review 2 · Item 2',
+      'Design review 1 · Item 1 · GA plans.pdf p.2'
+    ]);
+  });
+});
+
+describe('alignmentTransform', () => {
+  it('writes the alignment as a CSS transform in fractions of the sheet', () => {
+    expect(alignmentTransform(IDENTITY_ALIGNMENT)).toBe('translate(0%, 0%) rotate(0deg) scale(1)');
+    expect(alignmentTransform({ x: 0.25, y: -0.1, scale: 1.5, rotation: -2 })).toBe('translate(25%, -10%) rotate(-2deg) scale(1.5)');
+  });
+});
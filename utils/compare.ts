@@ -0,0 +1,39 @@
+import { Meeting, NoteImage } from '../types';
+
+export type CompareMode = 'side' | 'onion' | 'swipe';
+
+/**
+ * How the overlay sheet is moved to register it on the base sheet. Offsets
+ * are fractions of the overlay's own width and height, so they hold at any
+ * display size; rotation is in degrees about the sheet's centre.
+ */
+export interface Alignment {
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number;
+}
+
+export const IDENTITY_ALIGNMENT: Alignment = { x: 0, y: 0, scale: 1, rotation: 0 };
+
+export const alignmentTransform = ({ x, y, scale, rotation }: Alignment) =>
+  `translate(${x * 100}%, ${y * 100}%) rotate(${rotation}deg) scale(${scale})`;
+
+export interface ProjectImage {
+  image: NoteImage;
+  meeting: Meeting;
+  rowIndex: number;
+}
+
+/** Every image attached to a row anywhere in the project, newest meeting first. */
+export const projectImages = (meetings: Meeting[]): ProjectImage[] =>
+  [...meetings]
+    .sort((a, b) => new Date(b.dateCreated).getTime() - new Date(a.dateCreated).getTime())
+    .flatMap(meeting => meeting.rows.flatMap((row, rowIndex) => row.images.map(image => ({ image, meeting, rowIndex }))));
+
+export const describeProjectImage = ({ image, meeting, rowIndex }: ProjectImage) =>
+  [
+    meeting.name,
+    `Item ${rowIndex + 1}`,
+    image.source ? `${image.source.fileName}${image.source.page ? ` p.${image.source.page}` : ''}` : ''
+  ].filter(Boolean).join(' · ');
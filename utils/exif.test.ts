@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest';
+import { readJpegInfo } from './exif';
+
+// A TIFF field: ASCII text, or numbers (RATIONALs as numerator, denominator pairs), or a pointer to another IFD.
+interface Field {
+  tag: number;
+  type: 1 | 2 | 3 | 4 | 5;
+  value: string | number[] | { ifd: number };
+}
+
+const TYPE_SIZES = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 4 };
+
+const valueBytes = (field: Field) => {
+  if (typeof field.value === 'string') return field.value.length + 1;
+  if (!Array.isArray(field.value)) return 4;
+  return field.value.length * TYPE_SIZES[field.type];
+};
+
+/** A TIFF block holding `ifds` one after another, the first being IFD0. */
+const buildTiff = (little: boolean, ifds: Field[][]) => {
+  const sizes = ifds.map(fields => 2 + fields.length * 12 + 4 + fields.reduce((sum, f) => sum + (valueBytes(f) > 4 ? valueBytes(f) + (valueBytes(f) % 2) : 0), 0));
+  const offsets = sizes.map((_, i) => 8 + sizes.slice(0, i).reduce((a, b) => a + b, 0));
+  const view = new DataView(new ArrayBuffer(offsets[offsets.length - 1] + sizes[sizes.length - 1]));
+  view.setUint16(0, little ? 0x4949 : 0x4D4D);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+
+  ifds.forEach((fields, i) => {
+    let data = offsets[i] + 2 + fields.length * 12 + 4;
+    view.setUint16(offsets[i], fields.length, little);
+    fields.forEach((field, j) => {
+      const entry = offsets[i] + 2 + j * 12;
+      const value = typeof field.value === 'string' || Array.isArray(field.value) ? field.value : [offsets[field.value.ifd]];
+      const count = typeof value === 'string' ? value.length + 1 : field.type === 5 ? value.length / 2 : value.length;
+      view.setUint16(entry, field.tag, little);
+      view.setUint16(entry + 2, field.type, little);
+      view.setUint32(entry + 4, count, little);
+      const size = valueBytes(field);
+      let at = entry + 8;
+      if (size > 4) {
+        view.setUint32(entry + 8, data, little);
+        at = data;
+        data += size + (size % 2);
+      }
+      if (typeof value === 'string') {
+        [...value].forEach((char, k) => view.setUint8(at + k, char.charCodeAt(0)));
+      } else {
+        value.forEach((n, k) => {
+          if (field.type === 3) view.setUint16(at + k * 2, n, little);
+          else if (field.type === 4 || field.type === 5) view.setUint32(at + k * 4, n, little);
+          else view.setUint8(at + k, n);
+        });
+      }
+    });
+  });
+  return new Uint8Array(view.buffer);
+};
+
+const segment = (marker: number, body: Uint8Array) => {
+  const bytes = new Uint8Array(4 + body.length);
+  new DataView(bytes.buffer).setUint16(0, 0xFF00 | marker);
+  new DataView(bytes.buffer).setUint16(2, body.length + 2);
+  bytes.set(body, 4);
+  return bytes;
+};
+
+/** A JPEG header: SOI, an optional EXIF APP1, a baseline SOF0 with the stored size, then SOS. */
+const buildJpeg = (width: number, height: number, tiff?: Uint8Array) => {
+  const exif = tiff && segment(0xE1, new Uint8Array([0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff]));
+  const frame = new Uint8Array(6);
+  const frameView = new DataView(frame.buffer);
+  frameView.setUint8(0, 8);
+  frameView.setUint16(1, height);
+  frameView.setUint16(3, width);
+  const parts = [new Uint8Array([0xFF, 0xD8]), ...(exif ? [exif] : []), segment(0xC0, frame), new Uint8Array([0xFF, 0xDA, 0, 2])];
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => { bytes.set(part, offset); return offset + part.length; }, 0);
+  return bytes.buffer;
+};
+
+const cameraTiff = (little: boolean, orientation: number) => buildTiff(little, [
+  [
+    { tag: 0x0112, type: 3, value: [orientation] },
+    { tag: 0x0132, type: 2, value: '2026:10:18 09:00:00' },
+    { tag: 0x8769, type: 4, value: { ifd: 1 } },
+    { tag: 0x8825, type: 4, value: { ifd: 2 } }
+  ],
+  [
+    { tag: 0x9003, type: 2, value: '2026:10:19 14:23:05' },
+    { tag: 0x9011, type: 2, value: '+01:00' }
+  ],
+  [
+    { tag: 0x0001, type: 2, value: 'N' },
+    { tag: 0x0002, type: 5, value: [51, 1, 30, 1, 3600, 100] },
+    { tag: 0x0003, type: 2, value: 'W' },
+    { tag: 0x0004, type: 5, value: [0, 1, 7, 1, 3, 1] },
+    { tag: 0x0005, type: 1, value: [1] },
+    { tag: 0x0006, type: 5, value: [25, 2] }
+  ]
+]);
+
+describe('readJpegInfo', () => {
+  it.each([['little-endian', true], ['big-endian', false]])('reads orientation, capture time and position from %s EXIF', (_, little) => {
+    expect(readJpegInfo(buildJpeg(4032, 3024, cameraTiff(little, 6)))).toEqual({
+      width: 4032,
+      height: 3024,
+      orientation: 6,
+      capturedAt: '2026-10-19T14:23:05+01:00',
+      location: { latitude: 51.51, longitude: -(7 / 60 + 3 / 3600), altitude: -12.5 }
+    });
+  });
+
+  it.each([1, 2, 3, 4, 5, 7, 8])('reads orientation %i', orientation => {
+    expect(readJpegInfo(buildJpeg(10, 20, cameraTiff(true, orientation)))?.orientation).toBe(orientation);
+  });
+
+  it('treats an out-of-range or missing orientation as upright', () => {
+    expect(readJpegInfo(buildJpeg(10, 20, cameraTiff(false, 9)))?.orientation).toBe(1);
+    expect(readJpegInfo(buildJpeg(10, 20, buildTiff(true, [[{ tag: 0x0132, type: 2, value: '2026:10:18 09:00:00' }]])))).toEqual({
+      width: 10,
+      height: 20,
+      orientation: 1,
+      capturedAt: '2026-10-18T09:00:00',
+      location: undefined
+    });
+    expect(readJpegInfo(buildJpeg(10, 20))).toEqual({ width: 10, height: 20, orientation: 1 });
+  });
+
+  it('ignores a damaged EXIF block and keeps the size', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const tiff = cameraTiff(true, 6);
+    new DataView(tiff.buffer).setUint32(4, 0xFFFFFF, true);
+    expect(readJpegInfo(buildJpeg(10, 20, tiff))).toEqual({ width: 10, height: 20, orientation: 1 });
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('returns null for anything that is not a JPEG', () => {
+    expect(readJpegInfo(new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]).buffer)).toBeNull();
+    expect(readJpegInfo(new ArrayBuffer(0))).toBeNull();
+  });
+});
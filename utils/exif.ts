@@ -0,0 +1,160 @@
+import { ImageMetadata } from '../types';
+
+/** What is read from a JPEG before it is decoded. */
+export interface JpegInfo {
+  width: number; // as stored, before any EXIF orientation is applied
+  height: number;
+  orientation: number; // EXIF 1-8; 1 when absent
+  capturedAt?: ImageMetadata['capturedAt'];
+  location?: ImageMetadata['location'];
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_ALTITUDE_REF = 0x0005;
+const TAG_GPS_ALTITUDE = 0x0006;
+
+// Bytes per value of each TIFF field type: BYTE, ASCII, SHORT, LONG, RATIONAL, UNDEFINED, SLONG, SRATIONAL.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  offset: number; // of the value itself, from the start of the buffer
+}
+
+interface Tiff {
+  view: DataView;
+  start: number;
+  little: boolean;
+}
+
+const readIfd = ({ view, start, little }: Tiff, ifdOffset: number) => {
+  const entries = new Map<number, IfdEntry>();
+  const at = start + ifdOffset;
+  const count = view.getUint16(at, little);
+  for (let i = 0; i < count; i++) {
+    const entry = at + 2 + i * 12;
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    // Values of four bytes or fewer sit in the entry itself; longer ones are pointed to.
+    const inline = (TYPE_SIZES[type] || 1) * valueCount <= 4;
+    entries.set(view.getUint16(entry, little), {
+      type,
+      count: valueCount,
+      offset: inline ? entry + 8 : start + view.getUint32(entry + 8, little)
+    });
+  }
+  return entries;
+};
+
+const readShort = (tiff: Tiff, entry?: IfdEntry) => entry ? tiff.view.getUint16(entry.offset, tiff.little) : undefined;
+
+const readLong = (tiff: Tiff, entry?: IfdEntry) => entry ? tiff.view.getUint32(entry.offset, tiff.little) : undefined;
+
+const readAscii = (tiff: Tiff, entry?: IfdEntry) => {
+  if (!entry) return undefined;
+  let text = '';
+  for (let i = 0; i < entry.count; i++) {
+    const code = tiff.view.getUint8(entry.offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim();
+};
+
+const readRationals = (tiff: Tiff, entry?: IfdEntry) => {
+  if (!entry) return [];
+  return Array.from({ length: entry.count }, (_, i) =>
+    tiff.view.getUint32(entry.offset + i * 8, tiff.little) / tiff.view.getUint32(entry.offset + i * 8 + 4, tiff.little));
+};
+
+// "2026:10:19 14:23:05" (+ "+01:00") to ISO 8601.
+const toIsoDate = (value?: string, offset?: string) => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match || match[1] === '0000') return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${zone}`;
+};
+
+// Degrees, minutes and seconds to signed decimal degrees.
+const toDegrees = (parts: number[], ref?: string) => {
+  if (parts.length !== 3) return undefined;
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+  if (!Number.isFinite(degrees)) return undefined;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+const readExif = (view: DataView, start: number): Pick<JpegInfo, 'orientation' | 'capturedAt' | 'location'> => {
+  const little = view.getUint16(start) === 0x4949; // "II"; "MM" is big-endian
+  const tiff: Tiff = { view, start, little };
+  const ifd0 = readIfd(tiff, view.getUint32(start + 4, little));
+
+  const exifOffset = readLong(tiff, ifd0.get(TAG_EXIF_IFD));
+  const exif = exifOffset ? readIfd(tiff, exifOffset) : new Map<number, IfdEntry>();
+  const capturedAt = toIsoDate(readAscii(tiff, exif.get(TAG_DATE_TIME_ORIGINAL)), readAscii(tiff, exif.get(TAG_OFFSET_TIME_ORIGINAL)))
+    || toIsoDate(readAscii(tiff, ifd0.get(TAG_DATE_TIME)));
+
+  let location: JpegInfo['location'];
+  const gpsOffset = readLong(tiff, ifd0.get(TAG_GPS_IFD));
+  if (gpsOffset) {
+    const gps = readIfd(tiff, gpsOffset);
+    const latitude = toDegrees(readRationals(tiff, gps.get(TAG_GPS_LATITUDE)), readAscii(tiff, gps.get(TAG_GPS_LATITUDE_REF)));
+    const longitude = toDegrees(readRationals(tiff, gps.get(TAG_GPS_LONGITUDE)), readAscii(tiff, gps.get(TAG_GPS_LONGITUDE_REF)));
+    const [altitude] = readRationals(tiff, gps.get(TAG_GPS_ALTITUDE));
+    const belowSeaLevel = gps.get(TAG_GPS_ALTITUDE_REF) && view.getUint8(gps.get(TAG_GPS_ALTITUDE_REF)!.offset) === 1;
+    if (latitude !== undefined && longitude !== undefined) {
+      location = { latitude, longitude, ...(Number.isFinite(altitude) && { altitude: belowSeaLevel ? -altitude : altitude }) };
+    }
+  }
+
+  const orientation = readShort(tiff, ifd0.get(TAG_ORIENTATION));
+  return { orientation: orientation && orientation >= 1 && orientation <= 8 ? orientation : 1, capturedAt, location };
+};
+
+const isStartOfFrame = (marker: number) => marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC;
+
+/**
+ * Reads the stored size and the EXIF orientation, capture time and GPS
+ * position of a JPEG. Returns null for anything that is not a JPEG; a
+ * damaged EXIF block is ignored rather than failing the image.
+ */
+export const readJpegInfo = (buffer: ArrayBuffer): JpegInfo | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null;
+  let exif: ReturnType<typeof readExif> = { orientation: 1 };
+  let size: { width: number, height: number } | null = null;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength && !size) {
+    if (view.getUint8(offset) !== 0xFF) break;
+    const marker = view.getUint8(offset + 1);
+    if (marker === 0xFF) {
+      offset++; // fill byte
+      continue;
+    }
+    if (marker === 0xDA || marker === 0xD9) break; // image data follows; no more headers
+    const length = view.getUint16(offset + 2);
+    // APP1 starting "Exif\0\0"
+    if (marker === 0xE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      try {
+        exif = readExif(view, offset + 10);
+      } catch (error) {
+        console.warn('Ignoring unreadable EXIF data:', error);
+      }
+    }
+    if (isStartOfFrame(marker) && offset + 9 <= view.byteLength) {
+      size = { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + length;
+  }
+  return size ? { ...size, ...exif } : null;
+};
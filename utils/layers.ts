@@ -0,0 +1,38 @@
+import { MarkupLayer, MarkupPath } from '../types';
+
+export const LAYER_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#f97316', '#a855f7', '#14b8a6', '#ec4899', '#64748b'];
+
+/** Markup drawn before layers existed lives on this layer until the user adds others. */
+export const DEFAULT_LAYER: MarkupLayer = {
+  id: 'default',
+  name: 'Markup',
+  color: LAYER_COLORS[0],
+  author: '',
+  visible: true,
+  locked: false,
+  exported: true
+};
+
+export const resolveLayers = (layers?: MarkupLayer[]) => (layers && layers.length > 0 ? layers : [DEFAULT_LAYER]);
+
+export const layerOf = (path: MarkupPath, layers: MarkupLayer[]) => layers.find(l => l.id === path.layerId) || layers[0];
+
+export const createLayer = (layers: MarkupLayer[], author = ''): MarkupLayer => ({
+  id: crypto.randomUUID(),
+  name: `Layer ${layers.length + 1}`,
+  color: LAYER_COLORS[layers.length % LAYER_COLORS.length],
+  author,
+  visible: true,
+  locked: false,
+  exported: true
+});
+
+export const isPathVisible = (path: MarkupPath, layers: MarkupLayer[]) => layerOf(path, layers).visible;
+
+/** Visible and unlocked: the only markup the select tool and eraser may touch. */
+export const isPathEditable = (path: MarkupPath, layers: MarkupLayer[]) => {
+  const layer = layerOf(path, layers);
+  return layer.visible && !layer.locked;
+};
+
+export const isPathExported = (path: MarkupPath, layers: MarkupLayer[]) => layerOf(path, layers).exported;
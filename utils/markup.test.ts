@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  eraseMarkup,
+  findMarkupAt,
+  findMarkupInLasso,
+  hitTestMarkup,
+  markupBounds,
+  rotateMarkup,
+  scaleMarkup,
+  selectionBounds,
+  translateMarkup
+} from './markup';
+import { BoxMarkup, MarkupPath, TextMarkup } from '../types';
+
+const line: MarkupPath = { type: 'line', points: [{ x: 0, y: 0 }, { x: 100, y: 0 }], color: '#000', width: 2 };
+const rect: BoxMarkup = { type: 'rect', points: [{ x: 0, y: 0 }, { x: 100, y: 50 }], color: '#000', width: 2 };
+const ellipse: BoxMarkup = { ...rect, type: 'ellipse' };
+const callout: TextMarkup = { type: 'text', points: [{ x: 0, y: 0 }, { x: 200, y: 100 }], color: '#000', width: 2, text: 'Check', fontSize: 20 };
+const area: MarkupPath = { type: 'area', points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }], color: '#000', width: 2 };
+
+describe('hitTestMarkup', () => {
+  it('hits a line within the tolerance plus half its width', () => {
+    expect(hitTestMarkup(line, { x: 50, y: 5 }, 4)).toBe(true);
+    expect(hitTestMarkup(line, { x: 50, y: 6 }, 4)).toBe(false);
+    expect(hitTestMarkup(line, { x: 104, y: 0 }, 4)).toBe(true);
+  });
+
+  it('hits a rectangle or ellipse on its outline only', () => {
+    expect(hitTestMarkup(rect, { x: 50, y: 2 }, 4)).toBe(true);
+    expect(hitTestMarkup(rect, { x: 50, y: 25 }, 4)).toBe(false);
+    expect(hitTestMarkup(ellipse, { x: 50, y: 1 }, 4)).toBe(true);
+    expect(hitTestMarkup(ellipse, { x: 50, y: 25 }, 4)).toBe(false);
+    expect(hitTestMarkup(ellipse, { x: 2, y: 2 }, 4)).toBe(false);
+  });
+
+  it('follows a box through its rotation', () => {
+    const turned = { ...rect, rotation: Math.PI / 2 };
+    // Turned a quarter about (50, 25), the top edge now runs down x = 75.
+    expect(hitTestMarkup(turned, { x: 75, y: 25 }, 4)).toBe(true);
+    expect(hitTestMarkup(turned, { x: 50, y: 0 }, 4)).toBe(false);
+  });
+
+  it('hits a callout on its label or its leader', () => {
+    expect(hitTestMarkup(callout, { x: 200, y: 100 }, 4)).toBe(true);
+    expect(hitTestMarkup(callout, { x: 100, y: 50 }, 4)).toBe(true);
+    expect(hitTestMarkup(callout, { x: 100, y: 90 }, 4)).toBe(false);
+  });
+
+  it('hits an area anywhere inside it', () => {
+    expect(hitTestMarkup(area, { x: 50, y: 50 }, 4)).toBe(true);
+    expect(hitTestMarkup(area, { x: 150, y: 50 }, 4)).toBe(false);
+  });
+});
+
+describe('findMarkupAt and eraseMarkup', () => {
+  it('finds the topmost shape under a point', () => {
+    expect(findMarkupAt([line, rect], { x: 50, y: 0 }, 4)).toBe(1);
+    expect(findMarkupAt([line, rect], { x: 50, y: 25 }, 4)).toBe(-1);
+  });
+
+  it('erases every shape the trail touched', () => {
+    expect(eraseMarkup([line, rect, callout], [{ x: 100, y: 25 }, { x: 150, y: 30 }], 4)).toEqual([line, callout]);
+  });
+});
+
+describe('bounds and lasso', () => {
+  it('bounds a shape by its outline plus half its stroke', () => {
+    expect(markupBounds(rect)).toEqual({ minX: -1, minY: -1, maxX: 101, maxY: 51 });
+    const turned = markupBounds({ ...rect, rotation: Math.PI / 2 });
+    expect([turned.minX, turned.minY, turned.maxX, turned.maxY].map(Math.round)).toEqual([24, -26, 76, 76]);
+  });
+
+  it('bounds a selection by all of its shapes', () => {
+    expect(selectionBounds([line, { ...rect, points: [{ x: 20, y: -40 }, { x: 60, y: 10 }] }])).toEqual({ minX: -1, minY: -41, maxX: 101, maxY: 11 });
+    expect(selectionBounds([])).toBeNull();
+  });
+
+  it('picks up shapes with a point inside the lasso', () => {
+    const lasso = [{ x: -10, y: -10 }, { x: 20, y: -10 }, { x: 20, y: 10 }, { x: -10, y: 10 }];
+    expect(findMarkupInLasso([line, rect, { ...rect, points: [{ x: 30, y: 30 }, { x: 60, y: 60 }] }], lasso)).toEqual([0, 1]);
+  });
+});
+
+describe('transforms', () => {
+  it('moves every point', () => {
+    expect(translateMarkup(line, 5, -5).points).toEqual([{ x: 5, y: -5 }, { x: 105, y: -5 }]);
+  });
+
+  it('scales about a pivot, growing callout text but not stroke widths', () => {
+    const scaled = scaleMarkup(callout, { x: 0, y: 0 }, 2) as TextMarkup;
+    expect(scaled.points).toEqual([{ x: 0, y: 0 }, { x: 400, y: 200 }]);
+    expect([scaled.fontSize, scaled.width]).toEqual([40, 2]);
+  });
+
+  it('turns boxes about their centre and keeps their corners in their own frame', () => {
+    const turned = rotateMarkup(rect, { x: 0, y: 0 }, Math.PI / 2) as BoxMarkup;
+    expect(turned.rotation).toBeCloseTo(Math.PI / 2);
+    // The centre moves from (50, 25) to (-25, 50); the box keeps its own width and height.
+    expect(turned.points.map(p => [Math.round(p.x), Math.round(p.y)])).toEqual([[-75, 25], [25, 75]]);
+  });
+
+  it('turns other shapes point by point', () => {
+    const turned = rotateMarkup(line, { x: 0, y: 0 }, Math.PI / 2);
+    expect(turned.points.map(p => [Math.round(p.x), Math.round(p.y)])).toEqual([[0, 0], [0, 100]]);
+  });
+});
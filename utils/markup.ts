@@ -0,0 +1,550 @@
+import { BoxMarkup, FreehandMarkup, MarkupPath, MarkupPoint, MarkupType, MeasureMarkup, NoteImage, TextMarkup, ToolType } from '../types';
+import { MarkupScale, calibrationScale, formatArea, formatLength, polygonArea } from './measurement';
+import { isPathExported, isPathVisible, resolveLayers } from './layers';
+import { drawPin } from './pins';
+
+export interface MarkupBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const SHAPE_TOOLS: Partial<Record<ToolType, Exclude<MarkupType, 'freehand'>>> = {
+  [ToolType.LINE]: 'line',
+  [ToolType.ARROW]: 'arrow',
+  [ToolType.RECT]: 'rect',
+  [ToolType.ELLIPSE]: 'ellipse',
+  [ToolType.CLOUD]: 'cloud',
+  [ToolType.TEXT]: 'text',
+  [ToolType.DIMENSION]: 'dimension',
+};
+
+const CALLOUT_FONT_SIZE = 18;
+const MEASURE_FONT_SIZE = 14;
+const SELECTION_COLOR = '#50C878';
+
+export const isShapeTool = (tool: ToolType) => tool in SHAPE_TOOLS;
+
+/** Builds the shape a drag from `start` to `end` draws with `tool`. Callouts start with empty text. */
+export const createShape = (tool: ToolType, start: MarkupPoint, end: MarkupPoint, color: string, width: number): MarkupPath => {
+  const type = SHAPE_TOOLS[tool];
+  if (!type) throw new Error(`${tool} does not draw a shape`);
+  const points = [start, end];
+  if (type === 'text') return { type, points, color, width, text: '', fontSize: CALLOUT_FONT_SIZE };
+  return { type, points, color, width };
+};
+
+const distance = (a: MarkupPoint, b: MarkupPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const distanceToSegment = (p: MarkupPoint, a: MarkupPoint, b: MarkupPoint) => {
+  const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  if (lengthSq === 0) return distance(p, a);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / lengthSq));
+  return distance(p, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+};
+
+const isInsidePolygon = (p: MarkupPoint, polygon: MarkupPoint[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+const boxFrame = (path: BoxMarkup) => {
+  const [a, b] = path.points;
+  return {
+    cx: (a.x + b.x) / 2,
+    cy: (a.y + b.y) / 2,
+    halfWidth: Math.abs(b.x - a.x) / 2,
+    halfHeight: Math.abs(b.y - a.y) / 2,
+    rotation: path.rotation || 0
+  };
+};
+
+/** `p` in the box's own frame: centred on the origin with the rotation undone. */
+const toBoxFrame = (path: BoxMarkup, p: MarkupPoint) => {
+  const { cx, cy, rotation } = boxFrame(path);
+  const cos = Math.cos(-rotation);
+  const sin = Math.sin(-rotation);
+  const dx = p.x - cx;
+  const dy = p.y - cy;
+  return { x: dx * cos - dy * sin, y: dx * sin + dy * cos };
+};
+
+const boxCorners = (path: BoxMarkup): MarkupPoint[] => {
+  const { cx, cy, halfWidth, halfHeight, rotation } = boxFrame(path);
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => ({
+    x: cx + sx * halfWidth * cos - sy * halfHeight * sin,
+    y: cy + sx * halfWidth * sin + sy * halfHeight * cos
+  }));
+};
+
+const scallopSize = (path: MarkupPath) => Math.max(12, path.width * 4);
+
+/** The label box of a callout. Without a context the text width is estimated, which is close enough for hit testing. */
+const calloutBox = (path: TextMarkup, ctx?: CanvasRenderingContext2D) => {
+  const textWidth = ctx ? ctx.measureText(path.text).width : path.text.length * path.fontSize * 0.6;
+  const padding = path.fontSize * 0.4;
+  const width = textWidth + padding * 2;
+  const height = path.fontSize + padding * 2;
+  const anchor = path.points[1];
+  return { x: anchor.x - width / 2, y: anchor.y - height / 2, width, height };
+};
+
+const calloutFont = (path: TextMarkup) => `bold ${path.fontSize}px sans-serif`;
+
+const strokePolyline = (ctx: CanvasRenderingContext2D, points: MarkupPoint[]) => {
+  if (points.length === 0) return;
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  points.forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.stroke();
+};
+
+const midpoint = (a: MarkupPoint, b: MarkupPoint) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Strokes freehand segments `from` up to (not including) `to`. The curve runs
+ * through the midpoints between samples and bends around each sample, so
+ * segment i belongs to point i and only changes while i is the last point.
+ * Stylus strokes take each segment's width from its pressure, about `width`
+ * at half pressure. Alpha is left to the caller.
+ */
+export const drawFreehandSegments = (ctx: CanvasRenderingContext2D, path: FreehandMarkup, from: number, to: number) => {
+  const { points } = path;
+  const pressured = !path.isHighlighter && points.some(p => p.pressure !== undefined);
+  const widthAt = (p: MarkupPoint) => (pressured ? path.width * (0.4 + 1.2 * (p.pressure ?? 0.5)) : path.width);
+  ctx.strokeStyle = ctx.fillStyle = path.color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (points.length === 1) {
+    ctx.beginPath();
+    ctx.arc(points[0].x, points[0].y, widthAt(points[0]) / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+  // Without pressure the whole run is one path, so highlighter overlaps do not darken.
+  ctx.lineWidth = path.width;
+  if (!pressured) ctx.beginPath();
+  for (let i = from; i < Math.min(to, points.length); i++) {
+    const p = points[i];
+    const start = i === 0 ? p : midpoint(points[i - 1], p);
+    const end = i === points.length - 1 ? p : midpoint(p, points[i + 1]);
+    if (pressured) {
+      ctx.lineWidth = widthAt(p);
+      ctx.beginPath();
+    }
+    ctx.moveTo(start.x, start.y);
+    ctx.quadraticCurveTo(p.x, p.y, end.x, end.y);
+    if (pressured) ctx.stroke();
+  }
+  if (!pressured) ctx.stroke();
+};
+
+const strokeArrowHead = (ctx: CanvasRenderingContext2D, from: MarkupPoint, to: MarkupPoint, width: number) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const length = Math.max(12, width * 4);
+  ctx.beginPath();
+  ctx.moveTo(to.x - length * Math.cos(angle - Math.PI / 7), to.y - length * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(to.x, to.y);
+  ctx.lineTo(to.x - length * Math.cos(angle + Math.PI / 7), to.y - length * Math.sin(angle + Math.PI / 7));
+  ctx.stroke();
+};
+
+/** Traces a revision cloud: the box outline as a run of outward-bulging scallops. */
+const traceCloud = (ctx: CanvasRenderingContext2D, halfWidth: number, halfHeight: number, scallop: number) => {
+  const corners = [
+    { x: -halfWidth, y: -halfHeight },
+    { x: halfWidth, y: -halfHeight },
+    { x: halfWidth, y: halfHeight },
+    { x: -halfWidth, y: halfHeight }
+  ];
+  ctx.moveTo(corners[0].x, corners[0].y);
+  corners.forEach((from, i) => {
+    const to = corners[(i + 1) % corners.length];
+    const length = distance(from, to);
+    const count = Math.max(1, Math.round(length / scallop));
+    const dx = (to.x - from.x) / count;
+    const dy = (to.y - from.y) / count;
+    // Corners run clockwise on screen, so (dy, -dx) points out of the box.
+    const normal = length === 0 ? { x: 0, y: 0 } : { x: (to.y - from.y) / length, y: -(to.x - from.x) / length };
+    const bulge = Math.hypot(dx, dy) * 0.8;
+    for (let s = 0; s < count; s++) {
+      const startX = from.x + dx * s;
+      const startY = from.y + dy * s;
+      ctx.quadraticCurveTo(
+        startX + dx / 2 + normal.x * bulge,
+        startY + dy / 2 + normal.y * bulge,
+        startX + dx,
+        startY + dy
+      );
+    }
+  });
+  ctx.closePath();
+};
+
+const drawBox = (ctx: CanvasRenderingContext2D, path: BoxMarkup) => {
+  const { cx, cy, halfWidth, halfHeight, rotation } = boxFrame(path);
+  ctx.translate(cx, cy);
+  ctx.rotate(rotation);
+  ctx.beginPath();
+  if (path.type === 'rect') ctx.rect(-halfWidth, -halfHeight, halfWidth * 2, halfHeight * 2);
+  else if (path.type === 'ellipse') ctx.ellipse(0, 0, halfWidth, halfHeight, 0, 0, Math.PI * 2);
+  else traceCloud(ctx, halfWidth, halfHeight, scallopSize(path));
+  ctx.stroke();
+};
+
+const drawCallout = (ctx: CanvasRenderingContext2D, path: TextMarkup) => {
+  const [tip, anchor] = path.points;
+  ctx.font = calloutFont(path);
+  const box = calloutBox(path, ctx);
+  if (distance(tip, anchor) > box.height / 2) {
+    strokePolyline(ctx, [tip, anchor]);
+    ctx.beginPath();
+    ctx.arc(tip.x, tip.y, Math.max(3, path.width), 0, Math.PI * 2);
+    ctx.fillStyle = path.color;
+    ctx.fill();
+  }
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(box.x, box.y, box.width, box.height);
+  ctx.lineWidth = Math.max(1, path.width / 2);
+  ctx.strokeRect(box.x, box.y, box.width, box.height);
+  ctx.fillStyle = path.color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(path.text, anchor.x, anchor.y);
+};
+
+/** A label with a white halo so it stays legible over the drawing underneath. */
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, at: MarkupPoint, color: string) => {
+  ctx.font = `bold ${MEASURE_FONT_SIZE}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineWidth = 4;
+  ctx.strokeStyle = '#ffffff';
+  ctx.strokeText(text, at.x, at.y);
+  ctx.fillStyle = color;
+  ctx.fillText(text, at.x, at.y);
+};
+
+const drawMeasurement = (ctx: CanvasRenderingContext2D, path: MeasureMarkup, scale?: MarkupScale) => {
+  if (path.type === 'area') {
+    ctx.beginPath();
+    path.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+    ctx.fillStyle = path.color;
+    ctx.globalAlpha = 0.15;
+    ctx.fill();
+    ctx.globalAlpha = 1.0;
+    ctx.stroke();
+    if (scale && path.points.length >= 3) {
+      const centroid = {
+        x: path.points.reduce((sum, p) => sum + p.x, 0) / path.points.length,
+        y: path.points.reduce((sum, p) => sum + p.y, 0) / path.points.length
+      };
+      drawLabel(ctx, formatArea(polygonArea(path.points) * scale.mmPerUnit ** 2, scale.units), centroid, path.color);
+    }
+    return;
+  }
+
+  const [a, b] = path.points;
+  strokePolyline(ctx, [a, b]);
+  // Architectural ticks: short 45° slashes across each end.
+  const angle = Math.atan2(b.y - a.y, b.x - a.x) + Math.PI / 4;
+  const tick = Math.max(8, path.width * 3) / 2;
+  [a, b].forEach(end => strokePolyline(ctx, [
+    { x: end.x - tick * Math.cos(angle), y: end.y - tick * Math.sin(angle) },
+    { x: end.x + tick * Math.cos(angle), y: end.y + tick * Math.sin(angle) }
+  ]));
+  if (scale) {
+    const length = distance(a, b);
+    const offset = MEASURE_FONT_SIZE;
+    const normal = length === 0 ? { x: 0, y: -1 } : { x: (b.y - a.y) / length, y: -(b.x - a.x) / length };
+    // Keep the label on the upper side of the line whichever way it was drawn.
+    const side = normal.y > 0 ? -1 : 1;
+    drawLabel(ctx, formatLength(length * scale.mmPerUnit, scale.units), {
+      x: (a.x + b.x) / 2 + normal.x * offset * side,
+      y: (a.y + b.y) / 2 + normal.y * offset * side
+    }, path.color);
+  }
+};
+
+export const drawMarkup = (ctx: CanvasRenderingContext2D, path: MarkupPath, scale?: MarkupScale) => {
+  ctx.save();
+  ctx.strokeStyle = path.color;
+  ctx.lineWidth = path.width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.globalAlpha = path.type === 'freehand' && path.isHighlighter ? 0.4 : 1.0;
+  switch (path.type) {
+    case 'freehand':
+      drawFreehandSegments(ctx, path, 0, path.points.length);
+      break;
+    case 'line':
+      strokePolyline(ctx, path.points);
+      break;
+    case 'arrow':
+      strokePolyline(ctx, path.points);
+      strokeArrowHead(ctx, path.points[0], path.points[1], path.width);
+      break;
+    case 'rect':
+    case 'ellipse':
+    case 'cloud':
+      drawBox(ctx, path);
+      break;
+    case 'text':
+      drawCallout(ctx, path);
+      break;
+    case 'dimension':
+    case 'area':
+      drawMeasurement(ctx, path, scale);
+      break;
+  }
+  ctx.restore();
+};
+
+/** Whether `p` lies on the shape's outline (or a callout's label), within `tolerance` pixels of its stroke. */
+export const hitTestMarkup = (path: MarkupPath, p: MarkupPoint, tolerance: number): boolean => {
+  const reach = tolerance + path.width / 2;
+  switch (path.type) {
+    case 'freehand':
+      if (path.points.length === 1) return distance(p, path.points[0]) <= reach;
+      return path.points.some((point, i) => i > 0 && distanceToSegment(p, path.points[i - 1], point) <= reach);
+    case 'line':
+    case 'arrow':
+      return distanceToSegment(p, path.points[0], path.points[1]) <= reach;
+    case 'rect':
+    case 'cloud': {
+      const { halfWidth, halfHeight } = boxFrame(path);
+      const local = toBoxFrame(path, p);
+      const dx = Math.abs(local.x) - halfWidth;
+      const dy = Math.abs(local.y) - halfHeight;
+      const toOutline = dx <= 0 && dy <= 0 ? Math.min(-dx, -dy) : Math.hypot(Math.max(dx, 0), Math.max(dy, 0));
+      return toOutline <= reach + (path.type === 'cloud' ? scallopSize(path) / 2 : 0);
+    }
+    case 'ellipse': {
+      const { halfWidth, halfHeight } = boxFrame(path);
+      if (halfWidth === 0 || halfHeight === 0) return distanceToSegment(p, path.points[0], path.points[1]) <= reach;
+      const local = toBoxFrame(path, p);
+      const radial = Math.hypot(local.x / halfWidth, local.y / halfHeight);
+      return Math.abs(radial - 1) * Math.min(halfWidth, halfHeight) <= reach;
+    }
+    case 'dimension':
+      return distanceToSegment(p, path.points[0], path.points[1]) <= reach;
+    case 'area':
+      return isInsidePolygon(p, path.points)
+        || path.points.some((point, i) => distanceToSegment(p, point, path.points[(i + 1) % path.points.length]) <= reach);
+    case 'text': {
+      const box = calloutBox(path);
+      const inLabel = p.x >= box.x - tolerance && p.x <= box.x + box.width + tolerance
+        && p.y >= box.y - tolerance && p.y <= box.y + box.height + tolerance;
+      return inLabel || distanceToSegment(p, path.points[0], path.points[1]) <= reach;
+    }
+  }
+};
+
+type MarkupFilter = (path: MarkupPath) => boolean;
+
+const everyPath: MarkupFilter = () => true;
+
+/** Index of the topmost shape under `p` that passes `include`, or -1. */
+export const findMarkupAt = (paths: MarkupPath[], p: MarkupPoint, tolerance: number, include: MarkupFilter = everyPath) => {
+  for (let i = paths.length - 1; i >= 0; i--) {
+    if (include(paths[i]) && hitTestMarkup(paths[i], p, tolerance)) return i;
+  }
+  return -1;
+};
+
+/** Drops every shape the eraser trail touched, leaving those `include` rules out alone. */
+export const eraseMarkup = (paths: MarkupPath[], trail: MarkupPoint[], tolerance: number, include: MarkupFilter = everyPath) =>
+  paths.filter(path => !include(path) || !trail.some(p => hitTestMarkup(path, p, tolerance)));
+
+export const markupBounds = (path: MarkupPath): MarkupBounds => {
+  let points = path.points;
+  if (path.type === 'rect' || path.type === 'ellipse' || path.type === 'cloud') {
+    points = boxCorners(path);
+  } else if (path.type === 'text') {
+    const box = calloutBox(path);
+    points = [path.points[0], { x: box.x, y: box.y }, { x: box.x + box.width, y: box.y + box.height }];
+  }
+  const pad = path.width / 2 + (path.type === 'cloud' ? scallopSize(path) / 2 : 0);
+  return {
+    minX: Math.min(...points.map(p => p.x)) - pad,
+    minY: Math.min(...points.map(p => p.y)) - pad,
+    maxX: Math.max(...points.map(p => p.x)) + pad,
+    maxY: Math.max(...points.map(p => p.y)) + pad
+  };
+};
+
+const isBox = (path: MarkupPath): path is BoxMarkup => path.type === 'rect' || path.type === 'ellipse' || path.type === 'cloud';
+
+/** The points a lasso has to enclose to pick a shape up: its vertices, or a box's visible corners. */
+const markupAnchors = (path: MarkupPath) => (isBox(path) ? boxCorners(path) : path.points);
+
+export const selectionBounds = (paths: MarkupPath[]): MarkupBounds | null => {
+  if (paths.length === 0) return null;
+  const all = paths.map(markupBounds);
+  return {
+    minX: Math.min(...all.map(b => b.minX)),
+    minY: Math.min(...all.map(b => b.minY)),
+    maxX: Math.max(...all.map(b => b.maxX)),
+    maxY: Math.max(...all.map(b => b.maxY))
+  };
+};
+
+/** Corner scale handles (clockwise from top left) and the rotate handle above the top edge. */
+export const selectionHandles = (bounds: MarkupBounds, handleSize: number) => ({
+  corners: [
+    { x: bounds.minX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.maxY },
+    { x: bounds.minX, y: bounds.maxY }
+  ],
+  rotate: { x: (bounds.minX + bounds.maxX) / 2, y: bounds.minY - handleSize * 3 }
+});
+
+export const boundsCenter = (bounds: MarkupBounds) => ({ x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 });
+
+export const isInsideBounds = (bounds: MarkupBounds, p: MarkupPoint) =>
+  p.x >= bounds.minX && p.x <= bounds.maxX && p.y >= bounds.minY && p.y <= bounds.maxY;
+
+/** Indices of the shapes passing `include` with at least one anchor inside the lasso polygon. */
+export const findMarkupInLasso = (paths: MarkupPath[], lasso: MarkupPoint[], include: MarkupFilter = everyPath) =>
+  paths.reduce<number[]>((found, path, i) => (include(path) && markupAnchors(path).some(p => isInsidePolygon(p, lasso)) ? [...found, i] : found), []);
+
+export const translateMarkup = (path: MarkupPath, dx: number, dy: number): MarkupPath =>
+  ({ ...path, points: path.points.map(p => ({ ...p, x: p.x + dx, y: p.y + dy })) });
+
+/** Uniform scale about `pivot`. Callout text scales with its shape; stroke widths do not. */
+export const scaleMarkup = (path: MarkupPath, pivot: MarkupPoint, factor: number): MarkupPath => {
+  const points = path.points.map(p => ({ ...p, x: pivot.x + (p.x - pivot.x) * factor, y: pivot.y + (p.y - pivot.y) * factor }));
+  return path.type === 'text' ? { ...path, points, fontSize: path.fontSize * factor } : { ...path, points };
+};
+
+/**
+ * Rotation about `pivot`. Boxes keep their corners in their own frame and
+ * accumulate `rotation`; callout labels move with the shape but stay upright.
+ */
+export const rotateMarkup = (path: MarkupPath, pivot: MarkupPoint, angle: number): MarkupPath => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const turn = (p: MarkupPoint) => ({
+    ...p,
+    x: pivot.x + (p.x - pivot.x) * cos - (p.y - pivot.y) * sin,
+    y: pivot.y + (p.x - pivot.x) * sin + (p.y - pivot.y) * cos
+  });
+  if (isBox(path)) {
+    const { cx, cy, rotation } = boxFrame(path);
+    const center = turn({ x: cx, y: cy });
+    return { ...translateMarkup(path, center.x - cx, center.y - cy) as BoxMarkup, rotation: rotation + angle };
+  }
+  return { ...path, points: path.points.map(turn) };
+};
+
+export const drawSelectionOutline = (ctx: CanvasRenderingContext2D, path: MarkupPath) => {
+  const { minX, minY, maxX, maxY } = markupBounds(path);
+  ctx.save();
+  ctx.strokeStyle = SELECTION_COLOR;
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([6, 4]);
+  ctx.strokeRect(minX - 4, minY - 4, maxX - minX + 8, maxY - minY + 8);
+  ctx.restore();
+};
+
+/** The selection frame: dashed bounds, corner scale handles and a rotate handle. */
+export const drawSelectionFrame = (ctx: CanvasRenderingContext2D, bounds: MarkupBounds, handleSize: number) => {
+  const { corners, rotate } = selectionHandles(bounds, handleSize);
+  ctx.save();
+  ctx.strokeStyle = SELECTION_COLOR;
+  ctx.fillStyle = '#ffffff';
+  ctx.lineWidth = handleSize / 5;
+  ctx.setLineDash([handleSize * 0.75, handleSize / 2]);
+  ctx.strokeRect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+  ctx.setLineDash([]);
+  ctx.beginPath();
+  ctx.moveTo(rotate.x, bounds.minY);
+  ctx.lineTo(rotate.x, rotate.y);
+  ctx.stroke();
+  corners.forEach(c => {
+    ctx.fillRect(c.x - handleSize / 2, c.y - handleSize / 2, handleSize, handleSize);
+    ctx.strokeRect(c.x - handleSize / 2, c.y - handleSize / 2, handleSize, handleSize);
+  });
+  ctx.beginPath();
+  ctx.arc(rotate.x, rotate.y, handleSize / 2, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+};
+
+export const drawLasso = (ctx: CanvasRenderingContext2D, points: MarkupPoint[], handleSize: number) => {
+  if (points.length < 2) return;
+  ctx.save();
+  ctx.strokeStyle = SELECTION_COLOR;
+  ctx.fillStyle = SELECTION_COLOR;
+  ctx.lineWidth = handleSize / 5;
+  ctx.setLineDash([handleSize * 0.75, handleSize / 2]);
+  ctx.beginPath();
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.closePath();
+  ctx.globalAlpha = 0.08;
+  ctx.fill();
+  ctx.globalAlpha = 1.0;
+  ctx.stroke();
+  ctx.restore();
+};
+
+/**
+ * The size DrawingCanvas shows an image at. Images edited before markupSize
+ * was recorded had their markup drawn in exactly this space.
+ */
+export const fitToEditor = (width: number, height: number) => {
+  const maxWidth = window.innerWidth * 0.8;
+  const maxHeight = window.innerHeight * 0.7;
+  if (width > maxWidth) {
+    height *= maxWidth / width;
+    width = maxWidth;
+  }
+  if (height > maxHeight) {
+    width *= maxHeight / height;
+    height = maxHeight;
+  }
+  return { width, height };
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Image could not be loaded'));
+  img.src = url;
+});
+
+/**
+ * Draws an image with its markup, measurement labels and pins burnt in, at most
+ * `maxSize` pixels on the long side. `layers` picks the visible layers or the
+ * ones marked for export.
+ */
+export const flattenImageMarkup = async (image: NoteImage, maxSize = 2000, layers: 'visible' | 'exported' = 'visible'): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(image.url);
+  const fit = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * fit);
+  canvas.height = Math.round(img.naturalHeight * fit);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const space = image.markupSize || fitToEditor(img.naturalWidth, img.naturalHeight);
+  ctx.scale(canvas.width / space.width, canvas.height / space.height);
+  const scale = calibrationScale(image.calibration);
+  const imageLayers = resolveLayers(image.layers);
+  const include = layers === 'exported' ? isPathExported : isPathVisible;
+  image.markup.filter(path => include(path, imageLayers)).forEach(path => drawMarkup(ctx, path, scale));
+  (image.pins || []).forEach(pin => drawPin(ctx, pin));
+  return canvas;
+};
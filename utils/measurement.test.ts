@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { calibrationScale, describeCalibration, formatArea, formatLength, parseDistance, polygonArea } from './measurement';
+
+describe('parseDistance', () => {
+  it.each([
+    ['5000', 5000, 'metric'],
+    ['5000 mm', 5000, 'metric'],
+    ['4.2m', 4200, 'metric'],
+    ['  35 CM ', 350, 'metric'],
+    ['3 m 250', 3250, 'metric'],
+    ['12"', 304.8, 'imperial'],
+    ['16\' 6"', 5029.2, 'imperial'],
+    ['2 ft 3 in', 685.8, 'imperial']
+  ])('reads %s', (text, mm, units) => {
+    const parsed = parseDistance(text);
+    expect(parsed?.mm).toBeCloseTo(mm);
+    expect(parsed?.units).toBe(units);
+  });
+
+  it.each(['', '0', 'five metres', '4.2 km', '-300', '3 m wide'])('refuses %j', text => {
+    expect(parseDistance(text)).toBeNull();
+  });
+});
+
+describe('formatLength', () => {
+  it('writes metric lengths in millimetres up to ten metres, then in metres', () => {
+    expect(formatLength(0.4, 'metric')).toBe('0 mm');
+    expect(formatLength(2749.6, 'metric')).toBe('2,750 mm');
+    expect(formatLength(9999.4, 'metric')).toBe('9,999 mm');
+    expect(formatLength(9999.6, 'metric')).toBe('10.00 m');
+    expect(formatLength(10000, 'metric')).toBe('10.00 m');
+    expect(formatLength(12345, 'metric')).toBe('12.35 m');
+  });
+
+  it('writes imperial lengths in feet and inches to the nearest quarter inch', () => {
+    expect(formatLength(5029.2, 'imperial')).toBe('16\' 6"');
+    expect(formatLength(12.7, 'imperial')).toBe('0.5"');
+    expect(formatLength(304.8 * 3 - 6.35, 'imperial')).toBe('2\' 11.75"');
+    expect(formatLength(304.8 * 3 - 1, 'imperial')).toBe('3\' 0"');
+  });
+});
+
+describe('formatArea', () => {
+  it('writes square metres or square feet', () => {
+    expect(formatArea(12.5e6, 'metric')).toBe('12.50 m²');
+    expect(formatArea(92903.04 * 40, 'imperial')).toBe('40.0 ft²');
+  });
+});
+
+describe('polygonArea', () => {
+  it('measures a polygon whichever way it was drawn', () => {
+    const lShape = [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 2 }, { x: 2, y: 2 }, { x: 2, y: 5 }, { x: 0, y: 5 }];
+    expect(polygonArea(lShape)).toBe(14);
+    expect(polygonArea([...lShape].reverse())).toBe(14);
+    expect(polygonArea([{ x: 0, y: 0 }, { x: 3, y: 3 }])).toBe(0);
+  });
+});
+
+describe('calibrationScale', () => {
+  it('turns two reference points and their real distance into millimetres per unit', () => {
+    const calibration = { points: [{ x: 10, y: 10 }, { x: 40, y: 50 }], distanceMm: 5000, units: 'metric' as const };
+    expect(calibrationScale(calibration)).toEqual({ mmPerUnit: 100, units: 'metric' });
+    expect(describeCalibration(calibration)).toBe('5,000 mm reference');
+  });
+
+  it('has no scale without a calibration or with both points in one place', () => {
+    expect(calibrationScale(undefined)).toBeUndefined();
+    expect(calibrationScale({ points: [{ x: 5, y: 5 }, { x: 5, y: 5 }], distanceMm: 1000, units: 'metric' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { MarkupPoint, ScaleCalibration, UnitSystem } from '../types';
+
+/** Real-world millimetres per markup unit, plus how to present the results. */
+export interface MarkupScale {
+  mmPerUnit: number;
+  units: UnitSystem;
+}
+
+const MM_PER_UNIT: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+  '"': 25.4,
+  ft: 304.8,
+  "'": 304.8,
+};
+
+const IMPERIAL_UNITS = ['in', '"', 'ft', "'"];
+
+const DISTANCE_PART = /(\d+(?:\.\d+)?)\s*(mm|cm|m|in|ft|'|")?/g;
+
+const MM_PER_SQ_FT = 92903.04;
+
+export const distanceBetween = (a: MarkupPoint, b: MarkupPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Reads a typed distance such as `5000`, `5000 mm`, `4.2 m` or `16' 6"` into
+ * millimetres. A bare number is millimetres. Returns null for anything else.
+ */
+export const parseDistance = (text: string): { mm: number; units: UnitSystem } | null => {
+  const input = text.trim().toLowerCase();
+  const parts = Array.from(input.matchAll(DISTANCE_PART));
+  if (parts.length === 0 || input.replace(DISTANCE_PART, '').trim() !== '') return null;
+
+  let mm = 0;
+  let imperial = false;
+  parts.forEach(([, value, unit = 'mm']) => {
+    mm += parseFloat(value) * MM_PER_UNIT[unit];
+    if (IMPERIAL_UNITS.includes(unit)) imperial = true;
+  });
+  return mm > 0 ? { mm, units: imperial ? 'imperial' : 'metric' } : null;
+};
+
+export const formatLength = (mm: number, units: UnitSystem) => {
+  if (units === 'imperial') {
+    const totalQuarters = Math.round(mm / 25.4 * 4);
+    const feet = Math.floor(totalQuarters / 48);
+    const inches = (totalQuarters - feet * 48) / 4;
+    return feet > 0 ? `${feet}' ${inches}"` : `${inches}"`;
+  }
+  const rounded = Math.round(mm);
+  return rounded < 10000 ? `${rounded.toLocaleString()} mm` : `${(mm / 1000).toFixed(2)} m`;
+};
+
+export const formatArea = (squareMm: number, units: UnitSystem) =>
+  units === 'imperial' ? `${(squareMm / MM_PER_SQ_FT).toFixed(1)} ft²` : `${(squareMm / 1e6).toFixed(2)} m²`;
+
+/** Shoelace area of a closed polygon, in square markup units. */
+export const polygonArea = (points: MarkupPoint[]) =>
+  Math.abs(points.reduce((sum, p, i) => {
+    const next = points[(i + 1) % points.length];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+export const calibrationScale = (calibration?: ScaleCalibration): MarkupScale | undefined => {
+  if (!calibration) return undefined;
+  const length = distanceBetween(calibration.points[0], calibration.points[1]);
+  return length > 0 ? { mmPerUnit: calibration.distanceMm / length, units: calibration.units } : undefined;
+};
+
+export const describeCalibration = (calibration: ScaleCalibration) =>
+  `${formatLength(calibration.distanceMm, calibration.units)} reference`;
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { CrdtDoc, CrdtOp, applyOps, createClock, diffMeeting, materializeMeeting } from './meetingCrdt';
+import { meetingFixture } from '../test/fixtures';
+import { Meeting, NoteRow } from '../types';
+
+const baseMeeting = (): Meeting => meetingFixture({
+  name: 'Design review',
+  attendees: [{ id: 'a1', name: 'Sam Reed', organisation: 'Reed Engineering' }],
+  rows: [
+    { id: 'r1', discussion: 'Stair core', followUp: '' },
+    { id: 'r2', discussion: 'Roof', followUp: 'Check falls' }
+  ],
+  previousMeetingId: 'm0'
+});
+
+/** One participant: their copy of the doc, their clock and the meeting as last synced. */
+const replica = (client: string, meeting: Meeting) => {
+  const doc: CrdtDoc = new Map();
+  const clock = createClock(client);
+  let synced: Meeting | null = null;
+  return {
+    doc,
+    get meeting() { return synced!; },
+    edit: (next: Meeting) => {
+      const ops = diffMeeting(doc, clock.tick, synced, next);
+      applyOps(doc, ops);
+      synced = next;
+      return ops;
+    },
+    receive: (ops: CrdtOp[], base: Meeting = synced || meeting) => {
+      ops.forEach(op => clock.observe(op.stamp));
+      applyOps(doc, ops);
+      synced = materializeMeeting(doc, base);
+      return synced;
+    }
+  };
+};
+
+const editRow = (meeting: Meeting, rowId: string, changes: Partial<NoteRow>): Meeting => ({
+  ...meeting,
+  rows: meeting.rows.map(row => (row.id === rowId ? { ...row, ...changes } : row))
+});
+
+// Two participants in a room seeded by the first.
+const pair = () => {
+  const a = replica('a', baseMeeting());
+  const b = replica('b', baseMeeting());
+  b.receive(a.edit(baseMeeting()));
+  return { a, b };
+};
+
+describe('meeting CRDT', () => {
+  it('rebuilds the seeded meeting on a joining replica', () => {
+    const { b } = pair();
+    const { previousMeetingId, ...shared } = baseMeeting();
+    expect(previousMeetingId).toBe('m0');
+    expect(b.meeting).toEqual({ ...shared, previousMeetingId: 'm0' });
+  });
+
+  it('converges when edits arrive in any order and more than once', () => {
+    const { a, b } = pair();
+    const fromA = a.edit({ ...editRow(a.meeting, 'r1', { followUp: 'Ask the engineer' }), name: 'Design review 2' });
+    const fromB = b.edit({ ...b.meeting, rows: [b.meeting.rows[1], b.meeting.rows[0]], attendees: [] });
+    a.receive([...fromB].reverse());
+    a.receive(fromB);
+    b.receive(fromA);
+
+    expect(a.meeting).toEqual(b.meeting);
+    expect(a.meeting.name).toBe('Design review 2');
+    expect(a.meeting.rows.map(row => [row.id, row.followUp])).toEqual([['r2', 'Check falls'], ['r1', 'Ask the engineer']]);
+    expect(a.meeting.attendees).toEqual([]);
+  });
+
+  it('keeps both people\'s characters when they type in the same cell', () => {
+    const { a, b } = pair();
+    const fromA = a.edit(editRow(a.meeting, 'r1', { discussion: 'Stair core to move north' }));
+    const fromB = b.edit(editRow(b.meeting, 'r1', { discussion: 'New stair core' }));
+    a.receive(fromB);
+    b.receive(fromA);
+
+    expect(a.meeting.rows[0].discussion).toBe('New stair core to move north');
+    expect(b.meeting.rows[0].discussion).toBe(a.meeting.rows[0].discussion);
+  });
+
+  it('keeps text typed into a span someone else deleted at the same time', () => {
+    const { a, b } = pair();
+    const fromA = a.edit(editRow(a.meeting, 'r2', { discussion: '' }));
+    const fromB = b.edit(editRow(b.meeting, 'r2', { discussion: 'Roof lights' }));
+    a.receive(fromB);
+    b.receive(fromA);
+
+    expect(a.meeting.rows[1].discussion).toBe(' lights');
+    expect(b.meeting.rows[1].discussion).toBe(' lights');
+  });
+
+  it('handles characters outside the basic plane as single characters', () => {
+    const { a, b } = pair();
+    b.receive(a.edit(editRow(a.meeting, 'r1', { discussion: 'Stair 🏗 core' })));
+    b.receive(a.edit(editRow(a.meeting, 'r1', { discussion: 'Stair 🏛 core' })));
+    expect(b.meeting.rows[0].discussion).toBe('Stair 🏛 core');
+  });
+
+  it('never shares series links and keeps each replica\'s own', () => {
+    const a = replica('a', baseMeeting());
+    const seed = a.edit(baseMeeting());
+    expect(seed.some(op => op.key.includes('MeetingId'))).toBe(false);
+
+    const elsewhere = { ...baseMeeting(), id: 'm9', previousMeetingId: undefined, nextMeetingId: 'm10' };
+    const b = replica('b', elsewhere);
+    expect(b.receive(seed, elsewhere)).toMatchObject({ id: 'm9', nextMeetingId: 'm10', name: 'Design review' });
+    expect(b.meeting).not.toHaveProperty('previousMeetingId');
+  });
+
+  it('ignores series links written into a room by older clients', () => {
+    const a = replica('a', baseMeeting());
+    const seed = a.edit(baseMeeting());
+    const legacy: CrdtOp = { key: 'meeting/nextMeetingId', value: 'm7', stamp: { time: Date.now() + 1000, counter: 0, client: 'z' } };
+    expect(a.receive([...seed, legacy])).not.toHaveProperty('nextMeetingId');
+  });
+
+  it('reads row text stored as a single value by older clients', () => {
+    const a = replica('a', baseMeeting());
+    const stamp = { time: 1, counter: 0, client: 'z' };
+    const legacy: CrdtOp[] = [
+      { key: 'row/r5/$order', value: 0, stamp },
+      { key: 'row/r5/discussion', value: 'Old text', stamp },
+      { key: 'row/r5/actions', value: [], stamp }
+    ];
+    const meeting = a.receive(legacy);
+    expect(meeting.rows).toEqual([{ id: 'r5', discussion: 'Old text', followUp: '', actions: [], images: [] }]);
+
+    const edited = a.edit(editRow(meeting, 'r5', { discussion: 'Old text, edited' }));
+    const b = replica('b', baseMeeting());
+    expect(b.receive([...legacy, ...edited]).rows[0].discussion).toBe('Old text, edited');
+  });
+
+  it('removes deleted rows for everyone', () => {
+    const { a, b } = pair();
+    b.receive(a.edit({ ...a.meeting, rows: a.meeting.rows.filter(row => row.id !== 'r1') }));
+    expect(b.meeting.rows.map(row => row.id)).toEqual(['r2']);
+  });
+});
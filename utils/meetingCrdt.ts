@@ -0,0 +1,351 @@
+import { MarkupPath, Meeting, NoteImage, Whiteboard } from '../types';
+
+/**
+ * A hybrid logical clock reading: wall time, a counter for edits within the
+ * same millisecond, and the writer, which breaks ties so every replica picks
+ * the same winner.
+ */
+export interface Stamp {
+  time: number;
+  counter: number;
+  client: string;
+}
+
+/** One write to a last-writer-wins register. A null value means the field is unset. */
+export interface CrdtOp {
+  key: string;
+  value: unknown;
+  stamp: Stamp;
+}
+
+/** The winning write per key. A meeting is materialised from this and nothing else. */
+export type CrdtDoc = Map<string, CrdtOp>;
+
+export const compareStamps = (a: Stamp, b: Stamp) =>
+  a.time - b.time || a.counter - b.counter || (a.client < b.client ? -1 : a.client > b.client ? 1 : 0);
+
+export const createClock = (client: string) => {
+  let last: Stamp = { time: 0, counter: 0, client };
+  return {
+    tick: (): Stamp => {
+      const now = Date.now();
+      last = now > last.time ? { time: now, counter: 0, client } : { time: last.time, counter: last.counter + 1, client };
+      return last;
+    },
+    // Keeps our next stamp after anything we have seen, so a fast peer clock cannot make our edits lose.
+    observe: (stamp: Stamp) => {
+      if (stamp.time > last.time || (stamp.time === last.time && stamp.counter > last.counter)) {
+        last = { time: stamp.time, counter: stamp.counter, client };
+      }
+    }
+  };
+};
+
+export type Clock = ReturnType<typeof createClock>;
+
+/** Merges writes into the doc and returns the ones that won. Any order, any number of times, same result. */
+export const applyOps = (doc: CrdtDoc, ops: CrdtOp[]): CrdtOp[] =>
+  ops.filter(op => {
+    const current = doc.get(op.key);
+    if (current && compareStamps(current.stamp, op.stamp) >= 0) return false;
+    doc.set(op.key, op);
+    return true;
+  });
+
+// Keys are `kind/id/field`, or `meeting/field` for the meeting's own fields,
+// `stroke/boardId/hash` for scratchpad strokes and `text/rowId/field/charId`
+// for the characters of row text. Fields starting with `$` are bookkeeping:
+// list position, deletion and, for images, the owning row.
+type EntityKind = 'row' | 'attendee' | 'board' | 'image';
+
+const ORDER = '$order';
+const DELETED = '$deleted';
+const IMAGE_ROW = '$row';
+const IMAGE_META = '$meta';
+
+const MEETING_COLLECTIONS = ['id', 'schemaVersion', 'rows', 'attendees', 'whiteboards'];
+// Series links point at meetings in this device's project, so they are never shared.
+const LOCAL_MEETING_FIELDS = ['previousMeetingId', 'nextMeetingId'] as const;
+// Kept as sequences of characters rather than single values, so two people
+// typing in the same cell keep each other's characters.
+const TEXT_FIELDS = ['discussion', 'followUp'] as const;
+
+/**
+ * One character of row text (an RGA sequence). It sits after the character
+ * `after` ('' for the start); characters after the same one are ordered
+ * newest first. Deleting overwrites it with a tombstone, which keeps its place.
+ */
+interface TextChar {
+  after: string;
+  char: string;
+  at: Stamp;
+  deleted?: boolean;
+}
+
+const isEqual = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const strokeHashes = new WeakMap<MarkupPath, string>();
+
+/**
+ * Strokes have no ids, so they are keyed by content: moving a stroke removes
+ * the old one and adds a new one, which is what the selection tool does anyway.
+ */
+const strokeHash = (path: MarkupPath) => {
+  let hash = strokeHashes.get(path);
+  if (hash) return hash;
+  const text = JSON.stringify(path);
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  hash = `${(h >>> 0).toString(36)}${text.length.toString(36)}`;
+  strokeHashes.set(path, hash);
+  return hash;
+};
+
+const without = <T extends object>(item: T, ...keys: string[]): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(item).filter(([key]) => !keys.includes(key)));
+
+const imageFields = (image: NoteImage, rowId: string): Record<string, unknown> => ({
+  [IMAGE_ROW]: rowId,
+  url: image.url,
+  [IMAGE_META]: without(image, 'id', 'url')
+});
+
+const charId = (stamp: Stamp) => `${stamp.time.toString(36)}.${stamp.counter.toString(36)}.${stamp.client}`;
+
+/** Characters in text order, tombstones included. Iterative, since typed text is one long chain. */
+const orderText = (chars: Map<string, TextChar>): [string, TextChar][] => {
+  const children = new Map<string, [string, TextChar][]>();
+  chars.forEach((char, id) => children.set(char.after, [...(children.get(char.after) || []), [id, char]]));
+  children.forEach(list => list.sort(([, a], [, b]) => compareStamps(b.at, a.at)));
+  const ordered: [string, TextChar][] = [];
+  const stack = [...(children.get('') || [])].reverse();
+  while (stack.length > 0) {
+    const entry = stack.pop()!;
+    ordered.push(entry);
+    stack.push(...[...(children.get(entry[0]) || [])].reverse());
+  }
+  return ordered;
+};
+
+const visibleText = (chars: Map<string, TextChar>) =>
+  orderText(chars).filter(([, char]) => !char.deleted);
+
+interface DiffContext {
+  doc: CrdtDoc;
+  tick: () => Stamp;
+  ops: CrdtOp[];
+}
+
+const write = (context: DiffContext, key: string, value: unknown) =>
+  context.ops.push({ key, value: value === undefined ? null : value, stamp: context.tick() });
+
+const diffFields = (context: DiffContext, prefix: string, before: Record<string, unknown>, after: Record<string, unknown>) => {
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(field => {
+    if (!isEqual(before[field], after[field])) write(context, `${prefix}/${field}`, after[field]);
+  });
+};
+
+/**
+ * Gives list positions to items that have none or are out of sequence,
+ * choosing values between their neighbours so untouched items keep theirs.
+ */
+const diffOrder = (context: DiffContext, kind: EntityKind, ids: string[]) => {
+  const orderOf = (id: string) => context.doc.get(`${kind}/${id}/${ORDER}`)?.value as number | undefined;
+  let previous = -Infinity;
+  let previousId = '';
+  ids.forEach((id, index) => {
+    const current = orderOf(id);
+    // Equal positions (from concurrent inserts) are ordered by id, as in `liveEntities`.
+    if (current !== undefined && (current > previous || (current === previous && id > previousId))) {
+      previous = current;
+      previousId = id;
+      return;
+    }
+    let upper = Infinity;
+    for (const laterId of ids.slice(index + 1)) {
+      const later = orderOf(laterId);
+      if (later !== undefined && later > previous) {
+        upper = later;
+        break;
+      }
+    }
+    const value = upper === Infinity
+      ? (previous === -Infinity ? 0 : previous + 1)
+      : (previous === -Infinity ? upper - 1 : (previous + upper) / 2);
+    write(context, `${kind}/${id}/${ORDER}`, value);
+    previous = value;
+    previousId = id;
+  });
+};
+
+const diffCollection = <T extends { id: string }>(
+  context: DiffContext,
+  kind: EntityKind,
+  before: T[],
+  after: T[],
+  fieldsOf: (item: T) => Record<string, unknown>,
+  isUnchanged: (before: T, after: T) => boolean = (a, b) => a === b
+) => {
+  const previous = new Map(before.map(item => [item.id, item] as const));
+  after.forEach(item => {
+    const old = previous.get(item.id);
+    if (old && isUnchanged(old, item)) return;
+    diffFields(context, `${kind}/${item.id}`, old ? fieldsOf(old) : {}, fieldsOf(item));
+    if (!old && context.doc.get(`${kind}/${item.id}/${DELETED}`)?.value) write(context, `${kind}/${item.id}/${DELETED}`, false);
+  });
+  const remaining = new Set(after.map(item => item.id));
+  before.forEach(item => {
+    if (!remaining.has(item.id)) write(context, `${kind}/${item.id}/${DELETED}`, true);
+  });
+};
+
+/** Deletes the characters that changed and inserts the new ones after the unchanged start. */
+const diffText = (context: DiffContext, rowId: string, field: string, text: string) => {
+  const prefix = `text/${rowId}/${field}/`;
+  const chars = new Map<string, TextChar>();
+  context.doc.forEach((op, key) => {
+    if (key.startsWith(prefix) && op.value) chars.set(key.slice(prefix.length), op.value as TextChar);
+  });
+  const live = visibleText(chars);
+  const target = Array.from(text);
+  let start = 0;
+  while (start < live.length && start < target.length && live[start][1].char === target[start]) start++;
+  let end = 0;
+  while (end < live.length - start && end < target.length - start && live[live.length - 1 - end][1].char === target[target.length - 1 - end]) end++;
+
+  live.slice(start, live.length - end).forEach(([id, char]) => write(context, `${prefix}${id}`, { ...char, deleted: true }));
+  let after = start > 0 ? live[start - 1][0] : '';
+  target.slice(start, target.length - end).forEach(char => {
+    const at = context.tick();
+    const id = charId(at);
+    context.ops.push({ key: `${prefix}${id}`, value: { after, char, at } satisfies TextChar, stamp: at });
+    after = id;
+  });
+};
+
+const diffStrokes = (context: DiffContext, before: Whiteboard | undefined, after: Whiteboard) => {
+  if (before?.markup === after.markup) return;
+  const previous = new Set((before?.markup || []).map(strokeHash));
+  const current = new Map(after.markup.map(path => [strokeHash(path), path] as const));
+  current.forEach((path, hash) => {
+    if (!previous.has(hash)) write(context, `stroke/${after.id}/${hash}`, path);
+  });
+  previous.forEach(hash => {
+    if (!current.has(hash)) write(context, `stroke/${after.id}/${hash}`, null);
+  });
+};
+
+/**
+ * The writes that turn `before` into `after`. With no `before`, every field
+ * of `after` is written, which seeds an empty room.
+ */
+export const diffMeeting = (doc: CrdtDoc, tick: () => Stamp, before: Meeting | null, after: Meeting): CrdtOp[] => {
+  const context: DiffContext = { doc, tick, ops: [] };
+  const meetingFields = (meeting: Meeting) => without(meeting, ...MEETING_COLLECTIONS, ...LOCAL_MEETING_FIELDS);
+  diffFields(context, 'meeting', before ? meetingFields(before) : {}, meetingFields(after));
+
+  const beforeRows = before?.rows || [];
+  diffCollection(context, 'row', beforeRows, after.rows, row => without(row, 'id', 'images', ...TEXT_FIELDS));
+  diffOrder(context, 'row', after.rows.map(r => r.id));
+  const previousRows = new Map(beforeRows.map(row => [row.id, row] as const));
+  after.rows.forEach(row => TEXT_FIELDS.forEach(field => {
+    if (previousRows.get(row.id)?.[field] !== row[field]) diffText(context, row.id, field, row[field]);
+  }));
+
+  const rowImages = (rows: Meeting['rows']) => rows.flatMap(row => row.images.map(image => ({ id: image.id, rowId: row.id, image })));
+  diffCollection(
+    context,
+    'image',
+    rowImages(beforeRows),
+    rowImages(after.rows),
+    ({ image, rowId }) => imageFields(image, rowId),
+    (a, b) => a.image === b.image && a.rowId === b.rowId
+  );
+  after.rows.forEach(row => diffOrder(context, 'image', row.images.map(i => i.id)));
+
+  diffCollection(context, 'attendee', before?.attendees || [], after.attendees, attendee => without(attendee, 'id'));
+  diffOrder(context, 'attendee', after.attendees.map(a => a.id));
+
+  const beforeBoards = before?.whiteboards || [];
+  diffCollection(context, 'board', beforeBoards, after.whiteboards, board => without(board, 'id', 'markup'));
+  diffOrder(context, 'board', after.whiteboards.map(b => b.id));
+  after.whiteboards.forEach(board => diffStrokes(context, beforeBoards.find(b => b.id === board.id), board));
+
+  return context.ops;
+};
+
+type Fields = Record<string, unknown>;
+
+const liveEntities = (entities: Map<string, Fields> | undefined) =>
+  [...(entities || new Map<string, Fields>()).entries()]
+    .filter(([, fields]) => !fields[DELETED])
+    .sort(([aId, a], [bId, b]) => ((a[ORDER] as number) ?? 0) - ((b[ORDER] as number) ?? 0) || (aId < bId ? -1 : 1));
+
+// Drops bookkeeping and unset fields.
+const plainFields = (fields: Fields) =>
+  Object.fromEntries(Object.entries(fields).filter(([key, value]) => !key.startsWith('$') && value !== null));
+
+/**
+ * Builds the meeting the doc describes. `base` supplies the id, schema
+ * version and series links, which are never synced.
+ */
+export const materializeMeeting = (doc: CrdtDoc, base: Meeting): Meeting => {
+  const meetingFields: Fields = {};
+  const entities = new Map<string, Map<string, Fields>>();
+  const strokes = new Map<string, CrdtOp[]>();
+  const texts = new Map<string, Map<string, TextChar>>();
+
+  doc.forEach(op => {
+    const [kind, id, field, char] = op.key.split('/');
+    if (kind === 'meeting') {
+      meetingFields[id] = op.value;
+    } else if (kind === 'text') {
+      const key = `${id}/${field}`;
+      if (!texts.has(key)) texts.set(key, new Map());
+      if (op.value) texts.get(key)!.set(char, op.value as TextChar);
+    } else if (kind === 'stroke') {
+      if (op.value !== null) strokes.set(id, [...(strokes.get(id) || []), op]);
+    } else {
+      if (!entities.has(kind)) entities.set(kind, new Map());
+      const byId = entities.get(kind)!;
+      byId.set(id, { ...byId.get(id), [field]: op.value });
+    }
+  });
+
+  const imagesByRow = new Map<string, NoteImage[]>();
+  liveEntities(entities.get('image')).forEach(([id, fields]) => {
+    const rowId = fields[IMAGE_ROW] as string;
+    const image = { id, url: fields.url as string, ...(fields[IMAGE_META] as object) } as NoteImage;
+    imagesByRow.set(rowId, [...(imagesByRow.get(rowId) || []), image]);
+  });
+
+  const whiteboards = liveEntities(entities.get('board')).map(([id, fields]) => ({
+    id,
+    ...plainFields(fields),
+    markup: (strokes.get(id) || []).sort((a, b) => compareStamps(a.stamp, b.stamp)).map(op => op.value as MarkupPath)
+  }) as Whiteboard);
+
+  // Rooms written before row text became sequences hold it as a single value.
+  const rowText = (rowId: string, fields: Fields) => Object.fromEntries(TEXT_FIELDS.map(field => {
+    const chars = texts.get(`${rowId}/${field}`);
+    const text = chars ? visibleText(chars).map(([, char]) => char.char).join('') : fields[field];
+    return [field, typeof text === 'string' ? text : ''];
+  }));
+
+  return {
+    ...(without(plainFields(meetingFields), ...LOCAL_MEETING_FIELDS) as Partial<Meeting>),
+    ...(base.previousMeetingId && { previousMeetingId: base.previousMeetingId }),
+    ...(base.nextMeetingId && { nextMeetingId: base.nextMeetingId }),
+    id: base.id,
+    schemaVersion: base.schemaVersion,
+    name: (meetingFields.name as string) ?? base.name,
+    dateCreated: (meetingFields.dateCreated as string) ?? base.dateCreated,
+    attendees: liveEntities(entities.get('attendee')).map(([id, fields]) => ({ id, ...plainFields(fields) }) as Meeting['attendees'][number]),
+    rows: liveEntities(entities.get('row')).map(([id, fields]) => ({ id, ...plainFields(fields), ...rowText(id, fields), images: imagesByRow.get(id) || [] }) as Meeting['rows'][number]),
+    // The scratchpad always shows a board; a doc without one keeps the local boards.
+    whiteboards: whiteboards.length > 0 ? whiteboards : base.whiteboards
+  };
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { buildMeeting, buildNextMeetingInSeries, isRowFollowUpOpen, latestMeeting, removeMeetingFromSeries } from './meetings';
+import { meetingFixture, projectFixture } from '../test/fixtures';
+import { ActionItem } from '../types';
+
+const action = (id: string, status: ActionItem['status'], sourceRowId: string): ActionItem =>
+  ({ id, description: `Action ${id}`, status, sourceMeetingId: 'm1', sourceRowId });
+
+const attendee = { id: 'a1', name: 'Sam Reed', organisation: 'Reed Engineering' };
+
+// Site visit 3 is the latest even though the project lists it first.
+const project = () => projectFixture([
+  meetingFixture({
+    id: 'm3',
+    name: 'Site visit 3',
+    dateCreated: '2024-03-15T10:00:00.000Z',
+    attendees: [attendee],
+    rows: [
+      { id: 'r1', discussion: 'Drainage', followUp: 'Check falls' },
+      { id: 'r2', discussion: 'Fencing', followUp: 'Agreed', followUpClosed: true },
+      { id: 'r3', discussion: 'Scaffold', actions: [{ ...action('a1', 'open', 'r3'), ownerId: attendee.id }, action('a2', 'done', 'r3')] },
+      { id: 'r4', discussion: 'Access', images: [{ id: 'i1', url: 'data:image/png;base64,AA==' }], actions: [action('a3', 'done', 'r4')], followUp: 'Still open' }
+    ]
+  }),
+  meetingFixture({
+    id: 'm1',
+    name: 'Site visit 2',
+    dateCreated: '2024-03-08T10:00:00.000Z',
+    rows: [{ id: 'r0', actions: [action('a0', 'in_progress', 'r0')] }]
+  })
+]);
+
+describe('isRowFollowUpOpen', () => {
+  it('follows the actions when a row has any, else the follow-up text, unless it was closed', () => {
+    expect(project().meetings[0].rows.map(isRowFollowUpOpen)).toEqual([true, false, true, false]);
+  });
+});
+
+describe('latestMeeting', () => {
+  it('picks the meeting created last', () => {
+    expect(latestMeeting(project())?.id).toBe('m3');
+    expect(latestMeeting(projectFixture())).toBeUndefined();
+  });
+});
+
+describe('buildMeeting', () => {
+  it('lays a template out after the actions carried forward', () => {
+    const template = { id: 't1', name: 'Site visit', description: '', rows: [{ discussion: 'Progress', followUp: 'Photos' }], organisations: ['Contractor'] };
+    const meeting = buildMeeting(project(), template);
+    expect(meeting.name).toBe('SITE VISIT');
+    expect(meeting.rows.map(row => [row.discussion, row.followUp, row.actions.map(a => a.id)])).toEqual([
+      ['Actions carried forward from previous meetings.', '', ['a1', 'a0']],
+      ['Progress', 'Photos', []]
+    ]);
+    expect(meeting.attendees.map(a => [a.name, a.organisation])).toEqual([['', 'Contractor'], ['Sam Reed', 'Reed Engineering']]);
+  });
+
+  it('starts blank without a project or template', () => {
+    expect(buildMeeting(undefined)).toMatchObject({ name: 'MEETING TITLE', attendees: [], rows: [] });
+  });
+});
+
+describe('buildNextMeetingInSeries', () => {
+  it('carries the open rows over and links both meetings', () => {
+    const { meeting, previous } = buildNextMeetingInSeries(project())!;
+    expect(meeting.name).toBe('Site visit 4');
+    expect(meeting.previousMeetingId).toBe('m3');
+    expect(previous).toEqual({ ...project().meetings[0], nextMeetingId: meeting.id });
+    expect(meeting.attendees).toEqual([attendee]);
+
+    const [drainage, scaffold] = meeting.rows;
+    expect([drainage.carriedOverFromId, scaffold.carriedOverFromId]).toEqual(['r1', 'r3']);
+    expect(drainage.id).not.toBe('r1');
+    expect(scaffold.actions.map(a => [a.id, a.status])).toEqual([['a1', 'open'], ['a2', 'done']]);
+  });
+
+  it('brings open actions from older meetings along in a separate row', () => {
+    const { meeting } = buildNextMeetingInSeries(project())!;
+    expect(meeting.rows).toHaveLength(3);
+    expect(meeting.rows[2].carriedOverFromId).toBeUndefined();
+    expect(meeting.rows[2].actions.map(a => a.id)).toEqual(['a0']);
+  });
+
+  it('numbers a name without a number as the second in the series', () => {
+    const { meeting } = buildNextMeetingInSeries(projectFixture([meetingFixture({ name: 'Kick-off' })]))!;
+    expect(meeting.name).toBe('Kick-off 2');
+    expect(meeting.rows).toEqual([]);
+  });
+
+  it('returns null for a project without meetings', () => {
+    expect(buildNextMeetingInSeries(projectFixture())).toBeNull();
+  });
+});
+
+describe('removeMeetingFromSeries', () => {
+  it('joins the neighbours of a removed meeting', () => {
+    const series = [
+      meetingFixture({ id: 'm1', nextMeetingId: 'm2' }),
+      meetingFixture({ id: 'm2', previousMeetingId: 'm1', nextMeetingId: 'm3' }),
+      meetingFixture({ id: 'm3', previousMeetingId: 'm2' })
+    ];
+    const [first, last] = removeMeetingFromSeries(series, 'm2');
+    expect([first.id, first.nextMeetingId, last.id, last.previousMeetingId]).toEqual(['m1', 'm3', 'm3', 'm1']);
+
+    const [second] = removeMeetingFromSeries(series, 'm1');
+    expect([second.id, second.previousMeetingId]).toEqual(['m2', undefined]);
+  });
+});
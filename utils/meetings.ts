@@ -0,0 +1,122 @@
+import { ProjectGroup, Meeting, NoteRow, Attendee, MeetingTemplate } from '../types';
+import { CURRENT_SCHEMA_VERSION } from '../services/migrations';
+import { buildCarriedForwardRow, isActionOpen } from './actions';
+import { createWhiteboard } from './whiteboard';
+import { relinkPins } from './pins';
+
+/**
+ * A row's follow-up is still open unless it was explicitly closed. Rows with
+ * structured actions are open while any action is not done; rows without
+ * actions are open while their follow-up text is filled in.
+ */
+export const isRowFollowUpOpen = (row: NoteRow) => {
+  if (row.followUpClosed) return false;
+  if (row.actions.length > 0) return row.actions.some(isActionOpen);
+  return row.followUp.trim() !== '';
+};
+
+export const latestMeeting = (project: ProjectGroup): Meeting | undefined =>
+  project.meetings.reduce<Meeting | undefined>((latest, meeting) =>
+    !latest || new Date(meeting.dateCreated).getTime() >= new Date(latest.dateCreated).getTime() ? meeting : latest
+  , undefined);
+
+const nextSeriesName = (name: string) => {
+  const match = name.match(/^(.*?)(\d+)\s*$/);
+  return match ? `${match[1]}${Number(match[2]) + 1}` : `${name} 2`;
+};
+
+const mergeAttendees = (roster: Attendee[], extra: Attendee[]) => {
+  const ids = new Set(roster.map(a => a.id));
+  return [...roster, ...extra.filter(a => !ids.has(a.id))];
+};
+
+/**
+ * A new meeting, blank or laid out from a template, carrying forward every
+ * action still open in the project. Each template organisation gets one empty
+ * attendee slot so its group shows up in the roster.
+ */
+export const buildMeeting = (project: ProjectGroup | undefined, template?: MeetingTemplate): Meeting => {
+  const carried = project ? buildCarriedForwardRow(project) : null;
+  const templateRows: NoteRow[] = (template?.rows || []).map(row => ({
+    id: crypto.randomUUID(),
+    discussion: row.discussion,
+    followUp: row.followUp,
+    images: [],
+    actions: []
+  }));
+  const templateAttendees: Attendee[] = (template?.organisations || []).map(organisation => ({
+    id: crypto.randomUUID(),
+    name: '',
+    organisation
+  }));
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: crypto.randomUUID(),
+    name: template ? template.name.toUpperCase() : `MEETING TITLE`,
+    dateCreated: new Date().toISOString(),
+    attendees: mergeAttendees(templateAttendees, carried ? carried.owners : []),
+    rows: carried ? [carried.row, ...templateRows] : templateRows,
+    whiteboards: [createWhiteboard([], template?.whiteboardImage
+      ? { image: template.whiteboardImage, imageSource: { fileName: `${template.name} template` } }
+      : undefined)]
+  };
+};
+
+/**
+ * The next meeting after the project's latest one: same roster (attendee ids
+ * are kept so action owners still resolve), open rows carried over, and
+ * linked both ways through previousMeetingId / nextMeetingId. Open actions
+ * from older meetings that are not on a carried row still come along in a
+ * separate carried-forward row. The caller must store the returned
+ * `previous` in place of the latest meeting so the back-link is saved.
+ */
+export const buildNextMeetingInSeries = (project: ProjectGroup): { meeting: Meeting; previous: Meeting } | null => {
+  const previous = latestMeeting(project);
+  if (!previous) return null;
+
+  const meetingId = crypto.randomUUID();
+  const openRows = previous.rows.filter(isRowFollowUpOpen);
+  const rowIds = new Map(openRows.map(row => [row.id, crypto.randomUUID()] as const));
+  const carriedRows: NoteRow[] = openRows.map(row => ({
+    ...row,
+    id: rowIds.get(row.id)!,
+    // Image ids double as storage keys, so copies need their own.
+    images: row.images.map(img => relinkPins({ ...img, id: crypto.randomUUID() }, rowIds)),
+    carriedOverFromId: row.id
+  }));
+
+  const carriedActionIds = new Set(carriedRows.flatMap(r => r.actions.map(a => a.id)));
+  const remaining = buildCarriedForwardRow({
+    ...project,
+    meetings: project.meetings.map(m => ({
+      ...m,
+      rows: m.rows.map(r => ({ ...r, actions: r.actions.filter(a => !carriedActionIds.has(a.id)) }))
+    }))
+  });
+
+  const meeting: Meeting = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: meetingId,
+    name: nextSeriesName(previous.name),
+    dateCreated: new Date().toISOString(),
+    attendees: mergeAttendees(previous.attendees.map(a => ({ ...a })), remaining?.owners || []),
+    rows: remaining ? [...carriedRows, remaining.row] : carriedRows,
+    whiteboards: [createWhiteboard([])],
+    previousMeetingId: previous.id
+  };
+
+  return { meeting, previous: { ...previous, nextMeetingId: meetingId } };
+};
+
+/** Removes a meeting from its project and joins its neighbours in the series back together. */
+export const removeMeetingFromSeries = (meetings: Meeting[], meetingId: string): Meeting[] => {
+  const removed = meetings.find(m => m.id === meetingId);
+  return meetings
+    .filter(m => m.id !== meetingId)
+    .map(m => {
+      if (!removed) return m;
+      if (m.nextMeetingId === meetingId) return { ...m, nextMeetingId: removed.nextMeetingId };
+      if (m.previousMeetingId === meetingId) return { ...m, previousMeetingId: removed.previousMeetingId };
+      return m;
+    });
+};
@@ -0,0 +1,111 @@
+import { loadImage } from './markup';
+
+export type PhotoRotation = 0 | 90 | 180 | 270;
+
+/** A crop in fractions (0-1) of the rotated photo, so it holds at any resolution. */
+export interface PhotoCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PhotoEdit {
+  rotation: PhotoRotation; // clockwise
+  crop: PhotoCrop | null;
+}
+
+export const UNEDITED_PHOTO: PhotoEdit = { rotation: 0, crop: null };
+
+// Below this, in either direction, a drag reads as a tap rather than a crop.
+export const MIN_CROP_FRACTION = 0.05;
+
+/** Grabs the current video frame at the camera's full resolution, losslessly, as the pipeline encodes it later. */
+export const captureFrame = (video: HTMLVideoElement): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the camera frame'))), 'image/png');
+  });
+};
+
+/** Turns the photo a quarter clockwise (or back), carrying the crop round with it. */
+export const rotatePhoto = (edit: PhotoEdit, direction: 1 | -1): PhotoEdit => {
+  const rotation = ((edit.rotation + direction * 90 + 360) % 360) as PhotoRotation;
+  const crop = edit.crop;
+  if (!crop) return { rotation, crop: null };
+  return {
+    rotation,
+    crop: direction === 1
+      ? { x: 1 - crop.y - crop.height, y: crop.x, width: crop.height, height: crop.width }
+      : { x: crop.y, y: 1 - crop.x - crop.width, width: crop.height, height: crop.width }
+  };
+};
+
+/** "19/10/2026, 14:23:05" in the device's locale. */
+export const formatPhotoStamp = (date: Date) => date.toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'medium' });
+
+/** e.g. "Photo 2026-10-19 142305.jpg", numbered when a burst shares a second. */
+export const photoFileName = (date: Date, index = 0) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `Photo ${day} ${time}${index ? `-${index + 1}` : ''}.jpg`;
+};
+
+// Bottom-right, white on a dark band, sized to the photo so it reads the same on a thumbnail and a print.
+const drawStamp = (ctx: CanvasRenderingContext2D, width: number, height: number, date: Date) => {
+  const text = formatPhotoStamp(date);
+  const fontSize = Math.max(12, Math.round(Math.max(width, height) * 0.022));
+  const padding = Math.round(fontSize * 0.5);
+  ctx.font = `700 ${fontSize}px 'JetBrains Mono', monospace`;
+  const textWidth = ctx.measureText(text).width;
+  const boxWidth = textWidth + padding * 2;
+  const boxHeight = fontSize + padding * 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(width - boxWidth - padding, height - boxHeight - padding, boxWidth, boxHeight);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, width - boxWidth, height - padding - boxHeight / 2);
+};
+
+/**
+ * Applies the rotation and crop to a captured photo and optionally stamps the
+ * capture time on it, on a canvas no longer than `maxSize` on its long edge.
+ */
+export const renderPhoto = async (url: string, edit: PhotoEdit, stamp: Date | null, maxSize = 2400): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(url);
+  const turned = edit.rotation === 90 || edit.rotation === 270;
+  const rotatedWidth = turned ? img.naturalHeight : img.naturalWidth;
+  const rotatedHeight = turned ? img.naturalWidth : img.naturalHeight;
+
+  const rotated = document.createElement('canvas');
+  rotated.width = rotatedWidth;
+  rotated.height = rotatedHeight;
+  const rotatedCtx = rotated.getContext('2d')!;
+  rotatedCtx.translate(rotatedWidth / 2, rotatedHeight / 2);
+  rotatedCtx.rotate((edit.rotation * Math.PI) / 180);
+  rotatedCtx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+
+  const crop = edit.crop || { x: 0, y: 0, width: 1, height: 1 };
+  const sx = crop.x * rotatedWidth;
+  const sy = crop.y * rotatedHeight;
+  const sw = crop.width * rotatedWidth;
+  const sh = crop.height * rotatedHeight;
+  const scale = Math.min(1, maxSize / Math.max(sw, sh));
+
+  const output = document.createElement('canvas');
+  output.width = Math.max(1, Math.round(sw * scale));
+  output.height = Math.max(1, Math.round(sh * scale));
+  const ctx = output.getContext('2d')!;
+  ctx.drawImage(rotated, sx, sy, sw, sh, 0, 0, output.width, output.height);
+  if (stamp) drawStamp(ctx, output.width, output.height, stamp);
+  return output;
+};
+
+/** Encodes a rendered photo losslessly, so the image pipeline's encode is the only lossy one. */
+export const photoToBlob = (canvas: HTMLCanvasElement): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the photo'))), 'image/png');
+});
@@ -0,0 +1,76 @@
+import { ImagePin, MarkupPoint, NoteImage, NoteRow } from '../types';
+
+/** Radius of a pin's disc, in markup units. */
+export const PIN_RADIUS = 11;
+
+const PIN_COLOR = '#50C878';
+
+/** A pin numbered one past the highest number already on the image. */
+export const createPin = (pins: ImagePin[], point: MarkupPoint): ImagePin => ({
+  id: crypto.randomUUID(),
+  number: pins.reduce((max, pin) => Math.max(max, pin.number), 0) + 1,
+  point: { x: point.x, y: point.y },
+  note: ''
+});
+
+export const drawPin = (ctx: CanvasRenderingContext2D, pin: ImagePin) => {
+  const { x, y } = pin.point;
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(x, y, PIN_RADIUS, 0, Math.PI * 2);
+  ctx.fillStyle = PIN_COLOR;
+  ctx.fill();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = '#ffffff';
+  ctx.stroke();
+  ctx.fillStyle = '#000000';
+  ctx.font = `bold ${PIN_RADIUS}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(pin.number), x, y + 0.5);
+  ctx.restore();
+};
+
+export interface PinReference {
+  pin: ImagePin;
+  image: NoteImage;
+  rowId: string; // the row that holds the image
+}
+
+/** Every pin in the meeting that refers to `rowId`, in row and pin order. */
+export const pinsLinkedTo = (rows: NoteRow[], rowId: string): PinReference[] =>
+  rows.flatMap(row => row.images.flatMap(image =>
+    (image.pins || [])
+      .filter(pin => pin.rowId === rowId)
+      .sort((a, b) => a.number - b.number)
+      .map(pin => ({ pin, image, rowId: row.id }))
+  ));
+
+/** "Item 3" for the third row, or an empty string for a row that is not in the meeting. */
+export const rowItemLabel = (rows: NoteRow[], rowId?: string) => {
+  const index = rows.findIndex(r => r.id === rowId);
+  return index === -1 ? '' : `Item ${index + 1}`;
+};
+
+/** Longer label for row pickers, e.g. "Item 3: Facade options". */
+export const describeRow = (rows: NoteRow[], rowId?: string) => {
+  const label = rowItemLabel(rows, rowId);
+  const discussion = rows.find(r => r.id === rowId)?.discussion.trim().split('\n')[0];
+  if (!label || !discussion) return label;
+  return `${label}: ${discussion.length > 40 ? `${discussion.slice(0, 40)}…` : discussion}`;
+};
+
+/**
+ * Points pins at the new ids of rows that were copied (e.g. carried over to
+ * the next meeting); links to rows that were not copied are dropped.
+ */
+export const relinkPins = (image: NoteImage, rowIds: Map<string, string>): NoteImage => {
+  if (!image.pins) return image;
+  return {
+    ...image,
+    pins: image.pins.map(({ rowId, ...pin }) => {
+      const target = rowId ? rowIds.get(rowId) : undefined;
+      return target ? { ...pin, rowId: target } : pin;
+    })
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { STROKE_TOLERANCE, simplifyPoints, smoothPoint } from './strokes';
+
+describe('smoothPoint', () => {
+  it('keeps the first sample and pulls later ones back towards the last', () => {
+    expect(smoothPoint(undefined, { x: 10, y: 10 })).toEqual({ x: 10, y: 10 });
+    expect(smoothPoint({ x: 0, y: 0 }, { x: 10, y: 20, pressure: 0.5 }, 0.5)).toEqual({ x: 5, y: 10, pressure: 0.5 });
+    expect(smoothPoint({ x: 0, y: 0 }, { x: 10, y: 20 }, 0)).toEqual({ x: 10, y: 20 });
+  });
+});
+
+describe('simplifyPoints', () => {
+  it('reduces a straight run to its ends', () => {
+    const run = Array.from({ length: 50 }, (_, i) => ({ x: i, y: i % 2 ? STROKE_TOLERANCE / 2 : 0 }));
+    expect(simplifyPoints(run)).toEqual([run[0], run[49]]);
+  });
+
+  it('keeps the corners of a bent stroke', () => {
+    const corner = [
+      ...Array.from({ length: 10 }, (_, i) => ({ x: i * 10, y: 0 })),
+      ...Array.from({ length: 10 }, (_, i) => ({ x: 100, y: i * 10 }))
+    ];
+    expect(simplifyPoints(corner)).toEqual([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 90 }]);
+  });
+
+  it('keeps the points where stylus pressure changes', () => {
+    const swell = Array.from({ length: 21 }, (_, i) => ({ x: i * 5, y: 0, pressure: i <= 10 ? 0.2 + i * 0.06 : 0.8 - (i - 10) * 0.06 }));
+    const kept = simplifyPoints(swell);
+    expect(kept).toContainEqual(swell[10]);
+    expect(kept.length).toBeLessThan(swell.length);
+  });
+
+  it('leaves strokes of one or two points alone', () => {
+    const dot = [{ x: 1, y: 1 }];
+    expect(simplifyPoints(dot)).toBe(dot);
+  });
+});
@@ -0,0 +1,66 @@
+import { MarkupPoint } from '../types';
+
+/** How far each new sample is pulled back towards the previous one: 0 keeps raw input, 1 never moves. */
+export const STROKE_SMOOTHING = 0.4;
+
+/** Largest deviation, in markup units, that simplification may introduce into a stored stroke. */
+export const STROKE_TOLERANCE = 0.8;
+
+/** Pressure change that counts as much as `STROKE_TOLERANCE` of sideways movement. */
+const PRESSURE_TOLERANCE = 0.1;
+
+/** Exponential smoothing of pointer input, which takes the jitter out of hand-drawn curves. */
+export const smoothPoint = (last: MarkupPoint | undefined, raw: MarkupPoint, amount = STROKE_SMOOTHING): MarkupPoint => {
+  if (!last) return raw;
+  return { ...raw, x: last.x + (raw.x - last.x) * (1 - amount), y: last.y + (raw.y - last.y) * (1 - amount) };
+};
+
+const distanceToSegment = (p: MarkupPoint, a: MarkupPoint, b: MarkupPoint) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// How far a point's pressure strays from a straight ramp between the ends, scaled to markup units.
+const pressureDeviation = (points: MarkupPoint[], i: number, first: number, last: number, tolerance: number) => {
+  const { pressure } = points[i];
+  if (pressure === undefined) return 0;
+  const from = points[first].pressure ?? pressure;
+  const to = points[last].pressure ?? pressure;
+  const expected = from + (to - from) * (i - first) / (last - first);
+  return Math.abs(pressure - expected) / PRESSURE_TOLERANCE * tolerance;
+};
+
+/**
+ * Ramer–Douglas–Peucker: keeps the fewest points that stay within
+ * `tolerance` of the original stroke. Stylus strokes also keep the points
+ * where pressure changes, so their width still swells and tapers.
+ */
+export const simplifyPoints = (points: MarkupPoint[], tolerance = STROKE_TOLERANCE): MarkupPoint[] => {
+  if (points.length <= 2) return points;
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+
+  // An explicit stack rather than recursion, so very long strokes cannot overflow.
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = Math.max(distanceToSegment(points[i], points[first], points[last]), pressureDeviation(points, i, first, last, tolerance));
+      if (d > maxDistance) {
+        maxDistance = d;
+        farthest = i;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { mergeDocuments, resolveConflict, stableStringify } from './syncMerge';
+import { SyncDocument } from '../types';
+
+const meeting = (changes: SyncDocument = {}): SyncDocument => ({
+  id: 'm1',
+  name: 'Weekly call',
+  rows: [
+    { id: 'r1', discussion: 'Budget', followUp: '' },
+    { id: 'r2', discussion: 'Programme', followUp: 'Update dates' }
+  ],
+  ...changes
+});
+
+type Rows = { id: string; discussion: string; followUp: string }[];
+
+const editRow = (document: SyncDocument, id: string, changes: Record<string, unknown>): SyncDocument => ({
+  ...document,
+  rows: (document.rows as Rows).map(row => (row.id === id ? { ...row, ...changes } : row))
+});
+
+describe('stableStringify', () => {
+  it('ignores key order and undefined fields', () => {
+    expect(stableStringify({ b: 1, a: [{ d: 2, c: undefined }] })).toBe(stableStringify({ a: [{ d: 2 }], b: 1 }));
+  });
+});
+
+describe('mergeDocuments', () => {
+  it('takes the side that changed when only one did', () => {
+    const base = meeting();
+    const changed = meeting({ name: 'Weekly call 2' });
+    expect(mergeDocuments(base, base, changed)).toEqual({ document: changed, conflicts: [] });
+    expect(mergeDocuments(base, changed, base)).toEqual({ document: changed, conflicts: [] });
+  });
+
+  it('merges edits to different fields of the same row', () => {
+    const base = meeting();
+    const local = editRow(base, 'r1', { discussion: 'Budget agreed' });
+    const remote = editRow(base, 'r1', { followUp: 'Client to sign off' });
+    const { document, conflicts } = mergeDocuments(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect((document?.rows as Rows)[0]).toEqual({ id: 'r1', discussion: 'Budget agreed', followUp: 'Client to sign off' });
+  });
+
+  it('keeps rows added on both sides, local additions after the row they followed', () => {
+    const base = meeting();
+    const rows = base.rows as Rows;
+    const local = { ...base, rows: [rows[0], { id: 'local', discussion: 'Here', followUp: '' }, rows[1]] };
+    const remote = { ...base, rows: [...rows, { id: 'remote', discussion: 'There', followUp: '' }] };
+    const { document, conflicts } = mergeDocuments(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect((document?.rows as Rows).map(row => row.id)).toEqual(['r1', 'local', 'r2', 'remote']);
+  });
+
+  it('drops a row deleted on one side and left alone on the other', () => {
+    const base = meeting();
+    const local = { ...base, rows: (base.rows as Rows).slice(1) };
+    const remote = { ...base, name: 'Renamed' };
+    expect(mergeDocuments(base, local, remote)).toEqual({ document: { ...local, name: 'Renamed' }, conflicts: [] });
+  });
+
+  it('reports a field both sides changed differently, keeping the local value for now', () => {
+    const base = meeting();
+    const local = editRow(base, 'r2', { discussion: 'Programme slipped' });
+    const remote = editRow(base, 'r2', { discussion: 'Programme on track' });
+    const { document, conflicts } = mergeDocuments(base, local, remote);
+    expect(conflicts).toEqual([{ path: ['rows', { id: 'r2' }, 'discussion'], label: '', local: 'Programme slipped', remote: 'Programme on track' }]);
+    expect((document?.rows as Rows)[1].discussion).toBe('Programme slipped');
+
+    const settled = resolveConflict(document, conflicts[0], 'remote');
+    expect((settled?.rows as Rows)[1].discussion).toBe('Programme on track');
+  });
+
+  it('reports a row deleted on one side and edited on the other', () => {
+    const base = meeting();
+    const local = editRow(base, 'r1', { discussion: 'Budget agreed' });
+    const remote = { ...base, rows: (base.rows as Rows).slice(1) };
+    const { document, conflicts } = mergeDocuments(base, local, remote);
+    expect(conflicts).toEqual([{ path: ['rows', { id: 'r1' }], label: '', local: (local.rows as Rows)[0], remote: null }]);
+
+    const settled = resolveConflict(document, conflicts[0], 'remote');
+    expect((settled?.rows as Rows).map(row => row.id)).toEqual(['r2']);
+  });
+
+  it('merges meeting lists by id in the remote order, local additions after the meeting they followed', () => {
+    const base = { id: 'p1', name: 'Project', meetingIds: ['m1', 'm2'] };
+    const local = { ...base, meetingIds: ['m1', 'm2', 'm3'] };
+    const remote = { ...base, meetingIds: ['m2', 'm1', 'm4'] };
+    expect(mergeDocuments(base, local, remote)).toEqual({ document: { ...base, meetingIds: ['m2', 'm3', 'm1', 'm4'] }, conflicts: [] });
+  });
+
+  it('treats deleting a document the other side edited as a conflict on the whole document', () => {
+    const base = meeting();
+    const remote = meeting({ name: 'Renamed' });
+    const { document, conflicts } = mergeDocuments(base, null, remote);
+    expect(document).toBeNull();
+    expect(conflicts).toEqual([{ path: [], label: '', local: null, remote }]);
+    expect(resolveConflict(document, conflicts[0], 'remote')).toEqual(remote);
+  });
+});
@@ -0,0 +1,161 @@
+import { SyncDocument, SyncFieldConflict } from '../types';
+
+type Path = SyncFieldConflict['path'];
+type Entity = { id: string } & Record<string, unknown>;
+
+// Lists of ids whose order matters but whose members are merged one by one, like entities.
+const ID_LIST_FIELDS = new Set(['meetingIds']);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEntityList = (value: unknown): value is Entity[] =>
+  Array.isArray(value) && value.every(item => isPlainObject(item) && typeof item.id === 'string');
+
+/** JSON with object keys sorted, so documents that differ only in key order compare equal. */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).filter(key => value[key] !== undefined).sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const same = (a: unknown, b: unknown) => a === b || stableStringify(a) === stableStringify(b);
+
+// Remote order for what both sides kept, with local additions slotted in after the item they followed locally.
+const mergeOrder = (localIds: string[], remoteIds: string[], kept: Set<string>) => {
+  const order = remoteIds.filter(id => kept.has(id));
+  localIds.forEach((id, index) => {
+    if (!kept.has(id) || order.includes(id)) return;
+    const previous = localIds.slice(0, index).reverse().find(prev => order.includes(prev));
+    order.splice(previous === undefined ? 0 : order.indexOf(previous) + 1, 0, id);
+  });
+  return order;
+};
+
+const mergeMembers = <T>(
+  ids: { base: string[]; local: string[]; remote: string[] },
+  lookup: { base: Map<string, T>; local: Map<string, T>; remote: Map<string, T> },
+  path: Path,
+  conflicts: SyncFieldConflict[]
+): Map<string, T> => {
+  const merged = new Map<string, T>();
+  new Set([...ids.base, ...ids.local, ...ids.remote]).forEach(id => {
+    const base = lookup.base.get(id);
+    const local = lookup.local.get(id);
+    const remote = lookup.remote.get(id);
+    const memberPath = [...path, { id }];
+    if (local !== undefined && remote !== undefined) {
+      merged.set(id, mergeValue(base, local, remote, memberPath, conflicts) as T);
+    } else if (local !== undefined || remote !== undefined) {
+      const kept = (local ?? remote) as T;
+      // Added on one side, or removed on one side and untouched on the other.
+      if (base === undefined) {
+        merged.set(id, kept);
+      } else if (!same(base, kept)) {
+        conflicts.push({ path: memberPath, label: '', local: local ?? null, remote: remote ?? null });
+        if (local !== undefined) merged.set(id, local);
+      }
+    }
+  });
+  return merged;
+};
+
+const mergeEntities = (base: Entity[], local: Entity[], remote: Entity[], path: Path, conflicts: SyncFieldConflict[]) => {
+  const byId = (list: Entity[]) => new Map(list.map(item => [item.id, item] as const));
+  const ids = (list: Entity[]) => list.map(item => item.id);
+  const merged = mergeMembers(
+    { base: ids(base), local: ids(local), remote: ids(remote) },
+    { base: byId(base), local: byId(local), remote: byId(remote) },
+    path,
+    conflicts
+  );
+  return mergeOrder(ids(local), ids(remote), new Set(merged.keys())).map(id => merged.get(id)!);
+};
+
+const mergeIdList = (base: string[], local: string[], remote: string[], path: Path, conflicts: SyncFieldConflict[]) => {
+  const asMap = (list: string[]) => new Map(list.map(id => [id, id] as const));
+  const merged = mergeMembers({ base, local, remote }, { base: asMap(base), local: asMap(local), remote: asMap(remote) }, path, conflicts);
+  return mergeOrder(local, remote, new Set(merged.keys()));
+};
+
+const mergeObject = (base: Record<string, unknown>, local: Record<string, unknown>, remote: Record<string, unknown>, path: Path, conflicts: SyncFieldConflict[]) => {
+  const merged: Record<string, unknown> = {};
+  new Set([...Object.keys(local), ...Object.keys(remote)]).forEach(key => {
+    const value = mergeValue(base[key], local[key], remote[key], [...path, key], conflicts);
+    if (value !== undefined) merged[key] = value;
+  });
+  return merged;
+};
+
+/**
+ * Three-way merge of one value: a side that left the value as it was in
+ * `base` takes the other side's change. When both changed it, objects and
+ * lists of entities are merged member by member; anything else is a
+ * conflict, recorded in `conflicts` and provisionally settled for `local`.
+ */
+const mergeValue = (base: unknown, local: unknown, remote: unknown, path: Path, conflicts: SyncFieldConflict[]): unknown => {
+  if (same(local, remote)) return local;
+  if (same(base, local)) return remote;
+  if (same(base, remote)) return local;
+
+  const field = path[path.length - 1];
+  if (typeof field === 'string' && ID_LIST_FIELDS.has(field) && Array.isArray(local) && Array.isArray(remote)) {
+    return mergeIdList(Array.isArray(base) ? base : [], local, remote, path, conflicts);
+  }
+  if (isEntityList(local) && isEntityList(remote) && (local.length > 0 || remote.length > 0)) {
+    return mergeEntities(isEntityList(base) ? base : [], local, remote, path, conflicts);
+  }
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    return mergeObject(isPlainObject(base) ? base : {}, local, remote, path, conflicts);
+  }
+  conflicts.push({ path, label: '', local: local ?? null, remote: remote ?? null });
+  return local;
+};
+
+export interface MergeResult {
+  document: SyncDocument | null;
+  conflicts: SyncFieldConflict[];
+}
+
+/**
+ * Merges this device's copy of a document with the server's, given the last
+ * copy both agreed on. `null` stands for a deleted document; deleting a
+ * document that the other side edited is itself a conflict, with an empty path.
+ */
+export const mergeDocuments = (base: SyncDocument | null, local: SyncDocument | null, remote: SyncDocument | null): MergeResult => {
+  if (same(local, remote)) return { document: local, conflicts: [] };
+  if (same(base, local)) return { document: remote, conflicts: [] };
+  if (same(base, remote)) return { document: local, conflicts: [] };
+  if (!local || !remote) {
+    return { document: local, conflicts: [{ path: [], label: '', local, remote }] };
+  }
+  const conflicts: SyncFieldConflict[] = [];
+  const document = mergeObject(base || {}, local, remote, [], conflicts);
+  return { document, conflicts };
+};
+
+const setAt = (target: unknown, path: Path, value: unknown): unknown => {
+  if (path.length === 0) return value ?? null;
+  const [step, ...rest] = path;
+  if (typeof step === 'string') {
+    const object = isPlainObject(target) ? target : {};
+    if (rest.length === 0 && value == null) {
+      const { [step]: _, ...others } = object;
+      return others;
+    }
+    return { ...object, [step]: setAt(object[step], rest, value) };
+  }
+  const list = Array.isArray(target) ? target : [];
+  const isMember = (item: unknown) => item === step.id || (isPlainObject(item) && item.id === step.id);
+  const index = list.findIndex(isMember);
+  if (rest.length === 0 && value == null) return list.filter(item => !isMember(item));
+  if (index === -1) return [...list, rest.length === 0 ? value : setAt(undefined, rest, value)];
+  return list.map((item, i) => i === index ? setAt(item, rest, value) : item);
+};
+
+/** Settles one conflict in a merged document by taking one side's value. */
+export const resolveConflict = (document: SyncDocument | null, conflict: SyncFieldConflict, side: 'local' | 'remote'): SyncDocument | null =>
+  setAt(document, conflict.path, conflict[side]) as SyncDocument | null;
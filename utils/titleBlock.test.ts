@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { distributionList, documentReference, titleBlockFields } from './titleBlock';
+import { meetingFixture } from '../test/fixtures';
+import { ProjectDetails } from '../types';
+
+const practice = { name: 'Hale Architects', address: '', contact: '' };
+const details: ProjectDetails = { projectNumber: '2417', jobName: '', documentReference: 'HA-MIN-004', revision: 'C', distribution: [' Client ', '', 'QS'] };
+const meeting = meetingFixture({ name: 'Design review 4', dateCreated: '2024-03-01T10:00:00.000Z' });
+
+describe('titleBlockFields', () => {
+  it('fills the cells in reading order, the job falling back to the project name', () => {
+    expect(titleBlockFields({ practice, projectName: 'Riverside', details }, meeting)).toEqual([
+      { label: 'Project No.', value: '2417' },
+      { label: 'Job', value: 'Riverside' },
+      { label: 'Document Ref.', value: 'HA-MIN-004' },
+      { label: 'Revision', value: 'C' },
+      { label: 'Meeting', value: 'Design review 4' },
+      { label: 'Date', value: new Date('2024-03-01T10:00:00.000Z').toLocaleDateString() }
+    ]);
+  });
+
+  it('leaves the project cells empty for a project without details', () => {
+    const fields = titleBlockFields({ practice, projectName: 'Riverside' }, meeting);
+    expect(fields.slice(0, 4).map(f => f.value)).toEqual(['', 'Riverside', '', '']);
+  });
+});
+
+describe('documentReference', () => {
+  it('joins whichever of reference and revision is filled in', () => {
+    expect(documentReference(details)).toBe('HA-MIN-004 Rev C');
+    expect(documentReference({ ...details, documentReference: '' })).toBe('Rev C');
+    expect(documentReference({ ...details, revision: '' })).toBe('HA-MIN-004');
+    expect(documentReference(undefined)).toBe('');
+  });
+});
+
+describe('distributionList', () => {
+  it('trims names and drops blank lines', () => {
+    expect(distributionList(details)).toEqual(['Client', 'QS']);
+    expect(distributionList(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { Meeting, PracticeSettings, ProjectDetails } from '../types';
+import { EMPTY_PROJECT_DETAILS } from '../constants';
+
+/** Who issues a document and for which project; every export takes one. */
+export interface DocumentBranding {
+  practice: PracticeSettings;
+  projectName: string;
+  details?: ProjectDetails;
+}
+
+export interface TitleBlockField {
+  label: string;
+  value: string;
+}
+
+/** The labelled cells of a title block, in reading order. The job name falls back to the project's own name. */
+export const titleBlockFields = (branding: DocumentBranding, meeting: Meeting): TitleBlockField[] => {
+  const details = branding.details || EMPTY_PROJECT_DETAILS;
+  return [
+    { label: 'Project No.', value: details.projectNumber },
+    { label: 'Job', value: details.jobName || branding.projectName },
+    { label: 'Document Ref.', value: details.documentReference },
+    { label: 'Revision', value: details.revision },
+    { label: 'Meeting', value: meeting.name },
+    { label: 'Date', value: new Date(meeting.dateCreated).toLocaleDateString() }
+  ];
+};
+
+/** "AB-MIN-004 Rev C", or whichever half is filled in. */
+export const documentReference = (details?: ProjectDetails) =>
+  [details?.documentReference, details?.revision && `Rev ${details.revision}`].filter(Boolean).join(' ');
+
+export const distributionList = (details?: ProjectDetails) =>
+  (details?.distribution || []).map(name => name.trim()).filter(Boolean);
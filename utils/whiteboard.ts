@@ -0,0 +1,102 @@
+import { Whiteboard } from '../types';
+import { MarkupBounds, drawMarkup, loadImage, selectionBounds } from './markup';
+import { isPathExported, resolveLayers } from './layers';
+
+/** Pan and zoom of a board: a screen pixel at (sx, sy) shows board point (x + sx / zoom, y + sy / zoom). */
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export const MIN_BOARD_ZOOM = 0.1;
+export const MAX_BOARD_ZOOM = 8;
+
+const EXPORT_PADDING = 40;
+const EXPORT_MAX_SIZE = 4000;
+
+// Backgrounds keep the placement the fixed-size scratchpad gave them, so older markup still lines up.
+const BACKGROUND_MAX_WIDTH = 2000;
+
+/** The area an empty board frames on first view, matching the old fixed scratchpad. */
+export const DEFAULT_BOARD_FRAME: MarkupBounds = { minX: 0, minY: 0, maxX: 1600, maxY: 900 };
+
+export const createWhiteboard = (boards: Whiteboard[], image?: Pick<Whiteboard, 'image' | 'imageSource'>): Whiteboard => ({
+  id: crypto.randomUUID(),
+  name: `Board ${boards.length + 1}`,
+  markup: [],
+  ...image
+});
+
+/** Size of a background image on its board, in board units. */
+export const backgroundSize = (img: HTMLImageElement) => {
+  const width = Math.min(img.naturalWidth, BACKGROUND_MAX_WIDTH);
+  return { width, height: (img.naturalHeight / img.naturalWidth) * width };
+};
+
+/** Everything drawn on a board: its background and all of its markup. */
+export const boardBounds = (board: Whiteboard, background?: { width: number; height: number }): MarkupBounds | null => {
+  const markup = selectionBounds(board.markup);
+  const image = background ? { minX: 0, minY: 0, maxX: background.width, maxY: background.height } : null;
+  if (!markup || !image) return markup || image;
+  return {
+    minX: Math.min(markup.minX, image.minX),
+    minY: Math.min(markup.minY, image.minY),
+    maxX: Math.max(markup.maxX, image.maxX),
+    maxY: Math.max(markup.maxY, image.maxY)
+  };
+};
+
+export const clampZoom = (zoom: number) => Math.min(Math.max(zoom, MIN_BOARD_ZOOM), MAX_BOARD_ZOOM);
+
+export const screenToBoard = (view: Viewport, sx: number, sy: number) => ({ x: view.x + sx / view.zoom, y: view.y + sy / view.zoom });
+
+/** Zooms by `factor` while keeping the board point under screen point (sx, sy) in place. */
+export const zoomViewportAt = (view: Viewport, factor: number, sx: number, sy: number): Viewport => {
+  const zoom = clampZoom(view.zoom * factor);
+  return { zoom, x: view.x + sx / view.zoom - sx / zoom, y: view.y + sy / view.zoom - sy / zoom };
+};
+
+/** Moves the board with the pointer: dragging right by dx screen pixels shows what lies further left. */
+export const panViewport = (view: Viewport, dx: number, dy: number): Viewport =>
+  ({ ...view, x: view.x - dx / view.zoom, y: view.y - dy / view.zoom });
+
+/** The view that shows `bounds` whole and centred in a screen of `width` × `height`. */
+export const fitViewport = (bounds: MarkupBounds, width: number, height: number, padding = 32): Viewport => {
+  const contentWidth = Math.max(bounds.maxX - bounds.minX, 1);
+  const contentHeight = Math.max(bounds.maxY - bounds.minY, 1);
+  const zoom = clampZoom(Math.min((width - padding * 2) / contentWidth, (height - padding * 2) / contentHeight));
+  return {
+    zoom,
+    x: bounds.minX - (width / zoom - contentWidth) / 2,
+    y: bounds.minY - (height / zoom - contentHeight) / 2
+  };
+};
+
+/**
+ * Draws a board's background and the markup on its exported layers onto a
+ * white sheet cropped to the content, at most `EXPORT_MAX_SIZE` pixels on
+ * the long side. Returns null for a board with nothing on it.
+ */
+export const flattenWhiteboard = async (board: Whiteboard): Promise<HTMLCanvasElement | null> => {
+  const img = board.image ? await loadImage(board.image) : null;
+  const background = img ? backgroundSize(img) : undefined;
+  const bounds = boardBounds(board, background);
+  if (!bounds) return null;
+
+  const width = bounds.maxX - bounds.minX + EXPORT_PADDING * 2;
+  const height = bounds.maxY - bounds.minY + EXPORT_PADDING * 2;
+  const scale = Math.min(1, EXPORT_MAX_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(EXPORT_PADDING - bounds.minX, EXPORT_PADDING - bounds.minY);
+  if (img && background) ctx.drawImage(img, 0, 0, background.width, background.height);
+  const layers = resolveLayers(board.layers);
+  board.markup.filter(path => isPathExported(path, layers)).forEach(path => drawMarkup(ctx, path));
+  return canvas;
+};
@@ -1,7 +1,45 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readFileSync, readdirSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Fonts come in a subset per script and in woff as well as woff2; only the
+// woff2 Latin subsets are precached, the rest are cached on first use.
+const isPrecached = (file: string) =>
+  !file.endsWith('.map') && (!/\.woff2?$/.test(file) || /-latin(-ext)?-\d+-\w+-[\w-]+\.woff2$/.test(file));
+
+/**
+ * Emits `service-worker.js` with the list of files this build produced, so
+ * the installed app can precache its whole shell and run offline.
+ */
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'archinotes-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      const publicFiles = publicDir
+        ? readdirSync(publicDir, { recursive: true, withFileTypes: true })
+            .filter(entry => entry.isFile())
+            .map(entry => path.relative(publicDir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+        : [];
+      const files = [...Object.keys(bundle), ...publicFiles].filter(isPrecached).sort();
+      // Bundle file names carry content hashes already; public files are renamed by nobody, so their bytes count too.
+      const hash = createHash('sha256').update(files.join('\n'));
+      publicFiles.forEach(file => hash.update(readFileSync(path.join(publicDir, file))));
+      const version = hash.digest('hex').slice(0, 12);
+      const source = readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf8')
+        .replace('__CACHE_VERSION__', version)
+        .replace('self.__PRECACHE_MANIFEST__', JSON.stringify(['./', ...files.map(file => `./${file}`)], null, 2));
+      this.emitFile({ type: 'asset', fileName: 'service-worker.js', source });
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +47,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)